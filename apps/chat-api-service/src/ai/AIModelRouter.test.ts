@@ -2,9 +2,10 @@ import { AIModelRouter } from './AIModelRouter';
 import { ConfigurationService } from './ConfigurationService';
 import { OpenAIModelProvider } from './OpenAIModelProvider';
 import { CircuitBreakerManager } from './CircuitBreakerManager';
+import { ToolRegistry } from './tools/ToolRegistry';
 import { AIModelRequest, AIModelResult, IAIModelProvider, AIModelError } from '@kinable/common-types';
 import { RequestContext } from '@kinable/common-types';
-import { AiServiceConfiguration, ProviderConfig, ModelConfig } from '@kinable/common-types';
+import { AiServiceConfiguration, ProviderConfig, ModelConfig, RoutingRule } from '@kinable/common-types';
 import { IDatabaseProvider } from '@kinable/common-types';
 
 // Mock ConfigurationService
@@ -57,11 +58,13 @@ jest.mock('./AnthropicModelProvider', () => ({
 const mockIsRequestAllowed = jest.fn();
 const mockRecordSuccess = jest.fn();
 const mockRecordFailure = jest.fn();
+const mockGetRoutingStats = jest.fn();
 jest.mock('./CircuitBreakerManager', () => ({
   CircuitBreakerManager: jest.fn().mockImplementation(() => ({
     isRequestAllowed: mockIsRequestAllowed,
     recordSuccess: mockRecordSuccess,
     recordFailure: mockRecordFailure,
+    getRoutingStats: mockGetRoutingStats,
   })),
 }));
 
@@ -172,6 +175,7 @@ describe('AIModelRouter', () => {
     mockIsRequestAllowed.mockResolvedValue(true);
     mockRecordSuccess.mockResolvedValue(undefined);
     mockRecordFailure.mockResolvedValue(undefined);
+    mockGetRoutingStats.mockResolvedValue({});
 
     mockConfigServiceInstance = new (ConfigurationService as any)() as ConfigurationService;
 
@@ -222,6 +226,7 @@ describe('AIModelRouter', () => {
       isRequestAllowed: mockIsRequestAllowed,
       recordSuccess: mockRecordSuccess,
       recordFailure: mockRecordFailure,
+      getRoutingStats: mockGetRoutingStats,
     } as unknown as jest.Mocked<CircuitBreakerManager>;
 
     router = new AIModelRouter(mockConfigServiceInstance, MOCK_AWS_CLIENT_REGION, 'kinable-dev');
@@ -573,7 +578,7 @@ describe('AIModelRouter', () => {
     const request: AIModelRequest = { prompt: 'Test fulfillment fail', context: mockContext };
     const result = await router.routeRequest(request);
 
-    expect((mockOpenAIProvider.canFulfill as jest.Mock)).toHaveBeenCalledWith(request);
+    expect((mockOpenAIProvider.canFulfill as jest.Mock)).toHaveBeenCalledWith({ ...request, preferredModel: DEFAULT_OPENAI_MODEL });
 
     expect(result.ok).toBe(false);
     if (!result.ok) {
@@ -614,7 +619,7 @@ describe('AIModelRouter', () => {
     expect(result.ok).toBe(false);
     if (!result.ok) {
       expect(result.code).toBe('TIMEOUT');
-      const expectedDetail = 'All candidate providers failed to generate a response. Attempted/Considered: openai(auth)';
+      const expectedDetail = `All candidate providers failed to generate a response. Attempted/Considered: openai/${DEFAULT_OPENAI_MODEL}(auth)`;
       expect(result.detail).toBe(expectedDetail);
     }
   });
@@ -667,6 +672,177 @@ describe('AIModelRouter', () => {
     expect(mockRecordFailure).not.toHaveBeenCalledWith(`openai#${MOCK_AWS_CLIENT_REGION}`, expect.any(Number));
   });
 
+  describe('Streaming', () => {
+    const createStreamingProvider = (chunks: string[], error?: Error) => {
+      const provider = createMockProvider('openai');
+      (provider.generateResponse as jest.Mock).mockImplementation(async () => ({
+        ok: true,
+        text: '',
+        tokens: { prompt: 0, completion: 0, total: 0 },
+        meta: { provider: 'openai', model: DEFAULT_OPENAI_MODEL, features: ['streaming'], region: MOCK_AWS_CLIENT_REGION, latency: 50, timestamp: Date.now() },
+        stream: (async function* () {
+          yield* chunks;
+          if (error) {
+            throw error;
+          }
+        })()
+      }));
+      return provider;
+    };
+
+    test('should record circuit success only once the stream has been fully consumed', async () => {
+      router.clearProviders();
+      router.addProvider('openai', createStreamingProvider(['Hello', ' world']));
+
+      const result = await router.routeRequest({ prompt: 'Stream me', preferredProvider: 'openai', streaming: true, context: mockContext });
+
+      expect(result.ok).toBe(true);
+      expect(mockRecordSuccess).not.toHaveBeenCalled();
+      if (result.ok) {
+        const received: string[] = [];
+        for await (const chunk of result.stream!) {
+          received.push(chunk);
+        }
+        expect(received).toEqual(['Hello', ' world']);
+      }
+      expect(mockRecordSuccess).toHaveBeenCalledWith(`openai#${MOCK_AWS_CLIENT_REGION}`, expect.any(Number));
+      expect(mockRecordFailure).not.toHaveBeenCalled();
+    });
+
+    test('should record circuit failure when the stream fails mid-response', async () => {
+      router.clearProviders();
+      router.addProvider('openai', createStreamingProvider(['Hello'], new Error('Connection reset')));
+
+      const result = await router.routeRequest({ prompt: 'Stream me', preferredProvider: 'openai', streaming: true, context: mockContext });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const consume = async () => {
+          for await (const _chunk of result.stream!) {
+            // drain
+          }
+        };
+        await expect(consume()).rejects.toThrow('Connection reset');
+      }
+      expect(mockRecordFailure).toHaveBeenCalledWith(`openai#${MOCK_AWS_CLIENT_REGION}`, expect.any(Number));
+      expect(mockRecordSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Tool calling', () => {
+    const calculatorDefinition = { name: 'calculator', parameters: { type: 'object' } };
+    let toolRegistry: ToolRegistry;
+    let mockExecute: jest.Mock;
+
+    const toolCallResult = (id: string): AIModelResult => ({
+      ok: true,
+      text: '',
+      tokens: { prompt: 20, completion: 10, total: 30 },
+      meta: { provider: 'openai', model: DEFAULT_OPENAI_MODEL, features: ['function_calling'], region: MOCK_AWS_CLIENT_REGION, latency: 100, timestamp: Date.now() },
+      toolCalls: [{ id, name: 'calculator', arguments: { expression: '6*7' } }]
+    });
+
+    beforeEach(() => {
+      mockExecute = jest.fn().mockResolvedValue({ result: 42 });
+      toolRegistry = new ToolRegistry();
+      toolRegistry.register({ definition: calculatorDefinition, execute: mockExecute });
+      router = new AIModelRouter(mockConfigServiceInstance, MOCK_AWS_CLIENT_REGION, 'kinable-dev', {}, toolRegistry);
+    });
+
+    test('should execute requested tools and resume generation with their results', async () => {
+      const provider = createMockProvider('openai');
+      (provider.generateResponse as jest.Mock)
+        .mockResolvedValueOnce(toolCallResult('call_1'))
+        .mockResolvedValueOnce({
+          ok: true,
+          text: '6 x 7 is 42.',
+          tokens: { prompt: 40, completion: 8, total: 48 },
+          meta: { provider: 'openai', model: DEFAULT_OPENAI_MODEL, features: ['function_calling'], region: MOCK_AWS_CLIENT_REGION, latency: 100, timestamp: Date.now() }
+        });
+      router.addProvider('openai', provider);
+
+      const result = await router.routeRequest({ prompt: 'What is 6 x 7?', preferredProvider: 'openai', tools: [calculatorDefinition], context: mockContext });
+
+      expect(mockExecute).toHaveBeenCalledWith({ expression: '6*7' }, mockContext);
+      expect(provider.generateResponse).toHaveBeenCalledTimes(2);
+      expect((provider.generateResponse as jest.Mock).mock.calls[1][0].toolTurns).toEqual([{
+        calls: [{ id: 'call_1', name: 'calculator', arguments: { expression: '6*7' } }],
+        results: [{ name: 'calculator', callId: 'call_1', result: { result: 42 } }]
+      }]);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.text).toBe('6 x 7 is 42.');
+        expect(result.tokens).toEqual({ prompt: 60, completion: 18, total: 78 });
+        expect(result.toolResult).toEqual({ name: 'calculator', callId: 'call_1', result: { result: 42 } });
+      }
+      expect(mockRecordSuccess).toHaveBeenCalledTimes(1);
+    });
+
+    test('should stop after a bounded number of tool rounds', async () => {
+      const provider = createMockProvider('openai');
+      (provider.generateResponse as jest.Mock).mockImplementation(async () => toolCallResult('call_loop'));
+      router.addProvider('openai', provider);
+
+      const result = await router.routeRequest({ prompt: 'Loop forever', preferredProvider: 'openai', tools: [calculatorDefinition], context: mockContext });
+
+      // The initial call plus three resumed rounds
+      expect(provider.generateResponse).toHaveBeenCalledTimes(4);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.code).toBe('CAPABILITY');
+        // Every round was a billed call
+        expect(result.spent?.tokens).toEqual({ prompt: 80, completion: 40, total: 120 });
+        expect(result.spent?.meta.model).toBe(DEFAULT_OPENAI_MODEL);
+      }
+    });
+
+    test('should report the usage of earlier rounds when a later round fails, without trying another candidate', async () => {
+      const provider = createMockProvider('openai');
+      const anthropicProvider = createMockProvider('anthropic');
+      (provider.generateResponse as jest.Mock)
+        .mockResolvedValueOnce(toolCallResult('call_1'))
+        .mockResolvedValueOnce({ ok: false, code: 'RATE_LIMIT', provider: 'openai', status: 429, retryable: true, detail: 'Slow down' });
+      router.addProvider('openai', provider);
+      router.addProvider('anthropic', anthropicProvider);
+
+      const result = await router.routeRequest({ prompt: 'What is 6 x 7?', preferredProvider: 'openai', tools: [calculatorDefinition], context: mockContext });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.code).toBe('RATE_LIMIT');
+        expect(result.spent?.tokens).toEqual({ prompt: 20, completion: 10, total: 30 });
+        expect(result.spent?.meta.provider).toBe('openai');
+      }
+      expect(provider.generateResponse).toHaveBeenCalledTimes(2);
+      expect(anthropicProvider.generateResponse).not.toHaveBeenCalled();
+    });
+
+    describe('allowFallbackTools', () => {
+      const TOOL_MODEL = 'gpt-4o';
+
+      beforeEach(async () => {
+        const config = await getBaseConfig();
+        config.providers.openai.models[DEFAULT_OPENAI_MODEL].functionCallingSupport = false;
+        config.providers.openai.models[TOOL_MODEL] = { ...mockOpenAIModelConfig, id: TOOL_MODEL, functionCallingSupport: true };
+        mockGetConfiguration.mockResolvedValue(config);
+        router.addProvider('openai', mockGenericOpenAIProvider);
+      });
+
+      test('should switch to a function-calling model when the chosen model lacks support', async () => {
+        await router.routeRequest({ prompt: 'What is 6 x 7?', preferredProvider: 'openai', tools: [calculatorDefinition], allowFallbackTools: true, context: mockContext });
+
+        expect(mockGenericOpenAIProvider.canFulfill).toHaveBeenCalledWith(expect.objectContaining({ preferredModel: TOOL_MODEL }));
+        expect(mockGenericOpenAIProvider.generateResponse).toHaveBeenCalledWith(expect.objectContaining({ preferredModel: TOOL_MODEL }));
+      });
+
+      test('should keep the chosen model when fallback is not allowed', async () => {
+        await router.routeRequest({ prompt: 'What is 6 x 7?', preferredProvider: 'openai', tools: [calculatorDefinition], context: mockContext });
+
+        expect(mockGenericOpenAIProvider.generateResponse).toHaveBeenCalledWith(expect.objectContaining({ preferredModel: DEFAULT_OPENAI_MODEL }));
+      });
+    });
+  });
+
   test('should fallback to next preferred provider if first preferred is OPEN, and select cheaper of remaining', async () => {
     const request: AIModelRequest = {
       prompt: 'Test fallback to cheapest of remaining',
@@ -764,6 +940,535 @@ describe('AIModelRouter', () => {
     mockIsRequestAllowed.mockImplementation(() => Promise.resolve(true));
   });
 
+  describe('History trimming', () => {
+    const longHistory = Array.from({ length: 10 }, (_, i) => ({
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: `${i}${' token'.repeat(999)}` // 1000 tokens each
+    }));
+
+    test('should trim history to the selected model\'s context window', async () => {
+      await router.routeRequest({ prompt: 'Hi', preferredProvider: 'openai', maxTokens: 100, context: { ...mockContext, history: longHistory } });
+
+      // The 4096-token window fits three messages; the oldest of them is an assistant turn and is dropped too
+      const sentHistory = (mockGenericOpenAIProvider.generateResponse as jest.Mock).mock.calls[0][0].context.history;
+      expect(sentHistory).toEqual(longHistory.slice(8));
+    });
+
+    test('should keep history that fits', async () => {
+      await router.routeRequest({ prompt: 'Hi', preferredProvider: 'anthropic', maxTokens: 100, context: { ...mockContext, history: longHistory } });
+
+      const sentHistory = (mockGenericAnthropicProvider.generateResponse as jest.Mock).mock.calls[0][0].context.history;
+      expect(sentHistory).toEqual(longHistory);
+    });
+
+    test('should move system messages from the history into the system prompt', async () => {
+      const history = [
+        { role: 'system' as const, content: 'Summary: we talked about volcanoes.' },
+        { role: 'user' as const, content: 'Are they hot?' },
+        { role: 'assistant' as const, content: 'Very.' }
+      ];
+
+      await router.routeRequest({ prompt: 'Why?', preferredProvider: 'openai', systemPrompt: 'You are a tutor.', context: { ...mockContext, history } });
+
+      const sentRequest = (mockGenericOpenAIProvider.generateResponse as jest.Mock).mock.calls[0][0];
+      expect(sentRequest.systemPrompt).toBe('You are a tutor.\n\nSummary: we talked about volcanoes.');
+      expect(sentRequest.context.history).toEqual(history.slice(1));
+    });
+  });
+
+  describe('Age policies', () => {
+    const CHILD_MODEL = 'gpt-4o-mini';
+    const childContext: RequestContext = { ...mockContext, ageBand: '9_12' };
+
+    beforeEach(async () => {
+      const config = await getBaseConfig();
+      config.providers.openai.models[CHILD_MODEL] = { ...mockOpenAIModelConfig, id: CHILD_MODEL };
+      config.agePolicies = {
+        under_9: { systemPrompt: 'Speak simply.', maxTokens: 200 },
+        '9_12': {
+          systemPrompt: 'Keep answers suitable for a 9 to 12 year old.',
+          allowedModels: [CHILD_MODEL],
+          maxTokens: 500,
+          temperatureCap: 0.5
+        }
+      };
+      mockGetConfiguration.mockResolvedValue(config);
+    });
+
+    const sentRequest = (): AIModelRequest => (mockGenericOpenAIProvider.generateResponse as jest.Mock).mock.calls[0][0];
+
+    test('should cap maxTokens and temperature at the policy limits', async () => {
+      await router.routeRequest({ prompt: 'Hi', preferredProvider: 'openai', maxTokens: 2000, temperature: 0.9, context: childContext });
+
+      expect(sentRequest().maxTokens).toBe(500);
+      expect(sentRequest().temperature).toBe(0.5);
+    });
+
+    test('should put the policy prompt ahead of the request prompt', async () => {
+      await router.routeRequest({ prompt: 'Hi', preferredProvider: 'openai', systemPrompt: 'You are a tutor.', context: childContext });
+
+      expect(sentRequest().systemPrompt).toBe('Keep answers suitable for a 9 to 12 year old.\n\nYou are a tutor.');
+    });
+
+    test('should switch a disallowed model to one the policy allows', async () => {
+      const result = await router.routeRequest({ prompt: 'Hi', preferredProvider: 'openai', preferredModel: DEFAULT_OPENAI_MODEL, context: childContext });
+
+      expect(result.ok).toBe(true);
+      expect(sentRequest().preferredModel).toBe(CHILD_MODEL);
+    });
+
+    test('should skip providers without an allowed model', async () => {
+      const config = await mockConfigServiceInstance.getConfiguration();
+      config.routing.providerPreferenceOrder = ['anthropic', 'openai'];
+      mockGetConfiguration.mockResolvedValue(config);
+
+      const result = await router.routeRequest({ prompt: 'Hi', context: childContext });
+
+      expect(mockGenericAnthropicProvider.generateResponse).not.toHaveBeenCalled();
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.meta.provider).toBe('openai');
+      }
+    });
+
+    test('should apply the strictest policy when the request has no age band', async () => {
+      await router.routeRequest({ prompt: 'Hi', preferredProvider: 'openai', context: mockContext });
+
+      expect(sentRequest().maxTokens).toBe(200);
+      expect(sentRequest().systemPrompt).toBe('Speak simply.');
+    });
+  });
+
+  describe('Plan entitlements', () => {
+    const PREMIUM_MODEL = 'gpt-4o';
+    const freeContext: RequestContext = { ...mockContext, ageBand: 'adult', planId: 'free' };
+
+    beforeEach(async () => {
+      const config = await getBaseConfig();
+      config.providers.openai.models[PREMIUM_MODEL] = { ...mockOpenAIModelConfig, id: PREMIUM_MODEL, costPerMillionOutputTokens: 10 };
+      config.plans = {
+        free: { tier: 'free', name: 'Free', monthlyAllowance: 20000, rolloverCap: 0, allowedModels: [DEFAULT_OPENAI_MODEL] },
+        strict: { tier: 'free', name: 'Strict', monthlyAllowance: 20000, rolloverCap: 0, allowedModels: [DEFAULT_OPENAI_MODEL], disallowedModelAction: 'reject' },
+        premium: { tier: 'premium', name: 'Premium', monthlyAllowance: 1000000, rolloverCap: 500000 }
+      };
+      mockGetConfiguration.mockResolvedValue(config);
+    });
+
+    const sentRequest = (): AIModelRequest => (mockGenericOpenAIProvider.generateResponse as jest.Mock).mock.calls[0][0];
+
+    test('should downgrade a model the plan does not include', async () => {
+      const result = await router.routeRequest({ prompt: 'Hi', preferredModel: PREMIUM_MODEL, preferredProvider: 'openai', context: freeContext });
+
+      expect(result.ok).toBe(true);
+      expect(sentRequest().preferredModel).toBe(DEFAULT_OPENAI_MODEL);
+    });
+
+    test('should reject a model outside the plan when the plan says so', async () => {
+      const result = await router.routeRequest({
+        prompt: 'Hi',
+        preferredModel: PREMIUM_MODEL,
+        preferredProvider: 'openai',
+        context: { ...freeContext, planId: 'strict' }
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.code).toBe('CAPABILITY');
+        expect(result.status).toBe(403);
+        expect(result.detail).toContain('The Strict plan does not include the model gpt-4o');
+      }
+      expect(mockGenericOpenAIProvider.generateResponse).not.toHaveBeenCalled();
+    });
+
+    test('should skip providers with no model in the plan', async () => {
+      const result = await router.routeRequest({ prompt: 'Hi', context: freeContext });
+
+      expect(mockGenericAnthropicProvider.generateResponse).not.toHaveBeenCalled();
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.meta.provider).toBe('openai');
+      }
+    });
+
+    test('should refuse a preferred provider the plan has no model of', async () => {
+      const result = await router.routeRequest({ prompt: 'Hi', preferredProvider: 'anthropic', context: freeContext });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.status).toBe(403);
+        expect(result.detail).toContain('anthropic(model_not_in_plan)');
+      }
+    });
+
+    test('should let plans without a model list use any model', async () => {
+      await router.routeRequest({ prompt: 'Hi', preferredModel: PREMIUM_MODEL, preferredProvider: 'openai', context: { ...freeContext, planId: 'premium' } });
+
+      expect(sentRequest().preferredModel).toBe(PREMIUM_MODEL);
+    });
+  });
+
+  describe('Routing rules', () => {
+    const PREMIUM_MODEL = 'gpt-4o';
+
+    const useRules = async (rules: RoutingRule[]) => {
+      const config = await getBaseConfig();
+      config.providers.openai.models[PREMIUM_MODEL] = { ...mockOpenAIModelConfig, id: PREMIUM_MODEL, costPerMillionInputTokens: 5, costPerMillionOutputTokens: 15 };
+      config.routing.rules = rules;
+      mockGetConfiguration.mockResolvedValue(config);
+    };
+
+    test('should switch to the model a cost limit rule names', async () => {
+      await useRules([{ type: 'costLimit', maxTokenCost: 0.001, action: 'useModel', model: DEFAULT_OPENAI_MODEL }]);
+
+      const result = await router.routeRequest({ prompt: 'Hi', preferredProvider: 'openai', preferredModel: PREMIUM_MODEL, estimatedOutputTokens: 100, context: mockContext });
+
+      expect(result.ok).toBe(true);
+      expect((mockGenericOpenAIProvider.generateResponse as jest.Mock).mock.calls[0][0].preferredModel).toBe(DEFAULT_OPENAI_MODEL);
+    });
+
+    test('should try the provider a rule prefers first, whatever the scores', async () => {
+      await useRules([{ type: 'capability', required: ['chat'], preferredProvider: 'openai' }]);
+
+      const result = await router.routeRequest({ prompt: 'Hi', requiredCapabilities: ['chat'], context: mockContext });
+
+      expect(result.ok && result.meta.provider).toBe('openai');
+      expect(mockGenericAnthropicProvider.generateResponse).not.toHaveBeenCalled();
+    });
+
+    test('should refuse requests a rule rejects', async () => {
+      await useRules([{ type: 'priority', minPriority: 1, action: 'reject' }]);
+
+      const result = await router.routeRequest({ prompt: 'Hi', context: mockContext });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.code).toBe('CAPABILITY');
+        expect(result.status).toBe(403);
+        expect(result.detail).toContain('routing rule 0 (priority)');
+      }
+      expect(mockGenericOpenAIProvider.generateResponse).not.toHaveBeenCalled();
+    });
+
+    test('should explain rule decisions in the tried-providers trail', async () => {
+      await useRules([{ type: 'region', regions: ['eu-west-1'], preferredProvider: 'anthropic', action: 'fallback' }]);
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockResolvedValue({ ok: false, code: 'TIMEOUT', provider: 'anthropic', detail: 'Timed out', retryable: true, status: 408 });
+
+      const result = await router.routeRequest({ prompt: 'Hi', context: { ...mockContext, userRegion: 'eu-west-1' } });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.detail).toContain('anthropic(rule0:region:preferProvider)');
+        expect(result.detail).toContain(`openai/${DEFAULT_OPENAI_MODEL}(rule0:region:fallback)`);
+      }
+      expect(mockGenericOpenAIProvider.generateResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Multiple models per provider', () => {
+    const VISION_MODEL = 'gpt-4o';
+    const CHEAP_MODEL = 'gpt-4o-mini';
+
+    beforeEach(async () => {
+      const config = await getBaseConfig();
+      config.routing.providerPreferenceOrder = ['openai'];
+      config.providers.openai.models[VISION_MODEL] = { ...mockOpenAIModelConfig, id: VISION_MODEL, costPerMillionInputTokens: 5, costPerMillionOutputTokens: 15, capabilities: ['general', 'chat', 'vision'] };
+      config.providers.openai.models[CHEAP_MODEL] = { ...mockOpenAIModelConfig, id: CHEAP_MODEL, costPerMillionInputTokens: 0.15, costPerMillionOutputTokens: 0.6, contextWindow: 300 };
+      mockGetConfiguration.mockResolvedValue(config);
+    });
+
+    const sentModels = () => (mockGenericOpenAIProvider.generateResponse as jest.Mock).mock.calls.map(call => call[0].preferredModel);
+
+    test('should score every active model of a provider and pick the best', async () => {
+      await router.routeRequest({ prompt: 'Hi', context: mockContext });
+
+      expect(sentModels()).toEqual([CHEAP_MODEL]);
+    });
+
+    test('should only offer models with the capabilities the request requires', async () => {
+      await router.routeRequest({ prompt: 'What is in this picture?', requiredCapabilities: ['vision'], context: mockContext });
+
+      expect(sentModels()).toEqual([VISION_MODEL]);
+    });
+
+    test('should leave out models the request does not fit', async () => {
+      const result = await router.routeRequest({ prompt: 'x'.repeat(1000), context: mockContext });
+
+      expect(sentModels()).toEqual([DEFAULT_OPENAI_MODEL]);
+      expect(result.ok).toBe(true);
+    });
+
+    test('should try the next model when the best one fails', async () => {
+      (mockGenericOpenAIProvider.generateResponse as jest.Mock).mockResolvedValueOnce({ ok: false, code: 'TIMEOUT', provider: 'openai', detail: 'Timed out', retryable: true, status: 408 });
+
+      const result = await router.routeRequest({ prompt: 'Hi', context: mockContext });
+
+      expect(sentModels()).toEqual([CHEAP_MODEL, DEFAULT_OPENAI_MODEL]);
+      expect(result.ok).toBe(true);
+    });
+
+    test('should keep to the model the request asks for', async () => {
+      await router.routeRequest({ prompt: 'Hi', preferredModel: DEFAULT_OPENAI_MODEL, context: mockContext });
+
+      expect(sentModels()).toEqual([DEFAULT_OPENAI_MODEL]);
+    });
+  });
+
+  describe('Model fallback chain', () => {
+    const PREMIUM_MODEL = 'gpt-4o';
+    const MINI_MODEL = 'gpt-4o-mini';
+
+    beforeEach(async () => {
+      const config = await getBaseConfig();
+      config.providers.openai.models[PREMIUM_MODEL] = { ...mockOpenAIModelConfig, id: PREMIUM_MODEL, costPerMillionOutputTokens: 10 };
+      config.providers.openai.models[MINI_MODEL] = { ...mockOpenAIModelConfig, id: MINI_MODEL };
+      config.providers.openai.fallbackChain = [PREMIUM_MODEL, MINI_MODEL, DEFAULT_OPENAI_MODEL];
+      mockGetConfiguration.mockResolvedValue(config);
+    });
+
+    const failWith = (code: AIModelError['code'], detail: string) =>
+      (mockGenericOpenAIProvider.generateResponse as jest.Mock).mockResolvedValueOnce({ ok: false, code, provider: 'openai', detail, retryable: false, status: 400 });
+    const sentModels = () => (mockGenericOpenAIProvider.generateResponse as jest.Mock).mock.calls.map(call => call[0].preferredModel);
+
+    test('should step down the chain when a model is unavailable, before trying another provider', async () => {
+      const config = await getBaseConfig();
+      config.providers.anthropic.models[DEFAULT_ANTHROPIC_MODEL].costPerMillionOutputTokens = 100; // Ranks Anthropic after gpt-4o
+      mockGetConfiguration.mockResolvedValue(config);
+      failWith('CAPABILITY', 'The model gpt-4o does not exist');
+
+      const result = await router.routeRequest({ prompt: 'Hi', preferredModel: PREMIUM_MODEL, context: mockContext });
+
+      expect(result.ok && result.meta.model).toBe(MINI_MODEL);
+      expect(sentModels()).toEqual([PREMIUM_MODEL, MINI_MODEL]);
+      expect(mockGenericAnthropicProvider.generateResponse).not.toHaveBeenCalled();
+    });
+
+    test('should step down the chain when the request is too long for the model', async () => {
+      failWith('CONTENT', "This model's maximum context length is 8192 tokens.");
+
+      await router.routeRequest({ prompt: 'Hi', preferredModel: PREMIUM_MODEL, preferredProvider: 'openai', context: mockContext });
+
+      expect(sentModels()).toEqual([PREMIUM_MODEL, MINI_MODEL]);
+    });
+
+    test('should not step down for other content errors', async () => {
+      failWith('CONTENT', 'Request flagged by moderation');
+
+      const result = await router.routeRequest({ prompt: 'Hi', preferredModel: PREMIUM_MODEL, preferredProvider: 'openai', context: mockContext });
+
+      expect(sentModels()).toEqual([PREMIUM_MODEL]);
+      expect(result.ok).toBe(false);
+    });
+
+    test('should record each model attempt in the trail', async () => {
+      failWith('CAPABILITY', 'Not found');
+      failWith('CAPABILITY', 'Not found');
+      failWith('CAPABILITY', 'Not found');
+
+      const result = await router.routeRequest({ prompt: 'Hi', preferredModel: PREMIUM_MODEL, preferredProvider: 'openai', context: mockContext });
+
+      expect(sentModels()).toEqual([PREMIUM_MODEL, MINI_MODEL, DEFAULT_OPENAI_MODEL]);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.detail).toContain(`openai/${PREMIUM_MODEL}(capability), openai/${MINI_MODEL}(capability), openai/${DEFAULT_OPENAI_MODEL}(capability)`);
+      }
+    });
+
+    test('should only step down to models the plan includes', async () => {
+      const config = await getBaseConfig();
+      config.plans = { basic: { tier: 'family', name: 'Basic', monthlyAllowance: 1000, rolloverCap: 0, allowedModels: [PREMIUM_MODEL, DEFAULT_OPENAI_MODEL] } };
+      mockGetConfiguration.mockResolvedValue(config);
+      failWith('CAPABILITY', 'Not found');
+
+      await router.routeRequest({ prompt: 'Hi', preferredModel: PREMIUM_MODEL, preferredProvider: 'openai', context: { ...mockContext, planId: 'basic' } });
+
+      expect(sentModels()).toEqual([PREMIUM_MODEL, DEFAULT_OPENAI_MODEL]);
+    });
+  });
+
+  describe('Hedged requests', () => {
+    const answer = (provider: string, model: string): AIModelResult => ({ ok: true, text: `Response from ${provider}`, tokens: { prompt: 10, completion: 5, total: 15 }, meta: { provider, model, features: [], region: 'us-east-2', latency: 100, timestamp: Date.now() } });
+    // Answers after `ms`, or fails as soon as its call is aborted
+    const answerAfter = (ms: number, result: AIModelResult) => async (request: AIModelRequest): Promise<AIModelResult> =>
+      new Promise(resolve => {
+        const timer = setTimeout(() => resolve(result), ms);
+        request.abortSignal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolve({ ok: false, code: 'UNKNOWN', provider: result.ok ? result.meta.provider : 'unknown', detail: 'Request was aborted.', retryable: true, status: 499 });
+        });
+      });
+
+    beforeEach(async () => {
+      const config = await getBaseConfig();
+      config.routing.hedging = { enabled: true, latencyPercent: 100 };
+      mockGetConfiguration.mockResolvedValue(config);
+      mockGetRoutingStats.mockResolvedValue({ avgLatencyMs: 20 }); // Anthropic, the cheaper, ranks first
+    });
+
+    test('should return the hedge when the first candidate is slow, abort the other and not count it as a failure', async () => {
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(answerAfter(1000, answer('anthropic', DEFAULT_ANTHROPIC_MODEL)));
+      (mockGenericOpenAIProvider.generateResponse as jest.Mock).mockImplementationOnce(answerAfter(0, answer('openai', DEFAULT_OPENAI_MODEL)));
+
+      const result = await router.routeRequest({ prompt: 'Hi', context: mockContext });
+
+      expect(result.ok && result.meta.provider).toBe('openai');
+      const slowRequest: AIModelRequest = (mockGenericAnthropicProvider.generateResponse as jest.Mock).mock.calls[0][0];
+      expect(slowRequest.abortSignal?.aborted).toBe(true);
+      expect(mockRecordFailure).not.toHaveBeenCalled();
+      expect(mockRecordSuccess).toHaveBeenCalledTimes(1);
+      expect(mockRecordSuccess).toHaveBeenCalledWith(`openai#${MOCK_AWS_CLIENT_REGION}`, expect.any(Number));
+    });
+
+    test('should not hedge when the first candidate answers in time', async () => {
+      const result = await router.routeRequest({ prompt: 'Hi', context: mockContext });
+
+      expect(result.ok && result.meta.provider).toBe('anthropic');
+      expect(mockGenericOpenAIProvider.generateResponse).not.toHaveBeenCalled();
+    });
+
+    test('should wait for the other call when one fails, and count only the real failure', async () => {
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(answerAfter(40, { ok: false, code: 'TIMEOUT', provider: 'anthropic', detail: 'Timed out', retryable: true, status: 504 }));
+      (mockGenericOpenAIProvider.generateResponse as jest.Mock).mockImplementationOnce(answerAfter(60, answer('openai', DEFAULT_OPENAI_MODEL)));
+
+      const result = await router.routeRequest({ prompt: 'Hi', context: mockContext });
+
+      expect(result.ok && result.meta.provider).toBe('openai');
+      expect(mockRecordFailure).toHaveBeenCalledTimes(1);
+      expect(mockRecordFailure).toHaveBeenCalledWith(`anthropic#${MOCK_AWS_CLIENT_REGION}`, expect.any(Number));
+      expect(mockGenericAnthropicProvider.generateResponse).toHaveBeenCalledTimes(1);
+    });
+
+    test('should only hedge chats of the configured age bands', async () => {
+      const config = await getBaseConfig();
+      config.routing.hedging = { enabled: true, latencyPercent: 100, ageBands: ['under_9'] };
+      mockGetConfiguration.mockResolvedValue(config);
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(answerAfter(60, answer('anthropic', DEFAULT_ANTHROPIC_MODEL)));
+
+      const result = await router.routeRequest({ prompt: 'Hi', context: { ...mockContext, ageBand: '13_15' } });
+
+      expect(result.ok && result.meta.provider).toBe('anthropic');
+      expect(mockGenericOpenAIProvider.generateResponse).not.toHaveBeenCalled();
+    });
+
+    test('should not hedge streamed chats', async () => {
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(answerAfter(60, answer('anthropic', DEFAULT_ANTHROPIC_MODEL)));
+
+      await router.routeRequest({ prompt: 'Hi', streaming: true, context: mockContext });
+
+      expect(mockGenericOpenAIProvider.generateResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Deadlines', () => {
+    // Never answers; fails once its call is aborted, as the SDKs do
+    const hangUntilAborted = async (request: AIModelRequest): Promise<AIModelResult> =>
+      new Promise(resolve => {
+        const aborted = () => resolve({ ok: false, code: 'UNKNOWN', provider: request.preferredProvider || 'unknown', detail: 'Request was aborted.', retryable: true, status: 499 });
+        if (request.abortSignal?.aborted) aborted();
+        request.abortSignal?.addEventListener('abort', aborted);
+      });
+    const calls = (provider: IAIModelProvider): AIModelRequest[] => (provider.generateResponse as jest.Mock).mock.calls.map(call => call[0]);
+
+    test('should share the deadline among the attempts and move on when one overruns its share', async () => {
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(hangUntilAborted);
+
+      const result = await router.routeRequest({ prompt: 'Hi', deadlineMs: 200, context: mockContext });
+
+      expect(result.ok && result.meta.provider).toBe('openai');
+      const [first] = calls(mockGenericAnthropicProvider);
+      const [second] = calls(mockGenericOpenAIProvider);
+      expect(first.deadlineMs).toBeLessThanOrEqual(100);
+      expect(second.deadlineMs).toBeGreaterThan(50);
+      expect(first.abortSignal?.aborted).toBe(true);
+      expect(mockRecordFailure).toHaveBeenCalledWith(`anthropic#${MOCK_AWS_CLIENT_REGION}`, expect.any(Number));
+    });
+
+    test('should return a timeout with the attempts once the deadline passes', async () => {
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(hangUntilAborted);
+      (mockGenericOpenAIProvider.generateResponse as jest.Mock).mockImplementationOnce(hangUntilAborted);
+
+      const result = await router.routeRequest({ prompt: 'Hi', deadlineMs: 100, context: mockContext });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.code).toBe('TIMEOUT');
+        expect(result.status).toBe(504);
+        expect(result.detail).toContain('deadline of 100ms passed after 2 attempt(s)');
+        expect(result.detail).toContain(`anthropic/${DEFAULT_ANTHROPIC_MODEL}(timeout)`);
+        expect(result.detail).toContain(`openai/${DEFAULT_OPENAI_MODEL}(timeout)`);
+      }
+    });
+
+    test('should stop when the caller cancels, without counting it against the provider', async () => {
+      const caller = new AbortController();
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(async (request: AIModelRequest) => {
+        caller.abort();
+        return hangUntilAborted(request);
+      });
+
+      const result = await router.routeRequest({ prompt: 'Hi', abortSignal: caller.signal, context: mockContext });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.detail).toContain('Request was cancelled.');
+        expect(result.detail).toContain(`anthropic/${DEFAULT_ANTHROPIC_MODEL}(cancelled)`);
+      }
+      expect(mockGenericOpenAIProvider.generateResponse).not.toHaveBeenCalled();
+      expect(mockRecordFailure).not.toHaveBeenCalled();
+    });
+
+    test('should time each attempt from its own start', async () => {
+      (mockGenericAnthropicProvider.generateResponse as jest.Mock).mockImplementationOnce(async () => {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return { ok: false, code: 'RATE_LIMIT', provider: 'anthropic', detail: 'Slow down', retryable: true, status: 429 };
+      });
+
+      await router.routeRequest({ prompt: 'Hi', context: mockContext });
+
+      const [, failedMs] = mockRecordFailure.mock.calls[0];
+      const [, succeededMs] = mockRecordSuccess.mock.calls[0];
+      expect(failedMs).toBeGreaterThanOrEqual(45);
+      expect(succeededMs).toBeLessThan(45);
+    });
+  });
+
+  describe('Multi-factor scoring', () => {
+    const request: AIModelRequest = { prompt: 'Hi', estimatedInputTokens: 15, estimatedOutputTokens: 100, context: mockContext };
+
+    // Anthropic is the cheaper of the two in the base config
+    const routeWithWeights = async (weights: AiServiceConfiguration['routing']['weights'], ratings: Record<string, number> = {}) => {
+      const config = await getBaseConfig();
+      config.routing.weights = weights;
+      config.providers.openai.models[DEFAULT_OPENAI_MODEL].qualityRating = ratings.openai;
+      config.providers.anthropic.models[DEFAULT_ANTHROPIC_MODEL].qualityRating = ratings.anthropic;
+      mockGetConfiguration.mockResolvedValue(config);
+      const result = await router.routeRequest(request);
+      return result.ok ? result.meta.provider : undefined;
+    };
+
+    test('should route on cost when cost carries the weight', async () => {
+      mockGetRoutingStats.mockImplementation(async (key: string) => key.startsWith('openai') ? { avgLatencyMs: 200 } : { avgLatencyMs: 2000 });
+
+      expect(await routeWithWeights({ cost: 0.7, quality: 0.1, latency: 0.1, availability: 0.1 })).toBe('anthropic');
+    });
+
+    test('should route to the faster provider when latency carries the weight', async () => {
+      mockGetRoutingStats.mockImplementation(async (key: string) => key.startsWith('openai') ? { avgLatencyMs: 200 } : { avgLatencyMs: 2000 });
+
+      expect(await routeWithWeights({ cost: 0.1, quality: 0.1, latency: 0.7, availability: 0.1 })).toBe('openai');
+      expect(mockGetRoutingStats).toHaveBeenCalledWith(`openai#${MOCK_AWS_CLIENT_REGION}`);
+    });
+
+    test('should route away from a provider that has been failing recently', async () => {
+      mockGetRoutingStats.mockImplementation(async (key: string) => key.startsWith('openai') ? { successRate: 1 } : { successRate: 0.2 });
+
+      expect(await routeWithWeights({ cost: 0.1, quality: 0.1, latency: 0.1, availability: 0.7 })).toBe('openai');
+    });
+
+    test('should route to the higher rated model when quality carries the weight', async () => {
+      expect(await routeWithWeights({ cost: 0.1, quality: 0.7, latency: 0.1, availability: 0.1 }, { openai: 0.9, anthropic: 0.6 })).toBe('openai');
+    });
+  });
+
   describe('Configuration and Error Handling', () => {
     beforeEach(() => {
       if (router) {
@@ -2,14 +2,28 @@ import {
   IAIModelProvider, 
   AIModelRequest, 
   AIModelResult,
+  AIModelSuccess,
   AIModelError,
   AiServiceConfiguration, 
+  ModelConfig,
+  ToolResult,
+  ToolTurn,
   DEFAULT_ROUTING_WEIGHTS 
 } from '@kinable/common-types';
 import { CircuitBreakerManager } from './CircuitBreakerManager';
 import { ConfigurationService } from './ConfigurationService';
 import { OpenAIModelProvider } from './OpenAIModelProvider';
 import { AnthropicModelProvider } from './AnthropicModelProvider';
+import { ToolRegistry } from './tools/ToolRegistry';
+import { TokenEstimate, estimateRequestTokens } from './tokenEstimator';
+import { tokenizerFamily } from './tokenizers';
+import { isContextLengthError } from './standardizeError';
+import { fitRequestToContextWindow, fitsContextWindow, splitSystemMessages } from './history';
+import { resolveAgePolicy, applyAgePolicyLimits, isModelAllowed, mergeSystemPrompt } from './agePolicy';
+import { isModelInPlan, rejectsDisallowedModels, resolvePlan } from './planEntitlements';
+import { RoutingSignals, scoreCandidates } from './routingScore';
+import { applyRoutingRules, orderProvidersByRules } from './routingRules';
+import { AttemptSignal, attemptBudgetMs, createAttemptSignal } from './deadline';
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 import { Tracer } from '@aws-lambda-powertools/tracer';
@@ -17,8 +31,33 @@ import { Tracer } from '@aws-lambda-powertools/tracer';
 // TODO: Get this from environment variables like other table names
 const DEFAULT_PROVIDER_HEALTH_TABLE_NAME = process.env.PROVIDER_HEALTH_TABLE || 'KinableProviderHealth-dev';
 
+// Upper bound on call -> execute -> resume rounds for a single request
+const MAX_TOOL_ROUNDS = 3;
+
 const tracer = new Tracer({ serviceName: 'AIModelRouter' });
 
+// A provider and model the router can send the request to
+interface RoutingCandidate extends RoutingSignals {
+  name: string;
+  provider: IAIModelProvider; // Added for direct access post-initialization
+  modelName: string;
+  score: number;
+  healthKey: string;
+  preferredByRule: boolean;
+}
+
+// A provider, or one of its models, the router considered and why it was or was not used
+interface TriedProvider {
+  name: string;
+  model?: string;
+  reason?: string;
+}
+
+// How a call to a candidate ended: with a result, or with an error the provider threw
+type AttemptOutcome =
+  | { candidate: RoutingCandidate; result: AIModelResult }
+  | { candidate: RoutingCandidate; error: unknown };
+
 /**
  * AIModelRouter selects the appropriate AI provider and model based on request requirements
  */
@@ -28,6 +67,7 @@ export class AIModelRouter {
   private routerAwsRegion: string;
   private routerStage: string;
   private circuitBreakerManager: CircuitBreakerManager;
+  private toolRegistry: ToolRegistry;
   
   /**
    * Create a new AIModelRouter
@@ -35,16 +75,19 @@ export class AIModelRouter {
    * @param routerRegion The AWS region for AWS service clients initiated by the router itself.
    * @param routerStage The deployment stage (e.g., 'kinable-dev') for placeholder replacement.
    * @param initialProviders Optional initial providers.
+   * @param toolRegistry Optional registry used to execute tool calls requested by the model.
    */
   constructor(
     configService: ConfigurationService,
     routerRegion: string,
     routerStage: string,
-    initialProviders: Record<string, IAIModelProvider> = {}
+    initialProviders: Record<string, IAIModelProvider> = {},
+    toolRegistry: ToolRegistry = new ToolRegistry()
   ) {
     this.configService = configService;
     this.routerAwsRegion = routerRegion;
     this.routerStage = routerStage;
+    this.toolRegistry = toolRegistry;
     
     const ddbClient = new DynamoDBClient({ region: this.routerAwsRegion });
     const ddbDocClient = DynamoDBDocumentClient.from(ddbClient);
@@ -138,26 +181,38 @@ export class AIModelRouter {
   @tracer.captureMethod()
   public async routeRequest(request: AIModelRequest & { estimatedInputTokens?: number; estimatedOutputTokens?: number }): Promise<AIModelResult> {
     const startTime = Date.now(); // Ensure startTime is here and only here at the top
+    const deadline = request.deadlineMs !== undefined ? startTime + request.deadlineMs : undefined; // When routing must give up
     let config: AiServiceConfiguration | null = null;
-    let triedProvidersInfo: Array<{ name: string; reason?: string }> = [];
+    let triedProvidersInfo: TriedProvider[] = [];
 
     try {
       config = await this.configService.getConfiguration();
-      const { 
-        estimatedInputTokens,
-        estimatedOutputTokens,
-        maxTokens: requestMaxTokens,
-        prompt
-      } = request;
-
-      let candidateProviders: Array<{ 
-        name: string; 
-        provider: IAIModelProvider; // Added for direct access post-initialization
-        modelName: string; 
-        estimatedCost: number; 
-        score: number; 
-        healthKey: string;
-      }> = [];
+
+      // Age-band guardrails for the calling profile; they cap the request before anything else uses it
+      const agePolicy = resolveAgePolicy(config, request.context?.ageBand);
+      if (agePolicy) {
+        request = applyAgePolicyLimits(request, agePolicy);
+      }
+      // Token estimates per tokenizer family; models of a family count the request alike
+      const tokenEstimates = new Map<string, TokenEstimate>();
+      const estimateTokens = (modelId: string): TokenEstimate => {
+        const family = tokenizerFamily(modelId);
+        let estimate = tokenEstimates.get(family);
+        if (!estimate) {
+          estimate = estimateRequestTokens(request, modelId);
+          tokenEstimates.set(family, estimate);
+        }
+        return estimate;
+      };
+
+      // Models the family's subscription plan includes; asking for another is refused or downgraded
+      const plan = resolvePlan(config, request.context?.planId);
+      if (request.preferredModel && !isModelInPlan(plan, request.preferredModel) && rejectsDisallowedModels(plan)) {
+        console.warn(`[AIModelRouter] Model ${request.preferredModel} is not included in plan ${request.context?.planId}. Rejecting.`);
+        return this.createError('CAPABILITY', `The ${plan!.name} plan does not include the model ${request.preferredModel}.`, 403, false);
+      }
+
+      let candidateProviders: RoutingCandidate[] = [];
 
       // Use providerPreferenceOrder from config or fallback to a default if not available
       const providerOrder = config.routing?.providerPreferenceOrder || 
@@ -165,10 +220,22 @@ export class AIModelRouter {
 
       const initialProvidersToConsider = request.preferredProvider
         ? [{ name: request.preferredProvider, reason: 'request_preferred' }]
-        : providerOrder.map((name: string) => ({ name, reason: 'preference_order' }));
+        : orderProvidersByRules(config.routing?.rules, request, providerOrder);
 
-      for (const { name: providerName } of initialProvidersToConsider) {
+      // Cost of the request on a model (per 1M tokens pricing), from its tokenizer's estimate
+      const estimateCost = (modelConfig: ModelConfig): number => {
+        const { inputTokens: estInput, outputTokens: estOutput } = estimateTokens(modelConfig.id);
+        const inputCostPerMillion = modelConfig.costPerMillionInputTokens ?? 0.50; // Default, e.g. gpt-3.5-turbo
+        const outputCostPerMillion = modelConfig.costPerMillionOutputTokens ?? 1.50; // Default, e.g. gpt-3.5-turbo
+        return ((estInput / 1000000) * inputCostPerMillion) + ((estOutput / 1000000) * outputCostPerMillion);
+      };
+
+      for (const { name: providerName, reason: consideredFor } of initialProvidersToConsider) {
         if (triedProvidersInfo.some(p => p.name === providerName)) continue; // Already evaluated or tried
+        const preferredByRule = consideredFor.startsWith('rule');
+        if (preferredByRule) {
+          triedProvidersInfo.push({ name: providerName, reason: consideredFor });
+        }
 
         const providerConfig = config.providers[providerName];
         if (!providerConfig || !providerConfig.active) {
@@ -213,66 +280,152 @@ export class AIModelRouter {
             continue;
         }
 
-        if (!(await providerInstance.canFulfill(request))) {
-          triedProvidersInfo.push({ name: providerName, reason: 'cannot_fulfill' });
-          console.warn(`[AIModelRouter] Provider ${providerName} cannot fulfill request capabilities. Skipping.`);
-          continue;
-        }
-
-        const modelName = request.preferredModel && providerConfig.models[request.preferredModel]
-          ? request.preferredModel
-          : providerConfig.defaultModel;
-        
-        if (!modelName) {
-            triedProvidersInfo.push({ name: providerName, reason: 'no_model_available' });
-            console.warn(`[AIModelRouter] No suitable model found for provider ${providerName}. Skipping.`);
+        // A model the request asks for is the provider's only candidate; otherwise every model it offers is
+        const explicitModel = request.preferredModel && providerConfig.models[request.preferredModel] ? request.preferredModel : undefined;
+        let modelsToConsider: string[];
+        if (explicitModel) {
+          modelsToConsider = [explicitModel];
+        } else {
+          const activeModels = [...new Set([providerConfig.defaultModel, ...Object.keys(providerConfig.models)])]
+            .filter((id): id is string => !!id && !!providerConfig.models[id]?.active);
+          const ageAllowedModels = activeModels.filter(id => isModelAllowed(agePolicy, id));
+          if (activeModels.length > 0 && ageAllowedModels.length === 0) {
+            triedProvidersInfo.push({ name: providerName, reason: 'model_not_allowed_for_age_band' });
+            console.warn(`[AIModelRouter] No model of ${providerName} is allowed for age band ${request.context?.ageBand ?? 'unknown'}. Skipping.`);
             continue;
+          }
+          modelsToConsider = ageAllowedModels.filter(id => isModelInPlan(plan, id));
+          if (ageAllowedModels.length > 0 && modelsToConsider.length === 0) {
+            triedProvidersInfo.push({ name: providerName, reason: 'model_not_in_plan' });
+            console.warn(`[AIModelRouter] No model of ${providerName} is included in plan ${request.context?.planId}. Skipping.`);
+            continue;
+          }
         }
-        const modelConfig = providerConfig.models[modelName];
-        if (!modelConfig || !modelConfig.active) {
-          triedProvidersInfo.push({ name: providerName, reason: `model_${modelName}_inactive_or_not_configured` });
-          console.warn(`[AIModelRouter] Model ${modelName} for provider ${providerName} is not configured or not active. Skipping.`);
+        if (modelsToConsider.length === 0) {
+          triedProvidersInfo.push({ name: providerName, reason: 'no_model_available' });
+          console.warn(`[AIModelRouter] No suitable model found for provider ${providerName}. Skipping.`);
           continue;
         }
 
-        // Cost Calculation (per 1M tokens)
-        const estInput = estimatedInputTokens ?? Math.ceil(prompt.length / 4); // Simple heuristic
-        const estOutput = estimatedOutputTokens ?? requestMaxTokens ?? 256; // Default to 256 if no other estimate
-        
-        // Access new cost fields and adjust calculation from per 1K to per 1M
-        const inputCostPerMillion = modelConfig.costPerMillionInputTokens ?? 0.50; // Default, e.g. gpt-3.5-turbo
-        const outputCostPerMillion = modelConfig.costPerMillionOutputTokens ?? 1.50; // Default, e.g. gpt-3.5-turbo
-        
-        const cost = ((estInput / 1000000) * inputCostPerMillion) + ((estOutput / 1000000) * outputCostPerMillion);
-
-        // Scoring (simplified for now)
-        // Lower cost is better, so invert for score contribution if not 0.
-        const costScoreFactor = cost > 0 ? 1 / cost : 1; // Avoid division by zero, higher is better for score part
-        const availabilityScoreFactor = 1; // Already passed circuit breaker
-        // TODO: Incorporate real latency and quality scores later
-        const latencyScoreFactor = 1; 
-        const qualityScoreFactor = 1; 
-
-        const routingWeights = config.routing?.weights || DEFAULT_ROUTING_WEIGHTS; // Use imported default
-        const score =
-          (costScoreFactor * routingWeights.cost) +
-          (availabilityScoreFactor * routingWeights.availability) +
-          (latencyScoreFactor * routingWeights.latency) +
-          (qualityScoreFactor * routingWeights.quality);
-
-        candidateProviders.push({
-          name: providerName,
-          provider: providerInstance, // Store initialized instance
-          modelName,
-          estimatedCost: cost,
-          score,
-          healthKey
-        });
-        triedProvidersInfo.push({ name: providerName, reason: 'added_to_candidates' });
+        const { avgLatencyMs, successRate } = await this.circuitBreakerManager.getRoutingStats(healthKey);
+
+        for (const consideredModel of modelsToConsider) {
+          let modelName = consideredModel;
+
+          // When tools are requested and the chosen model cannot call them, optionally switch to one that can
+          const needsTools = !!request.tools && request.tools.length > 0;
+          let fulfillmentRequest: AIModelRequest = { ...request, preferredModel: modelName };
+          if (needsTools && request.allowFallbackTools && !providerConfig.models[modelName]?.functionCallingSupport) {
+            if (!explicitModel) {
+              continue; // The provider's tool-capable models are candidates of their own
+            }
+            const toolCapableModel = Object.keys(providerConfig.models)
+              .find(id => providerConfig.models[id].active && providerConfig.models[id].functionCallingSupport);
+            if (toolCapableModel) {
+              console.log(`[AIModelRouter] Model ${modelName} lacks function calling. Falling back to ${toolCapableModel} for ${providerName}.`);
+              modelName = toolCapableModel;
+              fulfillmentRequest = { ...request, preferredModel: modelName };
+            }
+          }
+
+          // Keep the profile to the models its age policy allows, switching to an allowed one if needed
+          if (!isModelAllowed(agePolicy, modelName)) {
+            const allowedModel = [providerConfig.defaultModel, ...Object.keys(providerConfig.models)]
+              .find((id): id is string => !!id && !!providerConfig.models[id]?.active && isModelAllowed(agePolicy, id));
+            if (!allowedModel) {
+              triedProvidersInfo.push({ name: providerName, reason: 'model_not_allowed_for_age_band' });
+              console.warn(`[AIModelRouter] No model of ${providerName} is allowed for age band ${request.context?.ageBand ?? 'unknown'}. Skipping.`);
+              continue;
+            }
+            console.log(`[AIModelRouter] Model ${modelName} is not allowed for age band ${request.context?.ageBand ?? 'unknown'}. Using ${allowedModel}.`);
+            modelName = allowedModel;
+            fulfillmentRequest = { ...request, preferredModel: modelName };
+          }
+
+          // Likewise keep the family to the models its plan includes
+          if (!isModelInPlan(plan, modelName)) {
+            const includedModel = [providerConfig.defaultModel, ...Object.keys(providerConfig.models)]
+              .find((id): id is string => !!id && !!providerConfig.models[id]?.active && isModelAllowed(agePolicy, id) && isModelInPlan(plan, id));
+            if (!includedModel) {
+              triedProvidersInfo.push({ name: providerName, reason: 'model_not_in_plan' });
+              console.warn(`[AIModelRouter] No model of ${providerName} is included in plan ${request.context?.planId}. Skipping.`);
+              continue;
+            }
+            console.log(`[AIModelRouter] Model ${modelName} is not included in plan ${request.context?.planId}. Using ${includedModel}.`);
+            modelName = includedModel;
+            fulfillmentRequest = { ...request, preferredModel: modelName };
+          }
+
+          // Routing rules from the configuration can switch the model, skip it or refuse the request
+          if (providerConfig.models[modelName]) {
+            const ruleOutcome = applyRoutingRules(config.routing?.rules, request, {
+              providerName,
+              modelName,
+              models: providerConfig.models,
+              estimateCost,
+              isModelEligible: id => isModelAllowed(agePolicy, id) && isModelInPlan(plan, id),
+            });
+            ruleOutcome.decisions.forEach(reason => triedProvidersInfo.push({ name: providerName, model: modelName, reason }));
+            if (ruleOutcome.outcome === 'reject') {
+              console.warn(`[AIModelRouter] Routing rule ${ruleOutcome.ruleIndex} (${ruleOutcome.rule.type}) rejected the request for ${providerName}.`);
+              return this.createError('CAPABILITY', `Request refused by routing rule ${ruleOutcome.ruleIndex} (${ruleOutcome.rule.type}).`, 403, false);
+            }
+            if (ruleOutcome.outcome === 'skip') {
+              console.warn(`[AIModelRouter] Routing rules skipped ${providerName} model ${modelName}: ${ruleOutcome.decisions.join(', ')}.`);
+              continue;
+            }
+            if (ruleOutcome.modelName !== modelName) {
+              console.log(`[AIModelRouter] Routing rules moved ${providerName} from ${modelName} to ${ruleOutcome.modelName}.`);
+              modelName = ruleOutcome.modelName;
+              fulfillmentRequest = { ...request, preferredModel: modelName };
+            }
+          }
+
+          // A switch above can land on a model that is already a candidate
+          if (candidateProviders.some(c => c.name === providerName && c.modelName === modelName)) {
+            continue;
+          }
+
+          const modelConfig = providerConfig.models[modelName];
+          if (!modelConfig || !modelConfig.active) {
+            triedProvidersInfo.push({ name: providerName, model: modelName, reason: 'inactive_or_not_configured' });
+            console.warn(`[AIModelRouter] Model ${modelName} for provider ${providerName} is not configured or not active. Skipping.`);
+            continue;
+          }
+
+          // Models the request does not fit are left out; history is trimmed to fit later, the rest of it cannot be
+          if (!explicitModel && !modelMeetsRequest(modelConfig, request)) {
+            triedProvidersInfo.push({ name: providerName, model: modelName, reason: 'model_cannot_fulfill' });
+            continue;
+          }
+
+          if (!(await providerInstance.canFulfill(fulfillmentRequest))) {
+            triedProvidersInfo.push({ name: providerName, model: modelName, reason: 'cannot_fulfill' });
+            console.warn(`[AIModelRouter] Provider ${providerName} cannot fulfill request capabilities with model ${modelName}. Skipping.`);
+            continue;
+          }
+
+          candidateProviders.push({
+            name: providerName,
+            provider: providerInstance, // Store initialized instance
+            modelName,
+            estimatedCost: estimateCost(modelConfig),
+            avgLatencyMs,
+            successRate,
+            qualityRating: modelConfig.qualityRating,
+            score: 0, // Scored once all candidates are known, as each factor is relative to the others
+            healthKey,
+            preferredByRule
+          });
+          triedProvidersInfo.push({ name: providerName, model: modelName, reason: 'added_to_candidates' });
+        }
       }
 
       if (candidateProviders.length === 0) {
-        const reasons = triedProvidersInfo.map(p => `${p.name}(${p.reason || 'unknown'})`).join(', ');
+        const reasons = describeTried(triedProvidersInfo);
+        if (plan && triedProvidersInfo.length > 0 && triedProvidersInfo.every(p => p.reason === 'model_not_in_plan')) {
+          return this.createError('CAPABILITY', `The ${plan.name} plan does not include any model of the requested provider. Considered: ${reasons}`, 403, false);
+        }
         return this.createError(
           'TIMEOUT', // Or 'CAPABILITY' if all were capability issues
           `No suitable active provider available after filtering. Attempted/Considered: ${reasons || 'None'}`,
@@ -281,15 +434,62 @@ export class AIModelRouter {
         );
       }
 
-      // Sort candidates by score (descending - higher score is better)
-      candidateProviders.sort((a, b) => b.score - a.score);
+      const routingWeights = config.routing?.weights || DEFAULT_ROUTING_WEIGHTS; // Use imported default
+      const scores = scoreCandidates(candidateProviders, routingWeights);
+      candidateProviders.forEach((candidate, index) => { candidate.score = scores[index]; });
+
+      // Providers a routing rule prefers go first, then by score (descending - higher score is better)
+      candidateProviders.sort((a, b) => Number(b.preferredByRule) - Number(a.preferredByRule) || b.score - a.score);
       
-      // Attempt providers in order of score
-      for (const candidate of candidateProviders) {
-        console.log(`[AIModelRouter] Attempting provider ${candidate.name} (Model: ${candidate.modelName}, Score: ${candidate.score.toFixed(4)}, Est. Cost: ${candidate.estimatedCost.toFixed(6)})`);
-        const providerToUse = candidate.provider; // Use the stored initialized instance
-        const currentProviderHealthKey = candidate.healthKey;
+      const attempts = [...candidateProviders]; // Candidates in the order they are tried
+      const attempted = new Set<string>(); // provider/model of every attempt made
+
+      // Models of a failed candidate's provider to try next, from its fallback chain, if the failure was one
+      // another model can get past: the model being unavailable or the request outgrowing its context window
+      const fallbackAttempts = (failed: RoutingCandidate, error: AIModelError): RoutingCandidate[] => {
+        const providerConfig = config!.providers[failed.name];
+        const chain = providerConfig?.fallbackChain || [];
+        if ((error.code !== 'CAPABILITY' && !isContextLengthError(error)) || !chain.includes(failed.modelName)) {
+          return [];
+        }
+        const fallbacks: RoutingCandidate[] = [];
+        for (const modelId of chain.slice(chain.indexOf(failed.modelName) + 1)) {
+          const modelConfig = providerConfig.models[modelId];
+          if (attempted.has(`${failed.name}/${modelId}`) || !modelConfig?.active || !isModelAllowed(agePolicy, modelId) || !isModelInPlan(plan, modelId) || !modelMeetsRequest(modelConfig, request)) {
+            continue;
+          }
+          const ruleOutcome = applyRoutingRules(config!.routing?.rules, request, {
+            providerName: failed.name,
+            modelName: modelId,
+            models: providerConfig.models,
+            estimateCost,
+            isModelEligible: id => isModelAllowed(agePolicy, id) && isModelInPlan(plan, id),
+          });
+          if (ruleOutcome.outcome !== 'accept' || ruleOutcome.modelName !== modelId) {
+            ruleOutcome.decisions.forEach(reason => triedProvidersInfo.push({ name: failed.name, model: modelId, reason }));
+            continue;
+          }
+          fallbacks.push({ ...failed, modelName: modelId, estimatedCost: estimateCost(modelConfig), qualityRating: modelConfig.qualityRating });
+          if (!triedProvidersInfo.some(info => info.name === failed.name && info.model === modelId && info.reason === 'added_to_candidates')) {
+            triedProvidersInfo.push({ name: failed.name, model: modelId, reason: `fallback_for:${failed.modelName}` });
+          }
+        }
+        return fallbacks;
+      };
+
+      // The trail entry of a candidate, updated with how its attempt went
+      const recordAttempt = (candidate: RoutingCandidate, reason: string) => {
+        const entry = triedProvidersInfo.find(info => info.name === candidate.name && info.model === candidate.modelName
+          && (info.reason === 'added_to_candidates' || info.reason?.startsWith('fallback_for:')));
+        if (entry) {
+          entry.reason = reason;
+        } else {
+          triedProvidersInfo.push({ name: candidate.name, model: candidate.modelName, reason });
+        }
+      };
 
+      // The request as sent to a candidate: its model, the system prompt, and the history that fits the model
+      const prepareRequest = (candidate: RoutingCandidate): AIModelRequest => {
         // Request might need model explicitly set if not just using provider default
         const finalRequest: AIModelRequest = {
           ...request, // Spread the original request
@@ -299,50 +499,157 @@ export class AIModelRouter {
         };
         
         // Fetch systemPrompt from the selected model's configuration and add to finalRequest
-        const selectedModelConfig = config.providers[candidate.name]?.models[candidate.modelName];
+        const selectedModelConfig = config!.providers[candidate.name]?.models[candidate.modelName];
         
         // If the incoming request does not already have a systemPrompt, 
         // AND the selected model's configuration does, then use the model's default.
         if (!finalRequest.systemPrompt && selectedModelConfig?.systemPrompt) {
-          finalRequest.systemPrompt = selectedModelConfig.systemPrompt;
           console.log(`[AIModelRouter] Using system prompt from ModelConfig for ${candidate.modelName}: "${selectedModelConfig.systemPrompt.substring(0, 50)}..."`);
         } else if (finalRequest.systemPrompt) {
           // Log that we're using the system prompt that was passed in with the request
           console.log(`[AIModelRouter] Using system prompt from incoming request for ${candidate.modelName}: "${finalRequest.systemPrompt.substring(0, 50)}..."`);
         }
+        // The age policy's prompt always leads, ahead of the request or model prompt
+        finalRequest.systemPrompt = mergeSystemPrompt(agePolicy, finalRequest.systemPrompt, selectedModelConfig?.systemPrompt);
 
-        let result: AIModelResult;
-        let durationMs: number;
+        // System turns in the history (e.g. a conversation summary) follow the system prompt, and the
+        // oldest history that would not fit in this model's context window is dropped
+        const fittedRequest = fitRequestToContextWindow(finalRequest, selectedModelConfig?.contextWindow);
+        const historyLength = splitSystemMessages(finalRequest.context.history || []).turns.length;
+        const fittedLength = fittedRequest.context.history?.length ?? 0;
+        if (fittedLength < historyLength) {
+          console.log(`[AIModelRouter] Trimmed history from ${historyLength} to ${fittedLength} messages to fit the ${selectedModelConfig!.contextWindow}-token context window of ${candidate.modelName}.`);
+        }
+        return fittedRequest;
+      };
 
+      // Circuit breaker and trail bookkeeping for a finished attempt; a failure may queue fallbacks after it
+      // @returns The result to hand back if the attempt succeeded, or failed after using tokens
+      const settleAttempt = async (outcome: AttemptOutcome, attemptIndex: number, attemptStart: number): Promise<AIModelResult | undefined> => {
+        const { candidate } = outcome;
+        const currentProviderHealthKey = candidate.healthKey;
+        const durationMs = Date.now() - attemptStart;
         try {
-          result = await providerToUse.generateResponse(finalRequest);
-          durationMs = Date.now() - startTime;
+          if ('error' in outcome) {
+            throw outcome.error;
+          }
+          const { result } = outcome;
+          if (result.ok && result.stream) {
+            // The outcome of a streamed response is only known once the stream ends,
+            // so circuit breaker bookkeeping is deferred to the stream wrapper.
+            result.stream = this.trackStream(result.stream, currentProviderHealthKey, attemptStart);
+            console.log(`[AIModelRouter] Streaming response from ${candidate.name} with model ${candidate.modelName}.`);
+            return result;
+          }
           if (result.ok) {
             await this.circuitBreakerManager.recordSuccess(currentProviderHealthKey, durationMs);
             console.log(`[AIModelRouter] Successfully routed to ${candidate.name} with model ${candidate.modelName}.`);
             return result; // Success, return immediately
-          } else {
-            if (result.retryable || result.code === 'UNKNOWN' || result.code === 'TIMEOUT') {
-              await this.circuitBreakerManager.recordFailure(currentProviderHealthKey, durationMs);
-            }
-            console.warn(`[AIModelRouter] Provider ${candidate.name} (Model: ${candidate.modelName}) returned error: ${result.detail}. Code: ${result.code}`);
-            // Update the reason in triedProvidersInfo for this specific failure
-            const infoIndex = triedProvidersInfo.findIndex(info => info.name === candidate.name && info.reason === 'added_to_candidates');
-            if (infoIndex !== -1) {
-              triedProvidersInfo[infoIndex].reason = result.code.toLowerCase();
-            }
+          }
+          if (result.retryable || result.code === 'UNKNOWN' || result.code === 'TIMEOUT') {
+            await this.circuitBreakerManager.recordFailure(currentProviderHealthKey, durationMs);
+          }
+          console.warn(`[AIModelRouter] Provider ${candidate.name} (Model: ${candidate.modelName}) returned error: ${result.detail}. Code: ${result.code}`);
+          recordAttempt(candidate, result.code.toLowerCase());
+          if (result.spent) {
+            // Its calls are billed; another attempt would run (and bill) the whole exchange again
+            return result;
+          }
+          const fallbacks = fallbackAttempts(candidate, result);
+          if (fallbacks.length > 0) {
+            console.log(`[AIModelRouter] Falling back from ${candidate.modelName} to ${fallbacks.map(f => f.modelName).join(', ')} on ${candidate.name}.`);
+            attempts.splice(attemptIndex + 1, 0, ...fallbacks);
           }
         } catch (error: any) {
-          durationMs = Date.now() - startTime;
           console.error(`[AIModelRouter] Unhandled error during provider.generateResponse for ${candidate.name}#${this.routerAwsRegion} (Model: ${candidate.modelName}):`, error);
           await this.circuitBreakerManager.recordFailure(currentProviderHealthKey, durationMs);
-          // Continue to next candidate if available
+          recordAttempt(candidate, 'unhandled_error');
+        }
+        return undefined;
+      };
+
+      // Latency-sensitive chats may hedge their first attempt with the best candidate from another provider
+      const hedging = config.routing?.hedging;
+      const ageBand = request.context?.ageBand;
+      const hedgeable = !!hedging?.enabled && !request.streaming && !request.tools?.length
+        && (!hedging.ageBands || (!!ageBand && hedging.ageBands.includes(ageBand)));
+
+      // Attempt providers in order of score; a candidate's fallbacks go straight after it
+      for (let attemptIndex = 0; attemptIndex < attempts.length; attemptIndex++) {
+        const candidate = attempts[attemptIndex];
+        const attemptKey = `${candidate.name}/${candidate.modelName}`;
+        if (attempted.has(attemptKey)) continue; // Already tried as a fallback
+        if (request.abortSignal?.aborted) {
+          return this.createError('TIMEOUT', `Request was cancelled. Attempted/Considered: ${describeTried(triedProvidersInfo) || 'None'}`, 499, false);
+        }
+        const attemptStart = Date.now();
+        if (deadline !== undefined && attemptStart >= deadline) {
+          break;
+        }
+
+        // Each attempt gets its share of the time left, and is aborted if it overruns it
+        const attemptsLeft = attempts.slice(attemptIndex).filter(c => !attempted.has(`${c.name}/${c.modelName}`)).length;
+        const budgetMs = deadline !== undefined ? attemptBudgetMs(deadline, attemptStart, attemptsLeft) : undefined;
+        const attemptSignal = createAttemptSignal(request.abortSignal, budgetMs);
+        const forAttempt = (attemptRequest: AIModelRequest): AIModelRequest => ({ ...attemptRequest, deadlineMs: budgetMs, abortSignal: attemptSignal.signal });
+
+        attempted.add(attemptKey);
+        console.log(`[AIModelRouter] Attempting provider ${candidate.name} (Model: ${candidate.modelName}, Score: ${candidate.score.toFixed(4)}, Est. Cost: ${candidate.estimatedCost.toFixed(6)}${budgetMs !== undefined ? `, Budget: ${budgetMs}ms` : ''})`);
+        const finalRequest = forAttempt(prepareRequest(candidate));
+
+        const hedge = hedgeable && attemptIndex === 0 && candidate.avgLatencyMs
+          ? attempts.find(other => other.name !== candidate.name)
+          : undefined;
+        let outcomes: AttemptOutcome[];
+        if (hedge) {
+          const delayMs = Math.max(hedging!.minDelayMs ?? 0, candidate.avgLatencyMs! * hedging!.latencyPercent / 100);
+          const race = await this.raceHedged(
+            { candidate, request: finalRequest },
+            { candidate: hedge, request: forAttempt(prepareRequest(hedge)) },
+            delayMs
+          );
+          if (race.hedged) {
+            attempted.add(`${hedge.name}/${hedge.modelName}`);
+          }
+          race.aborted.forEach(loser => recordAttempt(loser, 'hedge_lost'));
+          outcomes = race.settled;
+        } else {
+          outcomes = [await this.invokeCandidate(candidate, finalRequest)];
+        }
+        attemptSignal.dispose(); // A streamed response is only bound by the deadline until it starts
+
+        if (request.abortSignal?.aborted) {
+          // The caller went away; what the providers made of an aborted call says nothing about their health
+          outcomes.filter(outcome => !('result' in outcome && outcome.result.ok)).forEach(outcome => recordAttempt(outcome.candidate, 'cancelled'));
+          return this.createError('TIMEOUT', `Request was cancelled. Attempted/Considered: ${describeTried(triedProvidersInfo) || 'None'}`, 499, false);
+        }
+        if (attemptSignal.timedOut()) {
+          // However the provider reported the aborted call, it ran out of time
+          outcomes = outcomes.map(outcome => 'result' in outcome && outcome.result.ok ? outcome : {
+            candidate: outcome.candidate,
+            result: { ok: false, code: 'TIMEOUT', provider: outcome.candidate.name, detail: `No response within the ${budgetMs}ms allowed for this attempt.`, retryable: true, status: 504 },
+          });
+        }
+
+        for (const outcome of outcomes) {
+          const result = await settleAttempt(outcome, attemptIndex, attemptStart);
+          if (result) {
+            return result;
+          }
         }
         // If we reach here, the attempt failed, try next candidate from sorted list
       }
       
       // If all candidates failed
-      const finalTriedReasons = triedProvidersInfo.map(p => `${p.name}(${p.reason || 'unknown'})`).join(', ');
+      const finalTriedReasons = describeTried(triedProvidersInfo);
+      if (deadline !== undefined && Date.now() >= deadline) {
+        return this.createError(
+          'TIMEOUT',
+          `Request deadline of ${request.deadlineMs}ms passed after ${attempted.size} attempt(s). Attempted/Considered: ${finalTriedReasons || 'None'}`,
+          504,
+          true
+        );
+      }
       return this.createError(
         'TIMEOUT',
         `All candidate providers failed to generate a response. Attempted/Considered: ${finalTriedReasons || 'None'}`,
@@ -367,6 +674,153 @@ export class AIModelRouter {
     }
   }
   
+  /**
+   * Call a candidate, running any tool rounds it asks for.
+   */
+  private async invokeCandidate(candidate: RoutingCandidate, request: AIModelRequest): Promise<AttemptOutcome> {
+    try {
+      let result = await candidate.provider.generateResponse(request);
+      if (result.ok && result.toolCalls && result.toolCalls.length > 0) {
+        result = await this.runToolLoop(candidate.provider, request, result);
+      }
+      return { candidate, result };
+    } catch (error) {
+      return { candidate, error };
+    }
+  }
+
+  /**
+   * Call the primary candidate and, if it has not answered within `delayMs`, the hedge as well.
+   * The first successful answer wins and the other call is aborted through its request's
+   * abortSignal. The aborted call's outcome is dropped, so it is neither billed nor counted
+   * against its provider's circuit.
+   * @returns Whether the hedge was started, the outcomes to act on in the order they finished
+   * (a winner, after any failure before it, or every failure), and the aborted candidates.
+   */
+  private async raceHedged(
+    primary: { candidate: RoutingCandidate; request: AIModelRequest },
+    hedge: { candidate: RoutingCandidate; request: AIModelRequest },
+    delayMs: number
+  ): Promise<{ hedged: boolean; settled: AttemptOutcome[]; aborted: RoutingCandidate[] }> {
+    const signals = new Map<RoutingCandidate, AttemptSignal>();
+    const pending = new Map<RoutingCandidate, Promise<AttemptOutcome>>();
+    const start = ({ candidate, request }: { candidate: RoutingCandidate; request: AIModelRequest }) => {
+      const attemptSignal = createAttemptSignal(request.abortSignal);
+      signals.set(candidate, attemptSignal);
+      pending.set(candidate, this.invokeCandidate(candidate, { ...request, abortSignal: attemptSignal.signal }));
+    };
+
+    start(primary);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const hedgeDue = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), delayMs); });
+    const early = await Promise.race([pending.get(primary.candidate)!, hedgeDue]);
+    clearTimeout(timer);
+    if (early) {
+      signals.forEach(attemptSignal => attemptSignal.dispose());
+      return { hedged: false, settled: [early], aborted: [] };
+    }
+
+    console.log(`[AIModelRouter] ${primary.candidate.name} has not answered after ${Math.round(delayMs)}ms; hedging with ${hedge.candidate.name} (Model: ${hedge.candidate.modelName}).`);
+    start(hedge);
+    const settled: AttemptOutcome[] = [];
+    while (pending.size > 0) {
+      const outcome = await Promise.race(pending.values());
+      pending.delete(outcome.candidate);
+      settled.push(outcome);
+      if ('result' in outcome && outcome.result.ok) {
+        break;
+      }
+    }
+    const aborted = [...pending.keys()];
+    aborted.forEach(candidate => {
+      console.log(`[AIModelRouter] Aborting hedged request to ${candidate.name} (Model: ${candidate.modelName}).`);
+      signals.get(candidate)!.abort();
+    });
+    signals.forEach(attemptSignal => attemptSignal.dispose());
+    return { hedged: true, settled, aborted };
+  }
+
+  /**
+   * Execute the tools the model asked for and resume generation with their results,
+   * until the model answers in text or MAX_TOOL_ROUNDS is reached.
+   * Token usage is accumulated across rounds, and reported as `spent` if a later round fails;
+   * the last executed tool result is reported on the final response.
+   */
+  private async runToolLoop(
+    provider: IAIModelProvider,
+    request: AIModelRequest,
+    firstResult: AIModelSuccess
+  ): Promise<AIModelResult> {
+    const toolTurns: ToolTurn[] = [...(request.toolTurns || [])];
+    const tokens = { ...firstResult.tokens };
+    let result: AIModelSuccess = firstResult;
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const calls = result.toolCalls || [];
+      if (calls.length === 0) {
+        break;
+      }
+
+      console.log(`[AIModelRouter] Executing tool round ${round + 1}: ${calls.map(call => call.name).join(', ')}`);
+      const results: ToolResult[] = [];
+      for (const call of calls) {
+        results.push(await this.toolRegistry.execute(call, request.context));
+      }
+      toolTurns.push({ calls, results });
+
+      const next = await provider.generateResponse({ ...request, toolTurns });
+      if (!next.ok) {
+        return { ...next, spent: { tokens, meta: result.meta } };
+      }
+      tokens.prompt += next.tokens.prompt;
+      tokens.completion += next.tokens.completion;
+      tokens.total += next.tokens.total;
+      result = next;
+    }
+
+    if (result.toolCalls && result.toolCalls.length > 0) {
+      return {
+        ...this.createError('CAPABILITY', `Model kept requesting tools after ${MAX_TOOL_ROUNDS} rounds.`, 422, false),
+        spent: { tokens, meta: result.meta }
+      };
+    }
+
+    const lastTurn = toolTurns[toolTurns.length - 1];
+    return {
+      ...result,
+      tokens,
+      toolResult: lastTurn?.results[lastTurn.results.length - 1]
+    };
+  }
+
+  /**
+   * Get the registry used to execute tool calls, so handlers can register their own tools
+   */
+  public getToolRegistry(): ToolRegistry {
+    return this.toolRegistry;
+  }
+
+  /**
+   * Pass a provider stream through to the caller, recording a circuit breaker success
+   * when it completes and a failure if the provider errors mid-stream.
+   */
+  private async *trackStream(
+    stream: AsyncIterable<string>,
+    healthKey: string,
+    startTime: number
+  ): AsyncIterable<string> {
+    try {
+      for await (const chunk of stream) {
+        yield chunk;
+      }
+    } catch (error) {
+      console.error(`[AIModelRouter] Stream from ${healthKey} failed mid-response:`, error);
+      await this.circuitBreakerManager.recordFailure(healthKey, Date.now() - startTime);
+      throw error;
+    }
+    await this.circuitBreakerManager.recordSuccess(healthKey, Date.now() - startTime);
+  }
+
   /**
    * Create a standard error response
    */
@@ -406,4 +860,20 @@ export class AIModelRouter {
   public clearProviders(): void {
     this.providers.clear();
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Trail of considered providers as it reads in error details, e.g. "openai/gpt-4o(timeout), anthropic(circuit_open)".
+ */
+function describeTried(tried: TriedProvider[]): string {
+  return tried.map(p => `${p.name}${p.model ? `/${p.model}` : ''}(${p.reason || 'unknown'})`).join(', ');
+}
+
+/**
+ * Whether a model has the capabilities the request requires and room in its context window for it.
+ * History does not count, as it is trimmed to fit the model chosen.
+ */
+function modelMeetsRequest(model: ModelConfig, request: AIModelRequest): boolean {
+  const hasCapabilities = (request.requiredCapabilities || []).every(capability => model.capabilities?.includes(capability));
+  return hasCapabilities && fitsContextWindow(request, model.contextWindow);
+}
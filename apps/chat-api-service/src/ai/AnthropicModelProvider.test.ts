@@ -221,6 +221,15 @@ describe('AnthropicModelProvider', () => {
       }
     });
 
+    test('should pass the request abort signal to the client', async () => {
+      const controller = new AbortController();
+      currentMockMessagesCreate.mockResolvedValue({ ...mockBaseApiResponse, content: [{ type: 'text', text: 'Hi' }] });
+
+      await provider.generateResponse({ prompt: 'Hello Anthropic', context: mockContext, abortSignal: controller.signal });
+
+      expect(currentMockMessagesCreate).toHaveBeenCalledWith(expect.any(Object), { signal: controller.signal });
+    });
+
     test('should handle API errors from mocked client', async () => {
       const mockRequest: AIModelRequest = { context: mockContext, prompt: 'Test prompt' };
       const mockGenericError = new Error('Mock Anthropic API Error');
@@ -234,6 +243,19 @@ describe('AnthropicModelProvider', () => {
       }
     });
 
+    test('should pass on how long a rate limited request was asked to wait', async () => {
+      const rateLimitError = Object.assign(new Error('Rate limit exceeded'), { status: 429, headers: new Headers({ 'retry-after': '3' }) });
+      currentMockMessagesCreate.mockRejectedValueOnce(rateLimitError);
+
+      const result = await provider.generateResponse({ context: mockContext, prompt: 'Test prompt' });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.code).toBe('RATE_LIMIT');
+        expect(result.retryAfterMs).toBe(3000);
+      }
+    });
+
     test('should respect token limits and return RATE_LIMIT', async () => {
       // @ts-expect-error - Accessing private member for test setup
       provider.tokenBucket.tokens = 0; 
@@ -253,6 +275,90 @@ describe('AnthropicModelProvider', () => {
       expect(currentMockMessagesCreate).not.toHaveBeenCalled();
     });
 
+    test('should stream text deltas and fill in usage from message events', async () => {
+      const mockRequest: AIModelRequest = { prompt: 'Hello Anthropic', context: mockContext, preferredModel: 'claude-3-haiku-20240307', streaming: true };
+      const events = [
+        { type: 'message_start', message: { ...mockBaseApiResponse, content: [], usage: { input_tokens: 12, output_tokens: 1 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Streamed' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' reply' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 4 } },
+        { type: 'message_stop' },
+      ];
+      currentMockMessagesCreate.mockResolvedValue((async function* () {
+        yield* events;
+      })());
+
+      const result = await provider.generateResponse(mockRequest);
+
+      expect(currentMockMessagesCreate).toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const received: string[] = [];
+        for await (const chunk of result.stream!) {
+          received.push(chunk);
+        }
+        expect(received).toEqual(['Streamed', ' reply']);
+        expect(result.text).toBe('Streamed reply');
+        expect(result.tokens).toEqual({ prompt: 12, completion: 4, total: 16 });
+      }
+    });
+
+    test('should send tools as Anthropic tool definitions and parse tool_use blocks', async () => {
+      const calculatorDefinition = {
+        name: 'calculator',
+        description: 'Evaluate arithmetic',
+        parameters: { type: 'object', properties: { expression: { type: 'string' } }, required: ['expression'] },
+      };
+      const mockRequest: AIModelRequest = { prompt: 'What is 6 x 7?', context: mockContext, preferredModel: 'claude-3-haiku-20240307', tools: [calculatorDefinition] };
+      currentMockMessagesCreate.mockResolvedValue({
+        ...mockBaseApiResponse,
+        stop_reason: 'tool_use',
+        content: [
+          { type: 'text', text: 'Let me work that out.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'calculator', input: { expression: '6*7' } },
+        ],
+      });
+
+      const result = await provider.generateResponse(mockRequest);
+
+      expect(currentMockMessagesCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tools: [{ name: 'calculator', description: 'Evaluate arithmetic', input_schema: calculatorDefinition.parameters }],
+      }));
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.toolCalls).toEqual([{ id: 'toolu_1', name: 'calculator', arguments: { expression: '6*7' } }]);
+      }
+    });
+
+    test('should replay executed tool turns as tool_use and tool_result blocks', async () => {
+      const mockRequest: AIModelRequest = {
+        prompt: 'What is 6 x 7?',
+        context: mockContext,
+        preferredModel: 'claude-3-haiku-20240307',
+        tools: [{ name: 'calculator', parameters: { type: 'object' } }],
+        toolTurns: [{
+          calls: [{ id: 'toolu_1', name: 'calculator', arguments: { expression: '6*7' } }],
+          results: [{ name: 'calculator', callId: 'toolu_1', result: { result: 42 } }],
+        }],
+      };
+      currentMockMessagesCreate.mockResolvedValue({ ...mockBaseApiResponse, content: [{ type: 'text', text: 'It is 42.' }] });
+
+      const result = await provider.generateResponse(mockRequest);
+
+      expect(currentMockMessagesCreate.mock.calls[0][0].messages).toEqual([
+        { role: 'user', content: 'What is 6 x 7?' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'calculator', input: { expression: '6*7' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"result":42}' }] },
+      ]);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.text).toBe('It is 42.');
+        expect(result.toolCalls).toBeUndefined();
+      }
+    });
+
     // --- CONVERSATION HISTORY TESTS ---
     describe('conversation history handling', () => {
       beforeEach(() => {
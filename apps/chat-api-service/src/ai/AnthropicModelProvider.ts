@@ -2,17 +2,20 @@ import { BaseAIModelProvider } from './BaseAIModelProvider';
 import {
   AIModelRequest,
   AIModelResult,
+  AIModelSuccess,
   ProviderHealthStatus,
   AIModelError,
   ProviderLimits,
   TokenUsage,
-  ChatMessage
+  ChatMessage,
+  ToolInvocation
 } from '@kinable/common-types';
 import { ModelConfig, ProviderConfig } from '@kinable/common-types';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import Anthropic from '@anthropic-ai/sdk';
 import { IDatabaseProvider } from '@kinable/common-types';
 import { standardizeError as sharedStandardizeError } from './standardizeError';
+import { retryAfterMs } from './retry';
 
 interface ApiKeys { // Define a simple interface for the expected secret structure
   current: string;
@@ -113,7 +116,7 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
       return this.createError('UNKNOWN', 'Anthropic client not initialized', 500, false);
     }
 
-    const { prompt, context, preferredModel, maxTokens, temperature, conversationId: _conversationId, tools: _tools } = request;
+    const { prompt, context, preferredModel, maxTokens, temperature, conversationId: _conversationId, tools } = request;
     
     const startTime = Date.now();
     let latencyMs = 0;
@@ -129,6 +132,22 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
       }
       messages.push({ role: 'user', content: prompt });
 
+      // Replay tool rounds already executed for this prompt
+      request.toolTurns?.forEach(turn => {
+        messages.push({
+          role: 'assistant',
+          content: turn.calls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments }))
+        });
+        messages.push({
+          role: 'user',
+          content: turn.calls.map((call, index) => ({
+            type: 'tool_result' as const,
+            tool_use_id: call.id,
+            content: JSON.stringify(turn.results[index]?.result ?? null)
+          }))
+        });
+      });
+
       const anthropicRequestParams: Anthropic.Messages.MessageCreateParams = {
         model: preferredModel || this.getDefaultModel(),
         messages: messages,
@@ -143,12 +162,38 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
         // Ensure it's explicitly undefined if not provided, rather than relying on previous history search
         anthropicRequestParams.system = undefined; 
       }
+
+      const hasTools = !!tools && tools.length > 0;
+      if (hasTools) {
+        anthropicRequestParams.tools = tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters as Anthropic.Messages.Tool.InputSchema
+        }));
+      }
       
-      if (request.streaming) {
-        console.warn('[AnthropicModelProvider] Streaming requested but not yet implemented. Proceeding with non-streaming.');
+      const modelName = preferredModel || this.getDefaultModel();
+      // Tool calls are resolved by the router between turns, so tool requests are never streamed
+      if (request.streaming && !hasTools && this.getModelCapabilities(modelName).streamingSupport) {
+        const stream = await this.anthropicClient.messages.create({ ...anthropicRequestParams, stream: true }, ...this.requestOptions(request));
+        const streamedResult: AIModelSuccess = {
+          ok: true,
+          text: '',
+          tokens: { prompt: 0, completion: 0, total: 0 },
+          meta: {
+            provider: this.providerName,
+            model: modelName,
+            region: context.region,
+            timestamp: Date.now(),
+            latency: Date.now() - startTime, // Time to first byte; the stream is still open
+            features: this.getModelCapabilities(modelName).functionCallingSupport ? ['function_calling', 'streaming'] : ['streaming']
+          },
+        };
+        streamedResult.stream = this._streamChunks(stream, streamedResult);
+        return streamedResult;
       }
 
-      const response: Anthropic.Messages.Message = await this.anthropicClient.messages.create(anthropicRequestParams);
+      const response: Anthropic.Messages.Message = await this.anthropicClient.messages.create(anthropicRequestParams, ...this.requestOptions(request));
       latencyMs = Date.now() - startTime;
 
       if (!response.content || response.content.length === 0) {
@@ -163,7 +208,11 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
         .map(block => (block as Anthropic.TextBlock).text)
         .join('');
 
-      if (!textResponse && response.content.some(block => block.type !== 'text')) {
+      const toolCalls: ToolInvocation[] = response.content
+        .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: (block.input || {}) as Record<string, unknown> }));
+
+      if (!textResponse && toolCalls.length === 0 && response.content.some(block => block.type !== 'text')) {
         console.warn('[AnthropicModelProvider] Response contained content blocks, but no usable text was extracted.', response.content);
       }
 
@@ -173,7 +222,7 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
         total: response.usage.input_tokens + response.usage.output_tokens,
       };
 
-      return {
+      const result: AIModelSuccess = {
         ok: true,
         text: textResponse,
         tokens: anthropicTokenUsage,
@@ -186,6 +235,10 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
           features: this.getModelCapabilities(preferredModel || this.getDefaultModel()).functionCallingSupport ? ['function_calling'] : []
         },
       };
+      if (toolCalls.length > 0) {
+        result.toolCalls = toolCalls;
+      }
+      return result;
     } catch (error: any) {
       latencyMs = Date.now() - startTime;
 
@@ -195,7 +248,7 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
       // Handle based on error status code and message patterns
       if (errorStatus === 429 || errorMessage.includes('rate limit') || errorMessage.includes('quota')) {
         // Rate limit error handling
-        return this.createError('RATE_LIMIT', `Anthropic rate limit error: ${errorMessage}`, errorStatus, true);
+        return { ...this.createError('RATE_LIMIT', `Anthropic rate limit error: ${errorMessage}`, errorStatus, true), retryAfterMs: retryAfterMs(error) };
       } else if (errorStatus === 401 || errorMessage.includes('authentication') || errorMessage.includes('api key')) {
         // Auth error handling
         return this.createError('AUTH', `Anthropic authentication error: ${errorMessage}`, errorStatus, false);
@@ -218,6 +271,30 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
     }
   }
 
+  /**
+   * Yields text deltas from an Anthropic message stream. Input tokens arrive on
+   * `message_start` and the cumulative output count on `message_delta`; both are
+   * copied onto the result along with the accumulated text.
+   */
+  private async *_streamChunks(
+    stream: AsyncIterable<Anthropic.Messages.RawMessageStreamEvent>,
+    result: AIModelSuccess
+  ): AsyncIterable<string> {
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        result.tokens.prompt = event.message.usage.input_tokens;
+        result.meta.model = event.message.model || result.meta.model;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        result.text += event.delta.text;
+        yield event.delta.text;
+      } else if (event.type === 'message_delta') {
+        result.tokens.completion = event.usage.output_tokens;
+      }
+      result.tokens.total = result.tokens.prompt + result.tokens.completion;
+    }
+    result.meta.timestamp = Date.now();
+  }
+
   /**
    * Standardize Anthropic errors into our common error format
    */
@@ -247,7 +324,7 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
 
     // Check based on status or message patterns
     if (errorStatus === 429 || errorMessage.includes('rate limit') || errorMessage.includes('quota')) {
-      return this.createError('RATE_LIMIT', `Anthropic rate limit error: ${error?.message || errorMessage}`, errorStatus, true);
+      return { ...this.createError('RATE_LIMIT', `Anthropic rate limit error: ${error?.message || errorMessage}`, errorStatus, true), retryAfterMs: stdError.retryAfterMs };
     } else if (errorStatus === 401 || errorMessage.includes('authentication') || errorMessage.includes('invalid api key')) {
       return this.createError('AUTH', `Anthropic authentication error: ${error?.message || errorMessage}`, errorStatus, false);
     } else if (errorStatus === 403 || errorMessage.includes('permission denied') || errorMessage.includes('unauthorized')) {
@@ -316,6 +393,6 @@ export class AnthropicModelProvider extends BaseAIModelProvider {
 
   // --- Protected methods ---
   protected _createAnthropicClient(apiKey: string): Anthropic {
-    return new Anthropic({ apiKey });
+    return new Anthropic({ apiKey, maxRetries: 0 }); // Retries follow the provider's retryConfig instead
   }
 }
@@ -24,10 +24,11 @@ class TestProvider extends BaseAIModelProvider {
   public errorToThrow: Error | null = null;
   public mockResult: AIModelResult | null = null;
 
-  constructor(_apiKey: string) {
+  constructor(_apiKey: string, retryConfig?: ProviderConfig['retryConfig']) {
     const mockProviderConfig: ProviderConfig = {
       active: true,
       secretId: 'test-secret',
+      retryConfig,
       defaultModel: 'default-test-model',
       models: {
         'default-test-model': {
@@ -357,6 +358,92 @@ describe('BaseAIModelProvider', () => {
     });
   });
   
+  describe('Retries', () => {
+    const request: AIModelRequest = { prompt: 'Hello, world!', context: mockContext };
+    const rateLimited = (retryAfterMs?: number): AIModelError => ({ ok: false, code: 'RATE_LIMIT', provider: 'test-provider', detail: 'Slow down', status: 429, retryable: true, retryAfterMs });
+    let generate: jest.SpyInstance;
+
+    beforeEach(() => {
+      provider = new TestProvider('test-api-key', { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 50 });
+      generate = jest.spyOn(provider as any, '_generateResponse');
+    });
+
+    test('should retry retryable errors and report the retries in the meta', async () => {
+      generate.mockResolvedValueOnce(rateLimited()).mockResolvedValueOnce(rateLimited());
+
+      const result = await provider.generateResponse(request);
+
+      expect(generate).toHaveBeenCalledTimes(3);
+      expect(result.ok && result.meta.retries).toBe(2);
+    });
+
+    test('should give up once the retries are used up', async () => {
+      generate.mockResolvedValue(rateLimited());
+
+      const result = await provider.generateResponse(request);
+
+      expect(generate).toHaveBeenCalledTimes(3);
+      expect(!result.ok && result.detail).toBe('Slow down (after 2 retries)');
+    });
+
+    test('should not retry errors that are not retryable', async () => {
+      generate.mockResolvedValueOnce({ ok: false, code: 'AUTH', provider: 'test-provider', detail: 'Bad key', status: 401, retryable: false });
+
+      const result = await provider.generateResponse(request);
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+    });
+
+    test('should wait out the Retry-After the provider asked for', async () => {
+      generate.mockResolvedValueOnce(rateLimited(30));
+      const startedAt = Date.now();
+
+      const result = await provider.generateResponse(request);
+
+      expect(result.ok).toBe(true);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(25);
+    });
+
+    test('should fail over instead of waiting longer than maxDelayMs', async () => {
+      generate.mockResolvedValueOnce(rateLimited(60_000));
+
+      const result = await provider.generateResponse(request);
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+    });
+
+    test('should not retry when the wait would outlast the request deadline', async () => {
+      generate.mockResolvedValueOnce(rateLimited(30));
+
+      const result = await provider.generateResponse({ ...request, deadlineMs: 20 });
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+    });
+
+    test('should give a retry only the time left of the request deadline', async () => {
+      generate.mockResolvedValueOnce(rateLimited(10));
+
+      await provider.generateResponse({ ...request, deadlineMs: 1000 });
+
+      expect(generate.mock.calls[1][0].deadlineMs).toBeLessThanOrEqual(990);
+    });
+
+    test('should not retry once the request is aborted', async () => {
+      const controller = new AbortController();
+      generate.mockImplementationOnce(async () => {
+        controller.abort();
+        return rateLimited();
+      });
+
+      await provider.generateResponse({ ...request, abortSignal: controller.signal });
+
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Capability checking', () => {
     test('should check if it can fulfill a request based on capabilities', async () => {
       const basicRequest: AIModelRequest = {
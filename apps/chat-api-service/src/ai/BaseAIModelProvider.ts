@@ -5,9 +5,10 @@ import {
   ProviderLimits,
   AIModelError,
   ProviderConfig,
-  ModelConfig,
-  ChatMessage
+  ModelConfig
 } from '@kinable/common-types';
+import { retryDelayMs, sleep } from './retry';
+import { estimateInputTokens } from './tokenEstimator';
 // import { IDatabaseProvider } from '@kinable/common-types'; // Updated import, commented out as original
 
 // InternalCircuitState interface REMOVED
@@ -68,7 +69,40 @@ export abstract class BaseAIModelProvider {
         );
     }
 
-    // 2. Call actual provider implementation
+    // 2. Call actual provider implementation, retrying retryable errors as the provider's
+    // retryConfig allows and as long as the request's time budget lasts
+    const retryConfig = this.configForProvider.retryConfig;
+    const deadline = request.deadlineMs !== undefined ? Date.now() + request.deadlineMs : undefined;
+    let result = await this._callProvider(request);
+    let retries = 0;
+    while (!result.ok && !request.abortSignal?.aborted) {
+      const delayMs = retryDelayMs(result, retries, retryConfig, deadline !== undefined ? deadline - Date.now() : undefined);
+      if (delayMs === undefined) {
+        break;
+      }
+      console.log(`[${this.providerName}] Retrying after ${result.code} error in ${delayMs}ms (retry ${retries + 1} of ${retryConfig!.maxRetries}).`);
+      await sleep(delayMs, request.abortSignal);
+      if (request.abortSignal?.aborted) {
+        break;
+      }
+      retries++;
+      result = await this._callProvider(deadline !== undefined ? { ...request, deadlineMs: deadline - Date.now() } : request);
+    }
+
+    if (retries > 0) {
+      if (result.ok) {
+        result.meta.retries = retries;
+      } else {
+        result.detail = `${result.detail} (after ${retries} ${retries === 1 ? 'retry' : 'retries'})`;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * One call to the provider, with its outcome recorded in the health metrics.
+   */
+  private async _callProvider(request: AIModelRequest): Promise<AIModelResult> {
     const startTime = Date.now();
     let result: AIModelResult;
     try {
@@ -81,7 +115,6 @@ export abstract class BaseAIModelProvider {
     }
     const latencyMs = Date.now() - startTime;
 
-    // 3. Update internal health metrics
     // isProviderError helps distinguish actual provider failures from things like content filters.
     const isProviderError = !result.ok && (result.code !== 'CONTENT' && result.code !== 'AUTH' && result.code !== 'CAPABILITY');
     this.updateHealthMetrics(result.ok, latencyMs, isProviderError);
@@ -89,16 +122,23 @@ export abstract class BaseAIModelProvider {
     return result;
   }
   
-  private _estimateTokens(request: AIModelRequest): number {
-    // Basic estimation, can be refined.
-    let historyTokens = 0;
-    if (request.context.history) {
-      historyTokens = request.context.history.reduce((sum: number, msg: ChatMessage) => sum + Math.ceil(msg.content.length / 4), 0);
+  /**
+   * Trailing per-call options argument for the provider's SDK: the request's abort signal and
+   * time budget, if it has them. Spread into the call so that requests without either call the
+   * SDK exactly as before.
+   */
+  protected requestOptions(request: AIModelRequest): [] | [{ signal?: AbortSignal; timeout?: number }] {
+    if (!request.abortSignal && request.deadlineMs === undefined) {
+      return [];
     }
-    const promptTokens = Math.ceil(request.prompt.length / 4);
+    return [{ signal: request.abortSignal, timeout: request.deadlineMs }];
+  }
+
+  private _estimateTokens(request: AIModelRequest): number {
+    // Counted with the model's tokenizer; the completion is assumed to use its whole budget
     const defaultMaxCompletionTokens = 1024; 
     const completionTokens = request.maxTokens || defaultMaxCompletionTokens;
-    return historyTokens + promptTokens + completionTokens;
+    return estimateInputTokens(request, request.preferredModel || this.defaultModel) + completionTokens;
   }
 
   // _ensureCircuitStateLoaded REMOVED
@@ -482,6 +482,43 @@ describe("CircuitBreakerManager", () => {
         });
     });
 
+    describe("getRoutingStats", () => {
+        it("should return the average latency and recent success rate", async () => {
+            ddbMock.on(GetCommand).resolves({ Item: { providerRegion, status: 'CLOSED', totalSuccesses: 9, totalFailures: 1, avgLatencyMs: 420, recentSuccessRate: 0.75 } });
+
+            await expect(manager.getRoutingStats(providerRegion)).resolves.toEqual({ avgLatencyMs: 420, successRate: 0.75 });
+        });
+
+        it("should fall back to the success ratio of the totals for older records", async () => {
+            ddbMock.on(GetCommand).resolves({ Item: { providerRegion, status: 'CLOSED', totalSuccesses: 9, totalFailures: 1 } });
+
+            await expect(manager.getRoutingStats(providerRegion)).resolves.toEqual({ avgLatencyMs: undefined, successRate: 0.9 });
+        });
+
+        it("should return no figures if the provider has no record or it cannot be read", async () => {
+            ddbMock.on(GetCommand).resolves({});
+            await expect(manager.getRoutingStats(providerRegion)).resolves.toEqual({});
+
+            ddbMock.on(GetCommand).rejects(new Error("DynamoDB get error"));
+            await expect(manager.getRoutingStats(providerRegion)).resolves.toEqual({});
+        });
+
+        it("should weight the recent success rate towards the latest outcomes", async () => {
+            const initialState = {
+                providerRegion, status: 'CLOSED', consecutiveFailures: 0, currentHalfOpenSuccesses: 0,
+                totalFailures: 0, totalSuccesses: 50, lastStateChangeTimestamp: now, totalLatencyMs: 0, recentSuccessRate: 1,
+            };
+            ddbMock.on(GetCommand).resolves({ Item: initialState });
+            ddbMock.on(PutCommand).resolves({});
+
+            await manager.recordFailure(providerRegion);
+
+            const putArgs = ddbMock.commandCalls(PutCommand)[0].args[0].input;
+            expect(putArgs.Item?.recentSuccessRate).toBeCloseTo(0.9);
+            expect(putArgs.Item?.totalFailures).toBe(1);
+        });
+    });
+
     describe("isRequestAllowed", () => {
         it("should create default state and allow request if no state exists", async () => {
             ddbMock.on(GetCommand).resolves({}); // No item initially
@@ -6,6 +6,15 @@ interface ExtendedProviderHealthState extends Omit<ProviderHealthState, 'totalLa
   totalLatencyMs: number | undefined; // Allow undefined for compatibility with original code
   lastLatencyMs?: number;
   avgLatencyMs?: number;
+  recentSuccessRate?: number; // Moving average of outcomes, weighted towards the latest requests
+}
+
+/**
+ * Health figures the router scores candidates with. Undefined until the provider has served a request.
+ */
+export interface ProviderRoutingStats {
+  avgLatencyMs?: number;
+  successRate?: number;
 }
 
 // Default configuration for circuit breaker
@@ -13,6 +22,7 @@ const DEFAULT_FAILURE_THRESHOLD = 3; // Open circuit after 3 consecutive failure
 const DEFAULT_COOLDOWN_PERIOD_MS = 30 * 1000; // 30 seconds cooldown period
 const DEFAULT_HALF_OPEN_SUCCESS_THRESHOLD = 2; // Need 2 successes in HALF_OPEN to close
 const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days for health records
+const SUCCESS_RATE_SMOOTHING = 0.1; // Weight of the latest outcome in recentSuccessRate, so roughly the last 10 requests count
 
 export class CircuitBreakerManager {
     private ddbDocClient: DynamoDBDocumentClient;
@@ -64,6 +74,29 @@ export class CircuitBreakerManager {
         }
     }
 
+    /**
+     * Latency and recent success rate of a provider, for scoring it against other candidates.
+     * A failed read returns no figures rather than failing the request being routed.
+     * @param providerRegion The composite key (e.g., "OpenAI#us-east-1").
+     */
+    public async getRoutingStats(providerRegion: string): Promise<ProviderRoutingStats> {
+        let healthState: ExtendedProviderHealthState | null;
+        try {
+            healthState = await this.getProviderHealth(providerRegion);
+        } catch {
+            return {};
+        }
+        if (!healthState) {
+            return {};
+        }
+
+        const outcomes = healthState.totalSuccesses + healthState.totalFailures;
+        return {
+            avgLatencyMs: healthState.avgLatencyMs,
+            successRate: healthState.recentSuccessRate ?? (outcomes > 0 ? healthState.totalSuccesses / outcomes : undefined),
+        };
+    }
+
     /**
      * Creates a default 'CLOSED' state for a provider.
      * @param providerRegion The composite key (e.g., "OpenAI#us-east-1").
@@ -126,6 +159,7 @@ export class CircuitBreakerManager {
         }
 
         healthState.totalSuccesses += 1;
+        healthState.recentSuccessRate = updateSuccessRate(healthState, true);
         healthState.lastStateChangeTimestamp = now; // Always update for activity tracking, even if status doesn't change
 
         if (durationMs !== undefined) {
@@ -211,6 +245,7 @@ export class CircuitBreakerManager {
 
         healthState.consecutiveFailures += 1;
         healthState.totalFailures += 1;
+        healthState.recentSuccessRate = updateSuccessRate(healthState, false);
         healthState.lastFailureTimestamp = now;
         healthState.lastStateChangeTimestamp = now; // Always update for activity tracking
 
@@ -299,4 +334,14 @@ export class CircuitBreakerManager {
                 return false;
         }
     }
-} 
\ No newline at end of file
+}
+
+// Fold the latest outcome into the moving success rate, seeding it from the totals for records that predate it
+function updateSuccessRate(healthState: ExtendedProviderHealthState, succeeded: boolean): number {
+    const outcome = succeeded ? 1 : 0;
+    if (healthState.recentSuccessRate === undefined) {
+        const outcomes = healthState.totalSuccesses + healthState.totalFailures;
+        return outcomes > 0 ? healthState.totalSuccesses / outcomes : outcome;
+    }
+    return healthState.recentSuccessRate + SUCCESS_RATE_SMOOTHING * (outcome - healthState.recentSuccessRate);
+}
@@ -180,6 +180,29 @@ describe('OpenAIModelProvider', () => {
       expect(mockSecretsManager.calls()).toHaveLength(0); // REPLACED
     });
 
+    test('should pass the request abort signal to the client', async () => {
+      const controller = new AbortController();
+      mockOpenAIClient.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Hi there!' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+      });
+
+      await provider.generateResponse({ prompt: 'Hello', context: mockContext, abortSignal: controller.signal });
+
+      expect(mockOpenAIClient.chat.completions.create).toHaveBeenCalledWith(expect.any(Object), { signal: controller.signal });
+    });
+
+    test('should give the client the request time budget as its timeout', async () => {
+      mockOpenAIClient.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Hi there!' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+      });
+
+      await provider.generateResponse({ prompt: 'Hello', context: mockContext, deadlineMs: 5000 });
+
+      expect(mockOpenAIClient.chat.completions.create).toHaveBeenCalledWith(expect.any(Object), { timeout: 5000 });
+    });
+
     test('should handle API errors from injected client', async () => {
       const mockRequest: AIModelRequest = { prompt: 'Hello', context: mockContext };
       const apiError = new OpenAI.APIError(401, { message: 'Mock OpenAI API Error', type: 'auth_error' }, 'Auth Error', {});
@@ -230,6 +253,130 @@ describe('OpenAIModelProvider', () => {
       expect(mockOpenAIClient.chat.completions.create).not.toHaveBeenCalled();
     });
 
+    describe('streaming', () => {
+      test('should stream text deltas and fill in usage once the stream completes', async () => {
+        const mockRequest: AIModelRequest = { prompt: 'Hello', context: mockContext, preferredModel: 'gpt-3.5-turbo', streaming: true };
+        const chunks = [
+          { model: 'gpt-3.5-turbo', choices: [{ delta: { content: 'Hi' } }] },
+          { model: 'gpt-3.5-turbo', choices: [{ delta: { content: ' there!' } }] },
+          { model: 'gpt-3.5-turbo', choices: [], usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 } },
+        ];
+        mockOpenAIClient.chat.completions.create.mockResolvedValue((async function* () {
+          yield* chunks;
+        })());
+
+        const result = await provider.generateResponse(mockRequest);
+
+        expect(mockOpenAIClient.chat.completions.create).toHaveBeenCalledWith(expect.objectContaining({
+          stream: true,
+          stream_options: { include_usage: true },
+        }));
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.stream).toBeDefined();
+          const received: string[] = [];
+          for await (const chunk of result.stream!) {
+            received.push(chunk);
+          }
+          expect(received).toEqual(['Hi', ' there!']);
+          expect(result.text).toBe('Hi there!');
+          expect(result.tokens).toEqual({ prompt: 5, completion: 3, total: 8 });
+          expect(result.meta.features).toContain('streaming');
+        }
+      });
+
+      test('should surface errors thrown mid-stream to the consumer', async () => {
+        const mockRequest: AIModelRequest = { prompt: 'Hello', context: mockContext, preferredModel: 'gpt-3.5-turbo', streaming: true };
+        mockOpenAIClient.chat.completions.create.mockResolvedValue((async function* () {
+          yield { model: 'gpt-3.5-turbo', choices: [{ delta: { content: 'Hi' } }] };
+          throw new Error('Connection reset');
+        })());
+
+        const result = await provider.generateResponse(mockRequest);
+
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          const consume = async () => {
+            for await (const _chunk of result.stream!) {
+              // drain
+            }
+          };
+          await expect(consume()).rejects.toThrow('Connection reset');
+        }
+      });
+    });
+
+    describe('tool calling', () => {
+      const calculatorDefinition = {
+        name: 'calculator',
+        description: 'Evaluate arithmetic',
+        parameters: { type: 'object', properties: { expression: { type: 'string' } }, required: ['expression'] },
+      };
+
+      test('should send tools in the OpenAI function format and parse tool calls', async () => {
+        const mockRequest: AIModelRequest = { prompt: 'What is 6 x 7?', context: mockContext, preferredModel: 'gpt-3.5-turbo', tools: [calculatorDefinition], streaming: true };
+        mockOpenAIClient.chat.completions.create.mockResolvedValue({
+          choices: [{
+            message: {
+              content: null,
+              tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'calculator', arguments: '{"expression":"6*7"}' } }],
+            },
+            finish_reason: 'tool_calls',
+          }],
+          usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+          model: 'gpt-3.5-turbo',
+        });
+
+        const result = await provider.generateResponse(mockRequest);
+
+        const params = mockOpenAIClient.chat.completions.create.mock.calls[0][0];
+        expect(params.tools).toEqual([{ type: 'function', function: calculatorDefinition }]);
+        // Tool requests are never streamed
+        expect(params.stream).toBeUndefined();
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.text).toBe('');
+          expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'calculator', arguments: { expression: '6*7' } }]);
+        }
+      });
+
+      test('should replay executed tool turns after the user prompt', async () => {
+        const mockRequest: AIModelRequest = {
+          prompt: 'What is 6 x 7?',
+          context: mockContext,
+          preferredModel: 'gpt-3.5-turbo',
+          tools: [calculatorDefinition],
+          toolTurns: [{
+            calls: [{ id: 'call_1', name: 'calculator', arguments: { expression: '6*7' } }],
+            results: [{ name: 'calculator', callId: 'call_1', result: { result: 42 } }],
+          }],
+        };
+        mockOpenAIClient.chat.completions.create.mockResolvedValue({
+          choices: [{ message: { content: '6 x 7 is 42.' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 40, completion_tokens: 8, total_tokens: 48 },
+          model: 'gpt-3.5-turbo',
+        });
+
+        const result = await provider.generateResponse(mockRequest);
+
+        const params = mockOpenAIClient.chat.completions.create.mock.calls[0][0];
+        expect(params.messages).toEqual([
+          { role: 'user', content: 'What is 6 x 7?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'calculator', arguments: '{"expression":"6*7"}' } }],
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: '{"result":42}' },
+        ]);
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.text).toBe('6 x 7 is 42.');
+          expect(result.toolCalls).toBeUndefined();
+        }
+      });
+    });
+
     // --- NEW TESTS FOR CONVERSATION HISTORY ---
     describe('conversation history handling', () => {
       test('should handle empty conversationHistory correctly (single prompt)', async () => {
@@ -5,7 +5,8 @@ import {
   AIModelSuccess,
   ProviderLimits,
   TokenUsage,
-  AIModelError
+  AIModelError,
+  ToolInvocation
 } from '@kinable/common-types';
 import { ModelConfig, ProviderConfig } from '@kinable/common-types';
 import OpenAI from 'openai';
@@ -131,7 +132,7 @@ export class OpenAIModelProvider extends BaseAIModelProvider {
         if (!this.currentApiKey) {
           throw new Error('Current API key is missing after fetch attempt.');
         }
-        this.openaiClient = new OpenAI({ apiKey: this.currentApiKey });
+        this.openaiClient = new OpenAI({ apiKey: this.currentApiKey, maxRetries: 0 }); // Retries follow the provider's retryConfig instead
         this.keysLoaded = true;
       } catch (error) {
         this.keysLoaded = false; // Ensure keysLoaded is false if fetching fails
@@ -191,25 +192,74 @@ export class OpenAIModelProvider extends BaseAIModelProvider {
 
       // Add current user prompt as the last message
       messages.push({ role: 'user', content: currentRequest.prompt });
+
+      // Replay tool rounds already executed for this prompt
+      currentRequest.toolTurns?.forEach(turn => {
+        messages.push({
+          role: 'assistant',
+          content: null,
+          tool_calls: turn.calls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        });
+        turn.calls.forEach((call, index) => {
+          messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(turn.results[index]?.result ?? null) });
+        });
+      });
       
       console.log('[DEBUG] OpenAIProvider - Messages sent to OpenAI API:', JSON.stringify(messages, null, 2)); // DEBUG LOG
-      return {
+      const params: OpenAI.Chat.Completions.ChatCompletionCreateParams = {
         model: currentModel,
         messages: messages,
         max_tokens: currentRequest.maxTokens,
         temperature: currentRequest.temperature,
-        // stream: currentRequest.streaming // TODO: Enable once streaming flag is confirmed and full streaming is implemented
       };
+      if (currentRequest.tools && currentRequest.tools.length > 0) {
+        params.tools = currentRequest.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        }));
+      }
+      return params;
     };
 
     let completionRequestParams = createChatCompletionParams(request, model);
 
     try {
-      const response = await this.openaiClient.chat.completions.create(completionRequestParams) as OpenAI.Chat.Completions.ChatCompletion;
+      // Tool calls are resolved by the router between turns, so tool requests are never streamed
+      const hasTools = !!request.tools && request.tools.length > 0;
+      if (request.streaming && !hasTools && this.getModelCapabilities(model).streamingSupport) {
+        const stream = await this.openaiClient.chat.completions.create({
+          ...completionRequestParams,
+          stream: true,
+          stream_options: { include_usage: true }
+        }, ...this.requestOptions(request));
+        const streamedResult: AIModelSuccess = {
+          ok: true,
+          text: '',
+          tokens: { prompt: 0, completion: 0, total: 0 },
+          meta: {
+            provider: this.providerName,
+            model,
+            features: this.getModelCapabilities(model).functionCallingSupport ? ['function_calling', 'streaming'] : ['streaming'],
+            region: request.context.region,
+            latency: Date.now() - startTime, // Time to first byte; the stream is still open
+            timestamp: Date.now()
+          }
+        };
+        streamedResult.stream = this._streamChunks(stream, streamedResult);
+        return streamedResult;
+      }
+
+      const response = await this.openaiClient.chat.completions.create(completionRequestParams, ...this.requestOptions(request)) as OpenAI.Chat.Completions.ChatCompletion;
       const endTime = Date.now(); // Define endTime
       const latency = endTime - startTime; // Calculate latency
       
-      if (!response.choices || response.choices.length === 0 || !response.choices[0].message || !response.choices[0].message.content) {
+      const message = response.choices?.[0]?.message;
+      const toolCalls = this._parseToolCalls(message?.tool_calls);
+      if (!message || (!message.content && toolCalls.length === 0)) {
         return this.createError('UNKNOWN', 'OpenAI response format error: No content.', 500, true);
       }
       if (!response.usage) {
@@ -225,7 +275,7 @@ export class OpenAIModelProvider extends BaseAIModelProvider {
       
       const result: AIModelSuccess = {
         ok: true,
-        text: response.choices[0].message.content,
+        text: message.content || '',
         tokens: tokenUsage,
         meta: {
           provider: this.providerName,
@@ -236,6 +286,9 @@ export class OpenAIModelProvider extends BaseAIModelProvider {
           timestamp: endTime 
         }
       };
+      if (toolCalls.length > 0) {
+        result.toolCalls = toolCalls;
+      }
       return result;
     } catch (error: any) {
       console.error(`[OpenAIModelProvider] Error calling OpenAI API (model: ${model}):`, error);
@@ -248,11 +301,58 @@ export class OpenAIModelProvider extends BaseAIModelProvider {
         'UNKNOWN',
         `Unhandled error in OpenAI provider: ${error.message || error}`,
         error.status || 500,
-        true 
+        true
       );
     }
   }
 
+  /**
+   * Convert OpenAI function tool calls to ToolInvocations. Arguments that are not valid JSON
+   * are passed on as an empty object so the tool can report the problem back to the model.
+   */
+  private _parseToolCalls(toolCalls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[]): ToolInvocation[] {
+    return (toolCalls || [])
+      .filter(call => call.type === 'function')
+      .map(call => {
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(call.function.arguments || '{}');
+        } catch {
+          console.warn(`[OpenAIModelProvider] Could not parse arguments for tool call ${call.function.name}.`);
+        }
+        return { id: call.id, name: call.function.name, arguments: args };
+      });
+  }
+
+  /**
+   * Yields text deltas from an OpenAI chat completion stream, accumulating the full text
+   * and the final usage chunk (sent because of `include_usage`) onto the result.
+   * Errors raised mid-stream are propagated to the consumer.
+   */
+  private async *_streamChunks(
+    stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+    result: AIModelSuccess
+  ): AsyncIterable<string> {
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        result.text += delta;
+        yield delta;
+      }
+      if (chunk.usage) {
+        result.tokens = {
+          prompt: chunk.usage.prompt_tokens,
+          completion: chunk.usage.completion_tokens,
+          total: chunk.usage.total_tokens
+        };
+      }
+      if (chunk.model) {
+        result.meta.model = chunk.model;
+      }
+    }
+    result.meta.timestamp = Date.now();
+  }
+
   /**
    * Get the capabilities of a specific OpenAI model
    */
@@ -0,0 +1,109 @@
+import { AiServiceConfiguration, ProfileData } from '@kinable/common-types';
+import { ageBandForAge, resolveProfileAgeBand, resolveAgePolicy, isModelAllowed, applyAgePolicyLimits, mergeSystemPrompt } from './agePolicy';
+
+const profile = (overrides: Partial<ProfileData> = {}): ProfileData => ({
+  profileId: 'profile-1',
+  familyId: 'family-1',
+  role: 'child',
+  pauseStatusProfile: false,
+  displayName: 'Sam',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('agePolicy', () => {
+  describe('ageBandForAge', () => {
+    it('should map ages to their bands at the boundaries', () => {
+      expect(ageBandForAge(8)).toBe('under_9');
+      expect(ageBandForAge(9)).toBe('9_12');
+      expect(ageBandForAge(12)).toBe('9_12');
+      expect(ageBandForAge(13)).toBe('13_15');
+      expect(ageBandForAge(16)).toBe('16_17');
+      expect(ageBandForAge(18)).toBe('adult');
+    });
+  });
+
+  describe('resolveProfileAgeBand', () => {
+    const now = new Date('2026-06-01T00:00:00.000Z');
+
+    it('should prefer an explicit age band', () => {
+      expect(resolveProfileAgeBand(profile({ ageBand: '13_15', birthYear: 2020 }), now)).toBe('13_15');
+    });
+
+    it('should derive the band from the birth year, assuming the birthday is still to come', () => {
+      expect(resolveProfileAgeBand(profile({ birthYear: 2017 }), now)).toBe('under_9');
+      expect(resolveProfileAgeBand(profile({ birthYear: 2016 }), now)).toBe('9_12');
+    });
+
+    it('should treat guardians without a band as adults', () => {
+      expect(resolveProfileAgeBand(profile({ role: 'guardian' }), now)).toBe('adult');
+    });
+
+    it('should leave children without a band or birth year unbanded', () => {
+      expect(resolveProfileAgeBand(profile(), now)).toBeUndefined();
+    });
+  });
+
+  describe('resolveAgePolicy', () => {
+    const config = {
+      agePolicies: { under_9: { maxTokens: 100 }, adult: { maxTokens: 4000 } }
+    } as unknown as AiServiceConfiguration;
+
+    it('should return the policy for the band', () => {
+      expect(resolveAgePolicy(config, 'adult')).toEqual({ maxTokens: 4000 });
+    });
+
+    it('should fall back to the strictest band when no band is given', () => {
+      expect(resolveAgePolicy(config)).toEqual({ maxTokens: 100 });
+    });
+
+    it('should return undefined when the band has no policy', () => {
+      expect(resolveAgePolicy(config, '13_15')).toBeUndefined();
+    });
+  });
+
+  describe('isModelAllowed', () => {
+    it('should allow any model without an allow-list', () => {
+      expect(isModelAllowed(undefined, 'gpt-4o')).toBe(true);
+      expect(isModelAllowed({}, 'gpt-4o')).toBe(true);
+    });
+
+    it('should only allow listed models', () => {
+      expect(isModelAllowed({ allowedModels: ['gpt-4o-mini'] }, 'gpt-4o-mini')).toBe(true);
+      expect(isModelAllowed({ allowedModels: ['gpt-4o-mini'] }, 'gpt-4o')).toBe(false);
+    });
+  });
+
+  describe('applyAgePolicyLimits', () => {
+    const context = { requestId: 'req-1', region: 'us-east-2', traceId: 'trace-1' };
+
+    it('should keep lower values and cap higher ones', () => {
+      const request = applyAgePolicyLimits({ prompt: 'Hi', maxTokens: 100, temperature: 0.9, context }, { maxTokens: 500, temperatureCap: 0.4 });
+
+      expect(request.maxTokens).toBe(100);
+      expect(request.temperature).toBe(0.4);
+    });
+
+    it('should fill in missing values from the policy', () => {
+      const request = applyAgePolicyLimits({ prompt: 'Hi', context }, { maxTokens: 500 });
+
+      expect(request.maxTokens).toBe(500);
+      expect(request.temperature).toBeUndefined();
+    });
+  });
+
+  describe('mergeSystemPrompt', () => {
+    it('should put the policy prompt first', () => {
+      expect(mergeSystemPrompt({ systemPrompt: 'Be kind.' }, 'You are a tutor.', 'Model prompt')).toBe('Be kind.\n\nYou are a tutor.');
+    });
+
+    it('should fall back to the model prompt when the request has none', () => {
+      expect(mergeSystemPrompt({ systemPrompt: 'Be kind.' }, undefined, 'Model prompt')).toBe('Be kind.\n\nModel prompt');
+    });
+
+    it('should return the base prompt when the policy has none', () => {
+      expect(mergeSystemPrompt(undefined, undefined, 'Model prompt')).toBe('Model prompt');
+      expect(mergeSystemPrompt({}, undefined, undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { AIModelRequest, AgeBand, AgePolicy, AiServiceConfiguration, ProfileData } from '@kinable/common-types';
+
+// Policy used when a request carries no age band: treat the caller as the youngest child
+export const STRICTEST_AGE_BAND: AgeBand = 'under_9';
+
+/**
+ * Map an age in years to its age band.
+ */
+export function ageBandForAge(age: number): AgeBand {
+  if (age < 9) return 'under_9';
+  if (age < 13) return '9_12';
+  if (age < 16) return '13_15';
+  if (age < 18) return '16_17';
+  return 'adult';
+}
+
+/**
+ * Work out a profile's age band: an explicit band wins, then the birth year.
+ * Guardians without either are treated as adults; children without either get no band,
+ * so the strictest policy applies to them.
+ */
+export function resolveProfileAgeBand(profile: ProfileData, now: Date = new Date()): AgeBand | undefined {
+  if (profile.ageBand) {
+    return profile.ageBand;
+  }
+  if (profile.birthYear) {
+    // Without a birth date, assume the birthday has not happened yet this year
+    return ageBandForAge(now.getUTCFullYear() - profile.birthYear - 1);
+  }
+  return profile.role === 'guardian' ? 'adult' : undefined;
+}
+
+/**
+ * Look up the policy for an age band. Requests without a band get the strictest band's policy.
+ * @returns The policy, or undefined if the configuration has none for the band.
+ */
+export function resolveAgePolicy(config: AiServiceConfiguration, ageBand?: AgeBand): AgePolicy | undefined {
+  return config.agePolicies?.[ageBand ?? STRICTEST_AGE_BAND];
+}
+
+/**
+ * Whether the policy lets the band use a model.
+ */
+export function isModelAllowed(policy: AgePolicy | undefined, modelId: string): boolean {
+  return !policy?.allowedModels || policy.allowedModels.includes(modelId);
+}
+
+/**
+ * Cap the request's maxTokens and temperature at the policy limits.
+ * The request keeps its own value when it is already lower; the policy's limit fills in a missing one.
+ */
+export function applyAgePolicyLimits(request: AIModelRequest, policy: AgePolicy): AIModelRequest {
+  return {
+    ...request,
+    maxTokens: capAtLimit(request.maxTokens, policy.maxTokens),
+    temperature: capAtLimit(request.temperature, policy.temperatureCap),
+  };
+}
+
+/**
+ * Build the system prompt for a request. The policy prompt always comes first so callers cannot
+ * drop the guardrails; the request's prompt, or failing that the model's configured prompt, follows.
+ */
+export function mergeSystemPrompt(policy: AgePolicy | undefined, requestPrompt?: string, modelPrompt?: string): string | undefined {
+  const basePrompt = requestPrompt || modelPrompt;
+  if (!policy?.systemPrompt) {
+    return basePrompt;
+  }
+  return basePrompt ? `${policy.systemPrompt}\n\n${basePrompt}` : policy.systemPrompt;
+}
+
+function capAtLimit(requested: number | undefined, limit: number | undefined): number | undefined {
+  if (limit === undefined) return requested;
+  if (requested === undefined) return limit;
+  return Math.min(requested, limit);
+}
@@ -0,0 +1,57 @@
+import { attemptBudgetMs, createAttemptSignal } from './deadline';
+
+describe('deadline', () => {
+  describe('createAttemptSignal', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should abort once the time budget runs out', () => {
+      const attempt = createAttemptSignal(undefined, 1000);
+
+      jest.advanceTimersByTime(999);
+      expect(attempt.signal.aborted).toBe(false);
+      jest.advanceTimersByTime(1);
+      expect(attempt.signal.aborted).toBe(true);
+      expect(attempt.timedOut()).toBe(true);
+    });
+
+    it('should follow the caller cancelling the request', () => {
+      const caller = new AbortController();
+      const attempt = createAttemptSignal(caller.signal, 1000);
+
+      caller.abort();
+
+      expect(attempt.signal.aborted).toBe(true);
+      expect(attempt.timedOut()).toBe(false);
+    });
+
+    it('should start aborted if the caller already cancelled', () => {
+      const caller = new AbortController();
+      caller.abort();
+
+      expect(createAttemptSignal(caller.signal).signal.aborted).toBe(true);
+    });
+
+    it('should do nothing more once disposed', () => {
+      const caller = new AbortController();
+      const attempt = createAttemptSignal(caller.signal, 1000);
+
+      attempt.dispose();
+      caller.abort();
+      jest.advanceTimersByTime(1000);
+
+      expect(attempt.signal.aborted).toBe(false);
+    });
+  });
+
+  describe('attemptBudgetMs', () => {
+    it('should share the time left equally among the remaining attempts', () => {
+      expect(attemptBudgetMs(10_000, 1_000, 3)).toBe(3000);
+      expect(attemptBudgetMs(10_000, 4_000, 1)).toBe(6000);
+    });
+
+    it('should give no time once the deadline has passed', () => {
+      expect(attemptBudgetMs(10_000, 12_000, 2)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * The abort signal for one provider call. It is aborted when the caller cancels the request,
+ * when the call's time budget runs out, or when the router abandons the call.
+ */
+export interface AttemptSignal {
+  signal: AbortSignal;
+  abort: () => void;
+  timedOut: () => boolean;   // Whether the time budget ran out
+  dispose: () => void;       // Stop the timer and stop following the caller's signal
+}
+
+/**
+ * Create the signal for a provider call that follows `parent` and times out after `timeoutMs`.
+ */
+export function createAttemptSignal(parent?: AbortSignal, timeoutMs?: number): AttemptSignal {
+  const controller = new AbortController();
+  let expired = false;
+  const abort = () => controller.abort();
+  const timer = timeoutMs !== undefined
+    ? setTimeout(() => { expired = true; abort(); }, Math.max(0, timeoutMs))
+    : undefined;
+
+  if (parent?.aborted) {
+    abort();
+  } else {
+    parent?.addEventListener('abort', abort);
+  }
+
+  return {
+    signal: controller.signal,
+    abort,
+    timedOut: () => expired,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', abort);
+    },
+  };
+}
+
+/**
+ * An equal share of the time left before `deadline` for each of the attempts still to be made,
+ * so a hung provider cannot use up the time its fallbacks need. Time an attempt does not use
+ * is shared among the ones after it.
+ */
+export function attemptBudgetMs(deadline: number, now: number, attemptsLeft: number): number {
+  return Math.max(0, Math.floor((deadline - now) / Math.max(1, attemptsLeft)));
+}
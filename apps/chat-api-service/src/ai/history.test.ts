@@ -0,0 +1,52 @@
+import { AIModelRequest, ChatMessage } from '@kinable/common-types';
+import { fitsContextWindow, historyTokenBudget, trimHistoryToBudget } from './history';
+
+const context = { requestId: 'req-1', region: 'us-east-2', traceId: 'trace-1' };
+// 40 characters, mostly dots: 4 cl100k tokens of text plus 4 tokens of message overhead
+const message = (role: ChatMessage['role'], marker: string): ChatMessage => ({ role, content: marker.padEnd(40, '.') });
+
+describe('history', () => {
+  describe('historyTokenBudget', () => {
+    it('should leave what the system prompt, prompt and reply do not use', () => {
+      const request: AIModelRequest = { prompt: 'x'.repeat(40), systemPrompt: 'y'.repeat(80), maxTokens: 100, context };
+
+      // 1000 - (20 + 4) - (5 + 4) - 3 to prime the reply - 100
+      expect(historyTokenBudget(request, 1000)).toBe(864);
+    });
+
+    it('should never go below zero', () => {
+      expect(historyTokenBudget({ prompt: 'Hi', maxTokens: 5000, context }, 1000)).toBe(0);
+    });
+  });
+
+  describe('fitsContextWindow', () => {
+    it('should fit when the prompt and reply fit, however long the history', () => {
+      const request: AIModelRequest = { prompt: 'x'.repeat(40), maxTokens: 100, context: { ...context, history: [message('user', 'u1')] } };
+
+      // (5 + 4) + 3 + 100
+      expect(fitsContextWindow(request, 112)).toBe(true);
+      expect(fitsContextWindow(request, 111)).toBe(false);
+    });
+  });
+
+  describe('trimHistoryToBudget', () => {
+    const history = [message('user', 'u1'), message('assistant', 'a1'), message('user', 'u2'), message('assistant', 'a2')];
+
+    it('should keep everything that fits', () => {
+      expect(trimHistoryToBudget(history, 32)).toEqual(history);
+    });
+
+    it('should drop the oldest messages first', () => {
+      expect(trimHistoryToBudget(history, 16)).toEqual(history.slice(2));
+    });
+
+    it('should not start with an assistant turn', () => {
+      // Three messages fit, but the oldest of them is the assistant's
+      expect(trimHistoryToBudget(history, 24)).toEqual(history.slice(2));
+    });
+
+    it('should drop everything when the budget is spent', () => {
+      expect(trimHistoryToBudget(history, 0)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { AIModelRequest, ChatMessage } from '@kinable/common-types';
+import { DEFAULT_ESTIMATED_OUTPUT_TOKENS } from './tokenEstimator';
+import { getTokenizer } from './tokenizers';
+
+/**
+ * Tokens of history a request can carry within a context window, after the system prompt,
+ * the prompt and the room reserved for the reply.
+ */
+export function historyTokenBudget(request: AIModelRequest, contextWindow: number): number {
+  return Math.max(0, contextWindow - reservedTokens(request));
+}
+
+/**
+ * Whether the system prompt, the prompt and the room reserved for the reply fit in a context window.
+ * History is left out, as it can be trimmed to fit.
+ */
+export function fitsContextWindow(request: AIModelRequest, contextWindow: number): boolean {
+  return reservedTokens(request) <= contextWindow;
+}
+
+// Counted with the tokenizer of the model the request is for
+function reservedTokens(request: AIModelRequest): number {
+  const tokenizer = getTokenizer(request.preferredModel);
+  return (request.systemPrompt ? tokenizer.countTokens(request.systemPrompt) + tokenizer.messageOverheadTokens : 0) +
+    tokenizer.countTokens(request.prompt) + tokenizer.messageOverheadTokens + tokenizer.replyPrimingTokens +
+    (request.maxTokens ?? DEFAULT_ESTIMATED_OUTPUT_TOKENS);
+}
+
+/**
+ * Keep the most recent messages that fit in the token budget, counted with the model's tokenizer.
+ * Older messages are dropped first, and the result never starts with an assistant turn
+ * so the conversation still opens with the user.
+ */
+export function trimHistoryToBudget(history: ChatMessage[], budgetTokens: number, modelId?: string): ChatMessage[] {
+  const tokenizer = getTokenizer(modelId);
+  let usedTokens = 0;
+  let start = history.length;
+  while (start > 0) {
+    const messageTokens = tokenizer.countTokens(history[start - 1].content) + tokenizer.messageOverheadTokens;
+    if (usedTokens + messageTokens > budgetTokens) break;
+    usedTokens += messageTokens;
+    start--;
+  }
+  while (start < history.length && history[start].role === 'assistant') {
+    start++;
+  }
+  return history.slice(start);
+}
+
+/**
+ * Fit a request to a model's context window: system messages in the history (such as a conversation
+ * summary) follow the system prompt, and the oldest turns are dropped if they would not fit.
+ * Counted with the tokenizer of the model the request is for.
+ */
+export function fitRequestToContextWindow(request: AIModelRequest, contextWindow?: number): AIModelRequest {
+  let fitted = request;
+  const { systemMessages, turns } = splitSystemMessages(fitted.context?.history || []);
+  if (systemMessages.length > 0) {
+    fitted = {
+      ...fitted,
+      systemPrompt: [fitted.systemPrompt, ...systemMessages].filter(Boolean).join('\n\n'),
+      context: { ...fitted.context, history: turns },
+    };
+  }
+
+  const history = fitted.context?.history;
+  if (history && history.length > 0 && contextWindow) {
+    const trimmedHistory = trimHistoryToBudget(history, historyTokenBudget(fitted, contextWindow), fitted.preferredModel);
+    if (trimmedHistory.length < history.length) {
+      fitted = { ...fitted, context: { ...fitted.context, history: trimmedHistory } };
+    }
+  }
+  return fitted;
+}
+
+/**
+ * Separate the system messages the service put in a history (such as a conversation summary)
+ * from the user and assistant turns. Providers only take system instructions through the
+ * system prompt, so the router appends these to it.
+ */
+export function splitSystemMessages(history: ChatMessage[]): { systemMessages: string[]; turns: ChatMessage[] } {
+  return {
+    systemMessages: history.filter(message => message.role === 'system').map(message => message.content),
+    turns: history.filter(message => message.role !== 'system'),
+  };
+}
@@ -0,0 +1,31 @@
+import { AiServiceConfiguration, SubscriptionPlan } from '@kinable/common-types';
+
+/**
+ * Look up a family's subscription plan. Families without a plan, or on a plan missing from the
+ * configuration, are not limited to any models.
+ * @returns The plan, or undefined if the family has none or it is not configured.
+ */
+export function resolvePlan(config: AiServiceConfiguration, planId?: string | null): SubscriptionPlan | undefined {
+  if (!planId) {
+    return undefined;
+  }
+  const plan = config.plans?.[planId];
+  if (!plan) {
+    console.warn(`[planEntitlements] Plan ${planId} is not configured; its models are not restricted.`);
+  }
+  return plan;
+}
+
+/**
+ * Whether the plan includes a model.
+ */
+export function isModelInPlan(plan: SubscriptionPlan | undefined, modelId: string): boolean {
+  return !plan?.allowedModels || plan.allowedModels.includes(modelId);
+}
+
+/**
+ * Whether a request for a model outside the plan is refused rather than moved to a model the plan includes.
+ */
+export function rejectsDisallowedModels(plan: SubscriptionPlan | undefined): boolean {
+  return plan?.disallowedModelAction === 'reject';
+}
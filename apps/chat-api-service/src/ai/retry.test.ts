@@ -0,0 +1,63 @@
+import { AIModelError } from '@kinable/common-types';
+import { backoffDelayMs, retryAfterMs, retryDelayMs } from './retry';
+
+const config = { maxRetries: 3, initialDelayMs: 100, maxDelayMs: 1000 };
+const error = (overrides: Partial<AIModelError> = {}): AIModelError => ({ ok: false, code: 'RATE_LIMIT', provider: 'openai', retryable: true, ...overrides });
+
+describe('retry', () => {
+  describe('backoffDelayMs', () => {
+    it('should double the ceiling with each retry up to maxDelayMs', () => {
+      const highest = () => 0.999999;
+
+      expect(backoffDelayMs(0, config, highest)).toBe(99);
+      expect(backoffDelayMs(2, config, highest)).toBe(399);
+      expect(backoffDelayMs(6, config, highest)).toBe(999);
+    });
+
+    it('should pick a random wait below the ceiling', () => {
+      expect(backoffDelayMs(2, config, () => 0.5)).toBe(200);
+      expect(backoffDelayMs(2, config, () => 0)).toBe(0);
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    it('should back off for retryable errors while retries remain', () => {
+      expect(retryDelayMs(error(), 0, config, undefined, () => 0.5)).toBe(50);
+      expect(retryDelayMs(error(), 3, config)).toBeUndefined();
+      expect(retryDelayMs(error({ retryable: false }), 0, config)).toBeUndefined();
+      expect(retryDelayMs(error(), 0, undefined)).toBeUndefined();
+    });
+
+    it('should wait for the Retry-After, unless it is longer than maxDelayMs', () => {
+      expect(retryDelayMs(error({ retryAfterMs: 800 }), 0, config)).toBe(800);
+      expect(retryDelayMs(error({ retryAfterMs: 5000 }), 0, config)).toBeUndefined();
+    });
+
+    it('should not retry when the wait would use up the time left', () => {
+      expect(retryDelayMs(error({ retryAfterMs: 800 }), 0, config, 800)).toBeUndefined();
+      expect(retryDelayMs(error({ retryAfterMs: 800 }), 0, config, 2000)).toBe(800);
+    });
+  });
+
+  describe('retryAfterMs', () => {
+    it('should read seconds or milliseconds from plain header objects', () => {
+      expect(retryAfterMs({ headers: { 'retry-after': '2' } })).toBe(2000);
+      expect(retryAfterMs({ headers: { 'retry-after-ms': '250', 'retry-after': '2' } })).toBe(250);
+    });
+
+    it('should read fetch Headers', () => {
+      expect(retryAfterMs({ headers: new Headers({ 'retry-after': '1' }) })).toBe(1000);
+    });
+
+    it('should turn an HTTP date into the time until then', () => {
+      const now = Date.parse('2024-05-01T12:00:00Z');
+
+      expect(retryAfterMs({ headers: { 'retry-after': 'Wed, 01 May 2024 12:00:03 GMT' } }, now)).toBe(3000);
+    });
+
+    it('should ignore missing or unreadable headers', () => {
+      expect(retryAfterMs(new Error('boom'))).toBeUndefined();
+      expect(retryAfterMs({ headers: { 'retry-after': 'soon' } })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { AIModelError, ProviderConfig } from '@kinable/common-types';
+
+export type RetryConfig = NonNullable<ProviderConfig['retryConfig']>;
+
+/**
+ * The backoff before retry number `retry` (0 for the first retry): a random wait of up to
+ * initialDelayMs doubled per retry, capped at maxDelayMs ("full jitter"), so that callers
+ * rate limited together do not all come back at once.
+ */
+export function backoffDelayMs(retry: number, config: RetryConfig, random: () => number = Math.random): number {
+  const ceiling = Math.min(config.maxDelayMs, config.initialDelayMs * Math.pow(2, retry));
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * How long to wait before retrying a failed call, or undefined if it should not be retried:
+ * the error is not retryable, the retries are used up, the provider asked for a longer wait than
+ * maxDelayMs, or the wait would not leave the retry any of the `remainingMs` time budget.
+ * A Retry-After from the provider is waited out in full; otherwise the wait is the jittered backoff.
+ */
+export function retryDelayMs(
+  error: AIModelError,
+  retry: number,
+  config: RetryConfig | undefined,
+  remainingMs?: number,
+  random?: () => number
+): number | undefined {
+  if (!config || !error.retryable || retry >= config.maxRetries) {
+    return undefined;
+  }
+  if (error.retryAfterMs !== undefined && error.retryAfterMs > config.maxDelayMs) {
+    return undefined;
+  }
+  const delayMs = error.retryAfterMs ?? backoffDelayMs(retry, config, random);
+  if (remainingMs !== undefined && delayMs >= remainingMs) {
+    return undefined;
+  }
+  return delayMs;
+}
+
+/**
+ * How long the provider asked us to wait before retrying, from the Retry-After (seconds or an
+ * HTTP date) or retry-after-ms header of a failed response. The OpenAI SDK exposes headers as a
+ * plain object, the Anthropic SDK as a fetch Headers.
+ */
+export function retryAfterMs(error: any, now: number = Date.now()): number | undefined {
+  const headers = error?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  const header = (name: string): string | undefined =>
+    (typeof headers.get === 'function' ? headers.get(name) : headers[name]) ?? undefined;
+
+  const millis = parseFloat(header('retry-after-ms') ?? '');
+  if (!isNaN(millis) && millis >= 0) {
+    return millis;
+  }
+  const retryAfter = header('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Wait `ms`, or less if `signal` aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, signal?.aborted ? 0 : ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,155 @@
+import { AIModelRequest, ModelConfig, RoutingRule } from '@kinable/common-types';
+import { RuleCandidate, applyRoutingRules, orderProvidersByRules, ruleAppliesToRequest } from './routingRules';
+
+const model = (id: string, overrides: Partial<ModelConfig> = {}): ModelConfig => ({
+  id,
+  name: id,
+  costPerMillionInputTokens: 1,
+  costPerMillionOutputTokens: 1,
+  contextWindow: 16000,
+  capabilities: ['general', 'chat'],
+  streamingSupport: true,
+  functionCallingSupport: true,
+  visionSupport: false,
+  active: true,
+  ...overrides
+});
+
+const models: Record<string, ModelConfig> = {
+  'big': model('big', { costPerMillionInputTokens: 10, costPerMillionOutputTokens: 30, capabilities: ['general', 'chat', 'vision'] }),
+  'small': model('small'),
+  'retired': model('retired', { active: false }),
+};
+
+const request = (overrides: Partial<AIModelRequest> = {}): AIModelRequest => ({
+  prompt: 'Hi',
+  context: { requestId: 'r1', familyId: 'f1', profileId: 'p1', region: 'us-east-2', traceId: 't1' },
+  ...overrides
+});
+
+const candidate = (overrides: Partial<RuleCandidate> = {}): RuleCandidate => ({
+  providerName: 'openai',
+  modelName: 'big',
+  models,
+  estimateCost: m => m.costPerMillionInputTokens + m.costPerMillionOutputTokens, // Whole dollars keep the limits readable
+  isModelEligible: () => true,
+  ...overrides
+});
+
+describe('routingRules', () => {
+  it('should accept a candidate unchanged when there are no rules', () => {
+    expect(applyRoutingRules(undefined, request(), candidate())).toEqual({ outcome: 'accept', modelName: 'big', decisions: [] });
+  });
+
+  describe('capability rules', () => {
+    const rule: RoutingRule = { type: 'capability', required: ['vision'], preferredProvider: 'anthropic' };
+
+    it('should only apply to requests needing every listed capability', () => {
+      expect(ruleAppliesToRequest(rule, request({ requiredCapabilities: ['vision', 'chat'] }))).toBe(true);
+      expect(ruleAppliesToRequest(rule, request({ requiredCapabilities: ['chat'] }))).toBe(false);
+      expect(ruleAppliesToRequest(rule, request())).toBe(false);
+    });
+
+    it('should move the preferred provider to the front for matching requests', () => {
+      expect(orderProvidersByRules([rule], request({ requiredCapabilities: ['vision'] }), ['openai', 'anthropic'])).toEqual([
+        { name: 'anthropic', reason: 'rule0:capability:preferProvider' },
+        { name: 'openai', reason: 'preference_order' }
+      ]);
+      expect(orderProvidersByRules([rule], request(), ['openai', 'anthropic']).map(p => p.name)).toEqual(['openai', 'anthropic']);
+    });
+
+    it('should skip models lacking the capabilities by default', () => {
+      const visionRequest = request({ requiredCapabilities: ['vision'] });
+
+      expect(applyRoutingRules([rule], visionRequest, candidate({ modelName: 'small' }))).toEqual({ outcome: 'skip', decisions: ['rule0:capability:fallback'] });
+      expect(applyRoutingRules([rule], visionRequest, candidate()).outcome).toBe('accept');
+    });
+
+    it('should switch to a model with the capabilities when told to', () => {
+      const result = applyRoutingRules([{ ...rule, action: 'useModel', model: 'big' }], request({ requiredCapabilities: ['vision'] }), candidate({ modelName: 'small' }));
+
+      expect(result).toEqual({ outcome: 'accept', modelName: 'big', decisions: ['rule0:capability:useModel:big'] });
+    });
+  });
+
+  describe('costLimit rules', () => {
+    it('should fall back from candidates that would cost more than the limit', () => {
+      const rules: RoutingRule[] = [{ type: 'costLimit', maxTokenCost: 5 }];
+
+      expect(applyRoutingRules(rules, request(), candidate())).toEqual({ outcome: 'skip', decisions: ['rule0:costLimit:fallback'] });
+      expect(applyRoutingRules(rules, request(), candidate({ modelName: 'small' })).outcome).toBe('accept');
+    });
+
+    it('should switch to a cheaper model and let later rules see it', () => {
+      const rules: RoutingRule[] = [
+        { type: 'costLimit', maxTokenCost: 5, action: 'useModel', model: 'small' },
+        { type: 'costLimit', maxTokenCost: 1, action: 'reject' }
+      ];
+
+      const result = applyRoutingRules(rules, request(), candidate());
+
+      expect(result.outcome).toBe('reject');
+      expect(result.decisions).toEqual(['rule0:costLimit:useModel:small', 'rule1:costLimit:reject']);
+    });
+
+    it('should skip the candidate when the model to switch to cannot be used', () => {
+      const useRetired: RoutingRule[] = [{ type: 'costLimit', maxTokenCost: 5, action: 'useModel', model: 'retired' }];
+      const useSmall: RoutingRule[] = [{ type: 'costLimit', maxTokenCost: 5, action: 'useModel', model: 'small' }];
+
+      expect(applyRoutingRules(useRetired, request(), candidate()).decisions).toEqual(['rule0:costLimit:useModel:retired_unavailable']);
+      expect(applyRoutingRules(useSmall, request(), candidate({ isModelEligible: id => id !== 'small' })).outcome).toBe('skip');
+    });
+  });
+
+  describe('priority rules', () => {
+    const rule: RoutingRule = { type: 'priority', minPriority: 2 };
+
+    it('should reject requests below the minimum priority by default', () => {
+      const result = applyRoutingRules([rule], request({ priority: 1 }), candidate());
+
+      expect(result).toEqual({ outcome: 'reject', ruleIndex: 0, rule, decisions: ['rule0:priority:reject'] });
+      expect(applyRoutingRules([rule], request({ priority: 2 }), candidate()).outcome).toBe('accept');
+    });
+
+    it('should treat requests without a priority as priority 0', () => {
+      expect(ruleAppliesToRequest(rule, request())).toBe(true);
+      expect(ruleAppliesToRequest({ type: 'priority', minPriority: 0 }, request())).toBe(false);
+    });
+
+    it('should send low priority requests to a cheaper model when told to', () => {
+      const result = applyRoutingRules([{ ...rule, action: 'useModel', model: 'small' }], request(), candidate());
+
+      expect(result).toEqual({ outcome: 'accept', modelName: 'small', decisions: ['rule0:priority:useModel:small'] });
+    });
+  });
+
+  describe('region rules', () => {
+    const rule: RoutingRule = { type: 'region', regions: ['eu-west-1'], preferredProvider: 'anthropic' };
+    const euRequest = request({ context: { ...request().context, userRegion: 'eu-west-1' } });
+
+    it('should match on the user home region, else the handling region', () => {
+      expect(ruleAppliesToRequest(rule, euRequest)).toBe(true);
+      expect(ruleAppliesToRequest(rule, request())).toBe(false);
+      expect(ruleAppliesToRequest({ ...rule, regions: ['us-east-2'] }, request())).toBe(true);
+    });
+
+    it('should only reorder providers when it names no action', () => {
+      expect(orderProvidersByRules([rule], euRequest, ['openai', 'anthropic'])[0]).toEqual({ name: 'anthropic', reason: 'rule0:region:preferProvider' });
+      expect(applyRoutingRules([rule], euRequest, candidate()).outcome).toBe('accept');
+    });
+
+    it('should keep requests from the regions to the preferred provider on fallback', () => {
+      const rules: RoutingRule[] = [{ ...rule, action: 'fallback' }];
+
+      expect(applyRoutingRules(rules, euRequest, candidate())).toEqual({ outcome: 'skip', decisions: ['rule0:region:fallback'] });
+      expect(applyRoutingRules(rules, euRequest, candidate({ providerName: 'anthropic' })).outcome).toBe('accept');
+      expect(applyRoutingRules(rules, request(), candidate()).outcome).toBe('accept');
+    });
+
+    it('should refuse requests from the regions on reject', () => {
+      const result = applyRoutingRules([{ type: 'region', regions: ['eu-west-1'], action: 'reject' }], euRequest, candidate({ providerName: 'anthropic' }));
+
+      expect(result.outcome).toBe('reject');
+    });
+  });
+});
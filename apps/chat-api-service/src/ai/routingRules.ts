@@ -0,0 +1,146 @@
+import { AIModelRequest, ModelConfig, RoutingRule } from '@kinable/common-types';
+
+/**
+ * A provider and model the router is considering, as the rules see it.
+ */
+export interface RuleCandidate {
+  providerName: string;
+  modelName: string;
+  models: Record<string, ModelConfig>;            // The provider's models, for rules that switch model
+  estimateCost: (model: ModelConfig) => number;   // Estimated cost of the request on a model
+  isModelEligible: (modelId: string) => boolean;  // Whether the profile's age policy and plan allow a model
+}
+
+/**
+ * What the rules decided for a candidate. Decisions are tried-providers trail reasons, one per
+ * rule that acted, e.g. "rule1:costLimit:useModel:gpt-4o-mini".
+ */
+export type RuleOutcome =
+  | { outcome: 'accept'; modelName: string; decisions: string[] }
+  | { outcome: 'skip'; decisions: string[] }
+  | { outcome: 'reject'; ruleIndex: number; rule: RoutingRule; decisions: string[] };
+
+// Action a rule takes when it names none
+const DEFAULT_ACTIONS: Record<RoutingRule['type'], RoutingRule['action']> = {
+  capability: 'fallback',
+  costLimit: 'fallback',
+  priority: 'reject',
+  region: undefined,
+};
+
+/**
+ * The region a request is routed for: the user's home region, else the region handling it.
+ */
+export function requestRegion(request: AIModelRequest): string | undefined {
+  return request.context?.userRegion || request.context?.region;
+}
+
+/**
+ * Whether a rule applies to a request at all:
+ * - capability: the request requires every capability in `required`
+ * - costLimit: always; the limit is checked per candidate
+ * - priority: the request's priority (0 if unset) is below `minPriority`
+ * - region: the request is routed for one of `regions`
+ */
+export function ruleAppliesToRequest(rule: RoutingRule, request: AIModelRequest): boolean {
+  switch (rule.type) {
+    case 'capability':
+      return !!rule.required?.length && rule.required.every(capability => request.requiredCapabilities?.includes(capability));
+    case 'costLimit':
+      return true;
+    case 'priority':
+      return rule.minPriority !== undefined && (request.priority ?? 0) < rule.minPriority;
+    case 'region': {
+      const region = requestRegion(request);
+      return !!region && !!rule.regions?.includes(region);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a rule that applies to the request acts on a candidate:
+ * - capability: the model lacks one of the `required` capabilities
+ * - costLimit: the request would cost more than `maxTokenCost` on the model
+ * - priority and region: the candidate is not the rule's `preferredProvider` (every candidate if it names none)
+ */
+function ruleActsOnCandidate(rule: RoutingRule, providerName: string, model: ModelConfig, cost: number): boolean {
+  switch (rule.type) {
+    case 'capability':
+      return !!rule.required?.some(capability => !model.capabilities?.includes(capability));
+    case 'costLimit':
+      return rule.maxTokenCost !== undefined && cost > rule.maxTokenCost;
+    default:
+      return !rule.preferredProvider || providerName !== rule.preferredProvider;
+  }
+}
+
+/**
+ * Put the providers named by `preferredProvider` in rules that apply to the request ahead of the
+ * rest, in rule order.
+ * @returns Each provider with the reason it is considered: "preference_order", or the rule that moved it up.
+ */
+export function orderProvidersByRules(
+  rules: RoutingRule[] | undefined,
+  request: AIModelRequest,
+  providerOrder: string[]
+): Array<{ name: string; reason: string }> {
+  const preferred: Array<{ name: string; reason: string }> = [];
+  (rules || []).forEach((rule, index) => {
+    if (rule.preferredProvider && providerOrder.includes(rule.preferredProvider)
+        && !preferred.some(p => p.name === rule.preferredProvider) && ruleAppliesToRequest(rule, request)) {
+      preferred.push({ name: rule.preferredProvider, reason: `rule${index}:${rule.type}:preferProvider` });
+    }
+  });
+  const rest = providerOrder
+    .filter(name => !preferred.some(p => p.name === name))
+    .map(name => ({ name, reason: 'preference_order' }));
+  return [...preferred, ...rest];
+}
+
+/**
+ * Apply the routing rules, in order, to a candidate. A rule that applies to the request and acts
+ * on the candidate takes its action:
+ * - useModel: switch to the rule's `model`; later rules see the new model. The candidate is
+ *   skipped if its provider has no such active model or the profile may not use it.
+ * - fallback: skip the candidate so the next one serves the request.
+ * - reject: refuse the request.
+ * Rules without an action default to fallback for capability and costLimit, reject for priority,
+ * and only reorder providers for region.
+ */
+export function applyRoutingRules(rules: RoutingRule[] | undefined, request: AIModelRequest, candidate: RuleCandidate): RuleOutcome {
+  const decisions: string[] = [];
+  let modelName = candidate.modelName;
+
+  for (const [index, rule] of (rules || []).entries()) {
+    const model = candidate.models[modelName];
+    if (!model || !ruleAppliesToRequest(rule, request)
+        || !ruleActsOnCandidate(rule, candidate.providerName, model, candidate.estimateCost(model))) {
+      continue;
+    }
+
+    const action = rule.action ?? DEFAULT_ACTIONS[rule.type];
+    const decision = `rule${index}:${rule.type}:${action}`;
+    if (action === 'reject') {
+      decisions.push(decision);
+      return { outcome: 'reject', ruleIndex: index, rule, decisions };
+    }
+    if (action === 'fallback') {
+      decisions.push(decision);
+      return { outcome: 'skip', decisions };
+    }
+    if (action === 'useModel') {
+      const target = rule.model ? candidate.models[rule.model] : undefined;
+      if (!rule.model || !target?.active || !candidate.isModelEligible(rule.model)) {
+        decisions.push(`${decision}:${rule.model ?? 'none'}_unavailable`);
+        return { outcome: 'skip', decisions };
+      }
+      if (rule.model !== modelName) {
+        decisions.push(`${decision}:${rule.model}`);
+        modelName = rule.model;
+      }
+    }
+  }
+  return { outcome: 'accept', modelName, decisions };
+}
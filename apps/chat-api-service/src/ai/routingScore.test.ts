@@ -0,0 +1,65 @@
+import { DEFAULT_QUALITY_RATING, normalizeSignals, scoreCandidates } from './routingScore';
+
+describe('routingScore', () => {
+  describe('normalizeSignals', () => {
+    it('should score each factor relative to the best candidate', () => {
+      const [cheap, pricey] = normalizeSignals([
+        { estimatedCost: 0.001, avgLatencyMs: 800, successRate: 0.5, qualityRating: 0.4 },
+        { estimatedCost: 0.004, avgLatencyMs: 200, successRate: 1, qualityRating: 0.8 },
+      ]);
+
+      expect(cheap).toEqual({ cost: 1, latency: 0.25, availability: 0.5, quality: 0.5 });
+      expect(pricey).toEqual({ cost: 0.25, latency: 1, availability: 1, quality: 1 });
+    });
+
+    it('should keep every factor between 0 and 1 however far apart the costs are', () => {
+      const factors = normalizeSignals([{ estimatedCost: 0.000001 }, { estimatedCost: 10 }, { estimatedCost: 0 }]);
+
+      for (const factor of factors.flatMap(f => Object.values(f))) {
+        expect(factor).toBeGreaterThanOrEqual(0);
+        expect(factor).toBeLessThanOrEqual(1);
+      }
+      expect(factors[2].cost).toBe(1);
+    });
+
+    it('should give providers without health figures the benefit of the doubt', () => {
+      const [measured, unmeasured] = normalizeSignals([
+        { estimatedCost: 0.001, avgLatencyMs: 500, successRate: 0.8 },
+        { estimatedCost: 0.001 },
+      ]);
+
+      expect(unmeasured.latency).toBe(1);
+      expect(unmeasured.availability).toBe(1);
+      expect(measured.latency).toBe(1);
+      expect(measured.availability).toBe(0.8);
+    });
+
+    it('should rate unrated models at the default quality', () => {
+      const [rated, unrated] = normalizeSignals([{ estimatedCost: 1, qualityRating: 1 }, { estimatedCost: 1 }]);
+
+      expect(rated.quality).toBe(1);
+      expect(unrated.quality).toBe(DEFAULT_QUALITY_RATING);
+    });
+  });
+
+  describe('scoreCandidates', () => {
+    const candidates = [
+      { estimatedCost: 0.001, avgLatencyMs: 2000, qualityRating: 0.6 },
+      { estimatedCost: 0.002, avgLatencyMs: 500, qualityRating: 0.9 },
+    ];
+
+    it('should let the weights decide between candidates', () => {
+      const [cheapBy, fastBy] = [
+        scoreCandidates(candidates, { cost: 0.7, quality: 0.1, latency: 0.1, availability: 0.1 }),
+        scoreCandidates(candidates, { cost: 0.1, quality: 0.3, latency: 0.5, availability: 0.1 }),
+      ];
+
+      expect(cheapBy[0]).toBeGreaterThan(cheapBy[1]);
+      expect(fastBy[1]).toBeGreaterThan(fastBy[0]);
+    });
+
+    it('should score a candidate that is best on every factor at 1', () => {
+      expect(scoreCandidates([{ estimatedCost: 0.001 }])).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { DEFAULT_ROUTING_WEIGHTS } from '@kinable/common-types';
+
+export type RoutingWeights = typeof DEFAULT_ROUTING_WEIGHTS;
+
+export const DEFAULT_QUALITY_RATING = 0.5; // Models without a qualityRating rank in the middle
+
+/**
+ * What the router knows about a candidate when ranking it.
+ */
+export interface RoutingSignals {
+  estimatedCost: number;
+  avgLatencyMs?: number;   // From the provider's health record
+  successRate?: number;    // Recent share of successful requests, 0..1
+  qualityRating?: number;  // From the model's config, 0..1
+}
+
+export interface RoutingFactors {
+  cost: number;
+  latency: number;
+  availability: number;
+  quality: number;
+}
+
+/**
+ * Put each signal on a 0..1 scale relative to the other candidates, 1 being the best of them,
+ * so that no signal outweighs the others by its units alone. Cost and latency score the
+ * cheapest or fastest candidate over this one. A provider with no latency or success rate yet
+ * has not failed anyone, so it is scored as the best on that signal.
+ */
+export function normalizeSignals(candidates: RoutingSignals[]): RoutingFactors[] {
+  const latencies = candidates.map(c => c.avgLatencyMs).filter((ms): ms is number => ms !== undefined && ms > 0);
+  const minCost = Math.min(...candidates.map(c => c.estimatedCost));
+  const minLatency = latencies.length > 0 ? Math.min(...latencies) : undefined;
+  const bestSuccessRate = Math.max(...candidates.map(c => c.successRate ?? 1));
+  const bestQuality = Math.max(...candidates.map(c => c.qualityRating ?? DEFAULT_QUALITY_RATING));
+
+  return candidates.map(c => ({
+    cost: c.estimatedCost > 0 ? minCost / c.estimatedCost : 1,
+    latency: minLatency !== undefined && c.avgLatencyMs !== undefined && c.avgLatencyMs > 0 ? minLatency / c.avgLatencyMs : 1,
+    availability: bestSuccessRate > 0 ? (c.successRate ?? 1) / bestSuccessRate : 1,
+    quality: bestQuality > 0 ? (c.qualityRating ?? DEFAULT_QUALITY_RATING) / bestQuality : 1,
+  }));
+}
+
+/**
+ * Score the candidates by the weighted sum of their normalized factors; higher is better.
+ * @returns The scores, in the order of the candidates.
+ */
+export function scoreCandidates(candidates: RoutingSignals[], weights: RoutingWeights = DEFAULT_ROUTING_WEIGHTS): number[] {
+  return normalizeSignals(candidates).map(factors =>
+    (factors.cost * weights.cost) +
+    (factors.latency * weights.latency) +
+    (factors.availability * weights.availability) +
+    (factors.quality * weights.quality)
+  );
+}
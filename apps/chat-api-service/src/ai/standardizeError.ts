@@ -1,5 +1,6 @@
 import { AIModelError } from '@kinable/common-types';
 import OpenAI from 'openai'; // Assuming this is needed for type checks like OpenAI.APIError
+import { retryAfterMs } from './retry';
 
 /**
  * Standardizes an error from an AI provider into the common AIModelError format.
@@ -101,5 +102,17 @@ export function standardizeError(error: any, providerName: string): AIModelError
   }
   // Add more generic error type checks (e.g., network errors) if needed
 
+  const retryAfter = retryAfterMs(error);
+  if (retryAfter !== undefined) {
+    standardized.retryAfterMs = retryAfter;
+  }
   return standardized;
-} 
\ No newline at end of file
+}
+
+/**
+ * Whether an error means the request was too long for the model's context window.
+ * Providers report these as invalid requests, so they arrive as CONTENT errors.
+ */
+export function isContextLengthError(error: AIModelError): boolean {
+  return error.code === 'CONTENT' && /context.?length|context window|maximum context|too many tokens|prompt is too long/i.test(error.detail || '');
+}
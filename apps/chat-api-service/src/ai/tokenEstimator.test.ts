@@ -0,0 +1,67 @@
+import { AIModelRequest } from '@kinable/common-types';
+import { DEFAULT_ESTIMATED_OUTPUT_TOKENS, estimateRequestTokens } from './tokenEstimator';
+
+const context = { requestId: 'req-1', region: 'us-east-2', traceId: 'trace-1' };
+
+describe('tokenEstimator', () => {
+  describe('estimateRequestTokens', () => {
+    // Input tokens providers reported in `usage` for these requests
+    it('should match the prompt tokens OpenAI reported for a chat completion', () => {
+      const request: AIModelRequest = { prompt: 'Say this is a test!', preferredModel: 'gpt-3.5-turbo', context };
+
+      expect(estimateRequestTokens(request).inputTokens).toBe(13);
+    });
+
+    it('should come within 20% of the input tokens Anthropic reported', () => {
+      const request: AIModelRequest = { prompt: 'Hello, Claude', systemPrompt: 'You are a scientist', preferredModel: 'claude-3-5-sonnet-20241022', context };
+      const reported = 14;
+
+      const { inputTokens } = estimateRequestTokens(request);
+
+      expect(inputTokens).toBeGreaterThanOrEqual(reported);
+      expect(inputTokens).toBeLessThanOrEqual(reported * 1.2);
+    });
+
+    it('should count the request with the tokenizer of the given model', () => {
+      const request: AIModelRequest = { prompt: 'Hello, Claude', preferredModel: 'gpt-4o', context };
+
+      // (3 + 4) + 3 with o200k, the tokenizer gpt-4o uses; ceil(3 x 1.1) + 3 + 1 with Claude's
+      expect(estimateRequestTokens(request).inputTokens).toBe(10);
+      expect(estimateRequestTokens(request, 'claude-3-haiku-20240307').inputTokens).toBe(8);
+    });
+
+    // Token counts of these prompts from OpenAI's published BPE tables (tiktoken), plus the chat framing
+    it.each([
+      ['Japanese', 'gpt-3.5-turbo', 'こんにちは、元気ですか？', 7],
+      ['Spanish', 'gpt-4o', '¿Cuántas patas tiene una araña?', 9],
+      ['JavaScript', 'gpt-4', 'function add(a, b) { return a + b; }', 13],
+      ['Python', 'gpt-4o-mini', 'def greet(name):\n    return f"Hello, {name}!"', 14],
+    ])('should count a %s prompt by its BPE tokens', (_label, model, prompt, tokens) => {
+      const request: AIModelRequest = { prompt, preferredModel: model, context };
+
+      expect(estimateRequestTokens(request).inputTokens).toBe((tokens + 4) + 3);
+    });
+
+    it('should count history messages with their framing', () => {
+      const request: AIModelRequest = {
+        prompt: 'Say this is a test!',
+        preferredModel: 'gpt-3.5-turbo',
+        context: { ...context, history: [{ role: 'user', content: 'Say this is a test!' }, { role: 'assistant', content: 'This is a test!' }] }
+      };
+
+      // Each message is its tokens plus 4, and 3 prime the reply
+      expect(estimateRequestTokens(request).inputTokens).toBe((6 + 4) + (5 + 4) + (6 + 4) + 3);
+    });
+
+    it('should prefer caller-supplied estimates', () => {
+      const request: AIModelRequest = { prompt: 'Say this is a test!', estimatedInputTokens: 50, estimatedOutputTokens: 20, maxTokens: 100, context };
+
+      expect(estimateRequestTokens(request)).toEqual({ inputTokens: 50, outputTokens: 20 });
+    });
+
+    it('should assume the reply uses maxTokens, or the default', () => {
+      expect(estimateRequestTokens({ prompt: 'Hi', maxTokens: 100, context }).outputTokens).toBe(100);
+      expect(estimateRequestTokens({ prompt: 'Hi', context }).outputTokens).toBe(DEFAULT_ESTIMATED_OUTPUT_TOKENS);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { AIModelRequest } from '@kinable/common-types';
+import { getTokenizer } from './tokenizers';
+
+export const DEFAULT_ESTIMATED_OUTPUT_TOKENS = 256;
+
+export interface TokenEstimate {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Estimate the tokens a request will use before it is sent to a model (by default the one it
+ * asks for). Caller-supplied estimates win; otherwise the system prompt, history and prompt are
+ * counted with the model's tokenizer, and the output is assumed to use the full maxTokens budget.
+ */
+export function estimateRequestTokens(request: AIModelRequest, modelId: string | undefined = request.preferredModel): TokenEstimate {
+  return {
+    inputTokens: request.estimatedInputTokens ?? estimateInputTokens(request, modelId),
+    outputTokens: request.estimatedOutputTokens ?? request.maxTokens ?? DEFAULT_ESTIMATED_OUTPUT_TOKENS,
+  };
+}
+
+/**
+ * Count the input tokens a model will be billed for a request: each message with its framing,
+ * plus the tokens that prime the reply.
+ */
+export function estimateInputTokens(request: AIModelRequest, modelId?: string): number {
+  const tokenizer = getTokenizer(modelId);
+  const messages = [request.systemPrompt, ...(request.context?.history || []).map(message => message.content), request.prompt]
+    .filter((content): content is string => content !== undefined && content !== '');
+  return messages.reduce((sum, content) => sum + tokenizer.countTokens(content) + tokenizer.messageOverheadTokens, 0)
+    + tokenizer.replyPrimingTokens;
+}
+
+/**
+ * Count the tokens in a piece of text with a model's tokenizer.
+ */
+export function estimateTextTokens(text: string, modelId?: string): number {
+  return getTokenizer(modelId).countTokens(text);
+}
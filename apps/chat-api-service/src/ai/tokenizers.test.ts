@@ -0,0 +1,57 @@
+import { DEFAULT_TOKENIZER_FAMILY, anthropicTokenizer, getTokenizer, registerTokenizer, tokenizerFamily } from './tokenizers';
+
+describe('tokenizers', () => {
+  describe('tokenizerFamily', () => {
+    it('should map models to their tokenizer family by id', () => {
+      expect(tokenizerFamily('gpt-4o-mini')).toBe('openai-o200k');
+      expect(tokenizerFamily('o3-mini')).toBe('openai-o200k');
+      expect(tokenizerFamily('gpt-4-turbo')).toBe('openai-cl100k');
+      expect(tokenizerFamily('gpt-3.5-turbo')).toBe('openai-cl100k');
+      expect(tokenizerFamily('claude-3-haiku-20240307')).toBe('anthropic');
+    });
+
+    it('should fall back to the default family for unknown or missing models', () => {
+      expect(tokenizerFamily('llama-3-70b')).toBe(DEFAULT_TOKENIZER_FAMILY);
+      expect(tokenizerFamily(undefined)).toBe(DEFAULT_TOKENIZER_FAMILY);
+    });
+  });
+
+  describe('getTokenizer', () => {
+    it('should count English text by its BPE tokens', () => {
+      expect(getTokenizer('gpt-3.5-turbo').countTokens('Say this is a test!')).toBe(6);
+      expect(getTokenizer('gpt-4o').countTokens('Say this is a test!')).toBe(6);
+    });
+
+    it('should count non-English text, which a characters-per-token heuristic undercounts', () => {
+      expect(getTokenizer('gpt-4').countTokens('こんにちは、元気ですか？')).toBe(7);
+    });
+
+    it('should count code', () => {
+      expect(getTokenizer('gpt-4').countTokens('function add(a, b) { return a + b; }')).toBe(13);
+    });
+
+    it('should count special tokens in user text as plain text', () => {
+      expect(getTokenizer('gpt-4').countTokens('<|endoftext|> hi')).toBe(8);
+    });
+
+    it('should approximate Claude counts from cl100k, rounding up', () => {
+      // 3 cl100k tokens x 1.1
+      expect(getTokenizer('claude-3-haiku-20240307').countTokens('Hello, Claude')).toBe(4);
+    });
+
+    it('should reuse the tokenizer of a family', () => {
+      expect(getTokenizer('gpt-4o')).toBe(getTokenizer('gpt-4o-mini'));
+    });
+  });
+
+  describe('registerTokenizer', () => {
+    afterEach(() => registerTokenizer('anthropic', anthropicTokenizer));
+
+    it('should replace the tokenizer of a family', () => {
+      getTokenizer('claude-3-haiku-20240307');
+      registerTokenizer('anthropic', () => ({ countTokens: text => text.length, messageOverheadTokens: 0, replyPrimingTokens: 0 }));
+
+      expect(getTokenizer('claude-3-haiku-20240307').countTokens('Hello, Claude')).toBe(13);
+    });
+  });
+});
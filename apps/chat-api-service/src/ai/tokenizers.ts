@@ -0,0 +1,100 @@
+import { Tiktoken, TiktokenEncoding, getEncoding } from 'js-tiktoken';
+
+/**
+ * Counts tokens the way a family of models does, including the framing the provider adds
+ * around each chat message.
+ */
+export interface Tokenizer {
+  countTokens(text: string): number;
+  messageOverheadTokens: number;  // Role and separator tokens each chat message adds
+  replyPrimingTokens: number;     // Tokens every request adds to start the reply
+}
+
+export type TokenizerFactory = () => Tokenizer;
+
+export const DEFAULT_TOKENIZER_FAMILY = 'openai-cl100k'; // For models of no known family
+export const ANTHROPIC_TOKEN_RATIO = 1.1; // Claude tokens per cl100k token; Anthropic publishes no tokenizer, so this errs high
+
+// Model id prefixes of each tokenizer family, most specific first
+const FAMILY_PREFIXES: Array<[prefix: string, family: string]> = [
+  ['gpt-4o', 'openai-o200k'],
+  ['gpt-4.1', 'openai-o200k'],
+  ['o1', 'openai-o200k'],
+  ['o3', 'openai-o200k'],
+  ['o4', 'openai-o200k'],
+  ['gpt-4', 'openai-cl100k'],
+  ['gpt-3.5', 'openai-cl100k'],
+  ['claude', 'anthropic'],
+];
+
+const factories = new Map<string, TokenizerFactory>();
+const tokenizers = new Map<string, Tokenizer>(); // Built on first use, as loading a BPE table takes a moment
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+function encoding(name: TiktokenEncoding): Tiktoken {
+  let loaded = encodings.get(name);
+  if (!loaded) {
+    loaded = getEncoding(name);
+    encodings.set(name, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Exact counts from one of OpenAI's BPE tables, bundled with the service so no network is needed.
+ * Special tokens in user text are counted as the plain text they are.
+ */
+export function bpeTokenizer(name: TiktokenEncoding): Tokenizer {
+  const bpe = encoding(name);
+  return {
+    countTokens: text => bpe.encode(text, [], []).length,
+    messageOverheadTokens: 4,
+    replyPrimingTokens: 3,
+  };
+}
+
+/**
+ * Claude's tokenizer is not public, so its counts are approximated from cl100k, scaled by
+ * ANTHROPIC_TOKEN_RATIO.
+ */
+export function anthropicTokenizer(): Tokenizer {
+  const bpe = encoding('cl100k_base');
+  return {
+    countTokens: text => Math.ceil(bpe.encode(text, [], []).length * ANTHROPIC_TOKEN_RATIO),
+    messageOverheadTokens: 3,
+    replyPrimingTokens: 1,
+  };
+}
+
+/**
+ * The tokenizer family of a model, by its id.
+ */
+export function tokenizerFamily(modelId?: string): string {
+  const match = modelId ? FAMILY_PREFIXES.find(([prefix]) => modelId.startsWith(prefix)) : undefined;
+  return match && factories.has(match[1]) ? match[1] : DEFAULT_TOKENIZER_FAMILY;
+}
+
+/**
+ * Add or replace the tokenizer of a model family.
+ */
+export function registerTokenizer(family: string, factory: TokenizerFactory): void {
+  factories.set(family, factory);
+  tokenizers.delete(family);
+}
+
+/**
+ * The tokenizer for a model, or the default tokenizer if the model's family is not known.
+ */
+export function getTokenizer(modelId?: string): Tokenizer {
+  const family = tokenizerFamily(modelId);
+  let tokenizer = tokenizers.get(family);
+  if (!tokenizer) {
+    tokenizer = factories.get(family)!();
+    tokenizers.set(family, tokenizer);
+  }
+  return tokenizer;
+}
+
+registerTokenizer('openai-o200k', () => bpeTokenizer('o200k_base'));
+registerTokenizer('openai-cl100k', () => bpeTokenizer('cl100k_base'));
+registerTokenizer('anthropic', anthropicTokenizer);
@@ -0,0 +1,81 @@
+import { ToolRegistry, ToolHandler } from './ToolRegistry';
+import { RequestContext } from '@kinable/common-types';
+
+const mockContext: RequestContext = {
+  requestId: 'test-request-id',
+  jwtSub: 'test-user',
+  familyId: 'test-family',
+  profileId: 'test-profile',
+  region: 'us-east-2',
+  traceId: 'test-trace-id'
+};
+
+const createTool = (name: string, execute: ToolHandler['execute']): ToolHandler => ({
+  definition: { name, description: `${name} tool`, parameters: { type: 'object', properties: {} } },
+  execute
+});
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should return all definitions when no names are given', () => {
+    registry.register(createTool('echo', async args => args));
+    registry.register(createTool('clock', async () => 'noon'));
+
+    expect(registry.getDefinitions().map(def => def.name)).toEqual(['echo', 'clock']);
+  });
+
+  test('should return only the requested definitions', () => {
+    registry.register(createTool('echo', async args => args));
+    registry.register(createTool('clock', async () => 'noon'));
+
+    expect(registry.getDefinitions(['clock']).map(def => def.name)).toEqual(['clock']);
+  });
+
+  test('should throw for unknown tool names', () => {
+    registry.register(createTool('echo', async args => args));
+
+    expect(() => registry.getDefinitions(['missing'])).toThrow('Unknown tool: missing');
+  });
+
+  test('should replace a tool registered under the same name', async () => {
+    registry.register(createTool('echo', async () => 'first'));
+    registry.register(createTool('echo', async () => 'second'));
+
+    const result = await registry.execute({ id: 'call_1', name: 'echo', arguments: {} }, mockContext);
+    expect(result.result).toBe('second');
+  });
+
+  test('should execute a tool with the model arguments and context', async () => {
+    const execute = jest.fn().mockResolvedValue({ answer: 42 });
+    registry.register(createTool('answer', execute));
+
+    const result = await registry.execute({ id: 'call_1', name: 'answer', arguments: { question: 'life' } }, mockContext);
+
+    expect(execute).toHaveBeenCalledWith({ question: 'life' }, mockContext);
+    expect(result).toEqual({ name: 'answer', callId: 'call_1', result: { answer: 42 } });
+  });
+
+  test('should return an error result instead of throwing when a tool fails', async () => {
+    registry.register(createTool('broken', async () => { throw new Error('boom'); }));
+
+    const result = await registry.execute({ id: 'call_1', name: 'broken', arguments: {} }, mockContext);
+
+    expect(result).toEqual({ name: 'broken', callId: 'call_1', result: { error: 'boom' } });
+  });
+
+  test('should return an error result for an unknown tool call', async () => {
+    const result = await registry.execute({ id: 'call_1', name: 'missing', arguments: {} }, mockContext);
+
+    expect(result.result).toEqual({ error: 'Unknown tool: missing' });
+  });
+});
@@ -0,0 +1,73 @@
+import { ToolCall, ToolInvocation, ToolResult, RequestContext } from '@kinable/common-types';
+
+/**
+ * A server-side tool the model can call.
+ */
+export interface ToolHandler {
+  /** The definition sent to the model; `definition.name` is the registry key. */
+  definition: ToolCall;
+  /**
+   * Execute the tool with the arguments the model supplied.
+   * Thrown errors are reported back to the model as the tool result.
+   */
+  execute(args: Record<string, unknown>, context: RequestContext): Promise<unknown>;
+}
+
+/**
+ * Registry of tools that handlers can expose to the model.
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolHandler> = new Map();
+
+  /**
+   * Add or replace a tool
+   */
+  public register(tool: ToolHandler): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  /**
+   * Check whether a tool is registered
+   */
+  public has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get the definitions to send to the model.
+   * @param names Tool names to include; all registered tools if omitted.
+   * @throws Error if any requested name is not registered.
+   */
+  public getDefinitions(names?: string[]): ToolCall[] {
+    if (!names) {
+      return Array.from(this.tools.values()).map(tool => tool.definition);
+    }
+    return names.map(name => {
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      return tool.definition;
+    });
+  }
+
+  /**
+   * Execute a tool call requested by the model.
+   * Failures are returned as an `{ error }` result so the model can recover, rather than thrown.
+   */
+  public async execute(call: ToolInvocation, context: RequestContext): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      console.warn(`[ToolRegistry] Model requested unknown tool ${call.name}.`);
+      return { name: call.name, callId: call.id, result: { error: `Unknown tool: ${call.name}` } };
+    }
+
+    try {
+      const result = await tool.execute(call.arguments, context);
+      return { name: call.name, callId: call.id, result };
+    } catch (error: any) {
+      console.warn(`[ToolRegistry] Tool ${call.name} failed: ${error?.message || error}`);
+      return { name: call.name, callId: call.id, result: { error: error?.message || 'Tool execution failed' } };
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { calculatorTool, evaluateExpression } from './calculatorTool';
+import { RequestContext } from '@kinable/common-types';
+
+const mockContext: RequestContext = { requestId: 'test-request-id', region: 'us-east-2', traceId: 'test-trace-id' };
+
+describe('evaluateExpression', () => {
+  test.each([
+    ['2 + 3', 5],
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['10 / 4', 2.5],
+    ['10 % 4', 2],
+    ['2 ^ 3 ^ 2', 512],
+    ['-2 ^ 2', -4],
+    ['-(3 - 5)', 2],
+    ['sqrt(144) + 1', 13],
+    ['0.1 + 0.2', 0.3],
+    ['.5 * 4', 2],
+    ['6 × 7', 42],
+    ['84 ÷ 2', 42],
+  ])('should evaluate %s to %p', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBe(expected);
+  });
+
+  test.each([
+    ['', 'Expression is empty'],
+    ['2 +', 'Unexpected end of expression'],
+    ['(2 + 3', 'Expected ")"'],
+    ['2 + 3)', 'Unexpected ")"'],
+    ['1 / 0', 'Cannot divide by zero'],
+    ['sqrt(-4)', 'Cannot take the square root of a negative number'],
+    ['process.exit()', 'Unexpected "p"'],
+    ['10 ^ 1000', 'Result is too large'],
+  ])('should reject %p', (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+
+  test('should reject overly long expressions', () => {
+    expect(() => evaluateExpression('1+'.repeat(150) + '1')).toThrow('Expression is too long');
+  });
+});
+
+describe('calculatorTool', () => {
+  test('should return the expression and its result', async () => {
+    const result = await calculatorTool.execute({ expression: '7 * 8' }, mockContext);
+    expect(result).toEqual({ expression: '7 * 8', result: 56 });
+  });
+
+  test('should reject a missing expression', async () => {
+    await expect(calculatorTool.execute({}, mockContext)).rejects.toThrow('expression must be a string');
+  });
+});
@@ -0,0 +1,133 @@
+import { ToolHandler } from './ToolRegistry';
+
+const MAX_EXPRESSION_LENGTH = 200;
+
+/**
+ * Evaluate an arithmetic expression without `eval`.
+ * Supports numbers, parentheses, + - * / % ^, unary minus and sqrt(). `×` and `÷` are accepted
+ * as aliases because that is how children often type them.
+ * @throws Error if the expression is malformed or divides by zero.
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is too long (max ${MAX_EXPRESSION_LENGTH} characters)`);
+  }
+
+  const input = expression.replace(/×/g, '*').replace(/÷/g, '/').replace(/\s+/g, '');
+  let pos = 0;
+
+  const peek = (): string => input[pos];
+
+  const expect = (char: string): void => {
+    if (input[pos] !== char) {
+      throw new Error(`Expected "${char}" at position ${pos}`);
+    }
+    pos++;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const op = input[pos++];
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseFactor();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = input[pos++];
+      const right = parseFactor();
+      if ((op === '/' || op === '%') && right === 0) {
+        throw new Error('Cannot divide by zero');
+      }
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // Exponentiation is right-associative and binds tighter than unary minus on its left (-2^2 = -4)
+  const parseFactor = (): number => {
+    if (peek() === '-') {
+      pos++;
+      return -parseFactor();
+    }
+    if (peek() === '+') {
+      pos++;
+      return parseFactor();
+    }
+    const base = parsePrimary();
+    if (peek() === '^') {
+      pos++;
+      return Math.pow(base, parseFactor());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    if (input.startsWith('sqrt', pos)) {
+      pos += 4;
+      expect('(');
+      const value = parseExpression();
+      expect(')');
+      if (value < 0) {
+        throw new Error('Cannot take the square root of a negative number');
+      }
+      return Math.sqrt(value);
+    }
+    if (peek() === '(') {
+      pos++;
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    const match = /^\d+(\.\d+)?|^\.\d+/.exec(input.slice(pos));
+    if (!match) {
+      throw new Error(peek() === undefined ? 'Unexpected end of expression' : `Unexpected "${peek()}" at position ${pos}`);
+    }
+    pos += match[0].length;
+    return parseFloat(match[0]);
+  };
+
+  if (input.length === 0) {
+    throw new Error('Expression is empty');
+  }
+  const result = parseExpression();
+  if (pos < input.length) {
+    throw new Error(`Unexpected "${peek()}" at position ${pos}`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is too large');
+  }
+  // Trim floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return parseFloat(result.toPrecision(12));
+}
+
+/**
+ * Calculator for homework help. Lets the model get arithmetic right instead of guessing.
+ */
+export const calculatorTool: ToolHandler = {
+  definition: {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses and sqrt(). Use this for any maths in homework questions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: {
+          type: 'string',
+          description: 'The expression to evaluate, for example "(12 + 8) * 3" or "sqrt(144)".'
+        }
+      },
+      required: ['expression']
+    }
+  },
+  async execute(args) {
+    const expression = args.expression;
+    if (typeof expression !== 'string') {
+      throw new Error('expression must be a string');
+    }
+    return { expression, result: evaluateExpression(expression) };
+  }
+};
@@ -0,0 +1,76 @@
+import { createDictionaryTool } from './dictionaryTool';
+import { RequestContext } from '@kinable/common-types';
+
+const mockContext: RequestContext = { requestId: 'test-request-id', region: 'us-east-2', traceId: 'test-trace-id' };
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+}) as unknown as Response;
+
+describe('dictionaryTool', () => {
+  let mockFetch: jest.Mock;
+
+  beforeEach(() => {
+    mockFetch = jest.fn();
+  });
+
+  test('should return the first few definitions for a word', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, [{
+      word: 'happy',
+      meanings: [
+        { partOfSpeech: 'adjective', definitions: [
+          { definition: 'Feeling joy.', example: 'A happy child.' },
+          { definition: 'Lucky.' },
+        ] },
+        { partOfSpeech: 'verb', definitions: [
+          { definition: 'To make happy.' },
+          { definition: 'Extra definition.' },
+        ] },
+      ]
+    }]));
+    const tool = createDictionaryTool(mockFetch);
+
+    const result = await tool.execute({ word: ' Happy ' }, mockContext);
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://api.dictionaryapi.dev/api/v2/entries/en/happy');
+    expect(result).toEqual({
+      word: 'happy',
+      found: true,
+      definitions: [
+        { partOfSpeech: 'adjective', definition: 'Feeling joy.', example: 'A happy child.' },
+        { partOfSpeech: 'adjective', definition: 'Lucky.', example: undefined },
+        { partOfSpeech: 'verb', definition: 'To make happy.', example: undefined },
+      ]
+    });
+  });
+
+  test('should report unknown words as not found', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(404, { title: 'No Definitions Found' }));
+    const tool = createDictionaryTool(mockFetch);
+
+    const result = await tool.execute({ word: 'blorptastic' }, mockContext);
+
+    expect(result).toEqual({ word: 'blorptastic', found: false });
+  });
+
+  test('should throw when the dictionary service fails', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(500, {}));
+    const tool = createDictionaryTool(mockFetch);
+
+    await expect(tool.execute({ word: 'happy' }, mockContext)).rejects.toThrow('status 500');
+  });
+
+  test.each([
+    [undefined],
+    ['two words?'],
+    ['https://example.com'],
+    ['a'.repeat(60)],
+  ])('should reject %p without calling the service', async (word) => {
+    const tool = createDictionaryTool(mockFetch);
+
+    await expect(tool.execute({ word }, mockContext)).rejects.toThrow('word must be a single English word');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
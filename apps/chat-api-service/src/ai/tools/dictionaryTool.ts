@@ -0,0 +1,66 @@
+import { ToolHandler } from './ToolRegistry';
+
+const DICTIONARY_API_URL = 'https://api.dictionaryapi.dev/api/v2/entries/en';
+const LOOKUP_TIMEOUT_MS = 3000;
+const MAX_DEFINITIONS = 3;
+const WORD_PATTERN = /^[a-zA-Z][a-zA-Z' -]{0,44}$/;
+
+interface DictionaryApiEntry {
+  word: string;
+  meanings?: Array<{
+    partOfSpeech?: string;
+    definitions?: Array<{ definition: string; example?: string }>;
+  }>;
+}
+
+/**
+ * Create the dictionary lookup tool.
+ * @param fetchFn Fetch implementation, injectable for tests.
+ */
+export function createDictionaryTool(fetchFn: typeof fetch = fetch): ToolHandler {
+  return {
+    definition: {
+      name: 'dictionary',
+      description: 'Look up the meaning of an English word. Returns short definitions with examples.',
+      parameters: {
+        type: 'object',
+        properties: {
+          word: {
+            type: 'string',
+            description: 'The single English word to look up.'
+          }
+        },
+        required: ['word']
+      }
+    },
+    async execute(args) {
+      const word = typeof args.word === 'string' ? args.word.trim().toLowerCase() : '';
+      // Only plain words are sent to the external service
+      if (!WORD_PATTERN.test(word)) {
+        throw new Error('word must be a single English word');
+      }
+
+      const response = await fetchFn(`${DICTIONARY_API_URL}/${encodeURIComponent(word)}`, {
+        signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+      });
+      if (response.status === 404) {
+        return { word, found: false };
+      }
+      if (!response.ok) {
+        throw new Error(`Dictionary lookup failed with status ${response.status}`);
+      }
+
+      const entries = await response.json() as DictionaryApiEntry[];
+      const definitions = entries
+        .flatMap(entry => entry.meanings || [])
+        .flatMap(meaning => (meaning.definitions || []).map(def => ({
+          partOfSpeech: meaning.partOfSpeech,
+          definition: def.definition,
+          example: def.example
+        })))
+        .slice(0, MAX_DEFINITIONS);
+
+      return { word, found: definitions.length > 0, definitions };
+    }
+  };
+}
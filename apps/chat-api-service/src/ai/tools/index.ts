@@ -0,0 +1,18 @@
+import { ToolRegistry } from './ToolRegistry';
+import { calculatorTool } from './calculatorTool';
+import { createDictionaryTool } from './dictionaryTool';
+
+export { ToolRegistry } from './ToolRegistry';
+export type { ToolHandler } from './ToolRegistry';
+export { calculatorTool, evaluateExpression } from './calculatorTool';
+export { createDictionaryTool } from './dictionaryTool';
+
+/**
+ * Create a registry with the built-in child-safe tools.
+ */
+export function createDefaultToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  registry.register(calculatorTool);
+  registry.register(createDictionaryTool());
+  return registry;
+}
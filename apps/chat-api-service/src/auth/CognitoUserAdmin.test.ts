@@ -0,0 +1,61 @@
+import { AdminCreateUserCommand, AdminDeleteUserCommand, CognitoIdentityProviderClient } from "@aws-sdk/client-cognito-identity-provider";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { CognitoUserAdmin } from "./CognitoUserAdmin";
+
+const cognitoMock = mockClient(CognitoIdentityProviderClient);
+
+describe("CognitoUserAdmin", () => {
+    let admin: CognitoUserAdmin;
+    const userPoolId = "us-east-2_TestPool";
+
+    beforeEach(() => {
+        cognitoMock.reset();
+        admin = new CognitoUserAdmin(new CognitoIdentityProviderClient({ region: "us-east-2" }), userPoolId);
+        jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should create a user with the claims the authorizer reads", async () => {
+        cognitoMock.on(AdminCreateUserCommand).resolves({ User: { Username: "8f0c-uuid" } });
+
+        const username = await admin.createUser({
+            email: "sam@example.com",
+            displayName: "Sam",
+            familyId: "fam-1",
+            profileId: "prof-1",
+            role: "child",
+            region: "us-east-2",
+        });
+
+        expect(username).toBe("8f0c-uuid");
+        expect(cognitoMock).toHaveReceivedCommandWith(AdminCreateUserCommand, {
+            UserPoolId: userPoolId,
+            Username: "sam@example.com",
+            UserAttributes: [
+                { Name: "email", Value: "sam@example.com" },
+                { Name: "custom:familyId", Value: "FAMILY#us-east-2#fam-1" },
+                { Name: "custom:profileId", Value: "PROFILE#us-east-2#prof-1" },
+                { Name: "custom:role", Value: "child" },
+                { Name: "custom:region", Value: "us-east-2" },
+                { Name: "name", Value: "Sam" },
+            ],
+        });
+    });
+
+    it("should report a user that is already gone", async () => {
+        const notFound = Object.assign(new Error("User does not exist."), { name: "UserNotFoundException" });
+        cognitoMock.on(AdminDeleteUserCommand).rejects(notFound);
+
+        await expect(admin.deleteUser("8f0c-uuid")).resolves.toBe(false);
+    });
+
+    it("should rethrow other delete failures", async () => {
+        cognitoMock.on(AdminDeleteUserCommand).rejects(new Error("Throttled"));
+
+        await expect(admin.deleteUser("8f0c-uuid")).rejects.toThrow("Throttled");
+    });
+});
@@ -0,0 +1,76 @@
+import {
+  AdminCreateUserCommand,
+  AdminDeleteUserCommand,
+  AttributeType,
+  CognitoIdentityProviderClient,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { ProfileData } from '@kinable/common-types';
+import { ENTITY_PREFIX, buildRegionalKey } from '../data/regionalKeys';
+
+export interface NewProfileUser {
+  email: string;              // Sign-in name; Cognito sends the invitation here
+  displayName?: string;
+  familyId: string;           // Logical family ID
+  profileId: string;          // Logical profile ID
+  role: ProfileData['role'];
+  region: string;             // Home region of the family
+  temporaryPassword?: string; // Cognito generates one when omitted
+}
+
+/**
+ * Creates and deletes the Cognito users behind family profiles.
+ * Users get the custom:familyId, custom:profileId, custom:role and custom:region attributes that
+ * CognitoAuthProvider reads, with the same regionalized IDs the Families and Profiles tables use.
+ */
+export class CognitoUserAdmin {
+  private client: CognitoIdentityProviderClient;
+  private userPoolId: string;
+
+  constructor(client: CognitoIdentityProviderClient, userPoolId: string) {
+    this.client = client;
+    this.userPoolId = userPoolId;
+  }
+
+  /**
+   * Create a user for a profile and email them an invitation with a temporary password.
+   * @returns The Cognito username of the new user.
+   * @throws UsernameExistsException if the email is already registered.
+   */
+  public async createUser(user: NewProfileUser): Promise<string> {
+    const attributes: AttributeType[] = [
+      { Name: 'email', Value: user.email },
+      { Name: 'custom:familyId', Value: buildRegionalKey(ENTITY_PREFIX.FAMILY, user.region, user.familyId) },
+      { Name: 'custom:profileId', Value: buildRegionalKey(ENTITY_PREFIX.PROFILE, user.region, user.profileId) },
+      { Name: 'custom:role', Value: user.role },
+      { Name: 'custom:region', Value: user.region },
+      ...(user.displayName ? [{ Name: 'name', Value: user.displayName }] : []),
+    ];
+
+    const response = await this.client.send(new AdminCreateUserCommand({
+      UserPoolId: this.userPoolId,
+      Username: user.email,
+      UserAttributes: attributes,
+      TemporaryPassword: user.temporaryPassword,
+      DesiredDeliveryMediums: ['EMAIL'],
+    }));
+    const username = response.User?.Username || user.email;
+    console.log(`[CognitoUserAdmin] Created user ${username} for profile ${user.profileId}.`);
+    return username;
+  }
+
+  /**
+   * Delete a user.
+   * @returns false if the user did not exist.
+   */
+  public async deleteUser(username: string): Promise<boolean> {
+    try {
+      await this.client.send(new AdminDeleteUserCommand({ UserPoolId: this.userPoolId, Username: username }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'UserNotFoundException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { UsageSchedule } from '@kinable/common-types';
+import { isWithinSchedule, parseUsageSchedule } from './usageSchedule';
+
+describe('usageSchedule', () => {
+  describe('isWithinSchedule', () => {
+    // After school on weekdays, and weekend evenings that run past midnight
+    const schedule: UsageSchedule = {
+      timezone: 'America/Chicago',
+      allowedWindows: [
+        { days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '15:30', end: '21:00' },
+        { days: ['sat'], start: '20:00', end: '01:00' }
+      ]
+    };
+
+    it('should allow a time inside a window in the schedule\'s timezone', () => {
+      // Wednesday 16:00 in Chicago (CDT, UTC-5)
+      expect(isWithinSchedule(schedule, new Date('2026-06-03T21:00:00Z'))).toBe(true);
+    });
+
+    it('should deny school hours and bedtime', () => {
+      expect(isWithinSchedule(schedule, new Date('2026-06-03T15:00:00Z'))).toBe(false); // Wednesday 10:00
+      expect(isWithinSchedule(schedule, new Date('2026-06-04T02:00:00Z'))).toBe(false); // Wednesday 21:00
+    });
+
+    it('should carry a window past midnight into the next day', () => {
+      expect(isWithinSchedule(schedule, new Date('2026-06-07T05:30:00Z'))).toBe(true); // Sunday 00:30
+      expect(isWithinSchedule(schedule, new Date('2026-06-07T06:30:00Z'))).toBe(false); // Sunday 01:30
+    });
+
+    it('should treat 24:00 as the end of the day', () => {
+      const allDay: UsageSchedule = { timezone: 'UTC', allowedWindows: [{ days: ['sun'], start: '00:00', end: '24:00' }] };
+
+      expect(isWithinSchedule(allDay, new Date('2026-06-07T23:59:00Z'))).toBe(true);
+      expect(isWithinSchedule(allDay, new Date('2026-06-08T00:00:00Z'))).toBe(false);
+    });
+
+    it('should deny everything without windows', () => {
+      expect(isWithinSchedule({ timezone: 'UTC', allowedWindows: [] }, new Date())).toBe(false);
+    });
+  });
+
+  describe('parseUsageSchedule', () => {
+    it('should accept a valid schedule and drop unknown fields', () => {
+      const result = parseUsageSchedule({
+        timezone: 'Europe/London',
+        allowedWindows: [{ days: ['sat', 'sat', 'sun'], start: '09:00', end: '24:00', note: 'weekend' }],
+        extra: true
+      });
+
+      expect(result).toEqual({
+        ok: true,
+        schedule: { timezone: 'Europe/London', allowedWindows: [{ days: ['sat', 'sun'], start: '09:00', end: '24:00' }] }
+      });
+    });
+
+    it.each([
+      [{ timezone: 'Mars/Olympus', allowedWindows: [] }],
+      [{ timezone: 'UTC' }],
+      [{ timezone: 'UTC', allowedWindows: [{ days: ['monday'], start: '09:00', end: '10:00' }] }],
+      [{ timezone: 'UTC', allowedWindows: [{ days: ['mon'], start: '9am', end: '10:00' }] }],
+      [{ timezone: 'UTC', allowedWindows: [{ days: ['mon'], start: '24:00', end: '10:00' }] }],
+      [{ timezone: 'UTC', allowedWindows: [{ days: ['mon'], start: '10:00', end: '10:00' }] }]
+    ])('should reject %j', (input) => {
+      expect(parseUsageSchedule(input).ok).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { UsageSchedule, UsageWindow, Weekday } from '@kinable/common-types';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const MAX_WINDOWS = 50;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const END_OF_DAY = '24:00';
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Check whether a moment falls inside one of a schedule's allowed windows,
+ * using the weekday and time of day in the schedule's timezone.
+ * @throws RangeError if the schedule's timezone is not a valid IANA timezone.
+ */
+export function isWithinSchedule(schedule: UsageSchedule, now: Date = new Date()): boolean {
+  const { day, minutes } = localTime(schedule.timezone, now);
+  const previousDay = WEEKDAYS[(WEEKDAYS.indexOf(day) + WEEKDAYS.length - 1) % WEEKDAYS.length];
+
+  return schedule.allowedWindows.some(window => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start < end) {
+      return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+    // The window runs past midnight: its tail belongs to the day after it starts
+    return (window.days.includes(day) && minutes >= start) || (window.days.includes(previousDay) && minutes < end);
+  });
+}
+
+/**
+ * Validate a schedule sent by a client.
+ * @returns The schedule with only the known fields, or a message saying what is wrong.
+ */
+export function parseUsageSchedule(input: any): { ok: true; schedule: UsageSchedule } | { ok: false; message: string } {
+  if (!input || typeof input !== 'object') {
+    return { ok: false, message: 'schedule must be an object with timezone and allowedWindows' };
+  }
+  if (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone)) {
+    return { ok: false, message: 'timezone must be an IANA timezone such as America/Chicago' };
+  }
+  if (!Array.isArray(input.allowedWindows) || input.allowedWindows.length > MAX_WINDOWS) {
+    return { ok: false, message: `allowedWindows must be an array of at most ${MAX_WINDOWS} windows` };
+  }
+
+  const allowedWindows: UsageWindow[] = [];
+  for (const window of input.allowedWindows) {
+    const days = window?.days;
+    if (!Array.isArray(days) || days.length === 0 || !days.every((day: unknown) => WEEKDAYS.includes(day as Weekday))) {
+      return { ok: false, message: `each window needs days from ${WEEKDAYS.join(', ')}` };
+    }
+    if (!TIME_PATTERN.test(window.start) || !(TIME_PATTERN.test(window.end) || window.end === END_OF_DAY)) {
+      return { ok: false, message: 'window start and end must be HH:MM times' };
+    }
+    if (window.start === window.end) {
+      return { ok: false, message: 'window start and end must differ' };
+    }
+    allowedWindows.push({ days: Array.from(new Set<Weekday>(days)), start: window.start, end: window.end });
+  }
+
+  return { ok: true, schedule: { timezone: input.timezone, allowedWindows } };
+}
+
+function localTime(timezone: string, now: Date): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    day: part('weekday').slice(0, 3).toLowerCase() as Weekday,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function toMinutes(time: string): number {
+  if (time === END_OF_DAY) {
+    return MINUTES_PER_DAY;
+  }
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -1,5 +1,5 @@
 import { APIGatewayRequestAuthorizerEventV2, APIGatewayAuthorizerResultContext } from 'aws-lambda';
-import { IUserIdentity, ProfileData, FamilyData } from '@kinable/common-types';
+import { IUserIdentity, ProfileData, FamilyData, Weekday } from '@kinable/common-types';
 import { generatePolicy } from '../authorizers/jwtAuthorizer';
 
 // Mock CognitoAuthProvider
@@ -26,6 +26,18 @@ jest.mock('../data/DynamoDBProvider', () => {
   };
 });
 
+// Mock the TokenLedger that holds the profile usage counters
+const mockGetProfileUsage = jest.fn();
+jest.mock('../billing/TokenLedger', () => {
+  return {
+    TokenLedger: jest.fn().mockImplementation(() => {
+      return {
+        getProfileUsage: mockGetProfileUsage,
+      };
+    }),
+  };
+});
+
 // We're not going to use jest.mock() on CognitoAuthProvider
 // Instead, we'll directly inject our mock into jwtAuthorizer after importing it
 
@@ -503,4 +515,165 @@ describe('JWT Authorizer Lambda Handler', () => {
     expect(response.policyDocument.Statement[0].Effect).toBe('Deny');
     expect(response.context).toEqual({ message: 'Error during database validation.' });
   });
-}); 
\ No newline at end of file
+}); 
+describe('JWT Authorizer profile rules', () => {
+  let handler: (event: APIGatewayRequestAuthorizerEventV2) => Promise<any>;
+  const identity: IUserIdentity = {
+    userId: 'test-user',
+    familyId: 'FAMILY#us-east-1#famTest',
+    profileId: 'PROFILE#us-east-1#profTest',
+    role: 'guardian',
+    isAuthenticated: true,
+    region: 'us-east-1'
+  };
+  const dashboardEvent = (): APIGatewayRequestAuthorizerEventV2 => ({
+    ...createMockEvent('Bearer valid-token'),
+    routeKey: 'POST /dashboard/family/resume'
+  });
+  const mockProfileAndFamily = (profile: Partial<ProfileData>, family: Partial<FamilyData>) => {
+    mockDynamoGetItem
+      .mockResolvedValueOnce({ ...mockDefaultProfileData, ...profile })
+      .mockResolvedValueOnce({ ...mockDefaultFamilyData, ...family });
+  };
+
+  beforeEach(async () => {
+    process.env.AWS_REGION = 'us-east-1';
+    process.env.COGNITO_USER_POOL_ID = 'test-pool-id';
+    process.env.COGNITO_CLIENT_ID = 'test-client-id';
+    process.env.PROFILES_TABLE_NAME = 'TestProfilesTable';
+    process.env.FAMILIES_TABLE_NAME = 'TestFamiliesTable';
+    process.env.TOKEN_LEDGER_TABLE_NAME = 'TestTokenLedgerTable';
+    jest.resetModules();
+    handler = (await import('./jwtAuthorizer')).handler;
+    mockCognitoVerifyToken.mockReset().mockResolvedValue(identity);
+    mockDynamoGetItem.mockReset();
+    mockGetProfileUsage.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.TOKEN_LEDGER_TABLE_NAME;
+  });
+
+  test('should let a guardian reach the dashboard while the family is paused and out of tokens', async () => {
+    mockProfileAndFamily({ role: 'guardian' }, { pauseStatusFamily: true, tokenBalance: 0 });
+
+    const response = await handler(dashboardEvent());
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Allow');
+  });
+
+  test('should let a guardian of a family out of tokens buy more', async () => {
+    mockProfileAndFamily({ role: 'guardian' }, { tokenBalance: 0 });
+
+    const response = await handler({ ...createMockEvent('Bearer valid-token'), routeKey: 'POST /v1/billing/checkout' });
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Allow');
+  });
+
+  test('should keep a paused family out of other routes', async () => {
+    mockProfileAndFamily({ role: 'guardian' }, { pauseStatusFamily: true });
+
+    const response = await handler(createMockEvent('Bearer valid-token'));
+
+    expect(response.context).toEqual({ message: 'Family is paused.' });
+  });
+
+  test('should deny a child outside their usage schedule with its own reason', async () => {
+    const neverAllowed = { timezone: 'UTC', allowedWindows: [] };
+    mockProfileAndFamily({ role: 'child', usageSchedule: neverAllowed }, {});
+
+    const response = await handler(createMockEvent('Bearer valid-token'));
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Deny');
+    expect(response.context).toEqual({ message: 'Outside allowed usage hours.' });
+  });
+
+  test('should allow a child inside their usage schedule', async () => {
+    const alwaysAllowed = {
+      timezone: 'UTC',
+      allowedWindows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as Weekday[], start: '00:00', end: '24:00' }]
+    };
+    mockProfileAndFamily({ role: 'child', usageSchedule: alwaysAllowed }, {});
+
+    const response = await handler(createMockEvent('Bearer valid-token'));
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Allow');
+  });
+
+  test('should take the role from the profile rather than the token', async () => {
+    mockProfileAndFamily({ role: 'child' }, { pauseStatusFamily: true });
+
+    const response = await handler(dashboardEvent());
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Deny');
+
+    mockProfileAndFamily({ role: 'child' }, {});
+    const allowed = await handler(createMockEvent('Bearer valid-token'));
+    expect(allowed.context.role).toBe('child');
+  });
+
+  test('should deny a profile that has used up its daily quota', async () => {
+    mockProfileAndFamily({ role: 'child', tokenQuota: { daily: 1000, monthly: 20000 } }, {});
+    mockGetProfileUsage.mockResolvedValue({ daily: 1000, monthly: 5000 });
+
+    const response = await handler(createMockEvent('Bearer valid-token'));
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Deny');
+    expect(response.context).toEqual({ message: 'Daily token quota reached.' });
+    expect(mockGetProfileUsage).toHaveBeenCalledWith('famTest', 'profTest', 'us-east-1', { daily: 1000, monthly: 20000 });
+  });
+
+  test('should pass the quota on to the backend while tokens are left', async () => {
+    mockProfileAndFamily({ role: 'child', tokenQuota: { monthly: 20000 } }, {});
+    mockGetProfileUsage.mockResolvedValue({ monthly: 19999 });
+
+    const response = await handler(createMockEvent('Bearer valid-token'));
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Allow');
+    expect(response.context.monthlyTokenQuota).toBe(20000);
+    expect(response.context.dailyTokenQuota).toBeUndefined();
+  });
+
+  test('should pass the family plan on to the backend', async () => {
+    mockProfileAndFamily({ role: 'child' }, { planId: 'free' });
+
+    const response = await handler(createMockEvent('Bearer valid-token'));
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Allow');
+    expect(response.context.planId).toBe('free');
+  });
+
+  test('should let a guardian over their quota reach the dashboard', async () => {
+    mockProfileAndFamily({ role: 'guardian', tokenQuota: { daily: 0 } }, {});
+
+    const response = await handler(dashboardEvent());
+
+    expect(response.policyDocument.Statement[0].Effect).toBe('Allow');
+    expect(mockGetProfileUsage).not.toHaveBeenCalled();
+  });
+
+  describe('authorizeDirectRequest', () => {
+    test('should pass the backend context on for a request that passes the checks', async () => {
+      const { authorizeDirectRequest } = await import('./jwtAuthorizer');
+      mockProfileAndFamily({ role: 'child', ageBand: '9_12' }, {});
+
+      const authorization = await authorizeDirectRequest('Bearer valid-token', 'POST /v1/chat/stream');
+
+      expect(authorization).toMatchObject({ allowed: true, context: { userId: 'test-user', role: 'child', ageBand: '9_12' } });
+      expect(mockCognitoVerifyToken).toHaveBeenCalledWith('valid-token');
+    });
+
+    test('should deny with the reason the authorizer gave', async () => {
+      const { authorizeDirectRequest } = await import('./jwtAuthorizer');
+      mockProfileAndFamily({ role: 'child' }, { pauseStatusFamily: true });
+
+      expect(await authorizeDirectRequest('Bearer valid-token', 'POST /v1/chat/stream')).toEqual({ allowed: false, message: 'Family is paused.' });
+    });
+
+    test('should deny a request without a token', async () => {
+      const { authorizeDirectRequest } = await import('./jwtAuthorizer');
+
+      expect(await authorizeDirectRequest(undefined, 'POST /v1/chat/stream')).toEqual({ allowed: false, message: 'Unauthorized' });
+    });
+  });
+});
@@ -1,16 +1,27 @@
 import { APIGatewayRequestAuthorizerEventV2, APIGatewayAuthorizerResult, APIGatewayAuthorizerResultContext } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { CognitoAuthProvider } from '../auth/CognitoAuthProvider';
 // import type { IUserIdentity } from '@kinable/common-types'; // Removed as userIdentity type is inferred
 import { DynamoDBProvider } from '../data/DynamoDBProvider';
-import { FamilyData, ProfileData, IUserIdentity } from '@kinable/common-types'; // Added IUserIdentity back for clarity
+import { getLogicalId } from '../data/regionalKeys';
+import { resolveProfileAgeBand } from '../ai/agePolicy';
+import { isWithinSchedule } from '../auth/usageSchedule';
+import { TokenLedger } from '../billing/TokenLedger';
+import { findExhaustedWindow } from '../billing/profileQuota';
+import { FamilyData, ProfileData, IUserIdentity, AgeBand, TokenQuota } from '@kinable/common-types'; // Added IUserIdentity back for clarity
 
 const userPoolId = process.env.COGNITO_USER_POOL_ID || '';
 const clientId = process.env.COGNITO_CLIENT_ID || '';
 const tokenUse = (process.env.TOKEN_USE === 'access' || process.env.TOKEN_USE === 'id') ? process.env.TOKEN_USE : 'id';
 const familiesTableName = process.env.FAMILIES_TABLE_NAME || '';
 const profilesTableName = process.env.PROFILES_TABLE_NAME || '';
+const tokenLedgerTableName = process.env.TOKEN_LEDGER_TABLE_NAME || '';
 const awsRegion = process.env.AWS_REGION || '';
 
+// Guardians keep access to these routes while the family is paused or out of tokens, so they can fix either
+const GUARDIAN_PATH_PREFIXES = ['/dashboard/', '/v1/billing/'];
+
 // Initialize providers outside the handler for reuse
 let authProvider: CognitoAuthProvider;
 if (userPoolId && clientId) {
@@ -26,6 +37,12 @@ if (awsRegion && familiesTableName && profilesTableName) { // Ensure necessary e
   console.error('AWS Region or DynamoDB table names not configured in environment variables for DBProvider.');
 }
 
+// Profile quotas are only enforced here when the ledger holding the usage counters is configured
+let tokenLedger: TokenLedger | undefined;
+if (awsRegion && familiesTableName && tokenLedgerTableName) {
+  tokenLedger = new TokenLedger(DynamoDBDocumentClient.from(new DynamoDBClient({ region: awsRegion })), familiesTableName, tokenLedgerTableName);
+}
+
 export const handler = async (
   event: APIGatewayRequestAuthorizerEventV2
 ): Promise<APIGatewayAuthorizerResult> => {
@@ -65,14 +82,11 @@ export const handler = async (
         return generatePolicy(userIdentity.userId || 'unknown', 'Deny', event.routeArn, { message: 'Incomplete user identity for DB checks.' });
       }
 
+      let ageBand: AgeBand | undefined;
+      let tokenQuota: TokenQuota | undefined;
+      let planId: string | undefined;
+      let role = userIdentity.role;
       try {
-        // Helper function to extract logical ID from a regionalized claim
-        const getLogicalId = (regionalIdClaim: string): string => {
-          if (!regionalIdClaim || typeof regionalIdClaim !== 'string') return '';
-          const parts = regionalIdClaim.split('#');
-          return parts.length === 3 ? parts[2] : regionalIdClaim; // Return last part if valid, else original (error case)
-        };
-
         const logicalProfileId = getLogicalId(userIdentity.profileId);
         const logicalFamilyId = getLogicalId(userIdentity.familyId);
 
@@ -98,6 +112,15 @@ export const handler = async (
           console.log(`Profile ${userIdentity.profileId} is paused.`);
           return generatePolicy(userIdentity.userId, 'Deny', event.routeArn, null);
         }
+        ageBand = resolveProfileAgeBand(profile);
+        // The profile record is authoritative for the role; the token claim is user-editable in Cognito
+        role = profile.role || role;
+        const dashboardAccess = role === 'guardian' && isGuardianDashboardRoute(event.routeKey);
+
+        if (profile.usageSchedule && !dashboardAccess && !isWithinSchedule(profile.usageSchedule)) {
+          console.log(`Profile ${userIdentity.profileId} is outside its usage schedule.`);
+          return generatePolicy(userIdentity.userId, 'Deny', event.routeArn, { message: 'Outside allowed usage hours.' });
+        }
 
         const family = await dbProvider.getItem<FamilyData>(
           familiesTableName,
@@ -111,15 +134,27 @@ export const handler = async (
           return generatePolicy(userIdentity.userId, 'Deny', event.routeArn, { message: 'Family not found.' });
         }
 
-        if (family.pauseStatusFamily) {
+        if (family.pauseStatusFamily && !dashboardAccess) {
           console.log(`Family ${userIdentity.familyId} is paused.`);
           return generatePolicy(userIdentity.userId, 'Deny', event.routeArn, { message: 'Family is paused.' });
         }
 
-        if (family.tokenBalance === undefined || family.tokenBalance === null || family.tokenBalance <= 0) {
+        if (!dashboardAccess && (family.tokenBalance === undefined || family.tokenBalance === null || family.tokenBalance <= 0)) {
           console.log(`Family ${userIdentity.familyId} has insufficient token balance: ${family.tokenBalance}`);
           return generatePolicy(userIdentity.userId, 'Deny', event.routeArn, { message: 'Insufficient token balance.' });
         }
+
+        planId = family.planId || undefined;
+        tokenQuota = profile.tokenQuota || undefined;
+        if (tokenQuota && tokenLedger && !dashboardAccess) {
+          const usage = await tokenLedger.getProfileUsage(logicalFamilyId, logicalProfileId, userIdentity.region, tokenQuota);
+          const exhaustedWindow = findExhaustedWindow(tokenQuota, usage);
+          if (exhaustedWindow) {
+            console.log(`Profile ${userIdentity.profileId} has used its ${exhaustedWindow} token quota.`);
+            const message = exhaustedWindow === 'daily' ? 'Daily token quota reached.' : 'Monthly token quota reached.';
+            return generatePolicy(userIdentity.userId, 'Deny', event.routeArn, { message });
+          }
+        }
         // === End DB Checks ===
 
       } catch (dbError) {
@@ -129,7 +164,18 @@ export const handler = async (
       
       // Pass context to the backend Lambda. This is crucial.
       // The context object here will be available in the event.requestContext.authorizer.lambda object of the backend Lambda.
-      return generatePolicy(userIdentity.userId, 'Allow', event.routeArn, userIdentity as unknown as APIGatewayAuthorizerResultContext);
+      // The profile's age band is added so the backend can apply age-appropriate moderation,
+      // its token caps (flattened, as context values must be scalars) so billing can enforce them,
+      // and the family's plan so the router can keep it to the models the plan includes.
+      const authorizerContext = {
+        ...userIdentity,
+        role,
+        ...(ageBand ? { ageBand } : {}),
+        ...(planId ? { planId } : {}),
+        ...(tokenQuota?.daily !== undefined ? { dailyTokenQuota: tokenQuota.daily } : {}),
+        ...(tokenQuota?.monthly !== undefined ? { monthlyTokenQuota: tokenQuota.monthly } : {}),
+      };
+      return generatePolicy(userIdentity.userId, 'Allow', event.routeArn, authorizerContext as unknown as APIGatewayAuthorizerResultContext);
     } else {
       console.log('Token verification failed or user not authenticated');
       return generatePolicy('unauthorized', 'Deny', event.routeArn, { message: 'Unauthorized' });
@@ -140,6 +186,37 @@ export const handler = async (
   }
 };
 
+export type DirectAuthorization =
+  | { allowed: true; context: Record<string, unknown> } // What the HTTP API would pass to the backend
+  | { allowed: false; message?: string };
+
+/**
+ * Run the authorizer's checks for a request that does not come through the HTTP API, such as one
+ * to a Lambda function URL, which has no authorizer of its own.
+ * @param authorization The request's Authorization header.
+ * @param routeKey The route as the HTTP API would name it, e.g. "POST /v1/chat/stream".
+ */
+export async function authorizeDirectRequest(authorization: string | undefined, routeKey: string): Promise<DirectAuthorization> {
+  const result = await handler({
+    type: 'REQUEST',
+    routeArn: routeKey,
+    routeKey,
+    identitySource: authorization ? [authorization] : [],
+  } as unknown as APIGatewayRequestAuthorizerEventV2);
+
+  const allowed = result.policyDocument.Statement.some(statement => statement.Effect === 'Allow');
+  if (!allowed) {
+    return { allowed: false, message: result.context?.message as string | undefined };
+  }
+  return { allowed: true, context: result.context || {} };
+}
+
+// routeKey is e.g. "POST /dashboard/family/pause"
+function isGuardianDashboardRoute(routeKey: string | undefined): boolean {
+  const path = routeKey?.split(' ')[1] || '';
+  return GUARDIAN_PATH_PREFIXES.some(prefix => path.startsWith(prefix));
+}
+
 // Helper function to generate an IAM policy
 export const generatePolicy = (
   principalId: string,
@@ -0,0 +1,114 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { FamilyData, SubscriptionPlan } from "@kinable/common-types";
+import { PlanAllowanceGranter } from "./PlanAllowanceGranter";
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const baseDdbClient = new DynamoDBClient({ region: "us-east-1" });
+
+const conditionalCheckFailure = () => Object.assign(new Error("The conditional request failed"), {
+    name: "ConditionalCheckFailedException",
+});
+
+describe("PlanAllowanceGranter", () => {
+    let granter: PlanAllowanceGranter;
+    const familiesTable = "TestFamiliesTable";
+    const at = new Date("2026-11-01T00:05:00Z");
+    const plans: Record<string, SubscriptionPlan> = {
+        family: { tier: "family", name: "Family", monthlyAllowance: 100000, rolloverCap: 20000 },
+    };
+    const dueFamily: FamilyData = {
+        familyId: "FAMILY#us-east-2#fam-1",
+        tokenBalance: 8000,
+        extraBalance: 3000,
+        pauseStatusFamily: false,
+        planId: "family",
+        planRenewsAt: "2026-11-01T00:00:00.000Z",
+    };
+
+    beforeEach(() => {
+        ddbMock.reset();
+        granter = new PlanAllowanceGranter(DynamoDBDocumentClient.from(baseDdbClient), familiesTable);
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should grant the allowance of due families homed in the region", async () => {
+        ddbMock.on(ScanCommand).resolves({ Items: [dueFamily] });
+        ddbMock.on(UpdateCommand).resolves({});
+
+        const summary = await granter.grantDueAllowances(plans, "us-east-2", at);
+
+        expect(summary).toEqual({ granted: 1, skipped: 0 });
+        const scan = ddbMock.commandCalls(ScanCommand)[0].args[0].input;
+        expect(scan.ExpressionAttributeValues).toEqual({ ":regionPrefix": "FAMILY#us-east-2#", ":now": at.toISOString() });
+        const update = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+        expect(update.Key).toEqual({ familyId: "FAMILY#us-east-2#fam-1" });
+        expect(update.ExpressionAttributeValues).toMatchObject({
+            ":balance": 3000 + 5000 + 100000,
+            ":extra": 3000,
+            ":renewsAt": "2026-12-01T00:00:00.000Z",
+            ":expectedBalance": 8000,
+            ":expectedExtra": 3000,
+            ":expectedRenewsAt": "2026-11-01T00:00:00.000Z",
+        });
+    });
+
+    it("should follow scan pages", async () => {
+        ddbMock.on(ScanCommand)
+            .resolvesOnce({ Items: [dueFamily], LastEvaluatedKey: { familyId: dueFamily.familyId } })
+            .resolvesOnce({ Items: [{ ...dueFamily, familyId: "FAMILY#us-east-2#fam-2" }] });
+        ddbMock.on(UpdateCommand).resolves({});
+
+        const summary = await granter.grantDueAllowances(plans, "us-east-2", at);
+
+        expect(summary.granted).toBe(2);
+        expect(ddbMock.commandCalls(ScanCommand)[1].args[0].input.ExclusiveStartKey).toEqual({ familyId: dueFamily.familyId });
+    });
+
+    it("should skip families on a plan that is not configured", async () => {
+        ddbMock.on(ScanCommand).resolves({ Items: [{ ...dueFamily, planId: "retired" }] });
+
+        const summary = await granter.grantDueAllowances(plans, "us-east-2", at);
+
+        expect(summary).toEqual({ granted: 0, skipped: 1 });
+        expect(ddbMock).not.toHaveReceivedCommand(UpdateCommand);
+    });
+
+    it("should read the family again when its balance changed during the grant", async () => {
+        ddbMock.on(UpdateCommand).rejectsOnce(conditionalCheckFailure()).resolves({});
+        ddbMock.on(GetCommand).resolves({ Item: { ...dueFamily, tokenBalance: 7000 } });
+
+        const grant = await granter.grantAllowance(dueFamily, plans.family, at);
+
+        expect(grant?.tokenBalance).toBe(3000 + 4000 + 100000);
+        expect(ddbMock.commandCalls(UpdateCommand)[1].args[0].input.ExpressionAttributeValues![":expectedBalance"]).toBe(7000);
+    });
+
+    it("should not grant twice when another run granted the family first", async () => {
+        ddbMock.on(UpdateCommand).rejects(conditionalCheckFailure());
+        ddbMock.on(GetCommand).resolves({ Item: { ...dueFamily, planRenewsAt: "2026-12-01T00:00:00.000Z" } });
+
+        await expect(granter.grantAllowance(dueFamily, plans.family, at)).resolves.toBeNull();
+        expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(1);
+    });
+
+    it("should require the attributes a first grant creates to still be missing", async () => {
+        ddbMock.on(UpdateCommand).resolves({});
+        const newFamily: FamilyData = { familyId: "FAMILY#us-east-2#fam-3", tokenBalance: 0, pauseStatusFamily: false, planId: "family" };
+
+        await granter.grantAllowance(newFamily, plans.family, at);
+
+        const update = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+        expect(update.ConditionExpression).toBe(
+            "tokenBalance = :expectedBalance AND attribute_not_exists(extraBalance) AND attribute_not_exists(planRenewsAt)"
+        );
+        expect(update.ExpressionAttributeValues![":balance"]).toBe(100000);
+    });
+});
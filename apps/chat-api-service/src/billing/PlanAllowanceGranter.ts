@@ -0,0 +1,126 @@
+import { DynamoDBDocumentClient, GetCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { FamilyData, SubscriptionPlan } from '@kinable/common-types';
+import { ENTITY_PREFIX } from '../data/regionalKeys';
+import { AllowanceGrant, computeAllowanceGrant, isAllowanceDue } from './subscriptionPlans';
+
+const MAX_GRANT_ATTEMPTS = 3; // Re-reads allowed when the balance changes during a grant
+
+export interface AllowanceRunSummary {
+  granted: number;  // Families granted their allowance
+  skipped: number;  // Due families whose plan is not configured, or whose grant kept conflicting
+}
+
+/**
+ * Grants subscription plan allowances at the start of each plan period.
+ *
+ * Each family is granted in its home region only, so the replicas of the global Families table never
+ * race each other. A grant replaces the balance with one worked out from the balance it read, so it is
+ * conditional on the balance, extra balance and renewal date being unchanged; a chat debit or purchase
+ * landing in between makes it read the family again.
+ */
+export class PlanAllowanceGranter {
+  private ddbDocClient: DynamoDBDocumentClient;
+  private familiesTableName: string;
+
+  constructor(ddbDocClient: DynamoDBDocumentClient, familiesTableName: string) {
+    this.ddbDocClient = ddbDocClient;
+    this.familiesTableName = familiesTableName;
+  }
+
+  /**
+   * Grant the allowance of every family in the region whose plan period has ended.
+   * @param plans Plans from the configuration, keyed by planId.
+   * @param region Home region of the families to grant.
+   */
+  public async grantDueAllowances(
+    plans: Record<string, SubscriptionPlan>,
+    region: string,
+    at: Date = new Date()
+  ): Promise<AllowanceRunSummary> {
+    const summary: AllowanceRunSummary = { granted: 0, skipped: 0 };
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const page = await this.ddbDocClient.send(new ScanCommand({
+        TableName: this.familiesTableName,
+        FilterExpression: 'begins_with(familyId, :regionPrefix) AND attribute_exists(planId) AND ' +
+          '(attribute_not_exists(planRenewsAt) OR planRenewsAt <= :now)',
+        ExpressionAttributeValues: { ':regionPrefix': `${ENTITY_PREFIX.FAMILY}#${region}#`, ':now': at.toISOString() },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      for (const family of (page.Items || []) as FamilyData[]) {
+        const plan = plans[family.planId!];
+        if (!plan) {
+          console.warn(`[PlanAllowanceGranter] Family ${family.familyId} is on unknown plan ${family.planId}; no allowance granted.`);
+          summary.skipped++;
+          continue;
+        }
+        if (await this.grantAllowance(family, plan, at)) {
+          summary.granted++;
+        } else {
+          summary.skipped++;
+        }
+      }
+      exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    console.log(`[PlanAllowanceGranter] Granted ${summary.granted} allowances in ${region}; skipped ${summary.skipped}.`);
+    return summary;
+  }
+
+  /**
+   * Start a new plan period for a family: roll over its unused plan tokens and add the allowance.
+   * @param family The family as last read.
+   * @returns The grant, or null if the family was no longer due or kept changing.
+   */
+  public async grantAllowance(family: FamilyData, plan: SubscriptionPlan, at: Date = new Date()): Promise<AllowanceGrant | null> {
+    let current: FamilyData | null = family;
+    for (let attempt = 0; attempt < MAX_GRANT_ATTEMPTS; attempt++) {
+      if (!current || !isAllowanceDue(current, at)) {
+        return null;
+      }
+      const grant = computeAllowanceGrant(current, plan, at);
+      try {
+        await this.ddbDocClient.send(new UpdateCommand({
+          TableName: this.familiesTableName,
+          Key: { familyId: current.familyId },
+          UpdateExpression: 'SET tokenBalance = :balance, extraBalance = :extra, planPeriodStart = :periodStart, ' +
+            'planRenewsAt = :renewsAt, updatedAt = :now',
+          ConditionExpression: 'tokenBalance = :expectedBalance AND ' +
+            (current.extraBalance === undefined ? 'attribute_not_exists(extraBalance)' : 'extraBalance = :expectedExtra') + ' AND ' +
+            (current.planRenewsAt === undefined ? 'attribute_not_exists(planRenewsAt)' : 'planRenewsAt = :expectedRenewsAt'),
+          ExpressionAttributeValues: {
+            ':balance': grant.tokenBalance,
+            ':extra': grant.extraBalance,
+            ':periodStart': grant.planPeriodStart,
+            ':renewsAt': grant.planRenewsAt,
+            ':now': at.toISOString(),
+            ':expectedBalance': current.tokenBalance,
+            ...(current.extraBalance !== undefined ? { ':expectedExtra': current.extraBalance } : {}),
+            ...(current.planRenewsAt !== undefined ? { ':expectedRenewsAt': current.planRenewsAt } : {}),
+          },
+        }));
+        console.log(`[PlanAllowanceGranter] Granted family ${current.familyId} ${plan.monthlyAllowance} tokens ` +
+          `(${grant.rolledOverTokens} rolled over, ${grant.expiredTokens} expired).`);
+        return grant;
+      } catch (error: any) {
+        if (error?.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+        // The family changed since it was read; read it again
+        current = await this.getFamily(current.familyId);
+      }
+    }
+
+    console.warn(`[PlanAllowanceGranter] Family ${family.familyId} kept changing; its allowance will be granted on the next run.`);
+    return null;
+  }
+
+  private async getFamily(familyKey: string): Promise<FamilyData | null> {
+    const { Item } = await this.ddbDocClient.send(new GetCommand({
+      TableName: this.familiesTableName,
+      Key: { familyId: familyKey },
+      ConsistentRead: true,
+    }));
+    return (Item as FamilyData | undefined) || null;
+  }
+}
@@ -0,0 +1,417 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { TokenReservation } from "@kinable/common-types";
+import { TokenLedger, DebitRequest } from "./TokenLedger";
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const baseDdbClient = new DynamoDBClient({ region: "us-east-1" });
+
+const conditionalCheckFailure = (failedItem = 0, itemCount = 2) => Object.assign(new Error("Transaction cancelled"), {
+    name: "TransactionCanceledException",
+    CancellationReasons: Array.from({ length: itemCount }, (_, i) => ({ Code: i === failedItem ? "ConditionalCheckFailed" : "None" })),
+});
+
+describe("TokenLedger", () => {
+    let ledger: TokenLedger;
+    const familiesTable = "TestFamiliesTable";
+    const ledgerTable = "TestTokenLedgerTable";
+    const familyKey = "FAMILY#us-east-2#fam-1";
+    const debitRequest: DebitRequest = {
+        familyId: "fam-1",
+        profileId: "prof-1",
+        userRegion: "us-east-2",
+        requestId: "req-1",
+        provider: "openai",
+        model: "gpt-4o",
+        usage: { prompt: 40, completion: 60, total: 100 },
+        multiplier: 1.5,
+    };
+
+    beforeEach(() => {
+        ddbMock.reset();
+        ledger = new TokenLedger(DynamoDBDocumentClient.from(baseDdbClient), familiesTable, ledgerTable);
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("debit", () => {
+        it("should debit the billed tokens and write a ledger entry in one transaction", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            const result = await ledger.debit(debitRequest);
+
+            expect(result).toEqual({ billedTokens: 150, debitedTokens: 150, shortfall: 0 });
+            expect(ddbMock).toHaveReceivedCommandTimes(TransactWriteCommand, 1);
+            const [update, put] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(update.Update).toMatchObject({
+                TableName: familiesTable,
+                Key: { familyId: familyKey },
+                ConditionExpression: "attribute_exists(familyId) AND tokenBalance >= :debit",
+                ExpressionAttributeValues: expect.objectContaining({ ":debit": 150 }),
+            });
+            expect(put.Put).toMatchObject({
+                TableName: ledgerTable,
+                Item: {
+                    familyId: familyKey,
+                    profileId: "prof-1",
+                    requestId: "req-1",
+                    provider: "openai",
+                    model: "gpt-4o",
+                    promptTokens: 40,
+                    completionTokens: 60,
+                    multiplier: 1.5,
+                    billedTokens: 150,
+                    debitedTokens: 150,
+                    region: "us-east-2",
+                },
+            });
+            expect(put.Put!.Item!.entryId).toMatch(/#req-1$/);
+            expect(put.Put!.Item!.ttl).toEqual(expect.any(Number));
+        });
+
+        it("should drain the remaining balance to zero when it cannot cover the debit", async () => {
+            ddbMock.on(TransactWriteCommand)
+                .rejectsOnce(conditionalCheckFailure())
+                .resolves({});
+            ddbMock.on(GetCommand).resolves({ Item: { familyId: familyKey, tokenBalance: 90 } });
+
+            const result = await ledger.debit(debitRequest);
+
+            expect(result).toEqual({ billedTokens: 150, debitedTokens: 90, shortfall: 60 });
+            const drainCall = ddbMock.commandCalls(TransactWriteCommand)[1].args[0].input.TransactItems!;
+            expect(drainCall[0].Update).toMatchObject({
+                ConditionExpression: "tokenBalance = :expected",
+                ExpressionAttributeValues: expect.objectContaining({ ":debit": 90, ":expected": 90 }),
+            });
+            expect(drainCall[1].Put!.Item).toMatchObject({ billedTokens: 150, debitedTokens: 90 });
+            expect(ddbMock).toHaveReceivedCommandWith(GetCommand, { ConsistentRead: true });
+        });
+
+        it("should re-read the balance when it changes during a partial debit", async () => {
+            ddbMock.on(TransactWriteCommand)
+                .rejectsOnce(conditionalCheckFailure())
+                .rejectsOnce(conditionalCheckFailure())
+                .resolves({});
+            ddbMock.on(GetCommand)
+                .resolvesOnce({ Item: { familyId: familyKey, tokenBalance: 90 } })
+                .resolves({ Item: { familyId: familyKey, tokenBalance: 20 } });
+
+            const result = await ledger.debit(debitRequest);
+
+            expect(result).toEqual({ billedTokens: 150, debitedTokens: 20, shortfall: 130 });
+            expect(ddbMock).toHaveReceivedCommandTimes(TransactWriteCommand, 3);
+        });
+
+        it("should throw when the family does not exist", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(conditionalCheckFailure());
+            ddbMock.on(GetCommand).resolves({});
+
+            await expect(ledger.debit(debitRequest)).rejects.toThrow("Family fam-1 not found in region us-east-2");
+        });
+
+        it("should rethrow errors that are not conditional check failures", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(new Error("Throttled"));
+
+            await expect(ledger.debit(debitRequest)).rejects.toThrow("Throttled");
+            expect(ddbMock).not.toHaveReceivedCommand(GetCommand);
+        });
+    });
+
+    describe("getBalance", () => {
+        it("should return the balance of the family", async () => {
+            ddbMock.on(GetCommand, { TableName: familiesTable, Key: { familyId: familyKey } })
+                .resolves({ Item: { familyId: familyKey, tokenBalance: 420 } });
+
+            await expect(ledger.getBalance("fam-1", "us-east-2")).resolves.toBe(420);
+        });
+
+        it("should return null when the family does not exist", async () => {
+            ddbMock.on(GetCommand).resolves({});
+
+            await expect(ledger.getBalance("fam-1", "us-east-2")).resolves.toBeNull();
+        });
+
+        it("should split the balance into plan and purchased tokens", async () => {
+            ddbMock.on(GetCommand, { TableName: familiesTable, Key: { familyId: familyKey } }).resolves({
+                Item: { familyId: familyKey, tokenBalance: 420, extraBalance: 100, planId: "family", planRenewsAt: "2026-11-01T00:00:00.000Z" },
+            });
+
+            await expect(ledger.getBalanceBreakdown("fam-1", "us-east-2")).resolves.toEqual({
+                balance: 420,
+                planTokens: 320,
+                extraTokens: 100,
+                planId: "family",
+                planRenewsAt: "2026-11-01T00:00:00.000Z",
+            });
+        });
+    });
+
+    describe("reservations", () => {
+        const reservation: TokenReservation = {
+            familyId: familyKey,
+            entryId: "RESERVATION#req-1",
+            profileId: "prof-1",
+            requestId: "req-1",
+            reservedTokens: 200,
+            region: "us-east-2",
+            createdAt: "2024-01-01T00:00:00.000Z",
+            ttl: 1704067500,
+        };
+
+        it("should take the reserved tokens from the balance and store the reservation", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            const result = await ledger.reserve({ familyId: "fam-1", profileId: "prof-1", userRegion: "us-east-2", requestId: "req-1", tokens: 200 });
+
+            expect(result.ok).toBe(true);
+            const [update, put] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(update.Update).toMatchObject({
+                ConditionExpression: "attribute_exists(familyId) AND tokenBalance >= :reserve",
+                ExpressionAttributeValues: expect.objectContaining({ ":reserve": 200 }),
+            });
+            expect(put.Put!.Item).toMatchObject({ familyId: familyKey, entryId: "RESERVATION#req-1", reservedTokens: 200 });
+            expect(put.Put!.Item!.ttl).toEqual(expect.any(Number));
+        });
+
+        it("should return INSUFFICIENT_BALANCE when the balance cannot cover the reservation", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(conditionalCheckFailure(0));
+            ddbMock.on(GetCommand).resolves({ Item: { familyId: familyKey, tokenBalance: 50 } });
+
+            const result = await ledger.reserve({ familyId: "fam-1", profileId: "prof-1", userRegion: "us-east-2", requestId: "req-1", tokens: 200 });
+
+            expect(result).toEqual({ ok: false, code: "INSUFFICIENT_BALANCE", requiredTokens: 200, availableTokens: 50 });
+        });
+
+        it("should refund the unused part of the reservation when settling", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            const result = await ledger.debit(debitRequest, reservation);
+
+            expect(result).toEqual({ billedTokens: 150, debitedTokens: 150, shortfall: 0 });
+            const [update, put, del] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(update.Update).toMatchObject({
+                ConditionExpression: "attribute_exists(familyId)",
+                ExpressionAttributeValues: expect.objectContaining({ ":debit": -50 }),
+            });
+            expect(put.Put!.Item).toMatchObject({ billedTokens: 150, debitedTokens: 150 });
+            expect(del.Delete).toMatchObject({ Key: { familyId: familyKey, entryId: "RESERVATION#req-1" } });
+        });
+
+        it("should take the rest from the balance when usage exceeds the reservation", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            await ledger.debit(debitRequest, { ...reservation, reservedTokens: 100 });
+
+            const [update] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(update.Update).toMatchObject({
+                ConditionExpression: "attribute_exists(familyId) AND tokenBalance >= :debit",
+                ExpressionAttributeValues: expect.objectContaining({ ":debit": 50 }),
+            });
+        });
+
+        it("should debit in full when the reservation already expired", async () => {
+            ddbMock.on(TransactWriteCommand)
+                .rejectsOnce(conditionalCheckFailure(2, 3))
+                .resolves({});
+
+            const result = await ledger.debit(debitRequest, reservation);
+
+            expect(result).toEqual({ billedTokens: 150, debitedTokens: 150, shortfall: 0 });
+            const retryItems = ddbMock.commandCalls(TransactWriteCommand)[1].args[0].input.TransactItems!;
+            expect(retryItems).toHaveLength(2);
+            expect(retryItems[0].Update!.ExpressionAttributeValues![":debit"]).toBe(150);
+        });
+
+        it("should credit the reservation back and delete it on release", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            await ledger.release(reservation);
+
+            const [update, del] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(update.Update!.ExpressionAttributeValues).toMatchObject({ ":reserved": 200 });
+            expect(del.Delete).toMatchObject({ ConditionExpression: "attribute_exists(entryId)" });
+        });
+
+        it("should ignore a release of a reservation that is already gone", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(conditionalCheckFailure(1));
+
+            await expect(ledger.release(reservation)).resolves.toBeUndefined();
+        });
+
+        it("should credit an expired reservation back to the family and mark it credited", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            await ledger.creditExpiredReservation(reservation);
+
+            const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(items[0].Put).toMatchObject({
+                TableName: ledgerTable,
+                Item: { familyId: familyKey, entryId: "CREDITED#RESERVATION#req-1", creditedTokens: 200 },
+                ConditionExpression: "attribute_not_exists(entryId)",
+            });
+            expect(items[1].Update).toMatchObject({
+                TableName: familiesTable,
+                Key: { familyId: familyKey },
+                ExpressionAttributeValues: expect.objectContaining({ ":reserved": 200 }),
+            });
+        });
+
+        it("should not credit an expired reservation twice", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(conditionalCheckFailure(0));
+
+            await expect(ledger.creditExpiredReservation(reservation)).resolves.toBeUndefined();
+        });
+
+        it("should rethrow other errors when crediting an expired reservation", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(new Error("Throttled"));
+
+            await expect(ledger.creditExpiredReservation(reservation)).rejects.toThrow("Throttled");
+        });
+    });
+
+    describe("profile quotas", () => {
+        const quotaRequest = { familyId: "fam-1", profileId: "prof-1", userRegion: "us-east-2", requestId: "req-1", tokens: 200, quota: { daily: 1000, monthly: 5000 } };
+        const counterIds = ["USAGE#prof-1#DAY#2024-01-01", "USAGE#prof-1#MONTH#2024-01"];
+        const reservation: TokenReservation = {
+            familyId: familyKey,
+            entryId: "RESERVATION#req-1",
+            profileId: "prof-1",
+            requestId: "req-1",
+            reservedTokens: 200,
+            region: "us-east-2",
+            createdAt: "2024-01-01T10:00:00.000Z",
+            ttl: 1704103500,
+            quotaCounterIds: counterIds,
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers({ now: new Date("2024-01-01T10:00:00.000Z"), doNotFake: ["nextTick", "setImmediate"] });
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("should add the reservation to each capped window's counter while it fits", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            const result = await ledger.reserve(quotaRequest);
+
+            expect(result).toMatchObject({ ok: true, reservation: { quotaCounterIds: counterIds } });
+            const [, , daily, monthly] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(daily.Update).toMatchObject({
+                TableName: ledgerTable,
+                Key: { familyId: familyKey, entryId: counterIds[0] },
+                ConditionExpression: "attribute_not_exists(usedTokens) OR usedTokens <= :headroom",
+                ExpressionAttributeValues: expect.objectContaining({ ":tokens": 200, ":headroom": 800 }),
+            });
+            expect(monthly.Update).toMatchObject({
+                Key: { familyId: familyKey, entryId: counterIds[1] },
+                ExpressionAttributeValues: expect.objectContaining({ ":headroom": 4800 }),
+            });
+        });
+
+        it("should not track usage for a profile without a quota", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            const result = await ledger.reserve({ ...quotaRequest, quota: undefined });
+
+            expect(result.ok && result.reservation.quotaCounterIds).toBeUndefined();
+            expect(ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems).toHaveLength(2);
+        });
+
+        it("should return QUOTA_EXCEEDED with the tokens left in the window that is used up", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(conditionalCheckFailure(2, 4));
+            ddbMock.on(GetCommand).resolves({ Item: { familyId: familyKey, entryId: counterIds[0], usedTokens: 900 } });
+
+            const result = await ledger.reserve(quotaRequest);
+
+            expect(result).toEqual({ ok: false, code: "QUOTA_EXCEEDED", window: "daily", requiredTokens: 200, availableTokens: 100 });
+            expect(ddbMock).toHaveReceivedCommandWith(GetCommand, { TableName: ledgerTable, Key: { familyId: familyKey, entryId: counterIds[0] } });
+        });
+
+        it("should report the family balance first when both it and the quota run out", async () => {
+            ddbMock.on(TransactWriteCommand).rejects(Object.assign(new Error("Transaction cancelled"), {
+                name: "TransactionCanceledException",
+                CancellationReasons: [{ Code: "ConditionalCheckFailed" }, { Code: "None" }, { Code: "ConditionalCheckFailed" }, { Code: "None" }],
+            }));
+            ddbMock.on(GetCommand).resolves({ Item: { familyId: familyKey, tokenBalance: 50 } });
+
+            const result = await ledger.reserve(quotaRequest);
+
+            expect(result).toMatchObject({ ok: false, code: "INSUFFICIENT_BALANCE" });
+        });
+
+        it("should reject a request larger than a whole window without writing", async () => {
+            ddbMock.on(GetCommand).resolves({});
+
+            const result = await ledger.reserve({ ...quotaRequest, tokens: 2000 });
+
+            expect(result).toEqual({ ok: false, code: "QUOTA_EXCEEDED", window: "daily", requiredTokens: 2000, availableTokens: 1000 });
+            expect(ddbMock).not.toHaveReceivedCommand(TransactWriteCommand);
+        });
+
+        it("should move the counters by the difference between usage and the reservation when settling", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            await ledger.debit({ ...debitRequest, quota: quotaRequest.quota }, reservation);
+
+            const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(items).toHaveLength(5);
+            expect(items.slice(3).map(item => item.Update!.Key!.entryId)).toEqual(counterIds);
+            expect(items[3].Update!.ExpressionAttributeValues![":tokens"]).toBe(-50);
+            expect(items[3].Update!.ConditionExpression).toBeUndefined();
+        });
+
+        it("should count usage in the current windows when no reservation was held", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            await ledger.debit({ ...debitRequest, quota: { daily: 1000 } });
+
+            const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(items).toHaveLength(3);
+            expect(items[2].Update).toMatchObject({
+                Key: { familyId: familyKey, entryId: counterIds[0] },
+                ExpressionAttributeValues: expect.objectContaining({ ":tokens": 150 }),
+            });
+        });
+
+        it("should take a released reservation off the counters", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            await ledger.release(reservation);
+
+            const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(items.slice(2).map(item => item.Update!.ExpressionAttributeValues![":tokens"])).toEqual([-200, -200]);
+        });
+
+        it("should take an expired reservation off the counters", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            await ledger.creditExpiredReservation(reservation);
+
+            const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(items).toHaveLength(4);
+            expect(items[3].Update).toMatchObject({
+                TableName: ledgerTable,
+                Key: { familyId: familyKey, entryId: counterIds[1] },
+                ExpressionAttributeValues: expect.objectContaining({ ":tokens": -200 }),
+            });
+        });
+
+        it("should read the usage of each capped window", async () => {
+            ddbMock.on(GetCommand, { Key: { familyId: familyKey, entryId: counterIds[0] } }).resolves({ Item: { usedTokens: 300 } });
+            ddbMock.on(GetCommand, { Key: { familyId: familyKey, entryId: counterIds[1] } }).resolves({});
+
+            const usage = await ledger.getProfileUsage("fam-1", "prof-1", "us-east-2", quotaRequest.quota);
+
+            expect(usage).toEqual({ daily: 300, monthly: 0 });
+        });
+    });
+});
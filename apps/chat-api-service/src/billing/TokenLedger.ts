@@ -0,0 +1,524 @@
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand, TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+import { TokenLedgerEntry, TokenReservation, TokenUsage, FamilyData, QuotaWindow, TokenQuota, ProfileUsageCounter } from '@kinable/common-types';
+import { ENTITY_PREFIX, buildRegionalKey } from '../data/regionalKeys';
+import { calculateBillableTokens } from './billingCalculator';
+import { QuotaUsage, cappedWindows, usageCounterId } from './profileQuota';
+import { BalanceSplit, splitBalance } from './subscriptionPlans';
+
+const DEFAULT_ENTRY_TTL_SECONDS = 60 * 60 * 24 * 365; // Keep ledger entries for a year
+const DEFAULT_RESERVATION_TTL_SECONDS = 5 * 60; // Well past the longest chat Lambda timeout
+const MAX_DRAIN_ATTEMPTS = 3; // Re-reads allowed when the balance changes during a partial debit
+const USAGE_COUNTER_TTL_SECONDS = 60 * 60 * 24 * 62; // Outlives the longest (monthly) window
+const CREDITED_MARKER_TTL_SECONDS = 60 * 60 * 24 * 2; // Outlives the 24 hour stream retention
+
+export const RESERVATION_ENTRY_PREFIX = 'RESERVATION#';
+// Marks an expired reservation as credited back; followed by the reservation's entryId
+export const CREDITED_ENTRY_PREFIX = 'CREDITED#';
+
+// Position of the reservation Delete in a settling transaction (see writeDebit)
+const RESERVATION_ITEM_INDEX = 2;
+// Position of the first usage counter Update in a reserving transaction (see reserve)
+const QUOTA_COUNTER_ITEM_INDEX = 2;
+// Position of the credited marker Put in an expiry credit transaction (see creditExpiredReservation)
+const CREDITED_MARKER_ITEM_INDEX = 0;
+
+export interface DebitRequest {
+  familyId: string;      // Logical family ID
+  profileId: string;
+  userRegion: string;    // Home region of the family, used for the regionalized key
+  requestId: string;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  multiplier: number;
+  quota?: TokenQuota;    // Profile caps; usage is counted against them when no reservation carries the counters
+}
+
+export interface DebitResult {
+  billedTokens: number;   // Tokens owed for the request
+  debitedTokens: number;  // Tokens taken from the balance
+  shortfall: number;      // Tokens that could not be taken because the balance ran out
+}
+
+export interface ReservationRequest {
+  familyId: string;      // Logical family ID
+  profileId: string;
+  userRegion: string;
+  requestId: string;
+  tokens: number;        // Estimated billable tokens to hold
+  quota?: TokenQuota;    // Profile caps the reservation must also fit within
+}
+
+export interface FamilyBalance extends BalanceSplit {
+  balance: number;        // planTokens + extraTokens
+  planId?: string;
+  planRenewsAt?: string;
+}
+
+export type ReservationResult =
+  | { ok: true; reservation: TokenReservation }
+  | { ok: false; code: 'INSUFFICIENT_BALANCE'; requiredTokens: number; availableTokens: number }
+  | { ok: false; code: 'QUOTA_EXCEEDED'; window: QuotaWindow; requiredTokens: number; availableTokens: number };
+
+/**
+ * Debits family token balances and records each debit in the TokenLedger table.
+ *
+ * The balance update and the ledger entry are written in one transaction. The update is
+ * conditional on the balance covering the debit, so the balance never goes negative: when
+ * it cannot cover the full amount, whatever is left is taken and the shortfall is reported.
+ *
+ * Concurrent requests are kept from overspending with reservations: the estimated cost is
+ * taken from the balance before the request runs, then settled to the actual usage (or
+ * released if the request fails). A reservation that is never settled expires through the
+ * table's TTL and is credited back by the reservation expiry handler.
+ *
+ * Profiles with a token quota also have per-window usage counters in the ledger table. Reserving
+ * adds to them in the same transaction, conditional on staying under the cap, and settling,
+ * releasing or expiring the reservation moves them by the same amounts as the balance.
+ *
+ * Families on a subscription plan spend their plan tokens before the tokens they bought. Debits
+ * only ever touch tokenBalance; extraBalance marks how much of it was bought (see splitBalance).
+ */
+export class TokenLedger {
+  private ddbDocClient: DynamoDBDocumentClient;
+  private familiesTableName: string;
+  private ledgerTableName: string;
+  private entryTtlSeconds: number;
+  private reservationTtlSeconds: number;
+
+  constructor(
+    ddbDocClient: DynamoDBDocumentClient,
+    familiesTableName: string,
+    ledgerTableName: string,
+    entryTtlSeconds: number = DEFAULT_ENTRY_TTL_SECONDS,
+    reservationTtlSeconds: number = DEFAULT_RESERVATION_TTL_SECONDS
+  ) {
+    this.ddbDocClient = ddbDocClient;
+    this.familiesTableName = familiesTableName;
+    this.ledgerTableName = ledgerTableName;
+    this.entryTtlSeconds = entryTtlSeconds;
+    this.reservationTtlSeconds = reservationTtlSeconds;
+  }
+
+  /**
+   * Hold the estimated cost of a request against the family's balance and the profile's quota.
+   * @returns The reservation, an INSUFFICIENT_BALANCE result if the balance cannot cover it,
+   *          or a QUOTA_EXCEEDED result if it would take the profile over a quota window.
+   * @throws Error if the family does not exist or DynamoDB fails.
+   */
+  public async reserve(request: ReservationRequest): Promise<ReservationResult> {
+    const familyKey = buildRegionalKey(ENTITY_PREFIX.FAMILY, request.userRegion, request.familyId);
+    const now = new Date();
+    const windows = cappedWindows(request.quota);
+    const counterIds = windows.map(window => usageCounterId(request.profileId, window, now));
+    const reservation: TokenReservation = {
+      familyId: familyKey,
+      entryId: `${RESERVATION_ENTRY_PREFIX}${request.requestId}`,
+      profileId: request.profileId,
+      requestId: request.requestId,
+      reservedTokens: request.tokens,
+      region: request.userRegion,
+      createdAt: now.toISOString(),
+      ttl: Math.floor(now.getTime() / 1000) + this.reservationTtlSeconds,
+      ...(windows.length > 0 ? { quotaCounterIds: counterIds } : {}),
+    };
+
+    // A request larger than a whole window's cap can never fit, however little has been used
+    const oversizedWindow = windows.find(window => request.tokens > request.quota![window]!);
+    if (oversizedWindow) {
+      return this.quotaExceeded(familyKey, request, oversizedWindow, now);
+    }
+
+    try {
+      await this.ddbDocClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: this.familiesTableName,
+              Key: { familyId: familyKey },
+              UpdateExpression: 'SET tokenBalance = tokenBalance - :reserve, updatedAt = :now',
+              ConditionExpression: 'attribute_exists(familyId) AND tokenBalance >= :reserve',
+              ExpressionAttributeValues: { ':reserve': request.tokens, ':now': reservation.createdAt },
+            },
+          },
+          {
+            Put: {
+              TableName: this.ledgerTableName,
+              Item: reservation,
+              ConditionExpression: 'attribute_not_exists(entryId)',
+            },
+          },
+          ...windows.map((window, i) => this.counterUpdate(
+            familyKey, request.profileId, counterIds[i], request.tokens, now, request.quota![window]! - request.tokens
+          )),
+        ],
+      }));
+      return { ok: true, reservation };
+    } catch (error) {
+      if (!isConditionalCheckFailure(error, 0)) {
+        const exceededWindow = windows.find((_, i) => isConditionalCheckFailure(error, QUOTA_COUNTER_ITEM_INDEX + i));
+        if (exceededWindow) {
+          return this.quotaExceeded(familyKey, request, exceededWindow, now);
+        }
+        throw error;
+      }
+    }
+
+    const balance = await this.getBalanceByKey(familyKey);
+    if (balance === null) {
+      throw new Error(`Family ${request.familyId} not found in region ${request.userRegion}`);
+    }
+    console.log(`[TokenLedger] Family ${request.familyId} cannot reserve ${request.tokens} tokens (balance ${balance}).`);
+    return { ok: false, code: 'INSUFFICIENT_BALANCE', requiredTokens: request.tokens, availableTokens: balance };
+  }
+
+  /**
+   * Return a reservation's tokens to the family, e.g. when the request failed.
+   * Does nothing if the reservation was already settled or released.
+   */
+  public async release(reservation: TokenReservation): Promise<void> {
+    try {
+      await this.ddbDocClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: this.familiesTableName,
+              Key: { familyId: reservation.familyId },
+              UpdateExpression: 'SET tokenBalance = tokenBalance + :reserved, updatedAt = :now',
+              ConditionExpression: 'attribute_exists(familyId)',
+              ExpressionAttributeValues: { ':reserved': reservation.reservedTokens, ':now': new Date().toISOString() },
+            },
+          },
+          {
+            Delete: {
+              TableName: this.ledgerTableName,
+              Key: { familyId: reservation.familyId, entryId: reservation.entryId },
+              ConditionExpression: 'attribute_exists(entryId)',
+            },
+          },
+          ...this.counterAdjustments(reservation.familyId, reservation.profileId, reservation.quotaCounterIds, -reservation.reservedTokens),
+        ],
+      }));
+    } catch (error) {
+      if (!isConditionalCheckFailure(error)) {
+        throw error;
+      }
+      console.warn(`[TokenLedger] Reservation ${reservation.entryId} was already settled or released.`);
+    }
+  }
+
+  /**
+   * Credit back a reservation that DynamoDB expired through TTL.
+   * The reservation item is already gone, so only the balance (and any usage counters) are updated,
+   * together with a marker recording the credit. Stream records can be delivered more than once;
+   * a marker that already exists means the reservation was credited and nothing is written.
+   */
+  public async creditExpiredReservation(reservation: TokenReservation): Promise<void> {
+    const now = new Date();
+    try {
+      await this.ddbDocClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: this.ledgerTableName,
+              Item: {
+                familyId: reservation.familyId,
+                entryId: `${CREDITED_ENTRY_PREFIX}${reservation.entryId}`,
+                creditedTokens: reservation.reservedTokens,
+                createdAt: now.toISOString(),
+                ttl: Math.floor(now.getTime() / 1000) + CREDITED_MARKER_TTL_SECONDS,
+              },
+              ConditionExpression: 'attribute_not_exists(entryId)',
+            },
+          },
+          {
+            Update: {
+              TableName: this.familiesTableName,
+              Key: { familyId: reservation.familyId },
+              UpdateExpression: 'SET tokenBalance = tokenBalance + :reserved, updatedAt = :now',
+              ConditionExpression: 'attribute_exists(familyId)',
+              ExpressionAttributeValues: { ':reserved': reservation.reservedTokens, ':now': now.toISOString() },
+            },
+          },
+          ...this.counterAdjustments(reservation.familyId, reservation.profileId, reservation.quotaCounterIds, -reservation.reservedTokens),
+        ],
+      }));
+    } catch (error) {
+      if (isConditionalCheckFailure(error, CREDITED_MARKER_ITEM_INDEX)) {
+        console.warn(`[TokenLedger] Expired reservation ${reservation.entryId} was already credited.`);
+        return;
+      }
+      if (isConditionalCheckFailure(error)) {
+        console.warn(`[TokenLedger] Family of expired reservation ${reservation.entryId} no longer exists.`);
+        return;
+      }
+      throw error;
+    }
+    console.log(`[TokenLedger] Credited ${reservation.reservedTokens} tokens from expired reservation ${reservation.entryId}.`);
+  }
+
+  /**
+   * Debit a family's balance for a completed request and write the ledger entry.
+   * @param reservation Reservation held for the request. Its tokens count towards the debit and
+   *        the difference is refunded or taken from the balance. If it has already expired and
+   *        been credited back, the full amount is debited instead.
+   * @throws Error if the family does not exist or DynamoDB fails.
+   */
+  public async debit(request: DebitRequest, reservation?: TokenReservation): Promise<DebitResult> {
+    const billedTokens = calculateBillableTokens(request.usage, request.multiplier);
+    const familyKey = buildRegionalKey(ENTITY_PREFIX.FAMILY, request.userRegion, request.familyId);
+    const heldTokens = reservation?.reservedTokens ?? 0;
+    const remainingTokens = billedTokens - heldTokens; // Negative when the reservation over-estimated
+
+    try {
+      await this.writeDebit(familyKey, request, billedTokens, remainingTokens, reservation);
+      return { billedTokens, debitedTokens: billedTokens, shortfall: 0 };
+    } catch (error) {
+      if (reservation && isConditionalCheckFailure(error, RESERVATION_ITEM_INDEX)) {
+        console.warn(`[TokenLedger] Reservation ${reservation.entryId} expired before settling; debiting in full.`);
+        return this.debit(request);
+      }
+      if (!isConditionalCheckFailure(error)) {
+        throw error;
+      }
+    }
+
+    // The balance cannot cover the rest (or the family is missing): take what is left
+    for (let attempt = 0; attempt < MAX_DRAIN_ATTEMPTS; attempt++) {
+      const balance = await this.getBalanceByKey(familyKey);
+      if (balance === null) {
+        throw new Error(`Family ${request.familyId} not found in region ${request.userRegion}`);
+      }
+      const takenTokens = Math.max(0, Math.min(balance, remainingTokens));
+      const debitedTokens = heldTokens + takenTokens;
+      try {
+        await this.writeDebit(familyKey, request, billedTokens, takenTokens, reservation, balance);
+        console.warn(`[TokenLedger] Family ${request.familyId} ran out of tokens. Billed ${billedTokens}, debited ${debitedTokens}.`);
+        return { billedTokens, debitedTokens, shortfall: billedTokens - debitedTokens };
+      } catch (error) {
+        if (reservation && isConditionalCheckFailure(error, RESERVATION_ITEM_INDEX)) {
+          return this.debit(request);
+        }
+        if (!isConditionalCheckFailure(error)) {
+          throw error;
+        }
+        // The balance changed between the read and the write; read it again
+      }
+    }
+
+    throw new Error(`Could not debit family ${request.familyId}: balance kept changing during the debit`);
+  }
+
+  /**
+   * Get the current token balance of a family.
+   * @returns The balance, or null if the family does not exist.
+   */
+  public async getBalance(familyId: string, userRegion: string): Promise<number | null> {
+    return this.getBalanceByKey(buildRegionalKey(ENTITY_PREFIX.FAMILY, userRegion, familyId));
+  }
+
+  /**
+   * Get a family's balance split into plan and purchased tokens, with its plan.
+   * @returns The balance, or null if the family does not exist.
+   */
+  public async getBalanceBreakdown(familyId: string, userRegion: string): Promise<FamilyBalance | null> {
+    const { Item } = await this.ddbDocClient.send(new GetCommand({
+      TableName: this.familiesTableName,
+      Key: { familyId: buildRegionalKey(ENTITY_PREFIX.FAMILY, userRegion, familyId) },
+      ConsistentRead: true,
+    }));
+    if (!Item) {
+      return null;
+    }
+    const family = Item as FamilyData;
+    const split = splitBalance(family);
+    return {
+      balance: split.planTokens + split.extraTokens,
+      ...split,
+      ...(family.planId ? { planId: family.planId } : {}),
+      ...(family.planRenewsAt ? { planRenewsAt: family.planRenewsAt } : {}),
+    };
+  }
+
+  /**
+   * Get the tokens a profile has used in the current window of each quota window it is capped in.
+   * @param quota The profile's quota; windows without a cap are not read.
+   */
+  public async getProfileUsage(
+    familyId: string,
+    profileId: string,
+    userRegion: string,
+    quota?: TokenQuota | null,
+    at: Date = new Date()
+  ): Promise<QuotaUsage> {
+    const familyKey = buildRegionalKey(ENTITY_PREFIX.FAMILY, userRegion, familyId);
+    const usage: QuotaUsage = {};
+    for (const window of cappedWindows(quota)) {
+      usage[window] = await this.getUsedTokens(familyKey, usageCounterId(profileId, window, at));
+    }
+    return usage;
+  }
+
+  private async getUsedTokens(familyKey: string, counterId: string): Promise<number> {
+    const { Item } = await this.ddbDocClient.send(new GetCommand({
+      TableName: this.ledgerTableName,
+      Key: { familyId: familyKey, entryId: counterId },
+      ConsistentRead: true,
+    }));
+    return (Item as ProfileUsageCounter | undefined)?.usedTokens ?? 0;
+  }
+
+  private async quotaExceeded(familyKey: string, request: ReservationRequest, window: QuotaWindow, at: Date): Promise<ReservationResult> {
+    const usedTokens = await this.getUsedTokens(familyKey, usageCounterId(request.profileId, window, at));
+    const availableTokens = Math.max(0, request.quota![window]! - usedTokens);
+    console.log(`[TokenLedger] Profile ${request.profileId} cannot reserve ${request.tokens} tokens (${window} quota has ${availableTokens} left).`);
+    return { ok: false, code: 'QUOTA_EXCEEDED', window, requiredTokens: request.tokens, availableTokens };
+  }
+
+  /**
+   * Transaction item adding tokens to a profile usage counter, creating the counter if needed.
+   * @param headroom When set, the update only applies if the counter is at most this much.
+   */
+  private counterUpdate(
+    familyKey: string,
+    profileId: string,
+    counterId: string,
+    tokens: number,
+    now: Date,
+    headroom?: number
+  ): NonNullable<TransactWriteCommandInput['TransactItems']>[number] {
+    return {
+      Update: {
+        TableName: this.ledgerTableName,
+        Key: { familyId: familyKey, entryId: counterId },
+        UpdateExpression: 'SET profileId = :profileId, updatedAt = :now, #ttl = if_not_exists(#ttl, :ttl) ADD usedTokens :tokens',
+        ...(headroom !== undefined ? { ConditionExpression: 'attribute_not_exists(usedTokens) OR usedTokens <= :headroom' } : {}),
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: {
+          ':profileId': profileId,
+          ':tokens': tokens,
+          ':now': now.toISOString(),
+          ':ttl': Math.floor(now.getTime() / 1000) + USAGE_COUNTER_TTL_SECONDS,
+          ...(headroom !== undefined ? { ':headroom': headroom } : {}),
+        },
+      },
+    };
+  }
+
+  // Unconditional counter updates moving each counter by the same number of tokens
+  private counterAdjustments(familyKey: string, profileId: string, counterIds: string[] | undefined, tokens: number) {
+    if (!counterIds || tokens === 0) {
+      return [];
+    }
+    const now = new Date();
+    return counterIds.map(counterId => this.counterUpdate(familyKey, profileId, counterId, tokens, now));
+  }
+
+  private async getBalanceByKey(familyKey: string): Promise<number | null> {
+    const { Item } = await this.ddbDocClient.send(new GetCommand({
+      TableName: this.familiesTableName,
+      Key: { familyId: familyKey },
+      ConsistentRead: true,
+    }));
+    if (!Item) {
+      return null;
+    }
+    return (Item as FamilyData).tokenBalance ?? 0;
+  }
+
+  /**
+   * Write the balance update and the ledger entry (and settle the reservation) in one transaction.
+   * @param chargeTokens Tokens to take from the balance now; negative to refund part of a reservation.
+   * @param expectedBalance When set, the update only applies if the balance still equals it
+   *        (used for partial debits); otherwise it requires the balance to cover the charge.
+   */
+  private async writeDebit(
+    familyKey: string,
+    request: DebitRequest,
+    billedTokens: number,
+    chargeTokens: number,
+    reservation?: TokenReservation,
+    expectedBalance?: number
+  ): Promise<void> {
+    const now = new Date();
+    const createdAt = now.toISOString();
+    const entry: TokenLedgerEntry = {
+      familyId: familyKey,
+      entryId: `${createdAt}#${request.requestId}`,
+      profileId: request.profileId,
+      requestId: request.requestId,
+      provider: request.provider,
+      model: request.model,
+      promptTokens: request.usage.prompt,
+      completionTokens: request.usage.completion,
+      multiplier: request.multiplier,
+      billedTokens,
+      debitedTokens: (reservation?.reservedTokens ?? 0) + chargeTokens,
+      region: request.userRegion,
+      createdAt,
+      ttl: Math.floor(now.getTime() / 1000) + this.entryTtlSeconds,
+    };
+
+    let balanceCondition: { ConditionExpression: string; values: Record<string, number> };
+    if (expectedBalance !== undefined) {
+      balanceCondition = { ConditionExpression: 'tokenBalance = :expected', values: { ':expected': expectedBalance } };
+    } else if (chargeTokens > 0) {
+      balanceCondition = { ConditionExpression: 'attribute_exists(familyId) AND tokenBalance >= :debit', values: {} };
+    } else {
+      balanceCondition = { ConditionExpression: 'attribute_exists(familyId)', values: {} };
+    }
+
+    const transactItems: NonNullable<TransactWriteCommandInput['TransactItems']> = [
+      {
+        Update: {
+          TableName: this.familiesTableName,
+          Key: { familyId: familyKey },
+          UpdateExpression: 'SET tokenBalance = tokenBalance - :debit, updatedAt = :now',
+          ConditionExpression: balanceCondition.ConditionExpression,
+          ExpressionAttributeValues: {
+            ':debit': chargeTokens,
+            ':now': createdAt,
+            ...balanceCondition.values,
+          },
+        },
+      },
+      {
+        Put: {
+          TableName: this.ledgerTableName,
+          Item: entry,
+        },
+      },
+    ];
+    if (reservation) {
+      transactItems.push({
+        Delete: {
+          TableName: this.ledgerTableName,
+          Key: { familyId: reservation.familyId, entryId: reservation.entryId },
+          ConditionExpression: 'attribute_exists(entryId)',
+        },
+      });
+    }
+    // The reservation's tokens are already on its counters; usage without one is counted now
+    const counterIds = reservation
+      ? reservation.quotaCounterIds
+      : cappedWindows(request.quota).map(window => usageCounterId(request.profileId, window, now));
+    const countedTokens = billedTokens - (reservation?.reservedTokens ?? 0);
+    transactItems.push(...this.counterAdjustments(familyKey, request.profileId, counterIds, countedTokens));
+
+    await this.ddbDocClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+  }
+}
+
+/**
+ * Whether a transaction was cancelled by a failed condition, optionally on a specific item.
+ */
+function isConditionalCheckFailure(error: any, itemIndex?: number): boolean {
+  if (error?.name !== 'TransactionCanceledException' || !Array.isArray(error.CancellationReasons)) {
+    return false;
+  }
+  const reasons: Array<{ Code?: string }> = error.CancellationReasons;
+  if (itemIndex !== undefined) {
+    return reasons[itemIndex]?.Code === 'ConditionalCheckFailed';
+  }
+  return reasons.some(reason => reason?.Code === 'ConditionalCheckFailed');
+}
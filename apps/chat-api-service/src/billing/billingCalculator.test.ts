@@ -0,0 +1,97 @@
+import { AIModelRequest, AiServiceConfiguration } from '@kinable/common-types';
+import { getBillingMultiplier, calculateBillableTokens, estimateReservationTokens, DEFAULT_BILLING_MULTIPLIER } from './billingCalculator';
+
+describe('billingCalculator', () => {
+  const config = {
+    providers: {
+      openai: {
+        active: true,
+        models: {
+          'gpt-4o': { id: 'gpt-4o', active: true, billingMultiplier: 3 },
+          'gpt-3.5-turbo': { id: 'gpt-3.5-turbo', active: true },
+          'gpt-4-legacy': { id: 'gpt-4-legacy', active: false, billingMultiplier: 10 }
+        }
+      }
+    }
+  } as unknown as AiServiceConfiguration;
+
+  describe('getBillingMultiplier', () => {
+    it('should return the configured multiplier for the model', () => {
+      expect(getBillingMultiplier(config, 'openai', 'gpt-4o')).toBe(3);
+    });
+
+    it('should match a dated model version reported by the provider', () => {
+      expect(getBillingMultiplier(config, 'openai', 'gpt-4o-2024-08-06')).toBe(3);
+    });
+
+    it('should fall back to the default multiplier', () => {
+      expect(getBillingMultiplier(config, 'openai', 'gpt-3.5-turbo')).toBe(DEFAULT_BILLING_MULTIPLIER);
+      expect(getBillingMultiplier(config, 'openai', 'unknown-model')).toBe(DEFAULT_BILLING_MULTIPLIER);
+      expect(getBillingMultiplier(config, 'anthropic', 'claude-3-haiku')).toBe(DEFAULT_BILLING_MULTIPLIER);
+    });
+  });
+
+  describe('calculateBillableTokens', () => {
+    it('should multiply total usage and round up', () => {
+      expect(calculateBillableTokens({ prompt: 10, completion: 23, total: 33 }, 1.5)).toBe(50);
+      expect(calculateBillableTokens({ prompt: 10, completion: 20, total: 30 }, 1)).toBe(30);
+    });
+  });
+
+  describe('estimateReservationTokens', () => {
+    const request = { prompt: 'x'.repeat(40), maxTokens: 100 } as AIModelRequest;
+
+    it('should use the multiplier of the requested model', () => {
+      expect(estimateReservationTokens(config, { ...request, preferredProvider: 'openai', preferredModel: 'gpt-3.5-turbo' })).toBe(112);
+    });
+
+    it('should assume the most expensive active model when none is requested', () => {
+      expect(estimateReservationTokens(config, request)).toBe(336);
+    });
+
+    it('should use caller-supplied token estimates', () => {
+      expect(estimateReservationTokens(config, { ...request, estimatedInputTokens: 5, estimatedOutputTokens: 5 })).toBe(30);
+    });
+
+    it('should use the requested model when no provider is named', () => {
+      expect(estimateReservationTokens(config, { ...request, preferredModel: 'gpt-3.5-turbo' })).toBe(112);
+    });
+
+    it('should only consider the models of the plan', () => {
+      const planConfig = {
+        ...config,
+        plans: { free: { tier: 'free', name: 'Free', monthlyAllowance: 1000, rolloverCap: 0, allowedModels: ['gpt-3.5-turbo'] } }
+      } as unknown as AiServiceConfiguration;
+      const planRequest = { ...request, context: { planId: 'free' } } as unknown as AIModelRequest;
+
+      expect(estimateReservationTokens(planConfig, planRequest)).toBe(112);
+      expect(estimateReservationTokens(planConfig, { ...planRequest, preferredModel: 'gpt-4o' })).toBe(112);
+    });
+
+    it('should only consider the models of the age band', () => {
+      const ageConfig = {
+        ...config,
+        agePolicies: { under_9: { allowedModels: ['gpt-3.5-turbo'], maxTokens: 50 } }
+      } as unknown as AiServiceConfiguration;
+      const childRequest = { ...request, context: { ageBand: 'under_9' } } as unknown as AIModelRequest;
+
+      expect(estimateReservationTokens(ageConfig, childRequest)).toBe(62);
+    });
+
+    it('should count the history the model has room for', () => {
+      const history = Array.from({ length: 20 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: 'y'.repeat(400)
+      }));
+      const longRequest = { ...request, preferredModel: 'gpt-3.5-turbo', context: { history } } as unknown as AIModelRequest;
+      const windowConfig = {
+        providers: {
+          openai: { active: true, models: { 'gpt-3.5-turbo': { id: 'gpt-3.5-turbo', active: true, contextWindow: 400 } } }
+        }
+      } as unknown as AiServiceConfiguration;
+
+      expect(estimateReservationTokens(config, longRequest)).toBeGreaterThan(1000);
+      expect(estimateReservationTokens(windowConfig, longRequest)).toBeLessThanOrEqual(400);
+    });
+  });
+});
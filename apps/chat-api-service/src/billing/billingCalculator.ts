@@ -0,0 +1,65 @@
+import { AIModelRequest, AiServiceConfiguration, TokenUsage } from '@kinable/common-types';
+import { estimateRequestTokens } from '../ai/tokenEstimator';
+import { fitRequestToContextWindow } from '../ai/history';
+import { applyAgePolicyLimits, isModelAllowed, mergeSystemPrompt, resolveAgePolicy } from '../ai/agePolicy';
+import { isModelInPlan, resolvePlan } from '../ai/planEntitlements';
+
+export const DEFAULT_BILLING_MULTIPLIER = 1;
+
+/**
+ * Look up the billing multiplier for the model that served a request.
+ * Providers may report a dated model version (e.g. gpt-4o-2024-08-06), so a configured
+ * model id that prefixes the reported name also matches.
+ */
+export function getBillingMultiplier(config: AiServiceConfiguration, provider: string, model: string): number {
+  const models = config.providers[provider]?.models;
+  if (!models) {
+    return DEFAULT_BILLING_MULTIPLIER;
+  }
+  const modelConfig = models[model] ?? Object.values(models).find(m => model.startsWith(m.id));
+  const multiplier = modelConfig?.billingMultiplier;
+  return multiplier !== undefined && multiplier >= 0 ? multiplier : DEFAULT_BILLING_MULTIPLIER;
+}
+
+/**
+ * Convert token usage into the number of tokens to deduct from a family's balance.
+ */
+export function calculateBillableTokens(usage: TokenUsage, multiplier: number): number {
+  return Math.ceil(usage.total * multiplier);
+}
+
+/**
+ * Estimate the billable tokens to reserve before a request is routed, the way the router will send
+ * it: within the age policy's limits, with its system prompt, and with the history trimmed to the
+ * model's context window, counted with the model's tokenizer. The serving model is not known yet,
+ * so unless the request names one the router would use, the largest reservation among the models
+ * the family's plan and the profile's age policy allow is assumed.
+ */
+export function estimateReservationTokens(config: AiServiceConfiguration, request: AIModelRequest): number {
+  const agePolicy = resolveAgePolicy(config, request.context?.ageBand);
+  const limitedRequest = agePolicy ? applyAgePolicyLimits(request, agePolicy) : request;
+  const plan = resolvePlan(config, request.context?.planId);
+  const isEligible = (modelId: string) => isModelAllowed(agePolicy, modelId) && isModelInPlan(plan, modelId);
+
+  const reservationFor = (provider: string | undefined, model: string | undefined): number => {
+    const modelConfig = provider && model ? config.providers[provider]?.models[model] : undefined;
+    const sentRequest = fitRequestToContextWindow({
+      ...limitedRequest,
+      preferredModel: model,
+      systemPrompt: mergeSystemPrompt(agePolicy, limitedRequest.systemPrompt, modelConfig?.systemPrompt),
+    }, modelConfig?.contextWindow);
+    const { inputTokens, outputTokens } = estimateRequestTokens(sentRequest, model);
+    const multiplier = provider && model ? getBillingMultiplier(config, provider, model) : DEFAULT_BILLING_MULTIPLIER;
+    return calculateBillableTokens({ prompt: inputTokens, completion: outputTokens, total: inputTokens + outputTokens }, multiplier);
+  };
+
+  const candidates = Object.entries(config.providers)
+    .filter(([name, provider]) => provider.active && (!request.preferredProvider || name === request.preferredProvider))
+    .flatMap(([name, provider]) => Object.entries(provider.models)
+      .filter(([modelId, model]) => model.active && isEligible(modelId))
+      .map(([modelId]) => ({ provider: name, model: modelId })));
+
+  const requested = candidates.filter(candidate => candidate.model === request.preferredModel);
+  const reservations = (requested.length > 0 ? requested : candidates).map(candidate => reservationFor(candidate.provider, candidate.model));
+  return reservations.length > 0 ? Math.max(...reservations) : reservationFor(undefined, request.preferredModel);
+}
@@ -0,0 +1,47 @@
+import { findExhaustedWindow, getQuotaStatus, parseTokenQuota, usageCounterId, windowResetsAt } from './profileQuota';
+
+describe('profileQuota', () => {
+  // Late evening on the last day of the month in UTC
+  const at = new Date('2026-01-31T23:30:00Z');
+
+  it('should key usage counters by UTC day and month', () => {
+    expect(usageCounterId('prof-1', 'daily', at)).toBe('USAGE#prof-1#DAY#2026-01-31');
+    expect(usageCounterId('prof-1', 'monthly', at)).toBe('USAGE#prof-1#MONTH#2026-01');
+    expect(usageCounterId('prof-1', 'daily', new Date('2026-02-01T00:00:00Z'))).toBe('USAGE#prof-1#DAY#2026-02-01');
+  });
+
+  it('should reset windows at the next UTC day and month', () => {
+    expect(windowResetsAt('daily', at).toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    expect(windowResetsAt('monthly', new Date('2026-12-15T12:00:00Z')).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should report the remaining tokens of the capped windows only', () => {
+    expect(getQuotaStatus({ daily: 1000 }, { daily: 1200, monthly: 5000 }, at)).toEqual({
+      daily: { limit: 1000, used: 1200, remaining: 0, resetsAt: '2026-02-01T00:00:00.000Z' }
+    });
+    expect(getQuotaStatus(null, {}, at)).toEqual({});
+  });
+
+  it('should find the first window whose usage reached its cap', () => {
+    expect(findExhaustedWindow({ daily: 1000, monthly: 5000 }, { daily: 400, monthly: 5000 })).toBe('monthly');
+    expect(findExhaustedWindow({ daily: 1000 }, { daily: 999 })).toBeNull();
+    expect(findExhaustedWindow({ daily: 0 }, {})).toBe('daily');
+  });
+
+  describe('parseTokenQuota', () => {
+    it('should keep the known caps and drop null ones', () => {
+      expect(parseTokenQuota({ daily: 1000, monthly: null, weekly: 5 })).toEqual({ ok: true, quota: { daily: 1000 } });
+    });
+
+    it('should reject caps that are not whole non-negative numbers', () => {
+      expect(parseTokenQuota({ daily: -1 }).ok).toBe(false);
+      expect(parseTokenQuota({ monthly: 10.5 }).ok).toBe(false);
+      expect(parseTokenQuota({ daily: '1000' }).ok).toBe(false);
+      expect(parseTokenQuota([1000]).ok).toBe(false);
+    });
+
+    it('should reject a daily cap above the monthly cap', () => {
+      expect(parseTokenQuota({ daily: 6000, monthly: 5000 })).toEqual({ ok: false, message: 'daily cannot be larger than monthly' });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { QuotaWindow, TokenQuota, TokenQuotaStatus } from '@kinable/common-types';
+
+export const QUOTA_WINDOWS: QuotaWindow[] = ['daily', 'monthly'];
+export const USAGE_COUNTER_PREFIX = 'USAGE#';
+
+const MAX_QUOTA_TOKENS = 1_000_000_000;
+
+export type QuotaUsage = Partial<Record<QuotaWindow, number>>;
+
+/**
+ * The windows a quota caps.
+ */
+export function cappedWindows(quota?: TokenQuota | null): QuotaWindow[] {
+  return QUOTA_WINDOWS.filter(window => typeof quota?.[window] === 'number');
+}
+
+/**
+ * The period of a window that a moment falls in. Windows follow UTC days and months,
+ * e.g. DAY#2026-10-19 or MONTH#2026-10.
+ */
+export function quotaPeriod(window: QuotaWindow, at: Date): string {
+  const day = at.toISOString().slice(0, 10);
+  return window === 'daily' ? `DAY#${day}` : `MONTH#${day.slice(0, 7)}`;
+}
+
+/**
+ * Sort key of the counter holding a profile's usage for the window that a moment falls in,
+ * e.g. USAGE#prof-1#DAY#2026-10-19 or USAGE#prof-1#MONTH#2026-10.
+ */
+export function usageCounterId(profileId: string, window: QuotaWindow, at: Date): string {
+  return `${USAGE_COUNTER_PREFIX}${profileId}#${quotaPeriod(window, at)}`;
+}
+
+/**
+ * Start of the window after the one that a moment falls in.
+ */
+export function windowResetsAt(window: QuotaWindow, at: Date): Date {
+  if (window === 'daily') {
+    return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1));
+  }
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Limit, usage and remaining tokens for each window the quota caps.
+ */
+export function getQuotaStatus(quota: TokenQuota | null | undefined, usage: QuotaUsage, at: Date = new Date()): TokenQuotaStatus {
+  const status: TokenQuotaStatus = {};
+  for (const window of cappedWindows(quota)) {
+    const limit = quota![window]!;
+    const used = usage[window] ?? 0;
+    status[window] = {
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetsAt: windowResetsAt(window, at).toISOString(),
+    };
+  }
+  return status;
+}
+
+/**
+ * The first capped window whose usage has reached its limit.
+ * @returns The window, or null if the profile still has tokens in every window.
+ */
+export function findExhaustedWindow(quota: TokenQuota | null | undefined, usage: QuotaUsage): QuotaWindow | null {
+  return cappedWindows(quota).find(window => (usage[window] ?? 0) >= quota![window]!) || null;
+}
+
+/**
+ * Validate a quota sent by a client. A null or missing cap removes that window's limit.
+ * @returns The quota with only the known fields, or a message saying what is wrong.
+ */
+export function parseTokenQuota(input: any): { ok: true; quota: TokenQuota } | { ok: false; message: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, message: 'quota must be an object with daily and/or monthly token caps' };
+  }
+
+  const quota: TokenQuota = {};
+  for (const window of QUOTA_WINDOWS) {
+    const cap = input[window];
+    if (cap === undefined || cap === null) {
+      continue;
+    }
+    if (!Number.isInteger(cap) || cap < 0 || cap > MAX_QUOTA_TOKENS) {
+      return { ok: false, message: `${window} must be a whole number of tokens between 0 and ${MAX_QUOTA_TOKENS}` };
+    }
+    quota[window] = cap;
+  }
+  if (quota.daily !== undefined && quota.monthly !== undefined && quota.daily > quota.monthly) {
+    return { ok: false, message: 'daily cannot be larger than monthly' };
+  }
+  return { ok: true, quota };
+}
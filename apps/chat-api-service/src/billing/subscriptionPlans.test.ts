@@ -0,0 +1,71 @@
+import { FamilyData, SubscriptionPlan } from '@kinable/common-types';
+import { computeAllowanceGrant, isAllowanceDue, splitBalance } from './subscriptionPlans';
+
+describe('subscriptionPlans', () => {
+  const plan: SubscriptionPlan = { tier: 'family', name: 'Family', monthlyAllowance: 100000, rolloverCap: 20000 };
+  const family = (fields: Partial<FamilyData>): FamilyData => ({
+    familyId: 'FAMILY#us-east-2#fam-1',
+    tokenBalance: 0,
+    pauseStatusFamily: false,
+    planId: 'family',
+    ...fields,
+  });
+
+  describe('splitBalance', () => {
+    it('should count purchased tokens as the last ones spent', () => {
+      expect(splitBalance({ tokenBalance: 5000, extraBalance: 2000 })).toEqual({ planTokens: 3000, extraTokens: 2000 });
+      // The plan tokens ran out and 500 purchased tokens were spent as well
+      expect(splitBalance({ tokenBalance: 1500, extraBalance: 2000 })).toEqual({ planTokens: 0, extraTokens: 1500 });
+    });
+
+    it('should treat the whole balance as plan tokens when nothing was bought', () => {
+      expect(splitBalance({ tokenBalance: 5000 })).toEqual({ planTokens: 5000, extraTokens: 0 });
+    });
+  });
+
+  describe('isAllowanceDue', () => {
+    const at = new Date('2026-11-01T00:05:00Z');
+
+    it('should be due once the renewal date has passed, or on a first grant', () => {
+      expect(isAllowanceDue(family({ planRenewsAt: '2026-11-01T00:00:00.000Z' }), at)).toBe(true);
+      expect(isAllowanceDue(family({}), at)).toBe(true);
+      expect(isAllowanceDue(family({ planRenewsAt: '2026-12-01T00:00:00.000Z' }), at)).toBe(false);
+    });
+
+    it('should never be due for a family without a plan', () => {
+      expect(isAllowanceDue(family({ planId: undefined }), at)).toBe(false);
+    });
+  });
+
+  describe('computeAllowanceGrant', () => {
+    const at = new Date('2026-11-01T00:05:00Z');
+
+    it('should roll unused plan tokens over up to the cap and keep purchased tokens', () => {
+      const grant = computeAllowanceGrant(family({ tokenBalance: 35000, extraBalance: 5000 }), plan, at);
+
+      expect(grant).toEqual({
+        tokenBalance: 5000 + 20000 + 100000,
+        extraBalance: 5000,
+        rolledOverTokens: 20000,
+        expiredTokens: 10000,
+        planPeriodStart: '2026-11-01T00:00:00.000Z',
+        planRenewsAt: '2026-12-01T00:00:00.000Z',
+      });
+    });
+
+    it('should forget purchased tokens that were already spent', () => {
+      const grant = computeAllowanceGrant(family({ tokenBalance: 300, extraBalance: 5000 }), plan, at);
+
+      expect(grant.extraBalance).toBe(300);
+      expect(grant.tokenBalance).toBe(100300);
+      expect(grant.rolledOverTokens).toBe(0);
+    });
+
+    it('should grant a single allowance after missed renewals', () => {
+      const grant = computeAllowanceGrant(family({ planRenewsAt: '2026-08-01T00:00:00.000Z' }), plan, at);
+
+      expect(grant.tokenBalance).toBe(100000);
+      expect(grant.planRenewsAt).toBe('2026-12-01T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { FamilyData, SubscriptionPlan } from '@kinable/common-types';
+import { windowResetsAt } from './profileQuota';
+
+export interface BalanceSplit {
+  planTokens: number;     // Left from the plan's allowances; spent first
+  extraTokens: number;    // Left from purchases; spent once the plan tokens run out
+}
+
+export interface AllowanceGrant {
+  tokenBalance: number;
+  extraBalance: number;
+  rolledOverTokens: number; // Unused plan tokens carried into the new period
+  expiredTokens: number;    // Unused plan tokens above the rollover cap
+  planPeriodStart: string;
+  planRenewsAt: string;
+}
+
+/**
+ * Split a family's balance into plan and purchased tokens.
+ *
+ * Debits only take from tokenBalance. Plan tokens are spent first, so extraBalance only comes into
+ * play once the balance falls below it: whatever is left then is all purchased tokens. Refunds put
+ * tokens back in the reverse order for the same reason.
+ */
+export function splitBalance(family: Pick<FamilyData, 'tokenBalance' | 'extraBalance'>): BalanceSplit {
+  const balance = Math.max(0, family.tokenBalance ?? 0);
+  const extraTokens = Math.min(Math.max(0, family.extraBalance ?? 0), balance);
+  return { planTokens: balance - extraTokens, extraTokens };
+}
+
+/**
+ * Whether a family on a plan is due its next allowance.
+ */
+export function isAllowanceDue(family: FamilyData, at: Date): boolean {
+  return !!family.planId && (!family.planRenewsAt || Date.parse(family.planRenewsAt) <= at.getTime());
+}
+
+/**
+ * Work out a family's balance for a new plan period. Unused plan tokens roll over up to the plan's
+ * cap and the rest expire; purchased tokens are kept in full. Periods are UTC months, and a family
+ * that missed several renewals is granted one allowance, not one per missed month.
+ */
+export function computeAllowanceGrant(family: FamilyData, plan: SubscriptionPlan, at: Date): AllowanceGrant {
+  const { planTokens, extraTokens } = splitBalance(family);
+  const rolledOverTokens = Math.min(planTokens, plan.rolloverCap);
+  return {
+    tokenBalance: extraTokens + rolledOverTokens + plan.monthlyAllowance,
+    extraBalance: extraTokens,
+    rolledOverTokens,
+    expiredTokens: planTokens - rolledOverTokens,
+    planPeriodStart: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1)).toISOString(),
+    planRenewsAt: windowResetsAt('monthly', at).toISOString(),
+  };
+}
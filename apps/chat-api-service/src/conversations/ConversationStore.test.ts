@@ -0,0 +1,211 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { BatchWriteCommand, DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { ConversationRecord } from "@kinable/common-types";
+import { ConversationStore, DEFAULT_CONVERSATION_TITLE, PROFILE_CONVERSATIONS_INDEX } from "./ConversationStore";
+import { encodeCursor } from "../data/cursor";
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const baseDdbClient = new DynamoDBClient({ region: "us-east-1" });
+
+describe("ConversationStore", () => {
+    let store: ConversationStore;
+    const conversationsTable = "TestConversationsTable";
+    const messagesTable = "TestConversationMessagesTable";
+    const familyKey = "FAMILY#us-east-2#fam-1";
+    const owner = { familyId: "fam-1", userRegion: "us-east-2", profileId: "prof-1" };
+    const conversation: ConversationRecord = {
+        familyId: familyKey,
+        conversationId: "conv-1",
+        profileId: "prof-1",
+        title: "Homework",
+        messageCount: 2,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:05:00.000Z",
+    };
+
+    beforeEach(() => {
+        ddbMock.reset();
+        store = new ConversationStore(DynamoDBDocumentClient.from(baseDdbClient), conversationsTable, messagesTable);
+        jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("createConversation", () => {
+        it("should store an empty conversation under the regionalized family key", async () => {
+            ddbMock.on(PutCommand).resolves({});
+
+            const created = await store.createConversation(owner);
+
+            expect(created).toMatchObject({ familyId: familyKey, profileId: "prof-1", title: DEFAULT_CONVERSATION_TITLE, messageCount: 0 });
+            expect(created.conversationId).toEqual(expect.any(String));
+            expect(ddbMock).toHaveReceivedCommandWith(PutCommand, {
+                TableName: conversationsTable,
+                Item: created,
+                ConditionExpression: "attribute_not_exists(conversationId)",
+            });
+        });
+
+        it("should use the ID it is given", async () => {
+            ddbMock.on(PutCommand).resolves({});
+
+            const created = await store.createConversation(owner, "Homework", "client-id-1");
+
+            expect(created).toMatchObject({ conversationId: "client-id-1", title: "Homework" });
+        });
+    });
+
+    describe("getConversation", () => {
+        it("should return null when the family has no such conversation", async () => {
+            ddbMock.on(GetCommand).resolves({});
+
+            await expect(store.getConversation("fam-1", "us-east-2", "missing")).resolves.toBeNull();
+            expect(ddbMock).toHaveReceivedCommandWith(GetCommand, {
+                Key: { familyId: familyKey, conversationId: "missing" },
+            });
+        });
+    });
+
+    describe("listConversations", () => {
+        it("should list a profile's conversations newest first through the profile index", async () => {
+            const lastKey = { familyId: familyKey, conversationId: "conv-1", profileId: "prof-1", updatedAt: conversation.updatedAt };
+            ddbMock.on(QueryCommand).resolves({ Items: [conversation], LastEvaluatedKey: lastKey });
+
+            const page = await store.listConversations("fam-1", "us-east-2", { limit: 1 }, "prof-1");
+
+            expect(page).toEqual({ items: [conversation], nextCursor: encodeCursor(lastKey) });
+            expect(ddbMock).toHaveReceivedCommandWith(QueryCommand, {
+                IndexName: PROFILE_CONVERSATIONS_INDEX,
+                KeyConditionExpression: "profileId = :profileId",
+                FilterExpression: "familyId = :familyId",
+                ScanIndexForward: false,
+                Limit: 1,
+            });
+        });
+
+        it("should list the whole family when no profile is given", async () => {
+            ddbMock.on(QueryCommand).resolves({ Items: [conversation] });
+
+            const page = await store.listConversations("fam-1", "us-east-2", { limit: 20 });
+
+            expect(page).toEqual({ items: [conversation], nextCursor: undefined });
+            const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+            expect(input.IndexName).toBeUndefined();
+            expect(input.ExpressionAttributeValues).toEqual({ ":familyId": familyKey });
+        });
+
+        it("should resume from the cursor", async () => {
+            const startKey = { familyId: familyKey, conversationId: "conv-1" };
+            ddbMock.on(QueryCommand).resolves({ Items: [] });
+
+            await store.listConversations("fam-1", "us-east-2", { limit: 20, cursor: encodeCursor(startKey) });
+
+            expect(ddbMock).toHaveReceivedCommandWith(QueryCommand, { ExclusiveStartKey: startKey });
+        });
+
+        it("should reject a cursor from another family without querying", async () => {
+            const cursor = encodeCursor({ familyId: "FAMILY#us-east-2#fam-2", conversationId: "conv-9" });
+
+            await expect(store.listConversations("fam-1", "us-east-2", { limit: 20, cursor })).resolves.toBeNull();
+            expect(ddbMock).not.toHaveReceivedCommand(QueryCommand);
+        });
+    });
+
+    describe("listMessages", () => {
+        it("should reject a cursor from another conversation", async () => {
+            const cursor = encodeCursor({ conversationId: "conv-2", messageId: "x" });
+
+            await expect(store.listMessages(conversation, { limit: 20, cursor })).resolves.toBeNull();
+        });
+
+        it("should reject a malformed cursor", async () => {
+            await expect(store.listMessages(conversation, { limit: 20, cursor: "not-a-cursor" })).resolves.toBeNull();
+        });
+    });
+
+    describe("listRecentMessages", () => {
+        it("should read the newest messages and return them oldest first", async () => {
+            ddbMock.on(QueryCommand).resolves({ Items: [{ messageId: "m3" }, { messageId: "m2" }] });
+
+            const messages = await store.listRecentMessages(conversation, 2);
+
+            expect(messages.map(message => message.messageId)).toEqual(["m2", "m3"]);
+            expect(ddbMock).toHaveReceivedCommandWith(QueryCommand, { TableName: messagesTable, ScanIndexForward: false, Limit: 2 });
+        });
+    });
+
+    describe("appendMessages", () => {
+        it("should write the turns and bump the conversation in one transaction", async () => {
+            ddbMock.on(TransactWriteCommand).resolves({});
+
+            const messages = await store.appendMessages(conversation, [
+                { role: "user", content: "What is 2 + 2?" },
+                { role: "assistant", content: "4", model: "gpt-4o" },
+            ]);
+
+            expect(messages).toHaveLength(2);
+            expect(messages[0].messageId < messages[1].messageId).toBe(true);
+            expect(messages[1]).toMatchObject({ conversationId: "conv-1", familyId: familyKey, profileId: "prof-1", role: "assistant", model: "gpt-4o" });
+            const [update, ...puts] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+            expect(update.Update).toMatchObject({
+                TableName: conversationsTable,
+                Key: { familyId: familyKey, conversationId: "conv-1" },
+                ConditionExpression: "attribute_exists(conversationId)",
+                ExpressionAttributeValues: expect.objectContaining({ ":count": 2 }),
+            });
+            expect(puts.map(item => item.Put!.Item)).toEqual(messages);
+        });
+
+        it("should do nothing without turns", async () => {
+            await expect(store.appendMessages(conversation, [])).resolves.toEqual([]);
+            expect(ddbMock).not.toHaveReceivedCommand(TransactWriteCommand);
+        });
+    });
+
+    describe("saveSummary", () => {
+        it("should store the summary and the last message it covers", async () => {
+            ddbMock.on(UpdateCommand).resolves({});
+
+            await store.saveSummary(conversation, "Talked about fractions.", "m2");
+
+            expect(ddbMock).toHaveReceivedCommandWith(UpdateCommand, {
+                TableName: conversationsTable,
+                Key: { familyId: familyKey, conversationId: "conv-1" },
+                ConditionExpression: "attribute_exists(conversationId)",
+                ExpressionAttributeValues: { ":summary": "Talked about fractions.", ":summarizedThrough": "m2" },
+            });
+        });
+    });
+
+    describe("deleteConversation", () => {
+        it("should delete the conversation and every page of its messages", async () => {
+            ddbMock.on(DeleteCommand).resolves({});
+            ddbMock.on(QueryCommand)
+                .resolvesOnce({ Items: [{ conversationId: "conv-1", messageId: "m1" }], LastEvaluatedKey: { conversationId: "conv-1", messageId: "m1" } })
+                .resolvesOnce({ Items: [{ conversationId: "conv-1", messageId: "m2" }] });
+            ddbMock.on(BatchWriteCommand).resolves({});
+
+            await store.deleteConversation(conversation);
+
+            expect(ddbMock).toHaveReceivedCommandWith(DeleteCommand, { Key: { familyId: familyKey, conversationId: "conv-1" } });
+            expect(ddbMock).toHaveReceivedCommandTimes(BatchWriteCommand, 2);
+            expect(ddbMock.commandCalls(BatchWriteCommand)[1].args[0].input.RequestItems).toEqual({
+                [messagesTable]: [{ DeleteRequest: { Key: { conversationId: "conv-1", messageId: "m2" } } }],
+            });
+        });
+
+        it("should retry unprocessed deletes and fail if they never go through", async () => {
+            const unprocessed = { [messagesTable]: [{ DeleteRequest: { Key: { conversationId: "conv-1", messageId: "m1" } } }] };
+            ddbMock.on(DeleteCommand).resolves({});
+            ddbMock.on(QueryCommand).resolves({ Items: [{ conversationId: "conv-1", messageId: "m1" }] });
+            ddbMock.on(BatchWriteCommand).resolves({ UnprocessedItems: unprocessed });
+
+            await expect(store.deleteConversation(conversation)).rejects.toThrow("Could not delete 1 messages");
+            expect(ddbMock).toHaveReceivedCommandTimes(BatchWriteCommand, 3);
+        });
+    });
+});
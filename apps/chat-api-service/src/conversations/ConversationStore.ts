@@ -0,0 +1,289 @@
+import { randomUUID } from 'crypto';
+import {
+  BatchWriteCommand,
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ConversationMessage, ConversationRecord } from '@kinable/common-types';
+import { ENTITY_PREFIX, buildRegionalKey } from '../data/regionalKeys';
+import { decodeCursor, encodeCursor } from '../data/cursor';
+
+export const PROFILE_CONVERSATIONS_INDEX = 'ProfileConversationsIndex';
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const BATCH_WRITE_LIMIT = 25; // DynamoDB's limit on requests per BatchWriteItem call
+const MAX_BATCH_ATTEMPTS = 3; // Retries for items DynamoDB leaves unprocessed
+
+export interface ConversationOwner {
+  familyId: string;      // Logical family ID
+  userRegion: string;    // Home region of the family, used for the regionalized key
+  profileId: string;     // Logical profile ID
+}
+
+export interface NewConversationMessage {
+  role: ConversationMessage['role'];
+  content: string;
+  model?: string;
+  moderated?: boolean;
+}
+
+export interface PageRequest {
+  limit: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;   // Absent on the last page
+}
+
+/**
+ * Stores chat conversations and their messages.
+ *
+ * Conversations are keyed by family so guardians can read every transcript in the family;
+ * a GSI on profileId lists one profile's conversations, most recently active first.
+ * Messages are keyed by conversation and sorted chronologically. Callers are expected to
+ * load the conversation and check the caller may access it before reading its messages.
+ */
+export class ConversationStore {
+  private ddbDocClient: DynamoDBDocumentClient;
+  private conversationsTableName: string;
+  private messagesTableName: string;
+
+  constructor(ddbDocClient: DynamoDBDocumentClient, conversationsTableName: string, messagesTableName: string) {
+    this.ddbDocClient = ddbDocClient;
+    this.conversationsTableName = conversationsTableName;
+    this.messagesTableName = messagesTableName;
+  }
+
+  /**
+   * Start a new, empty conversation for a profile.
+   * @param conversationId The ID to use, e.g. one the client generated; a random UUID by default.
+   * @throws ConditionalCheckFailedException if the family already has a conversation with the ID.
+   */
+  public async createConversation(owner: ConversationOwner, title?: string, conversationId: string = randomUUID()): Promise<ConversationRecord> {
+    const now = new Date().toISOString();
+    const conversation: ConversationRecord = {
+      familyId: buildRegionalKey(ENTITY_PREFIX.FAMILY, owner.userRegion, owner.familyId),
+      conversationId,
+      profileId: owner.profileId,
+      title: title || DEFAULT_CONVERSATION_TITLE,
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.ddbDocClient.send(new PutCommand({
+      TableName: this.conversationsTableName,
+      Item: conversation,
+      ConditionExpression: 'attribute_not_exists(conversationId)',
+    }));
+    return conversation;
+  }
+
+  /**
+   * Get a conversation of a family.
+   * @returns The conversation, or null if the family has no conversation with that ID.
+   */
+  public async getConversation(familyId: string, userRegion: string, conversationId: string): Promise<ConversationRecord | null> {
+    const response = await this.ddbDocClient.send(new GetCommand({
+      TableName: this.conversationsTableName,
+      Key: { familyId: buildRegionalKey(ENTITY_PREFIX.FAMILY, userRegion, familyId), conversationId },
+    }));
+    return (response.Item as ConversationRecord) ?? null;
+  }
+
+  /**
+   * List a family's conversations, or only one profile's when profileId is given.
+   * A profile's conversations are listed most recently active first.
+   * @returns The page, or null if the cursor is invalid.
+   */
+  public async listConversations(
+    familyId: string,
+    userRegion: string,
+    page: PageRequest,
+    profileId?: string
+  ): Promise<Page<ConversationRecord> | null> {
+    const familyKey = buildRegionalKey(ENTITY_PREFIX.FAMILY, userRegion, familyId);
+    const partition = profileId ? { profileId } : { familyId: familyKey };
+    const startKey = page.cursor ? decodeCursor(page.cursor, partition) : undefined;
+    if (startKey === null) {
+      return null;
+    }
+
+    const response = await this.ddbDocClient.send(new QueryCommand({
+      TableName: this.conversationsTableName,
+      ...(profileId
+        ? {
+            IndexName: PROFILE_CONVERSATIONS_INDEX,
+            KeyConditionExpression: 'profileId = :profileId',
+            // Profile IDs are unique, but the family check keeps the listing scoped to the caller's family
+            FilterExpression: 'familyId = :familyId',
+            ExpressionAttributeValues: { ':profileId': profileId, ':familyId': familyKey },
+            ScanIndexForward: false,
+          }
+        : {
+            KeyConditionExpression: 'familyId = :familyId',
+            ExpressionAttributeValues: { ':familyId': familyKey },
+          }),
+      Limit: page.limit,
+      ExclusiveStartKey: startKey,
+    }));
+
+    return {
+      items: (response.Items as ConversationRecord[]) ?? [],
+      nextCursor: encodeCursor(response.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * List a conversation's messages, oldest first.
+   * @returns The page, or null if the cursor is invalid.
+   */
+  public async listMessages(conversation: ConversationRecord, page: PageRequest): Promise<Page<ConversationMessage> | null> {
+    const startKey = page.cursor ? decodeCursor(page.cursor, { conversationId: conversation.conversationId }) : undefined;
+    if (startKey === null) {
+      return null;
+    }
+
+    const response = await this.ddbDocClient.send(new QueryCommand({
+      TableName: this.messagesTableName,
+      KeyConditionExpression: 'conversationId = :conversationId',
+      ExpressionAttributeValues: { ':conversationId': conversation.conversationId },
+      Limit: page.limit,
+      ExclusiveStartKey: startKey,
+    }));
+
+    return {
+      items: (response.Items as ConversationMessage[]) ?? [],
+      nextCursor: encodeCursor(response.LastEvaluatedKey),
+    };
+  }
+
+  /**
+   * Get the latest messages of a conversation, oldest first.
+   * @param limit The most messages to return.
+   */
+  public async listRecentMessages(conversation: ConversationRecord, limit: number): Promise<ConversationMessage[]> {
+    const response = await this.ddbDocClient.send(new QueryCommand({
+      TableName: this.messagesTableName,
+      KeyConditionExpression: 'conversationId = :conversationId',
+      ExpressionAttributeValues: { ':conversationId': conversation.conversationId },
+      ScanIndexForward: false,
+      Limit: limit,
+    }));
+    return ((response.Items as ConversationMessage[]) ?? []).reverse();
+  }
+
+  /**
+   * Append turns to a conversation and bump its message count and activity time.
+   * The messages and the conversation update are written in one transaction.
+   * @returns The stored messages.
+   * @throws Error if the conversation no longer exists or DynamoDB fails.
+   */
+  public async appendMessages(conversation: ConversationRecord, turns: NewConversationMessage[]): Promise<ConversationMessage[]> {
+    if (turns.length === 0) {
+      return [];
+    }
+
+    const now = new Date().toISOString();
+    const suffix = randomUUID().slice(0, 8); // Keeps IDs unique when two requests append in the same millisecond
+    const messages: ConversationMessage[] = turns.map((turn, index) => ({
+      conversationId: conversation.conversationId,
+      messageId: `${now}#${index}#${suffix}`,
+      familyId: conversation.familyId,
+      profileId: conversation.profileId,
+      role: turn.role,
+      content: turn.content,
+      createdAt: now,
+      ...(turn.model ? { model: turn.model } : {}),
+      ...(turn.moderated ? { moderated: true } : {}),
+    }));
+
+    const transactItems: NonNullable<TransactWriteCommandInput['TransactItems']> = [
+      {
+        Update: {
+          TableName: this.conversationsTableName,
+          Key: { familyId: conversation.familyId, conversationId: conversation.conversationId },
+          UpdateExpression: 'SET updatedAt = :now ADD messageCount :count',
+          ConditionExpression: 'attribute_exists(conversationId)',
+          ExpressionAttributeValues: { ':now': now, ':count': messages.length },
+        },
+      },
+      ...messages.map(message => ({
+        Put: {
+          TableName: this.messagesTableName,
+          Item: message,
+          ConditionExpression: 'attribute_not_exists(messageId)',
+        },
+      })),
+    ];
+
+    await this.ddbDocClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+    return messages;
+  }
+
+  /**
+   * Replace a conversation's rolling summary.
+   * @param summarizedThrough messageId of the last message the summary covers.
+   */
+  public async saveSummary(conversation: ConversationRecord, summary: string, summarizedThrough: string): Promise<void> {
+    await this.ddbDocClient.send(new UpdateCommand({
+      TableName: this.conversationsTableName,
+      Key: { familyId: conversation.familyId, conversationId: conversation.conversationId },
+      UpdateExpression: 'SET summary = :summary, summarizedThrough = :summarizedThrough',
+      ConditionExpression: 'attribute_exists(conversationId)',
+      ExpressionAttributeValues: { ':summary': summary, ':summarizedThrough': summarizedThrough },
+    }));
+  }
+
+  /**
+   * Delete a conversation and all of its messages.
+   * The conversation goes first so it disappears from listings even if deleting the messages fails part way.
+   */
+  public async deleteConversation(conversation: ConversationRecord): Promise<void> {
+    await this.ddbDocClient.send(new DeleteCommand({
+      TableName: this.conversationsTableName,
+      Key: { familyId: conversation.familyId, conversationId: conversation.conversationId },
+    }));
+
+    let startKey: Record<string, any> | undefined;
+    do {
+      const response = await this.ddbDocClient.send(new QueryCommand({
+        TableName: this.messagesTableName,
+        KeyConditionExpression: 'conversationId = :conversationId',
+        ExpressionAttributeValues: { ':conversationId': conversation.conversationId },
+        ProjectionExpression: 'conversationId, messageId',
+        ExclusiveStartKey: startKey,
+      }));
+      const keys = (response.Items ?? []) as Array<Pick<ConversationMessage, 'conversationId' | 'messageId'>>;
+      for (let i = 0; i < keys.length; i += BATCH_WRITE_LIMIT) {
+        await this.deleteMessageBatch(keys.slice(i, i + BATCH_WRITE_LIMIT));
+      }
+      startKey = response.LastEvaluatedKey;
+    } while (startKey);
+
+    console.log(`[ConversationStore] Deleted conversation ${conversation.conversationId}.`);
+  }
+
+  private async deleteMessageBatch(keys: Array<Pick<ConversationMessage, 'conversationId' | 'messageId'>>): Promise<void> {
+    let requests = keys.map(key => ({ DeleteRequest: { Key: { conversationId: key.conversationId, messageId: key.messageId } } }));
+
+    for (let attempt = 0; attempt < MAX_BATCH_ATTEMPTS && requests.length > 0; attempt++) {
+      const response = await this.ddbDocClient.send(new BatchWriteCommand({
+        RequestItems: { [this.messagesTableName]: requests },
+      }));
+      requests = (response.UnprocessedItems?.[this.messagesTableName] ?? []) as typeof requests;
+    }
+
+    if (requests.length > 0) {
+      throw new Error(`Could not delete ${requests.length} messages of a conversation after ${MAX_BATCH_ATTEMPTS} attempts`);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { AiServiceConfiguration, ConversationMessage, ConversationRecord } from '@kinable/common-types';
+import { AIModelRouter } from '../ai/AIModelRouter';
+import { ConfigurationService } from '../ai/ConfigurationService';
+import { ConversationStore } from './ConversationStore';
+import { ConversationSummarizer, SUMMARY_SYSTEM_PROMPT, getTargetContextWindow } from './ConversationSummarizer';
+
+const model = (id: string, contextWindow: number, active = true) => ({ id, contextWindow, active });
+
+const baseConfig = (): AiServiceConfiguration => ({
+  providers: {
+    openai: {
+      active: true,
+      models: {
+        'gpt-4o': model('gpt-4o', 128000),
+        'gpt-4o-mini': model('gpt-4o-mini', 4000),
+        'gpt-legacy': model('gpt-legacy', 2000, false)
+      }
+    },
+    anthropic: { active: false, models: { 'claude-small': model('claude-small', 1000) } }
+  }
+} as unknown as AiServiceConfiguration);
+
+const conversation: ConversationRecord = {
+  familyId: 'FAMILY#us-east-2#fam-1',
+  conversationId: 'conv-1',
+  profileId: 'prof-1',
+  title: 'Volcanoes',
+  messageCount: 8,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:05:00.000Z'
+};
+
+// Eight alternating turns of 300 tokens each
+const turns: ConversationMessage[] = Array.from({ length: 8 }, (_, i) => ({
+  conversationId: 'conv-1',
+  messageId: `m${i}`,
+  familyId: conversation.familyId,
+  profileId: 'prof-1',
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  content: `${i}${' token'.repeat(299)}`,
+  createdAt: '2026-01-01T00:00:00.000Z'
+}));
+
+const requestContext = { requestId: 'req-1', region: 'us-east-2', traceId: 'trace-1' };
+
+describe('ConversationSummarizer', () => {
+  let routeRequest: jest.Mock;
+  let saveSummary: jest.Mock;
+  let config: AiServiceConfiguration;
+  let summarizer: ConversationSummarizer;
+
+  beforeEach(() => {
+    config = baseConfig();
+    routeRequest = jest.fn().mockResolvedValue({
+      ok: true,
+      text: ' Talked about volcanoes. ',
+      tokens: { prompt: 500, completion: 20, total: 520 },
+      meta: { provider: 'openai', model: 'gpt-4o-mini', features: [], region: 'us-east-2', latency: 100, timestamp: 0 }
+    });
+    saveSummary = jest.fn().mockResolvedValue(undefined);
+    summarizer = new ConversationSummarizer(
+      { routeRequest } as unknown as AIModelRouter,
+      { getConfiguration: jest.fn(async () => config) } as unknown as ConfigurationService,
+      { saveSummary } as unknown as ConversationStore
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should leave history under the trigger ratio alone', async () => {
+    const result = await summarizer.condense(conversation, turns, requestContext, 'gpt-4o');
+
+    expect(result).toEqual({ summary: undefined, turns });
+    expect(routeRequest).not.toHaveBeenCalled();
+  });
+
+  it('should summarize all but the recent turns and store the summary', async () => {
+    config.summarization = { keepRecentMessages: 3 };
+
+    const result = await summarizer.condense(conversation, turns, requestContext, 'gpt-4o-mini');
+
+    // Keeping three turns would start on an assistant turn, so only two are kept
+    expect(result.summary).toBe('Talked about volcanoes.');
+    expect(result.turns).toEqual(turns.slice(6));
+    expect(result.summaryResult).toMatchObject({ ok: true });
+    expect(saveSummary).toHaveBeenCalledWith(conversation, 'Talked about volcanoes.', 'm5');
+    expect(routeRequest).toHaveBeenCalledWith(expect.objectContaining({
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      maxTokens: 400,
+      context: expect.objectContaining({ requestId: 'req-1-summary', history: [] })
+    }));
+  });
+
+  it('should build on the existing summary and route to the configured model', async () => {
+    config.summarization = { provider: 'openai', model: 'gpt-4o-mini' };
+
+    await summarizer.condense({ ...conversation, summary: 'Said hello.' }, turns, requestContext, 'gpt-4o-mini');
+
+    const summaryRequest = routeRequest.mock.calls[0][0];
+    expect(summaryRequest).toMatchObject({ preferredProvider: 'openai', preferredModel: 'gpt-4o-mini' });
+    expect(summaryRequest.prompt).toContain('Said hello.');
+    expect(summaryRequest.prompt).toContain('User: 0');
+    expect(summaryRequest.prompt).not.toContain('User: 6');
+  });
+
+  it('should keep the turns when summarizing fails', async () => {
+    routeRequest.mockResolvedValue({ ok: false, code: 'RATE_LIMIT', provider: 'openai', retryable: true });
+
+    const result = await summarizer.condense(conversation, turns, requestContext, 'gpt-4o-mini');
+
+    expect(result).toEqual({ summary: undefined, turns });
+    expect(saveSummary).not.toHaveBeenCalled();
+  });
+
+  it('should reserve the summarization call before making it', async () => {
+    const reserve = jest.fn().mockResolvedValue(true);
+
+    await summarizer.condense(conversation, turns, requestContext, 'gpt-4o-mini', reserve);
+
+    expect(reserve).toHaveBeenCalledWith(routeRequest.mock.calls[0][0]);
+  });
+
+  it('should keep the turns without summarizing when the call cannot be reserved', async () => {
+    const reserve = jest.fn().mockResolvedValue(false);
+
+    const result = await summarizer.condense(conversation, turns, requestContext, 'gpt-4o-mini', reserve);
+
+    expect(result).toEqual({ summary: undefined, turns });
+    expect(routeRequest).not.toHaveBeenCalled();
+    expect(saveSummary).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when disabled', async () => {
+    config.summarization = { enabled: false };
+
+    await summarizer.condense(conversation, turns, requestContext, 'gpt-4o-mini');
+
+    expect(routeRequest).not.toHaveBeenCalled();
+  });
+
+  describe('getTargetContextWindow', () => {
+    it('should use the requested model\'s window', () => {
+      expect(getTargetContextWindow(baseConfig(), 'gpt-4o')).toBe(128000);
+    });
+
+    it('should fall back to the smallest active window', () => {
+      expect(getTargetContextWindow(baseConfig())).toBe(4000);
+      expect(getTargetContextWindow(baseConfig(), 'gpt-legacy')).toBe(4000);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  AIModelRequest,
+  AIModelSuccess,
+  AiServiceConfiguration,
+  ConversationMessage,
+  ConversationRecord,
+  DEFAULT_SUMMARIZATION_CONFIG,
+  RequestContext,
+  SummarizationConfig,
+} from '@kinable/common-types';
+import { AIModelRouter } from '../ai/AIModelRouter';
+import { ConfigurationService } from '../ai/ConfigurationService';
+import { getTokenizer } from '../ai/tokenizers';
+import { ConversationStore } from './ConversationStore';
+
+export const SUMMARY_SYSTEM_PROMPT =
+  'You summarize conversations between a user and an assistant. Write a short, factual summary of what was ' +
+  'discussed, including anything still unanswered, so the conversation can continue without the full transcript. ' +
+  'Do not add new information or instructions.';
+
+export interface CondensedHistory {
+  summary?: string;                // Summary of the turns before `turns`, if there is one
+  turns: ConversationMessage[];    // Turns to send verbatim
+  summaryResult?: AIModelSuccess;  // The summarization call, when one was made, so its usage can be billed
+}
+
+/**
+ * Keeps long conversations within the model's context window by folding older turns into a
+ * rolling summary. The summary is written by a cheap model through the router and stored with
+ * the conversation, so each turn is summarized once.
+ */
+export class ConversationSummarizer {
+  private router: AIModelRouter;
+  private configService: ConfigurationService;
+  private store: ConversationStore;
+
+  constructor(router: AIModelRouter, configService: ConfigurationService, store: ConversationStore) {
+    this.router = router;
+    this.configService = configService;
+    this.store = store;
+  }
+
+  /**
+   * Summarize the older turns of a conversation if its history outgrows the configured share
+   * of the target model's context window. When summarization is not needed or fails, the
+   * turns are returned as they are and the router trims them to fit instead.
+   * @param conversation The conversation, with any existing summary.
+   * @param turns The turns after the existing summary, oldest first.
+   * @param requestContext Context of the chat request the summary is made for.
+   * @param preferredModel The model the chat request asked for, if any.
+   * @param reserve Holds the cost of the summarization call before it is made; when it returns
+   *                false the call is skipped and the turns are returned as they are.
+   */
+  public async condense(
+    conversation: ConversationRecord,
+    turns: ConversationMessage[],
+    requestContext: RequestContext,
+    preferredModel?: string,
+    reserve?: (summaryRequest: AIModelRequest) => Promise<boolean>
+  ): Promise<CondensedHistory> {
+    const unchanged: CondensedHistory = { summary: conversation.summary, turns };
+    const config = await this.configService.getConfiguration();
+    const settings: SummarizationConfig = { ...DEFAULT_SUMMARIZATION_CONFIG, ...config.summarization };
+    const contextWindow = getTargetContextWindow(config, preferredModel);
+    if (!settings.enabled || !contextWindow) {
+      return unchanged;
+    }
+
+    const tokenizer = getTokenizer(preferredModel);
+    const historyTokens = (conversation.summary ? tokenizer.countTokens(conversation.summary) + tokenizer.messageOverheadTokens : 0) +
+      turns.reduce((sum, turn) => sum + tokenizer.countTokens(turn.content) + tokenizer.messageOverheadTokens, 0);
+    if (historyTokens <= contextWindow * settings.triggerRatio) {
+      return unchanged;
+    }
+
+    // Keep the latest turns verbatim, starting on a user turn
+    let splitAt = Math.max(0, turns.length - settings.keepRecentMessages);
+    while (splitAt < turns.length && turns[splitAt].role === 'assistant') {
+      splitAt++;
+    }
+    const toSummarize = turns.slice(0, splitAt);
+    if (toSummarize.length === 0) {
+      return unchanged;
+    }
+
+    const summaryRequest: AIModelRequest = {
+      prompt: buildSummaryPrompt(conversation.summary, toSummarize),
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      preferredProvider: settings.provider,
+      preferredModel: settings.model,
+      maxTokens: settings.maxSummaryTokens,
+      temperature: 0.2,
+      streaming: false,
+      context: { ...requestContext, requestId: `${requestContext.requestId}-summary`, history: [] },
+    };
+    if (reserve && !(await reserve(summaryRequest))) {
+      console.warn(`[ConversationSummarizer] Not summarizing conversation ${conversation.conversationId}: its cost could not be reserved`);
+      return unchanged;
+    }
+
+    const result = await this.router.routeRequest(summaryRequest);
+    if (!result.ok || result.stream || !result.text.trim()) {
+      console.warn(`[ConversationSummarizer] Could not summarize conversation ${conversation.conversationId}: ${result.ok ? 'empty summary' : result.code}`);
+      return unchanged;
+    }
+
+    const summary = result.text.trim();
+    const summarizedThrough = toSummarize[toSummarize.length - 1].messageId;
+    await this.store.saveSummary(conversation, summary, summarizedThrough);
+    console.log(`[ConversationSummarizer] Summarized ${toSummarize.length} messages of conversation ${conversation.conversationId}.`);
+
+    return { summary, turns: turns.slice(splitAt), summaryResult: result };
+  }
+}
+
+/**
+ * The context window history has to fit: the requested model's if it is active, otherwise the
+ * smallest among the active models, since the router may pick any of them.
+ */
+export function getTargetContextWindow(config: AiServiceConfiguration, preferredModel?: string): number | undefined {
+  const activeModels = Object.values(config.providers)
+    .filter(provider => provider.active)
+    .flatMap(provider => Object.values(provider.models).filter(model => model.active));
+
+  const preferred = preferredModel ? activeModels.find(model => model.id === preferredModel) : undefined;
+  if (preferred) {
+    return preferred.contextWindow;
+  }
+  const windows = activeModels.map(model => model.contextWindow).filter(window => window > 0);
+  return windows.length > 0 ? Math.min(...windows) : undefined;
+}
+
+function buildSummaryPrompt(previousSummary: string | undefined, turns: ConversationMessage[]): string {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+  const earlier = previousSummary ? `Summary of the conversation so far:\n${previousSummary}\n\n` : '';
+  return `${earlier}New messages:\n${transcript}\n\nWrite an updated summary of the whole conversation.`;
+}
@@ -3,13 +3,7 @@ import { IDatabaseProvider, DatabaseKey } from '@kinable/common-types';
 // when calling these methods, but aren't directly referenced in the implementation.
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
-
-// Define entity prefixes for key construction, aligning with TECH_ROADMAP.md PK structures
-const ENTITY_PREFIX = {
-  FAMILY: 'FAMILY',
-  PROFILE: 'PROFILE',
-  // Add other entity prefixes as needed
-};
+import { ENTITY_PREFIX, buildRegionalKey } from './regionalKeys';
 
 export class DynamoDBProvider implements IDatabaseProvider {
   private docClient: DynamoDBDocumentClient;
@@ -32,9 +26,9 @@ export class DynamoDBProvider implements IDatabaseProvider {
   private _constructGlobalTableKeyValue(entityPrefix: string, itemRegion: string, logicalId: string): string {
     if (!itemRegion) {
       console.warn(`itemRegion is missing for ${entityPrefix}#${logicalId}. Falling back to client region: ${this.awsClientRegion}`);
-      return `${entityPrefix}#${this.awsClientRegion}#${logicalId}`;
+      return buildRegionalKey(entityPrefix, this.awsClientRegion, logicalId);
     }
-    return `${entityPrefix}#${itemRegion}#${logicalId}`;
+    return buildRegionalKey(entityPrefix, itemRegion, logicalId);
   }
 
   // Helper to determine if regional key prefixing should apply
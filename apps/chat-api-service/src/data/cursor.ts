@@ -0,0 +1,34 @@
+/**
+ * Opaque pagination cursors: a DynamoDB LastEvaluatedKey encoded as base64url JSON.
+ */
+
+export type PageKey = Record<string, any>;
+
+/**
+ * Encode a LastEvaluatedKey as a cursor the client can send back.
+ */
+export function encodeCursor(key: PageKey | undefined): string | undefined {
+  return key ? Buffer.from(JSON.stringify(key)).toString('base64url') : undefined;
+}
+
+/**
+ * Decode a cursor back into an ExclusiveStartKey for a query.
+ * The key must belong to the partition being queried, so a cursor cannot be replayed
+ * against another family's or conversation's items.
+ * @param cursor The cursor from the client.
+ * @param partition The key attributes the decoded key must match, e.g. { conversationId }.
+ * @returns The key, or null if the cursor is malformed or belongs to another partition.
+ */
+export function decodeCursor(cursor: string, partition: PageKey): PageKey | null {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!key || typeof key !== 'object' || Array.isArray(key)) {
+    return null;
+  }
+  const matches = Object.entries(partition).every(([name, value]) => (key as PageKey)[name] === value);
+  return matches ? key as PageKey : null;
+}
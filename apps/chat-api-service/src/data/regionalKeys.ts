@@ -0,0 +1,26 @@
+/**
+ * Helpers for the regionalized key values used by the Global Tables
+ * (see TECH_ROADMAP.md, e.g. FAMILY#us-east-2#someFamilyId).
+ */
+
+export const ENTITY_PREFIX = {
+  FAMILY: 'FAMILY',
+  PROFILE: 'PROFILE',
+};
+
+/**
+ * Construct a regionalized key value, e.g. FAMILY#us-east-2#someFamilyId
+ */
+export function buildRegionalKey(entityPrefix: string, region: string, logicalId: string): string {
+  return `${entityPrefix}#${region}#${logicalId}`;
+}
+
+/**
+ * Extract the logical ID from a claim that may be regionalized (ENTITY#region#id).
+ * Claims that are not regionalized are returned unchanged.
+ */
+export function getLogicalId(regionalIdClaim: string): string {
+  if (!regionalIdClaim || typeof regionalIdClaim !== 'string') return '';
+  const parts = regionalIdClaim.split('#');
+  return parts.length === 3 ? parts[2] : regionalIdClaim;
+}
@@ -0,0 +1,94 @@
+import { Writable } from 'stream';
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { IApiResponse } from '@kinable/common-types';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*', // For CORS
+  'Access-Control-Allow-Credentials': 'true'
+};
+
+/**
+ * Create a success response
+ */
+export function createSuccessResponse<T>(
+  statusCode: number,
+  data: T
+): APIGatewayProxyResult {
+  const response: IApiResponse<T> = {
+    success: true,
+    statusCode,
+    data
+  };
+
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      ...CORS_HEADERS
+    },
+    body: JSON.stringify(response)
+  };
+}
+
+/**
+ * Create an error response
+ */
+export function createErrorResponse(
+  statusCode: number,
+  message: string,
+  code: string = 'BAD_REQUEST',
+  details?: any
+): APIGatewayProxyResult {
+  const response: IApiResponse = {
+    success: false,
+    statusCode,
+    message,
+    error: {
+      code,
+      details
+    }
+  };
+
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      ...CORS_HEADERS
+    },
+    body: JSON.stringify(response)
+  };
+}
+
+/**
+ * Send a complete response, such as an error, through a Lambda response stream.
+ */
+export function writeStreamedResponse(responseStream: Writable, response: APIGatewayProxyResult): void {
+  const stream = awslambda.HttpResponseStream.from(responseStream, {
+    statusCode: response.statusCode,
+    headers: response.headers,
+  });
+  stream.write(response.body);
+  stream.end();
+}
+
+/**
+ * Start a Server-Sent Events response on a Lambda response stream. Frames written to the returned
+ * stream reach the client as they are written; end it once the last frame is written.
+ */
+export function openEventStream(responseStream: Writable): Writable {
+  return awslambda.HttpResponseStream.from(responseStream, {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...CORS_HEADERS
+    },
+  });
+}
+
+/**
+ * Format a single Server-Sent Events frame with a JSON payload.
+ */
+export function formatSseFrame(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,71 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+const mockGetBalanceBreakdown = jest.fn();
+jest.mock('../billing/TokenLedger', () => ({
+  TokenLedger: jest.fn().mockImplementation(() => ({ getBalanceBreakdown: mockGetBalanceBreakdown }))
+}));
+
+const createMockEvent = (authorizer: Record<string, any> | null): APIGatewayProxyEvent => ({
+  body: null,
+  requestContext: { requestId: 'test-request-id', authorizer },
+  headers: {},
+  httpMethod: 'GET',
+  path: '/v1/billing/balance'
+} as unknown as APIGatewayProxyEvent);
+
+describe('BillingBalance Handler', () => {
+  let handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+
+  beforeEach(async () => {
+    process.env.AWS_REGION = 'us-east-2';
+    process.env.FAMILIES_TABLE_NAME = 'test-families-table';
+    process.env.TOKEN_LEDGER_TABLE_NAME = 'test-token-ledger-table';
+    jest.resetModules();
+    handler = (await import('./billingBalance')).handler;
+    mockGetBalanceBreakdown.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.FAMILIES_TABLE_NAME;
+    delete process.env.TOKEN_LEDGER_TABLE_NAME;
+  });
+
+  test('should return the balance of the caller\'s family', async () => {
+    mockGetBalanceBreakdown.mockResolvedValue({ balance: 742, planTokens: 642, extraTokens: 100, planId: 'family' });
+
+    const response = await handler(createMockEvent({
+      lambda: { familyId: 'FAMILY#us-west-2#fam-1', profileId: 'PROFILE#us-west-2#prof-1', region: 'us-west-2' }
+    }));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({ balance: 742, planTokens: 642, extraTokens: 100, planId: 'family' });
+    expect(mockGetBalanceBreakdown).toHaveBeenCalledWith('fam-1', 'us-west-2');
+  });
+
+  test('should return 404 when the family does not exist', async () => {
+    mockGetBalanceBreakdown.mockResolvedValue(null);
+
+    const response = await handler(createMockEvent({ familyId: 'fam-1', region: 'us-east-2' }));
+
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body).error.code).toBe('NOT_FOUND');
+  });
+
+  test('should return 401 when the caller has no family', async () => {
+    const response = await handler(createMockEvent(null));
+
+    expect(response.statusCode).toBe(401);
+    expect(mockGetBalanceBreakdown).not.toHaveBeenCalled();
+  });
+
+  test('should return 500 when the billing tables are not configured', async () => {
+    delete process.env.TOKEN_LEDGER_TABLE_NAME;
+    jest.resetModules();
+    const unconfiguredHandler = (await import('./billingBalance')).handler;
+
+    const response = await unconfiguredHandler(createMockEvent({ familyId: 'fam-1' }));
+
+    expect(response.statusCode).toBe(500);
+    expect(mockGetBalanceBreakdown).not.toHaveBeenCalled();
+  });
+});
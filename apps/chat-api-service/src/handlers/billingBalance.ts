@@ -0,0 +1,53 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { createSuccessResponse, createErrorResponse } from './apiResponses';
+import { buildRequestContext } from './chatRequest';
+import { TokenLedger } from '../billing/TokenLedger';
+import { getLogicalId } from '../data/regionalKeys';
+
+const FAMILIES_TABLE_ENV = process.env.FAMILIES_TABLE_NAME;
+const TOKEN_LEDGER_TABLE_ENV = process.env.TOKEN_LEDGER_TABLE_NAME;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2';
+
+let tokenLedger: TokenLedger;
+
+/**
+ * Returns the token balance of the caller's family: GET /v1/billing/balance
+ * The balance is split into plan tokens (spent first) and purchased extra tokens.
+ */
+export const handler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  if (!FAMILIES_TABLE_ENV || !TOKEN_LEDGER_TABLE_ENV) {
+    console.error('Missing required environment variables: FAMILIES_TABLE_NAME or TOKEN_LEDGER_TABLE_NAME');
+    return createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR');
+  }
+
+  const requestContext = buildRequestContext(event);
+  const familyId = getLogicalId(requestContext.familyId || '');
+  if (!familyId) {
+    return createErrorResponse(401, 'Missing family identity', 'UNAUTHORIZED');
+  }
+
+  if (!tokenLedger) {
+    const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: SERVICE_REGION_ENV }));
+    tokenLedger = new TokenLedger(ddbDocClient, FAMILIES_TABLE_ENV, TOKEN_LEDGER_TABLE_ENV);
+  }
+
+  try {
+    const balance = await tokenLedger.getBalanceBreakdown(familyId, requestContext.userRegion || requestContext.region);
+    if (balance === null) {
+      return createErrorResponse(404, 'Family not found', 'NOT_FOUND');
+    }
+    return createSuccessResponse(200, balance);
+  } catch (error: any) {
+    console.error('Failed to read token balance:', error);
+    return createErrorResponse(
+      500,
+      'An unexpected error occurred',
+      'INTERNAL_ERROR',
+      { message: error.message }
+    );
+  }
+};
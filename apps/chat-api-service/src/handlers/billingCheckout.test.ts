@@ -0,0 +1,99 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+const mockSecretsSend = jest.fn();
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  ...jest.requireActual('@aws-sdk/client-secrets-manager'),
+  SecretsManagerClient: jest.fn().mockImplementation(() => ({ send: mockSecretsSend }))
+}));
+
+const guardianAuthorizer = {
+  lambda: { familyId: 'FAMILY#us-west-2#fam-1', profileId: 'PROFILE#us-west-2#prof-1', region: 'us-west-2', role: 'guardian' }
+};
+
+const createMockEvent = (body: Record<string, any> | null, authorizer: Record<string, any> | null = guardianAuthorizer): APIGatewayProxyEvent => ({
+  body: body ? JSON.stringify(body) : null,
+  requestContext: { requestId: 'test-request-id', authorizer },
+  headers: {},
+  httpMethod: 'POST',
+  path: '/v1/billing/checkout'
+} as unknown as APIGatewayProxyEvent);
+
+describe('BillingCheckout Handler', () => {
+  let handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+
+  beforeEach(async () => {
+    process.env.AWS_REGION = 'us-east-2';
+    process.env.PAYMENT_SECRET_ID = 'test-payment-secret';
+    process.env.PAYMENT_GATEWAY = 'local';
+    process.env.CHECKOUT_SUCCESS_URL = 'http://localhost:3000/billing?paid=1';
+    process.env.CHECKOUT_CANCEL_URL = 'http://localhost:3000/billing';
+    jest.resetModules();
+    handler = (await import('./billingCheckout')).handler;
+    mockSecretsSend.mockReset().mockResolvedValue({ SecretString: JSON.stringify({ webhookSecret: 'whsec_local_test' }) });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.PAYMENT_SECRET_ID;
+    delete process.env.PAYMENT_GATEWAY;
+    delete process.env.CHECKOUT_SUCCESS_URL;
+    delete process.env.CHECKOUT_CANCEL_URL;
+    jest.restoreAllMocks();
+  });
+
+  test('should start a checkout for a booster pack', async () => {
+    const response = await handler(createMockEvent({ packId: 'boost-small' }));
+
+    expect(response.statusCode).toBe(201);
+    const data = JSON.parse(response.body).data;
+    expect(data.sessionId).toMatch(/^cs_local_/);
+    expect(data.url).toContain(data.sessionId);
+    expect(data.pack.packId).toBe('boost-small');
+  });
+
+  test('should reject an unknown pack', async () => {
+    const response = await handler(createMockEvent({ packId: 'boost-huge' }));
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error.code).toBe('INVALID_PACK');
+  });
+
+  test('should only let guardians buy tokens', async () => {
+    const response = await handler(createMockEvent(
+      { packId: 'boost-small' },
+      { lambda: { ...guardianAuthorizer.lambda, role: 'child' } }
+    ));
+
+    expect(response.statusCode).toBe(403);
+    expect(mockSecretsSend).not.toHaveBeenCalled();
+  });
+
+  test('should return 500 when the payment secret cannot be read', async () => {
+    mockSecretsSend.mockRejectedValue(new Error('AccessDenied'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await handler(createMockEvent({ packId: 'boost-small' }));
+
+    expect(response.statusCode).toBe(500);
+  });
+
+  test.each([
+    ['unset', undefined],
+    ['misspelt', 'strpie']
+  ])('should refuse to start a checkout when the payment gateway is %s', async (_label, gateway) => {
+    if (gateway === undefined) {
+      delete process.env.PAYMENT_GATEWAY;
+    } else {
+      process.env.PAYMENT_GATEWAY = gateway;
+    }
+    jest.resetModules();
+    handler = (await import('./billingCheckout')).handler;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await handler(createMockEvent({ packId: 'boost-small' }));
+
+    expect(response.statusCode).toBe(500);
+    expect(mockSecretsSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { IPaymentGateway } from '@kinable/common-types';
+import { createSuccessResponse, createErrorResponse } from './apiResponses';
+import { buildRequestContext } from './chatRequest';
+import { getLogicalId } from '../data/regionalKeys';
+import { findBoosterPack, loadPaymentGateway } from '../payments';
+
+const PAYMENT_GATEWAY_ENV = process.env.PAYMENT_GATEWAY;
+const PAYMENT_SECRET_ID_ENV = process.env.PAYMENT_SECRET_ID;
+const CHECKOUT_SUCCESS_URL_ENV = process.env.CHECKOUT_SUCCESS_URL;
+const CHECKOUT_CANCEL_URL_ENV = process.env.CHECKOUT_CANCEL_URL;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2';
+
+let paymentGateway: IPaymentGateway;
+
+/**
+ * Starts the purchase of a booster pack: POST /v1/billing/checkout with { packId }.
+ * Guardians only. Returns the payment page to send the guardian to; the tokens are credited
+ * by the payment webhook once the payment succeeds.
+ */
+export const handler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  if (!PAYMENT_SECRET_ID_ENV || !CHECKOUT_SUCCESS_URL_ENV || !CHECKOUT_CANCEL_URL_ENV) {
+    console.error('Missing required environment variables: PAYMENT_SECRET_ID, CHECKOUT_SUCCESS_URL or CHECKOUT_CANCEL_URL');
+    return createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR');
+  }
+
+  const requestContext = buildRequestContext(event);
+  const familyId = getLogicalId(requestContext.familyId || '');
+  const profileId = getLogicalId(requestContext.profileId || '');
+  if (!familyId || !profileId) {
+    return createErrorResponse(401, 'Missing family or profile identity', 'UNAUTHORIZED');
+  }
+  if (requestContext.role !== 'guardian') {
+    return createErrorResponse(403, 'Only guardians can buy tokens', 'FORBIDDEN');
+  }
+
+  let body: Record<string, any>;
+  try {
+    body = JSON.parse(event.body || '{}');
+  } catch {
+    return createErrorResponse(400, 'Invalid JSON in request body');
+  }
+  const pack = typeof body?.packId === 'string' ? findBoosterPack(body.packId) : null;
+  if (!pack) {
+    return createErrorResponse(400, 'packId must name an available booster pack', 'INVALID_PACK');
+  }
+
+  try {
+    if (!paymentGateway) {
+      paymentGateway = await loadPaymentGateway(
+        new SecretsManagerClient({ region: SERVICE_REGION_ENV }),
+        PAYMENT_SECRET_ID_ENV,
+        PAYMENT_GATEWAY_ENV
+      );
+    }
+    const session = await paymentGateway.createCheckoutSession({
+      familyId,
+      profileId,
+      userRegion: requestContext.userRegion || requestContext.region,
+      pack,
+      successUrl: CHECKOUT_SUCCESS_URL_ENV,
+      cancelUrl: CHECKOUT_CANCEL_URL_ENV,
+    });
+    console.log(`[BillingCheckout] Guardian ${profileId} started checkout ${session.sessionId} for ${pack.packId}.`);
+    return createSuccessResponse(201, { sessionId: session.sessionId, url: session.url, pack });
+  } catch (error: any) {
+    console.error('Failed to create checkout session:', error);
+    return createErrorResponse(
+      500,
+      'An unexpected error occurred',
+      'INTERNAL_ERROR',
+      { message: error.message }
+    );
+  }
+};
@@ -0,0 +1,612 @@
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { ConversationMessage, ConversationRecord, ModerationStrictness, RequestContext, TokenQuota, TokenQuotaStatus, TokenReservation } from '@kinable/common-types';
+import { AIModelError, AIModelRequest, AIModelSuccess, ChatMessage, ToolCall } from '@kinable/common-types';
+import { AIModelRouter } from '../ai/AIModelRouter';
+import { ToolRegistry, createDefaultToolRegistry } from '../ai/tools';
+import { DynamoDBProvider } from '../data/DynamoDBProvider';
+import { ConfigurationService } from '../ai/ConfigurationService';
+import { TokenLedger, DebitResult, ReservationResult } from '../billing/TokenLedger';
+import { getBillingMultiplier, estimateReservationTokens } from '../billing/billingCalculator';
+import { cappedWindows, getQuotaStatus } from '../billing/profileQuota';
+import { getLogicalId } from '../data/regionalKeys';
+import { ModerationPipeline, createModerationPipeline } from '../moderation';
+import { resolveAgePolicy } from '../ai/agePolicy';
+import { ConversationStore, NewConversationMessage } from '../conversations/ConversationStore';
+import { ConversationSummarizer, CondensedHistory } from '../conversations/ConversationSummarizer';
+import { UsageAlertMonitor, createNotifier } from '../notifications';
+import { createErrorResponse } from './apiResponses';
+
+// Environment variables - use names exactly as defined in sam.yaml
+const PROVIDER_CONFIG_TABLE_ENV = process.env.PROVIDER_CONFIG_TABLE_NAME;
+const ACTIVE_CONFIG_ID_ENV = process.env.ACTIVE_CONFIG_ID;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2'; // Default if not set by Lambda environment
+const STAGE_ENV = process.env.STAGE || 'kinable-dev'; // Added for routerStage, with a default
+const FAMILIES_TABLE_ENV = process.env.FAMILIES_TABLE_NAME;
+const TOKEN_LEDGER_TABLE_ENV = process.env.TOKEN_LEDGER_TABLE_NAME;
+const MODERATION_LOG_TABLE_ENV = process.env.MODERATION_LOG_TABLE_NAME;
+const CONVERSATIONS_TABLE_ENV = process.env.CONVERSATIONS_TABLE_NAME;
+const CONVERSATION_MESSAGES_TABLE_ENV = process.env.CONVERSATION_MESSAGES_TABLE_NAME;
+const NOTIFICATIONS_FILE_ENV = process.env.NOTIFICATIONS_FILE_PATH;
+const MODEL_DEADLINE_MS_ENV = Number(process.env.MODEL_DEADLINE_MS) || undefined; // Time the router has to answer, leaving the rest of the Lambda timeout for bookkeeping
+
+// Stored messages loaded as history; the router trims them further to the model's context window
+const MAX_HISTORY_MESSAGES = 100;
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const MAX_GENERATED_TITLE_LENGTH = 40;
+const SUMMARY_MESSAGE_PREFIX = 'Summary of the earlier conversation:\n';
+
+// Initialize clients and services once per Lambda cold start if possible
+let dbProvider: DynamoDBProvider;
+let configService: ConfigurationService;
+let router: AIModelRouter;
+let toolRegistry: ToolRegistry;
+let ddbDocClient: DynamoDBDocumentClient;
+let tokenLedger: TokenLedger | undefined;
+let usageAlerts: UsageAlertMonitor | undefined;
+let moderation: ModerationPipeline;
+let conversations: ConversationStore | undefined;
+let summarizer: ConversationSummarizer | undefined;
+
+/**
+ * Shared services used by the chat handlers.
+ */
+export interface ChatServices {
+  dbProvider: DynamoDBProvider;
+  configService: ConfigurationService;
+  router: AIModelRouter;
+  toolRegistry: ToolRegistry;
+  tokenLedger?: TokenLedger; // Undefined when the billing tables are not configured
+  usageAlerts?: UsageAlertMonitor; // Available whenever billing is
+  moderation: ModerationPipeline;
+  conversations?: ConversationStore; // Undefined when the conversation tables are not configured
+  summarizer?: ConversationSummarizer; // Available whenever conversations are stored
+}
+
+/**
+ * Lazily initialize the chat services, reusing them across warm invocations.
+ * @returns The services, or null if the required environment variables are missing.
+ */
+export function getChatServices(): ChatServices | null {
+  // Check for required environment variables for AI services
+  if (!PROVIDER_CONFIG_TABLE_ENV || !ACTIVE_CONFIG_ID_ENV) {
+    console.error('Missing required environment variables: PROVIDER_CONFIG_TABLE_NAME or ACTIVE_CONFIG_ID');
+    return null;
+  }
+
+  // Initialize DBProvider if not already done
+  if (!dbProvider) {
+    dbProvider = new DynamoDBProvider(SERVICE_REGION_ENV);
+  }
+
+  // Initialize ConfigurationService if not already done
+  if (!configService) {
+    configService = new ConfigurationService(
+      dbProvider,
+      PROVIDER_CONFIG_TABLE_ENV,
+      SERVICE_REGION_ENV,
+      ACTIVE_CONFIG_ID_ENV
+    );
+  }
+
+  // Initialize the tool registry with the built-in tools if not already done
+  if (!toolRegistry) {
+    toolRegistry = createDefaultToolRegistry();
+  }
+
+  // Initialize AIModelRouter if not already done
+  if (!router) {
+    router = new AIModelRouter(configService, SERVICE_REGION_ENV, STAGE_ENV, {}, toolRegistry);
+  }
+
+  // Document client shared by the billing, moderation and conversation stores
+  if (!ddbDocClient) {
+    ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: SERVICE_REGION_ENV }));
+  }
+
+  // Initialize the token ledger if the billing tables are configured
+  if (!tokenLedger && FAMILIES_TABLE_ENV && TOKEN_LEDGER_TABLE_ENV) {
+    tokenLedger = new TokenLedger(ddbDocClient, FAMILIES_TABLE_ENV, TOKEN_LEDGER_TABLE_ENV);
+  }
+  if (!usageAlerts && tokenLedger) {
+    usageAlerts = new UsageAlertMonitor(ddbDocClient, TOKEN_LEDGER_TABLE_ENV!, createNotifier(NOTIFICATIONS_FILE_ENV));
+  }
+
+  // Initialize the moderation pipeline; without a log table it keeps events in memory
+  if (!moderation) {
+    moderation = createModerationPipeline(ddbDocClient, MODERATION_LOG_TABLE_ENV);
+  }
+
+  // Initialize the conversation store if the conversation tables are configured
+  if (!conversations && CONVERSATIONS_TABLE_ENV && CONVERSATION_MESSAGES_TABLE_ENV) {
+    conversations = new ConversationStore(ddbDocClient, CONVERSATIONS_TABLE_ENV, CONVERSATION_MESSAGES_TABLE_ENV);
+  }
+  if (!summarizer && conversations) {
+    summarizer = new ConversationSummarizer(router, configService, conversations);
+  }
+
+  return { dbProvider, configService, router, toolRegistry, tokenLedger, usageAlerts, moderation, conversations, summarizer };
+}
+
+/**
+ * Build the request context from the API Gateway event and the authorizer context.
+ */
+export function buildRequestContext(event: APIGatewayProxyEvent | APIGatewayProxyEventV2): RequestContext {
+  // HTTP APIs nest the Lambda authorizer's context under `lambda`
+  const authorizer: any = ('authorizer' in event.requestContext && event.requestContext.authorizer) || {};
+  return requestContextFromAuthorizer(
+    authorizer.lambda || authorizer,
+    event.requestContext.requestId || '',
+    event.headers['X-Amzn-Trace-Id']
+  );
+}
+
+/**
+ * Build the request context from the context a Lambda authorizer returned, for requests that are
+ * authorized by the handler itself rather than by API Gateway.
+ */
+export function requestContextFromAuthorizer(authContext: any, requestId: string, traceId?: string): RequestContext {
+  const tokenQuota = quotaFromAuthorizer(authContext);
+
+  return {
+    requestId,
+    jwtSub: authContext.sub || authContext.userId || '',
+    familyId: authContext.familyId || '',
+    profileId: authContext.profileId || '',
+    region: process.env.AWS_REGION || 'us-east-2',
+    userRegion: authContext.region,
+    ageBand: authContext.ageBand,
+    role: authContext.role,
+    ...(tokenQuota ? { tokenQuota } : {}),
+    ...(authContext.planId ? { planId: authContext.planId } : {}),
+    traceId: traceId || requestId
+  };
+}
+
+// The authorizer passes the profile's caps as flat dailyTokenQuota/monthlyTokenQuota values
+function quotaFromAuthorizer(authContext: any): TokenQuota | undefined {
+  const quota: TokenQuota = {};
+  if (authContext.dailyTokenQuota !== undefined) {
+    quota.daily = Number(authContext.dailyTokenQuota);
+  }
+  if (authContext.monthlyTokenQuota !== undefined) {
+    quota.monthly = Number(authContext.monthlyTokenQuota);
+  }
+  return cappedWindows(quota).length > 0 ? quota : undefined;
+}
+
+export type ConversationLookup =
+  | { ok: true; conversation?: ConversationRecord } // No conversation when none was requested or storage is off
+  | { ok: false };
+
+/**
+ * Load the conversation a chat request continues. Only the profile that owns a conversation may add to it.
+ * The web client generates conversation IDs itself, so an ID the family has not used yet starts a new
+ * conversation for the caller, titled after the first prompt.
+ * @returns The conversation, or ok: false if the ID is malformed or belongs to another profile.
+ */
+export async function loadConversation(
+  services: ChatServices,
+  requestContext: RequestContext,
+  conversationId?: string,
+  prompt?: string
+): Promise<ConversationLookup> {
+  if (!conversationId || !services.conversations) {
+    return { ok: true };
+  }
+  if (typeof conversationId !== 'string' || !CONVERSATION_ID_PATTERN.test(conversationId) || !requestContext.familyId) {
+    return { ok: false };
+  }
+
+  const owner = {
+    familyId: getLogicalId(requestContext.familyId),
+    profileId: getLogicalId(requestContext.profileId || ''),
+    userRegion: requestContext.userRegion || requestContext.region,
+  };
+  let conversation = await services.conversations.getConversation(owner.familyId, owner.userRegion, conversationId);
+  if (!conversation) {
+    try {
+      conversation = await services.conversations.createConversation(owner, conversationTitle(prompt), conversationId);
+    } catch (error: any) {
+      if (error?.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      // Another request created it first
+      conversation = await services.conversations.getConversation(owner.familyId, owner.userRegion, conversationId);
+    }
+  }
+
+  if (!conversation || conversation.profileId !== owner.profileId) {
+    return { ok: false };
+  }
+  return { ok: true, conversation };
+}
+
+/**
+ * Append a request's turns to its conversation.
+ * Failures are logged rather than surfaced: the response has already been generated.
+ */
+export async function saveTurns(
+  services: ChatServices,
+  conversation: ConversationRecord | undefined,
+  turns: NewConversationMessage[]
+): Promise<void> {
+  if (!services.conversations || !conversation) {
+    return;
+  }
+  try {
+    await services.conversations.appendMessages(conversation, turns);
+  } catch (error) {
+    console.error('Failed to save turns to conversation', conversation.conversationId, error);
+  }
+}
+
+/**
+ * Validate the history a client sent with a request that has no stored conversation.
+ * Client-supplied system turns are dropped so a client cannot rewrite the model's instructions.
+ * @throws Error if the history is not an array of user and assistant messages.
+ */
+export function sanitizeHistory(history: unknown): ChatMessage[] {
+  if (history === undefined || history === null) {
+    return [];
+  }
+  const invalid = new Error('history must be an array of { role: "user" | "assistant", content: string } messages');
+  if (!Array.isArray(history)) {
+    throw invalid;
+  }
+
+  const messages: ChatMessage[] = [];
+  for (const message of history) {
+    if (!message || typeof message.content !== 'string') {
+      throw invalid;
+    }
+    if (message.role === 'system') {
+      continue;
+    }
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      throw invalid;
+    }
+    messages.push({ role: message.role, content: message.content });
+  }
+  return messages;
+}
+
+/**
+ * Load the stored turns a conversation's history is rebuilt from.
+ * A blocked prompt is left out together with the reply that replaced the answer, as are the
+ * turns already covered by the conversation's summary.
+ */
+export async function loadConversationTurns(
+  services: ChatServices,
+  conversation: ConversationRecord
+): Promise<ConversationMessage[]> {
+  if (!services.conversations || conversation.messageCount === 0) {
+    return [];
+  }
+
+  const stored = (await services.conversations.listRecentMessages(conversation, MAX_HISTORY_MESSAGES))
+    .filter(message => !conversation.summarizedThrough || message.messageId > conversation.summarizedThrough);
+  const turns: ConversationMessage[] = [];
+  for (let i = 0; i < stored.length; i++) {
+    if (stored[i].role === 'user' && stored[i].moderated) {
+      if (stored[i + 1]?.role === 'assistant') i++;
+      continue;
+    }
+    turns.push(stored[i]);
+  }
+  return turns;
+}
+
+/**
+ * The history sent for a conversation: its summary, as a leading system message, then the turns after it.
+ */
+export function toConversationHistory(summary: string | undefined, turns: ConversationMessage[]): ChatMessage[] {
+  return [
+    ...(summary ? [{ role: 'system' as const, content: `${SUMMARY_MESSAGE_PREFIX}${summary}` }] : []),
+    ...turns.map(turn => ({ role: turn.role, content: turn.content })),
+  ];
+}
+
+/**
+ * Summarize a conversation whose history has grown too long, and return the history to send.
+ * Call this once the request itself is reserved: the summarization call is billed, under a
+ * reservation of its own, and is skipped (leaving the router to trim the turns) when that
+ * reservation is refused.
+ * @param turns The conversation's stored turns, from `loadConversationTurns`.
+ * @param preferredModel The model the request asked for, whose context window the history should fit.
+ */
+export async function condenseConversationHistory(
+  services: ChatServices,
+  conversation: ConversationRecord,
+  turns: ConversationMessage[],
+  requestContext: RequestContext,
+  preferredModel?: string
+): Promise<ChatMessage[]> {
+  let condensed: CondensedHistory = { summary: conversation.summary, turns };
+  if (services.summarizer && turns.length > 0) {
+    const summaryContext = { ...requestContext, requestId: `${requestContext.requestId}-summary` };
+    let reservation: TokenReservation | undefined;
+    const reserve = async (summaryRequest: AIModelRequest): Promise<boolean> => {
+      const budget = await reserveBudget(services, summaryContext, summaryRequest);
+      if (budget?.ok) {
+        reservation = budget.reservation;
+      }
+      return !budget || budget.ok;
+    };
+
+    try {
+      condensed = await services.summarizer.condense(conversation, turns, requestContext, preferredModel, reserve);
+    } catch (error) {
+      // The router still trims the history to fit
+      console.error('Failed to summarize conversation', conversation.conversationId, error);
+    }
+    if (condensed.summaryResult) {
+      await recordUsage(services, summaryContext, condensed.summaryResult, reservation);
+    } else {
+      await releaseBudget(services, reservation);
+    }
+  }
+
+  return toConversationHistory(condensed.summary, condensed.turns);
+}
+
+/**
+ * Look up how strictly to moderate the caller, from the age policy for their age band.
+ * Falls back to the pipeline's default when the configuration cannot be loaded.
+ */
+export async function getModerationStrictness(
+  services: ChatServices,
+  requestContext: RequestContext
+): Promise<ModerationStrictness | undefined> {
+  try {
+    const config = await services.configService.getConfiguration();
+    return resolveAgePolicy(config, requestContext.ageBand)?.moderationStrictness;
+  } catch (error) {
+    console.error('Failed to load the age policy for moderation', error);
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the tool names in a chat request body to their definitions.
+ * Tools are opt-in: a request without `tools` gets none.
+ * @throws Error if `tools` is not an array of registered tool names.
+ */
+export function resolveRequestedTools(requestBody: any, registry: ToolRegistry): ToolCall[] {
+  if (requestBody.tools === undefined) {
+    return [];
+  }
+  if (!Array.isArray(requestBody.tools) || requestBody.tools.some((name: unknown) => typeof name !== 'string')) {
+    throw new Error('tools must be an array of tool names');
+  }
+  return registry.getDefinitions(requestBody.tools);
+}
+
+/**
+ * Build the model request from a parsed chat request body.
+ * @param requestBody The parsed JSON body of the chat request.
+ * @param requestContext The request context for tracing and identity.
+ * @param streaming Whether the caller will consume the response as a stream.
+ * @param tools Tool definitions to offer the model.
+ * @param history Earlier turns of the conversation, already validated or loaded from storage.
+ */
+export function buildModelRequest(
+  requestBody: any,
+  requestContext: RequestContext,
+  streaming: boolean,
+  tools: ToolCall[] = [],
+  history: ChatMessage[] = []
+): AIModelRequest {
+  return {
+    prompt: requestBody.prompt,
+    conversationId: requestBody.conversationId,
+    preferredProvider: requestBody.provider,
+    preferredModel: requestBody.model,
+    maxTokens: requestBody.maxTokens || 500,
+    temperature: requestBody.temperature || 0.7,
+    streaming,
+    requiredCapabilities: requestBody.capabilities || [],
+    tools: tools.length > 0 ? tools : undefined,
+    allowFallbackTools: requestBody.allowFallbackTools === true,
+    deadlineMs: MODEL_DEADLINE_MS_ENV,
+    context: {
+      ...requestContext,
+      history
+    }
+  };
+}
+
+export type BudgetResult =
+  | ReservationResult
+  | { ok: false; code: 'BILLING_UNAVAILABLE' }; // The reservation could not be written
+
+/**
+ * Reserve the estimated cost of a request against the family's balance before it is routed,
+ * so concurrent requests cannot spend the same tokens.
+ * @returns The reservation result, or null if billing is not configured. A request whose
+ *          reservation could not be written is refused rather than served unreserved.
+ */
+export async function reserveBudget(
+  services: ChatServices,
+  requestContext: RequestContext,
+  modelRequest: AIModelRequest
+): Promise<BudgetResult | null> {
+  if (!services.tokenLedger || !requestContext.familyId) {
+    return null;
+  }
+
+  try {
+    const config = await services.configService.getConfiguration();
+    return await services.tokenLedger.reserve({
+      familyId: getLogicalId(requestContext.familyId),
+      profileId: getLogicalId(requestContext.profileId || ''),
+      userRegion: requestContext.userRegion || requestContext.region,
+      requestId: requestContext.requestId,
+      tokens: estimateReservationTokens(config, modelRequest),
+      quota: requestContext.tokenQuota,
+    });
+  } catch (error) {
+    console.error('Failed to reserve tokens for request', requestContext.requestId, error);
+    return { ok: false, code: 'BILLING_UNAVAILABLE' };
+  }
+}
+
+/**
+ * The error returned when a request cannot reserve its estimated cost.
+ */
+export function reservationErrorResponse(budget: Extract<BudgetResult, { ok: false }>): APIGatewayProxyResult {
+  if (budget.code === 'BILLING_UNAVAILABLE') {
+    return createErrorResponse(503, 'Token balance is temporarily unavailable. Please try again.', budget.code);
+  }
+  if (budget.code === 'QUOTA_EXCEEDED') {
+    return createErrorResponse(
+      429,
+      `The ${budget.window} token quota for this profile does not cover this request`,
+      budget.code,
+      { window: budget.window, requiredTokens: budget.requiredTokens, availableTokens: budget.availableTokens }
+    );
+  }
+  return createErrorResponse(
+    402,
+    'Insufficient token balance for this request',
+    budget.code,
+    { requiredTokens: budget.requiredTokens, availableTokens: budget.availableTokens }
+  );
+}
+
+/**
+ * Return a reservation's tokens to the family after a failed request.
+ */
+export async function releaseBudget(services: ChatServices, reservation?: TokenReservation): Promise<void> {
+  if (!services.tokenLedger || !reservation) {
+    return;
+  }
+  try {
+    await services.tokenLedger.release(reservation);
+  } catch (error) {
+    // The reservation's TTL will return the tokens
+    console.error('Failed to release reservation', reservation.entryId, error);
+  }
+}
+
+/**
+ * Settle the reservation of a request the model failed to answer. Tokens it used before failing
+ * (e.g. for earlier tool rounds) are billed; otherwise the reservation is released.
+ */
+export async function settleFailedRequest(
+  services: ChatServices,
+  requestContext: RequestContext,
+  result: AIModelError,
+  reservation?: TokenReservation
+): Promise<void> {
+  if (!result.spent) {
+    await releaseBudget(services, reservation);
+    return;
+  }
+  await recordUsage(services, requestContext, { ok: true, text: '', tokens: result.spent.tokens, meta: result.spent.meta }, reservation);
+}
+
+/**
+ * Debit the family's token balance for a successful response, settling its reservation, then alert
+ * guardians if the balance or the profile's quota crossed a usage threshold.
+ * Billing failures are logged rather than surfaced: the response has already been generated.
+ * @returns The debit result, or null if billing is not configured or the debit failed.
+ */
+export async function recordUsage(
+  services: ChatServices,
+  requestContext: RequestContext,
+  result: AIModelSuccess,
+  reservation?: TokenReservation
+): Promise<DebitResult | null> {
+  if (!services.tokenLedger) {
+    console.warn('Billing tables are not configured; skipping token debit');
+    return null;
+  }
+  if (!requestContext.familyId) {
+    console.warn('No familyId in request context; skipping token debit');
+    return null;
+  }
+
+  let debit: DebitResult;
+  try {
+    const config = await services.configService.getConfiguration();
+    const multiplier = getBillingMultiplier(config, result.meta.provider, result.meta.model);
+    debit = await services.tokenLedger.debit({
+      familyId: getLogicalId(requestContext.familyId),
+      profileId: getLogicalId(requestContext.profileId || ''),
+      userRegion: requestContext.userRegion || requestContext.region,
+      requestId: requestContext.requestId,
+      provider: result.meta.provider,
+      model: result.meta.model,
+      usage: result.tokens,
+      multiplier,
+      quota: requestContext.tokenQuota,
+    }, reservation);
+  } catch (error) {
+    console.error('Failed to debit tokens for request', requestContext.requestId, error);
+    return null;
+  }
+
+  await checkUsageAlerts(services, requestContext, debit);
+  return debit;
+}
+
+// Alerts are best effort: a failed check is logged and the request carries on
+async function checkUsageAlerts(services: ChatServices, requestContext: RequestContext, debit: DebitResult): Promise<void> {
+  if (!services.tokenLedger || !services.usageAlerts || !requestContext.familyId) {
+    return;
+  }
+  const familyId = getLogicalId(requestContext.familyId);
+  const profileId = getLogicalId(requestContext.profileId || '');
+  const userRegion = requestContext.userRegion || requestContext.region;
+
+  try {
+    const balance = await services.tokenLedger.getBalance(familyId, userRegion);
+    if (balance !== null) {
+      await services.usageAlerts.checkFamilyBalance(familyId, userRegion, balance, debit.debitedTokens);
+    }
+    if (requestContext.tokenQuota && profileId) {
+      const usage = await services.tokenLedger.getProfileUsage(familyId, profileId, userRegion, requestContext.tokenQuota);
+      await services.usageAlerts.checkProfileQuota(familyId, profileId, userRegion, requestContext.tokenQuota, usage);
+    }
+  } catch (error) {
+    console.error('Failed to check usage alerts for request', requestContext.requestId, error);
+  }
+}
+
+/**
+ * Remaining quota of the calling profile, read after its usage has been recorded.
+ * @returns The status, or undefined if the profile has no quota or it could not be read.
+ */
+export async function getRemainingQuota(services: ChatServices, requestContext: RequestContext): Promise<TokenQuotaStatus | undefined> {
+  if (!services.tokenLedger || !requestContext.familyId || !requestContext.tokenQuota) {
+    return undefined;
+  }
+  try {
+    const usage = await services.tokenLedger.getProfileUsage(
+      getLogicalId(requestContext.familyId),
+      getLogicalId(requestContext.profileId || ''),
+      requestContext.userRegion || requestContext.region,
+      requestContext.tokenQuota
+    );
+    return getQuotaStatus(requestContext.tokenQuota, usage);
+  } catch (error) {
+    console.error('Failed to read the remaining quota for request', requestContext.requestId, error);
+    return undefined;
+  }
+}
+
+// Title a new conversation after its first prompt, cut at a word boundary
+function conversationTitle(prompt?: string): string | undefined {
+  const text = prompt?.trim().replace(/\s+/g, ' ');
+  if (!text) {
+    return undefined;
+  }
+  if (text.length <= MAX_GENERATED_TITLE_LENGTH) {
+    return text;
+  }
+  const cut = text.slice(0, MAX_GENERATED_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}...`;
+}
@@ -1,21 +1,7 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { IApiResponse, RequestContext } from '../../../../packages/common-types/src/core-interfaces';
-import { AIModelRequest } from '../../../../packages/common-types/src/ai-interfaces';
-import { AIModelRouter } from '../ai/AIModelRouter';
-import { DynamoDBProvider } from '../data/DynamoDBProvider';
-import { ConfigurationService } from '../ai/ConfigurationService';
-
-// Environment variables - use names exactly as defined in sam.yaml
-const PROVIDER_CONFIG_TABLE_ENV = process.env.PROVIDER_CONFIG_TABLE_NAME;
-const ACTIVE_CONFIG_ID_ENV = process.env.ACTIVE_CONFIG_ID;
-// const OPENAI_API_KEY_SECRET_ENV = process.env.OPENAI_API_KEY_SECRET_ID; // This seems unused if providers have their own secretId - REMOVING
-const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2'; // Default if not set by Lambda environment
-const STAGE_ENV = process.env.STAGE || 'kinable-dev'; // Added for routerStage, with a default
-
-// Initialize clients and services once per Lambda cold start if possible
-let dbProvider: DynamoDBProvider;
-let configService: ConfigurationService;
-let router: AIModelRouter;
+import { ChatMessage, ConversationMessage } from '@kinable/common-types';
+import { createSuccessResponse, createErrorResponse } from './apiResponses';
+import { getChatServices, buildRequestContext, buildModelRequest, resolveRequestedTools, getModerationStrictness, reserveBudget, reservationErrorResponse, releaseBudget, settleFailedRequest, getRemainingQuota, recordUsage, loadConversation, saveTurns, sanitizeHistory, loadConversationTurns, toConversationHistory, condenseConversationHistory } from './chatRequest';
 
 /**
  * Main handler for the chat endpoint
@@ -49,79 +35,120 @@ export const handler = async (
     }
 
     // --- Dependency Initialization --- 
-    // Check for required environment variables for AI services
-    if (!PROVIDER_CONFIG_TABLE_ENV || !ACTIVE_CONFIG_ID_ENV) {
-      console.error('Missing required environment variables: PROVIDER_CONFIG_TABLE_NAME or ACTIVE_CONFIG_ID');
+    const services = getChatServices();
+    if (!services) {
       // Return an internal server error
       return {
         statusCode: 500,
         body: JSON.stringify({ error: 'Internal server configuration error.' })
       };
     }
+    const { router } = services;
+    // --- End Dependency Initialization ---
+    
+    // Create model request from the authorizer context and request body.
+    // This endpoint returns a single JSON document, so streaming is always off here;
+    // streamed responses are served by the chatStream handler.
+    const requestContext = buildRequestContext(event);
 
-    // Initialize DBProvider if not already done
-    if (!dbProvider) {
-      dbProvider = new DynamoDBProvider(SERVICE_REGION_ENV);
+    // The turns are appended to the conversation the client is continuing or starting, if any
+    const conversationLookup = await loadConversation(services, requestContext, requestBody.conversationId, requestBody.prompt);
+    if (!conversationLookup.ok) {
+      return createErrorResponse(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
+    const { conversation } = conversationLookup;
 
-    // Initialize ConfigurationService if not already done
-    if (!configService) {
-      configService = new ConfigurationService(
-        dbProvider, 
-        PROVIDER_CONFIG_TABLE_ENV, 
-        SERVICE_REGION_ENV,
-        ACTIVE_CONFIG_ID_ENV
-      );
+    // Screen the prompt before it reaches a model; blocked prompts get a child-safe reply instead
+    const strictness = await getModerationStrictness(services, requestContext);
+    const promptCheck = await services.moderation.screen(requestBody.prompt, 'prompt', requestContext, strictness);
+    if (!promptCheck.allowed) {
+      await saveTurns(services, conversation, [
+        { role: 'user', content: requestBody.prompt, moderated: true },
+        { role: 'assistant', content: promptCheck.replacementText || '', moderated: true }
+      ]);
+      return createSuccessResponse(200, {
+        text: promptCheck.replacementText,
+        tokenUsage: { prompt: 0, completion: 0, total: 0 },
+        moderated: true
+      });
     }
-    
-    // Initialize AIModelRouter if not already done
-    if (!router) {
-      router = new AIModelRouter(configService, SERVICE_REGION_ENV, STAGE_ENV);
+
+    let tools;
+    try {
+      tools = resolveRequestedTools(requestBody, services.toolRegistry);
+    } catch (toolError: any) {
+      return createErrorResponse(400, toolError.message);
     }
-    // --- End Dependency Initialization ---
-    
-    // Extract context from authorizer
-    const authContext = event.requestContext.authorizer || {};
-    
-    // Create request context
-    const requestContext: RequestContext = {
-      requestId: event.requestContext.requestId || '',
-      jwtSub: authContext.sub || '',
-      familyId: authContext.familyId || '',
-      profileId: authContext.profileId || '',
-      region: process.env.AWS_REGION || 'us-east-2',
-      traceId: event.headers['X-Amzn-Trace-Id'] || event.requestContext.requestId || ''
-    };
-    
-    // Create model request
-    const modelRequest: AIModelRequest = {
-      prompt: requestBody.prompt,
-      conversationId: requestBody.conversationId,
-      preferredProvider: requestBody.provider,
-      preferredModel: requestBody.model,
-      maxTokens: requestBody.maxTokens || 500,
-      temperature: requestBody.temperature || 0.7,
-      streaming: requestBody.streaming || false,
-      requiredCapabilities: requestBody.capabilities || [],
-      context: {
-        ...requestContext,
-        history: requestBody.history || []
+
+    // Stored turns replace whatever history the client sent, so a client cannot inject turns.
+    // The client's (validated) history is only used for requests that are not part of a conversation.
+    let history: ChatMessage[];
+    let storedTurns: ConversationMessage[] = [];
+    if (conversation) {
+      storedTurns = await loadConversationTurns(services, conversation);
+      history = toConversationHistory(conversation.summary, storedTurns);
+    } else {
+      try {
+        history = sanitizeHistory(requestBody.history);
+      } catch (historyError: any) {
+        return createErrorResponse(400, historyError.message);
       }
-    };
+    }
+    let modelRequest = buildModelRequest(requestBody, requestContext, false, tools, history);
     
     console.log('[DEBUG] Backend - Constructed AIModelRequest:', JSON.stringify(modelRequest, null, 2)); // DEBUG LOG
+
+    // Hold the estimated cost so concurrent requests cannot overspend the balance
+    const budget = await reserveBudget(services, requestContext, modelRequest);
+    if (budget && !budget.ok) {
+      return reservationErrorResponse(budget);
+    }
+    const reservation = budget?.ok ? budget.reservation : undefined;
+
+    // Summarizing a long conversation is billed too, so it waits until the request itself is covered
+    if (conversation) {
+      history = await condenseConversationHistory(services, conversation, storedTurns, requestContext, requestBody.model);
+      modelRequest = buildModelRequest(requestBody, requestContext, false, tools, history);
+    }
+
     // Route the request
-    const result = await router.routeRequest(modelRequest);
+    let result;
+    try {
+      result = await router.routeRequest(modelRequest);
+    } catch (routeError) {
+      await releaseBudget(services, reservation);
+      throw routeError;
+    }
     
     if (result.ok) {
+      await recordUsage(services, requestContext, result, reservation);
+      const quota = await getRemainingQuota(services, requestContext);
+
+      // The tokens were used either way, but a blocked response is replaced before it is returned
+      const responseCheck = await services.moderation.screen(result.text, 'response', requestContext, strictness);
+      await saveTurns(services, conversation, [
+        { role: 'user', content: requestBody.prompt },
+        {
+          role: 'assistant',
+          content: (responseCheck.allowed ? result.text : responseCheck.replacementText) || '',
+          model: result.meta.model,
+          moderated: !responseCheck.allowed
+        }
+      ]);
+
       // Success response
       return createSuccessResponse(200, {
-        text: result.text,
+        text: responseCheck.allowed ? result.text : responseCheck.replacementText,
         tokenUsage: result.tokens,
         model: result.meta.model,
-        provider: result.meta.provider
+        provider: result.meta.provider,
+        toolResult: responseCheck.allowed ? result.toolResult : undefined,
+        ...(quota ? { quota } : {}),
+        ...(responseCheck.allowed ? {} : { moderated: true })
       });
     } else {
+      await settleFailedRequest(services, requestContext, result, reservation);
+
       // Error response
       const statusCode = result.status || 500;
       return createErrorResponse(
@@ -140,57 +167,3 @@ export const handler = async (
     );
   }
 };
-
-/**
- * Create a success response
- */
-function createSuccessResponse<T>(
-  statusCode: number,
-  data: T
-): APIGatewayProxyResult {
-  const response: IApiResponse<T> = {
-    success: true,
-    statusCode,
-    data
-  };
-  
-  return {
-    statusCode,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*', // For CORS
-      'Access-Control-Allow-Credentials': 'true'
-    },
-    body: JSON.stringify(response)
-  };
-}
-
-/**
- * Create an error response
- */
-function createErrorResponse(
-  statusCode: number,
-  message: string,
-  code: string = 'BAD_REQUEST',
-  details?: any
-): APIGatewayProxyResult {
-  const response: IApiResponse = {
-    success: false,
-    statusCode,
-    message,
-    error: {
-      code,
-      details
-    }
-  };
-  
-  return {
-    statusCode,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*', // For CORS
-      'Access-Control-Allow-Credentials': 'true'
-    },
-    body: JSON.stringify(response)
-  };
-} 
\ No newline at end of file
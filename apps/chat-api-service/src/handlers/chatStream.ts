@@ -0,0 +1,233 @@
+import { Writable } from 'stream';
+import { APIGatewayProxyResult, LambdaFunctionURLEvent } from 'aws-lambda';
+import { AIModelRequest, AIModelSuccess, ChatMessage, ConversationMessage } from '@kinable/common-types';
+import { createErrorResponse, formatSseFrame, openEventStream, writeStreamedResponse } from './apiResponses';
+import { StreamingResponseScreener, ScreenedText } from '../moderation';
+import { estimateInputTokens, estimateTextTokens } from '../ai/tokenEstimator';
+import { authorizeDirectRequest } from '../authorizers/jwtAuthorizer';
+import { getChatServices, requestContextFromAuthorizer, buildModelRequest, resolveRequestedTools, getModerationStrictness, reserveBudget, reservationErrorResponse, releaseBudget, settleFailedRequest, getRemainingQuota, recordUsage, loadConversation, saveTurns, sanitizeHistory, loadConversationTurns, toConversationHistory, condenseConversationHistory } from './chatRequest';
+
+// How the HTTP API would name this route; the authorizer's rules are keyed by it
+const ROUTE_KEY = 'POST /v1/chat/stream';
+
+/**
+ * Streaming variant of the chat endpoint, served through a Lambda function URL with response
+ * streaming so each frame reaches the client as soon as it is written.
+ *
+ * Responds with Server-Sent Events: a `token` frame per sentence once it passes moderation,
+ * a `replace` frame if the response is blocked, then a final `done` frame carrying token
+ * usage, or an `error` frame if the provider fails mid-stream. Authorization, validation and
+ * routing errors that occur before any text is generated are returned as regular JSON error responses.
+ *
+ * Function URLs have no authorizer, so the handler runs the JWT authorizer's checks itself.
+ */
+export const handler = awslambda.streamifyResponse(async (
+  event: LambdaFunctionURLEvent,
+  responseStream: Writable
+): Promise<void> => {
+  console.log('ChatStream handler invoked');
+  const respond = (response: APIGatewayProxyResult) => writeStreamedResponse(responseStream, response);
+  let eventStream: Writable | undefined;
+
+  try {
+    const authorization = await authorizeDirectRequest(event.headers?.authorization, ROUTE_KEY);
+    if (!authorization.allowed) {
+      return respond(event.headers?.authorization
+        ? createErrorResponse(403, authorization.message || 'Forbidden', 'FORBIDDEN')
+        : createErrorResponse(401, 'Unauthorized', 'UNAUTHORIZED'));
+    }
+
+    if (!event.body) {
+      return respond(createErrorResponse(400, 'Request body is required'));
+    }
+
+    let requestBody;
+    try {
+      requestBody = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body);
+    } catch (error) {
+      return respond(createErrorResponse(400, 'Invalid JSON in request body'));
+    }
+
+    if (!requestBody.prompt) {
+      return respond(createErrorResponse(400, 'Prompt is required'));
+    }
+
+    const services = getChatServices();
+    if (!services) {
+      return respond(createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR'));
+    }
+
+    const requestContext = requestContextFromAuthorizer(
+      authorization.context,
+      event.requestContext.requestId,
+      event.headers?.['x-amzn-trace-id']
+    );
+
+    // The turns are appended to the conversation the client is continuing or starting, if any
+    const conversationLookup = await loadConversation(services, requestContext, requestBody.conversationId, requestBody.prompt);
+    if (!conversationLookup.ok) {
+      return respond(createErrorResponse(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND'));
+    }
+    const { conversation } = conversationLookup;
+
+    // Screen the prompt before it reaches a model; blocked prompts get a child-safe reply instead
+    const strictness = await getModerationStrictness(services, requestContext);
+    const promptCheck = await services.moderation.screen(requestBody.prompt, 'prompt', requestContext, strictness);
+    if (!promptCheck.allowed) {
+      await saveTurns(services, conversation, [
+        { role: 'user', content: requestBody.prompt, moderated: true },
+        { role: 'assistant', content: promptCheck.replacementText || '', moderated: true }
+      ]);
+      eventStream = openEventStream(responseStream);
+      eventStream.write(formatSseFrame('token', { text: promptCheck.replacementText }));
+      eventStream.write(formatSseFrame('done', { tokenUsage: { prompt: 0, completion: 0, total: 0 }, moderated: true }));
+      eventStream.end();
+      return;
+    }
+
+    let tools;
+    try {
+      tools = resolveRequestedTools(requestBody, services.toolRegistry);
+    } catch (toolError: any) {
+      return respond(createErrorResponse(400, toolError.message));
+    }
+    // Stored turns replace whatever history the client sent, so a client cannot inject turns.
+    // The client's (validated) history is only used for requests that are not part of a conversation.
+    let history: ChatMessage[];
+    let storedTurns: ConversationMessage[] = [];
+    if (conversation) {
+      storedTurns = await loadConversationTurns(services, conversation);
+      history = toConversationHistory(conversation.summary, storedTurns);
+    } else {
+      try {
+        history = sanitizeHistory(requestBody.history);
+      } catch (historyError: any) {
+        return respond(createErrorResponse(400, historyError.message));
+      }
+    }
+    let modelRequest = buildModelRequest(requestBody, requestContext, true, tools, history);
+
+    const budget = await reserveBudget(services, requestContext, modelRequest);
+    if (budget && !budget.ok) {
+      return respond(reservationErrorResponse(budget));
+    }
+    const reservation = budget?.ok ? budget.reservation : undefined;
+
+    // Summarizing a long conversation is billed too, so it waits until the request itself is covered
+    if (conversation) {
+      history = await condenseConversationHistory(services, conversation, storedTurns, requestContext, requestBody.model);
+      modelRequest = buildModelRequest(requestBody, requestContext, true, tools, history);
+    }
+
+    let result;
+    try {
+      result = await services.router.routeRequest(modelRequest);
+    } catch (routeError) {
+      await releaseBudget(services, reservation);
+      throw routeError;
+    }
+    if (!result.ok) {
+      await settleFailedRequest(services, requestContext, result, reservation);
+      return respond(createErrorResponse(
+        result.status || 500,
+        result.detail || 'Error generating response',
+        result.code
+      ));
+    }
+
+    // Each sentence is screened before its frame is written; a blocked response ends with a `replace` frame
+    // telling the client to show the replacement instead of what it was sent so far
+    const frames = openEventStream(responseStream);
+    eventStream = frames;
+    const screener = new StreamingResponseScreener(services.moderation, requestContext, strictness);
+    let moderated = false;
+    const sendScreened = (screened: ScreenedText) => {
+      if (!screened.allowed) {
+        moderated = true;
+        frames.write(formatSseFrame('replace', { text: screened.replacementText }));
+      } else if (screened.text) {
+        frames.write(formatSseFrame('token', { text: screened.text }));
+      }
+    };
+
+    let streamFailed = false;
+    let streamedText = '';
+    if (result.stream) {
+      try {
+        // A blocked stream is still read to the end, as its token counts are only final then
+        for await (const chunk of result.stream) {
+          streamedText += chunk;
+          if (!moderated) {
+            sendScreened(await screener.push(chunk));
+          }
+        }
+      } catch (streamError: any) {
+        console.error('Stream failed mid-response:', streamError);
+        streamFailed = true;
+      }
+    } else {
+      // The selected model does not support streaming; screen and send the whole text
+      sendScreened(await screener.push(result.text));
+    }
+    if (!moderated) {
+      sendScreened(await screener.flush());
+    }
+
+    if (streamFailed) {
+      // The provider bills for what it generated before failing, so the reservation is settled rather than released
+      await recordUsage(services, requestContext, usageSoFar(result, modelRequest, streamedText), reservation);
+      frames.write(formatSseFrame('error', {
+        code: 'STREAM_ERROR',
+        message: 'The response was interrupted. Please try again.'
+      }));
+      frames.end();
+      return;
+    }
+
+    // Token counts are final once the stream has been consumed
+    await recordUsage(services, requestContext, result, reservation);
+    const quota = await getRemainingQuota(services, requestContext);
+
+    // The stored reply is what the client was shown: the screened text, or the replacement for a blocked one
+    await saveTurns(services, conversation, [
+      { role: 'user', content: requestBody.prompt },
+      { role: 'assistant', content: screener.text, model: result.meta.model, moderated }
+    ]);
+
+    frames.write(formatSseFrame('done', {
+      tokenUsage: result.tokens,
+      model: result.meta.model,
+      provider: result.meta.provider,
+      ...(quota ? { quota } : {}),
+      ...(moderated ? { moderated: true } : {})
+    }));
+    frames.end();
+  } catch (error: any) {
+    console.error('Unexpected error:', error);
+    // Once frames have been sent the status can no longer change, so the failure is reported as a frame
+    if (eventStream) {
+      eventStream.write(formatSseFrame('error', { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' }));
+      eventStream.end();
+      return;
+    }
+    respond(createErrorResponse(
+      500,
+      'An unexpected error occurred',
+      'INTERNAL_ERROR',
+      { message: error.message }
+    ));
+  }
+});
+
+/**
+ * The result of a stream that failed part way, with the tokens used so far. Providers report usage
+ * at the end of a stream, so when none arrived it is estimated from the request and the text streamed.
+ */
+function usageSoFar(result: AIModelSuccess, modelRequest: AIModelRequest, streamedText: string): AIModelSuccess {
+  if (result.tokens.total > 0) {
+    return result;
+  }
+  const prompt = estimateInputTokens(modelRequest, result.meta.model);
+  const completion = estimateTextTokens(streamedText, result.meta.model);
+  return { ...result, tokens: { prompt, completion, total: prompt + completion } };
+}
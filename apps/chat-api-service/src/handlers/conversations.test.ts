@@ -0,0 +1,185 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResult } from 'aws-lambda';
+
+const mockCreateConversation = jest.fn();
+const mockGetConversation = jest.fn();
+const mockListConversations = jest.fn();
+const mockListMessages = jest.fn();
+const mockDeleteConversation = jest.fn();
+jest.mock('../conversations/ConversationStore', () => ({
+  ConversationStore: jest.fn().mockImplementation(() => ({
+    createConversation: mockCreateConversation,
+    getConversation: mockGetConversation,
+    listConversations: mockListConversations,
+    listMessages: mockListMessages,
+    deleteConversation: mockDeleteConversation
+  }))
+}));
+
+const childAuthorizer = { lambda: { familyId: 'FAMILY#us-east-2#fam-1', profileId: 'PROFILE#us-east-2#child-1', role: 'child', region: 'us-east-2' } };
+const guardianAuthorizer = { lambda: { familyId: 'FAMILY#us-east-2#fam-1', profileId: 'PROFILE#us-east-2#guardian-1', role: 'guardian', region: 'us-east-2' } };
+
+const createMockEvent = (
+  httpMethod: string,
+  options: {
+    authorizer?: Record<string, any> | null;
+    pathParameters?: Record<string, string>;
+    queryStringParameters?: Record<string, string>;
+    body?: Record<string, any>;
+  } = {}
+): APIGatewayProxyEventV2 => ({
+  body: options.body ? JSON.stringify(options.body) : null,
+  requestContext: {
+    requestId: 'test-request-id',
+    http: { method: httpMethod },
+    authorizer: options.authorizer === undefined ? childAuthorizer : options.authorizer
+  },
+  headers: {},
+  pathParameters: options.pathParameters || null,
+  queryStringParameters: options.queryStringParameters || null
+} as unknown as APIGatewayProxyEventV2);
+
+const childConversation = {
+  familyId: 'FAMILY#us-east-2#fam-1',
+  conversationId: 'conv-1',
+  profileId: 'child-1',
+  title: 'Homework',
+  messageCount: 2,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:05:00.000Z'
+};
+
+describe('Conversations Handler', () => {
+  let handler: (event: APIGatewayProxyEventV2) => Promise<APIGatewayProxyResult>;
+
+  beforeEach(async () => {
+    process.env.AWS_REGION = 'us-east-2';
+    process.env.CONVERSATIONS_TABLE_NAME = 'test-conversations-table';
+    process.env.CONVERSATION_MESSAGES_TABLE_NAME = 'test-conversation-messages-table';
+    jest.resetModules();
+    handler = (await import('./conversations')).handler;
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.CONVERSATIONS_TABLE_NAME;
+    delete process.env.CONVERSATION_MESSAGES_TABLE_NAME;
+  });
+
+  test('should create a conversation for the caller\'s profile', async () => {
+    mockCreateConversation.mockResolvedValue(childConversation);
+
+    const response = await handler(createMockEvent('POST', { body: { title: ' Homework ' } }));
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).data).toEqual({ conversation: childConversation });
+    expect(mockCreateConversation).toHaveBeenCalledWith({ familyId: 'fam-1', profileId: 'child-1', userRegion: 'us-east-2' }, 'Homework');
+  });
+
+  test('should reject a title that is not a string', async () => {
+    const response = await handler(createMockEvent('POST', { body: { title: 42 } }));
+
+    expect(response.statusCode).toBe(400);
+    expect(mockCreateConversation).not.toHaveBeenCalled();
+  });
+
+  test('should return a conversation with a page of its messages', async () => {
+    const messages = [{ conversationId: 'conv-1', messageId: 'm1', role: 'user', content: 'Hi' }];
+    mockGetConversation.mockResolvedValue(childConversation);
+    mockListMessages.mockResolvedValue({ items: messages, nextCursor: 'next' });
+
+    const response = await handler(createMockEvent('GET', { queryStringParameters: { conversationId: 'conv-1', limit: '10', cursor: 'abc' } }));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({ conversation: childConversation, messages, nextCursor: 'next' });
+    expect(mockListMessages).toHaveBeenCalledWith(childConversation, { limit: 10, cursor: 'abc' });
+  });
+
+  test('should hide another profile\'s conversation from a child', async () => {
+    mockGetConversation.mockResolvedValue({ ...childConversation, profileId: 'child-2' });
+
+    const response = await handler(createMockEvent('GET', { pathParameters: { conversationId: 'conv-1' } }));
+
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body).error.code).toBe('CONVERSATION_NOT_FOUND');
+    expect(mockListMessages).not.toHaveBeenCalled();
+  });
+
+  test('should let a guardian read a child\'s conversation', async () => {
+    mockGetConversation.mockResolvedValue(childConversation);
+    mockListMessages.mockResolvedValue({ items: [] });
+
+    const response = await handler(createMockEvent('GET', { authorizer: guardianAuthorizer, pathParameters: { conversationId: 'conv-1' } }));
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  test('should return 400 for an invalid cursor', async () => {
+    mockGetConversation.mockResolvedValue(childConversation);
+    mockListMessages.mockResolvedValue(null);
+
+    const response = await handler(createMockEvent('GET', { pathParameters: { conversationId: 'conv-1' }, queryStringParameters: { cursor: 'bad' } }));
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error.code).toBe('INVALID_CURSOR');
+  });
+
+  test('should return 400 for an out-of-range limit', async () => {
+    const response = await handler(createMockEvent('GET', { queryStringParameters: { limit: '1000' } }));
+
+    expect(response.statusCode).toBe(400);
+    expect(mockListConversations).not.toHaveBeenCalled();
+  });
+
+  test('should list only the child\'s own conversations', async () => {
+    mockListConversations.mockResolvedValue({ items: [childConversation] });
+
+    const response = await handler(createMockEvent('GET'));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.conversations).toEqual([childConversation]);
+    expect(mockListConversations).toHaveBeenCalledWith('fam-1', 'us-east-2', { limit: 20, cursor: undefined }, 'child-1');
+  });
+
+  test('should forbid a child from listing another profile', async () => {
+    const response = await handler(createMockEvent('GET', { queryStringParameters: { profileId: 'child-2' } }));
+
+    expect(response.statusCode).toBe(403);
+    expect(mockListConversations).not.toHaveBeenCalled();
+  });
+
+  test('should let a guardian list the whole family or one profile', async () => {
+    mockListConversations.mockResolvedValue({ items: [] });
+
+    await handler(createMockEvent('GET', { authorizer: guardianAuthorizer }));
+    await handler(createMockEvent('GET', { authorizer: guardianAuthorizer, queryStringParameters: { profileId: 'child-1' } }));
+
+    expect(mockListConversations).toHaveBeenNthCalledWith(1, 'fam-1', 'us-east-2', { limit: 20, cursor: undefined }, undefined);
+    expect(mockListConversations).toHaveBeenNthCalledWith(2, 'fam-1', 'us-east-2', { limit: 20, cursor: undefined }, 'child-1');
+  });
+
+  test('should delete a conversation the caller owns', async () => {
+    mockGetConversation.mockResolvedValue(childConversation);
+    mockDeleteConversation.mockResolvedValue(undefined);
+
+    const response = await handler(createMockEvent('DELETE', { pathParameters: { conversationId: 'conv-1' } }));
+
+    expect(response.statusCode).toBe(200);
+    expect(mockDeleteConversation).toHaveBeenCalledWith(childConversation);
+  });
+
+  test('should return 401 when the caller has no profile', async () => {
+    const response = await handler(createMockEvent('GET', { authorizer: null }));
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  test('should return 500 when the tables are not configured', async () => {
+    delete process.env.CONVERSATIONS_TABLE_NAME;
+    jest.resetModules();
+    handler = (await import('./conversations')).handler;
+
+    const response = await handler(createMockEvent('GET'));
+
+    expect(response.statusCode).toBe(500);
+  });
+});
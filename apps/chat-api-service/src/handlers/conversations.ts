@@ -0,0 +1,178 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { ConversationRecord, RequestContext } from '@kinable/common-types';
+import { createSuccessResponse, createErrorResponse } from './apiResponses';
+import { buildRequestContext } from './chatRequest';
+import { ConversationOwner, ConversationStore, PageRequest } from '../conversations/ConversationStore';
+import { getLogicalId } from '../data/regionalKeys';
+
+const CONVERSATIONS_TABLE_ENV = process.env.CONVERSATIONS_TABLE_NAME;
+const CONVERSATION_MESSAGES_TABLE_ENV = process.env.CONVERSATION_MESSAGES_TABLE_NAME;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_TITLE_LENGTH = 200;
+
+let conversationStore: ConversationStore;
+
+/**
+ * Conversation history routes:
+ * - POST /v1/chat/conversations                      start a conversation for the caller's profile
+ * - GET /v1/chat/conversations                       list conversations (guardians may pass ?profileId=, or omit it for the whole family)
+ * - GET /v1/chat/conversations/{conversationId}      get a conversation and a page of its messages
+ * - GET /v1/chat/history?conversationId=             same as above, for the web client
+ * - DELETE /v1/chat/conversations/{conversationId}   delete a conversation and its messages
+ *
+ * Listings take ?limit= and ?cursor=; the response carries nextCursor until the last page.
+ * Children can only see their own conversations; guardians can see every conversation in the family.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResult> => {
+  if (!CONVERSATIONS_TABLE_ENV || !CONVERSATION_MESSAGES_TABLE_ENV) {
+    console.error('Missing required environment variables: CONVERSATIONS_TABLE_NAME or CONVERSATION_MESSAGES_TABLE_NAME');
+    return createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR');
+  }
+
+  const requestContext = buildRequestContext(event);
+  const owner: ConversationOwner = {
+    familyId: getLogicalId(requestContext.familyId || ''),
+    profileId: getLogicalId(requestContext.profileId || ''),
+    userRegion: requestContext.userRegion || requestContext.region,
+  };
+  if (!owner.familyId || !owner.profileId) {
+    return createErrorResponse(401, 'Missing family or profile identity', 'UNAUTHORIZED');
+  }
+
+  if (!conversationStore) {
+    const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: SERVICE_REGION_ENV }));
+    conversationStore = new ConversationStore(ddbDocClient, CONVERSATIONS_TABLE_ENV, CONVERSATION_MESSAGES_TABLE_ENV);
+  }
+
+  const method = event.requestContext.http.method.toUpperCase();
+  const conversationId = event.pathParameters?.conversationId || event.queryStringParameters?.conversationId;
+
+  try {
+    if (method === 'POST' && !conversationId) {
+      return await createConversation(event, owner);
+    }
+    if (method === 'GET' && conversationId) {
+      return await getConversation(event, requestContext, owner, conversationId);
+    }
+    if (method === 'GET') {
+      return await listConversations(event, requestContext, owner);
+    }
+    if (method === 'DELETE' && conversationId) {
+      return await deleteConversation(requestContext, owner, conversationId);
+    }
+    return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED');
+  } catch (error: any) {
+    console.error('Conversation request failed:', error);
+    return createErrorResponse(
+      500,
+      'An unexpected error occurred',
+      'INTERNAL_ERROR',
+      { message: error.message }
+    );
+  }
+};
+
+async function createConversation(event: APIGatewayProxyEventV2, owner: ConversationOwner): Promise<APIGatewayProxyResult> {
+  let requestBody: any = {};
+  if (event.body) {
+    try {
+      requestBody = JSON.parse(event.body);
+    } catch (error) {
+      return createErrorResponse(400, 'Invalid JSON in request body');
+    }
+  }
+
+  const title = requestBody.title;
+  if (title !== undefined && (typeof title !== 'string' || title.length > MAX_TITLE_LENGTH)) {
+    return createErrorResponse(400, `title must be a string of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  const conversation = await conversationStore.createConversation(owner, title?.trim());
+  return createSuccessResponse(201, { conversation });
+}
+
+async function getConversation(
+  event: APIGatewayProxyEventV2,
+  requestContext: RequestContext,
+  owner: ConversationOwner,
+  conversationId: string
+): Promise<APIGatewayProxyResult> {
+  const page = parsePageRequest(event);
+  if (!page) {
+    return createErrorResponse(400, `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const conversation = await conversationStore.getConversation(owner.familyId, owner.userRegion, conversationId);
+  if (!conversation || !canAccess(requestContext, owner, conversation)) {
+    return createErrorResponse(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  const messages = await conversationStore.listMessages(conversation, page);
+  if (!messages) {
+    return createErrorResponse(400, 'Invalid cursor', 'INVALID_CURSOR');
+  }
+  return createSuccessResponse(200, { conversation, messages: messages.items, nextCursor: messages.nextCursor });
+}
+
+async function listConversations(
+  event: APIGatewayProxyEventV2,
+  requestContext: RequestContext,
+  owner: ConversationOwner
+): Promise<APIGatewayProxyResult> {
+  const page = parsePageRequest(event);
+  if (!page) {
+    return createErrorResponse(400, `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  // Children always get their own conversations; guardians choose a profile or see the whole family
+  const requestedProfileId = event.queryStringParameters?.profileId;
+  if (requestedProfileId && !isGuardian(requestContext) && requestedProfileId !== owner.profileId) {
+    return createErrorResponse(403, 'Only guardians can list other profiles\' conversations', 'FORBIDDEN');
+  }
+  const profileId = isGuardian(requestContext) ? requestedProfileId : owner.profileId;
+
+  const conversations = await conversationStore.listConversations(owner.familyId, owner.userRegion, page, profileId);
+  if (!conversations) {
+    return createErrorResponse(400, 'Invalid cursor', 'INVALID_CURSOR');
+  }
+  return createSuccessResponse(200, { conversations: conversations.items, nextCursor: conversations.nextCursor });
+}
+
+async function deleteConversation(
+  requestContext: RequestContext,
+  owner: ConversationOwner,
+  conversationId: string
+): Promise<APIGatewayProxyResult> {
+  const conversation = await conversationStore.getConversation(owner.familyId, owner.userRegion, conversationId);
+  if (!conversation || !canAccess(requestContext, owner, conversation)) {
+    return createErrorResponse(404, 'Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  await conversationStore.deleteConversation(conversation);
+  return createSuccessResponse(200, { conversationId, deleted: true });
+}
+
+function isGuardian(requestContext: RequestContext): boolean {
+  return requestContext.role === 'guardian';
+}
+
+// Another profile's conversation is reported as not found rather than forbidden, so IDs cannot be probed
+function canAccess(requestContext: RequestContext, owner: ConversationOwner, conversation: ConversationRecord): boolean {
+  return conversation.profileId === owner.profileId || isGuardian(requestContext);
+}
+
+function parsePageRequest(event: APIGatewayProxyEventV2): PageRequest | null {
+  const rawLimit = event.queryStringParameters?.limit;
+  const limit = rawLimit === undefined ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return null;
+  }
+  return { limit, cursor: event.queryStringParameters?.cursor };
+}
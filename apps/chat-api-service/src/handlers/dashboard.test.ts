@@ -0,0 +1,386 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResult } from 'aws-lambda';
+
+const mockGetItem = jest.fn();
+const mockUpdateItem = jest.fn();
+const mockQuery = jest.fn();
+const mockPutItem = jest.fn();
+const mockDeleteItem = jest.fn();
+jest.mock('../data/DynamoDBProvider', () => ({
+  DynamoDBProvider: jest.fn().mockImplementation(() => ({
+    getItem: mockGetItem,
+    updateItem: mockUpdateItem,
+    query: mockQuery,
+    putItem: mockPutItem,
+    deleteItem: mockDeleteItem
+  }))
+}));
+
+const mockCreateUser = jest.fn();
+const mockDeleteUser = jest.fn();
+jest.mock('../auth/CognitoUserAdmin', () => ({
+  CognitoUserAdmin: jest.fn().mockImplementation(() => ({ createUser: mockCreateUser, deleteUser: mockDeleteUser }))
+}));
+
+const mockGetProfileUsage = jest.fn();
+jest.mock('../billing/TokenLedger', () => ({
+  TokenLedger: jest.fn().mockImplementation(() => ({ getProfileUsage: mockGetProfileUsage }))
+}));
+
+const guardianAuthorizer = { lambda: { familyId: 'FAMILY#us-east-2#fam-1', profileId: 'PROFILE#us-east-2#guardian-1', role: 'guardian', region: 'us-east-2' } };
+const childAuthorizer = { lambda: { familyId: 'FAMILY#us-east-2#fam-1', profileId: 'PROFILE#us-east-2#child-1', role: 'child', region: 'us-east-2' } };
+
+const createMockEvent = (
+  routeKey: string,
+  options: { authorizer?: Record<string, any> | null; pathParameters?: Record<string, string>; body?: Record<string, any> } = {}
+): APIGatewayProxyEventV2 => ({
+  body: options.body ? JSON.stringify(options.body) : null,
+  routeKey,
+  requestContext: { requestId: 'test-request-id', authorizer: options.authorizer === undefined ? guardianAuthorizer : options.authorizer },
+  headers: {},
+  pathParameters: options.pathParameters || null
+} as unknown as APIGatewayProxyEventV2);
+
+const childProfile = {
+  profileId: 'PROFILE#us-east-2#child-1',
+  familyId: 'FAMILY#us-east-2#fam-1',
+  role: 'child',
+  pauseStatusProfile: false,
+  displayName: 'Sam'
+};
+
+describe('Dashboard Handler', () => {
+  let handler: (event: APIGatewayProxyEventV2) => Promise<APIGatewayProxyResult>;
+
+  beforeEach(async () => {
+    process.env.AWS_REGION = 'us-east-2';
+    process.env.PROFILES_TABLE_NAME = 'test-profiles-table';
+    process.env.FAMILIES_TABLE_NAME = 'test-families-table';
+    process.env.COGNITO_USER_POOL_ID = 'us-east-2_TestPool';
+    process.env.TOKEN_LEDGER_TABLE_NAME = 'test-token-ledger-table';
+    jest.resetModules();
+    handler = (await import('./dashboard')).handler;
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.PROFILES_TABLE_NAME;
+    delete process.env.FAMILIES_TABLE_NAME;
+    delete process.env.COGNITO_USER_POOL_ID;
+    delete process.env.TOKEN_LEDGER_TABLE_NAME;
+  });
+
+  test('should list the family\'s profiles with logical IDs', async () => {
+    mockQuery.mockResolvedValue([childProfile]);
+
+    const response = await handler(createMockEvent('GET /dashboard/profiles'));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.profiles).toEqual([{ ...childProfile, profileId: 'child-1', familyId: 'fam-1' }]);
+    expect(mockQuery).toHaveBeenCalledWith('test-profiles-table', expect.objectContaining({
+      IndexName: 'FamilyIdIndex',
+      ExpressionAttributeValues: { ':familyId': 'FAMILY#us-east-2#fam-1' }
+    }));
+  });
+
+  test('should return the guardian\'s profile with the family status', async () => {
+    mockGetItem
+      .mockResolvedValueOnce({ ...childProfile, profileId: 'PROFILE#us-east-2#guardian-1', role: 'guardian' })
+      .mockResolvedValueOnce({ familyId: 'FAMILY#us-east-2#fam-1', tokenBalance: 500, pauseStatusFamily: false });
+
+    const response = await handler(createMockEvent('GET /dashboard/profile'));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toMatchObject({
+      profile: { profileId: 'guardian-1', role: 'guardian' },
+      family: { familyId: 'fam-1', tokenBalance: 500, pauseStatusFamily: false }
+    });
+  });
+
+  test('should pause a child profile', async () => {
+    mockGetItem.mockResolvedValue(childProfile);
+    mockUpdateItem.mockResolvedValue({ pauseStatusProfile: true });
+
+    const response = await handler(createMockEvent('POST /dashboard/profiles/{profileId}/pause', { pathParameters: { profileId: 'child-1' } }));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.profile).toMatchObject({ profileId: 'child-1', pauseStatusProfile: true });
+    expect(mockGetItem).toHaveBeenCalledWith('test-profiles-table', 'profileId', 'child-1', 'us-east-2');
+    expect(mockUpdateItem).toHaveBeenCalledWith(
+      'test-profiles-table',
+      'profileId',
+      'child-1',
+      { pauseStatusProfile: true, updatedAt: expect.any(String) },
+      'us-east-2'
+    );
+  });
+
+  test('should resume a profile', async () => {
+    mockGetItem.mockResolvedValue({ ...childProfile, pauseStatusProfile: true });
+    mockUpdateItem.mockResolvedValue({ pauseStatusProfile: false });
+
+    const response = await handler(createMockEvent('POST /dashboard/profiles/{profileId}/resume', { pathParameters: { profileId: 'child-1' } }));
+
+    expect(response.statusCode).toBe(200);
+    expect(mockUpdateItem.mock.calls[0][3]).toMatchObject({ pauseStatusProfile: false });
+  });
+
+  test('should not pause a profile of another family', async () => {
+    mockGetItem.mockResolvedValue({ ...childProfile, familyId: 'FAMILY#us-east-2#fam-2' });
+
+    const response = await handler(createMockEvent('POST /dashboard/profiles/{profileId}/pause', { pathParameters: { profileId: 'child-1' } }));
+
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body).error.code).toBe('PROFILE_NOT_FOUND');
+    expect(mockUpdateItem).not.toHaveBeenCalled();
+  });
+
+  test('should not pause a guardian profile', async () => {
+    mockGetItem.mockResolvedValue({ ...childProfile, role: 'guardian' });
+
+    const response = await handler(createMockEvent('POST /dashboard/profiles/{profileId}/pause', { pathParameters: { profileId: 'guardian-2' } }));
+
+    expect(response.statusCode).toBe(400);
+    expect(mockUpdateItem).not.toHaveBeenCalled();
+  });
+
+  describe('Profile lifecycle', () => {
+    const newChild = { displayName: ' Sam ', email: 'Sam@Example.com', ageBand: '9_12' };
+
+    test('should create a child profile and its Cognito user', async () => {
+      mockCreateUser.mockResolvedValue('cognito-user-1');
+      mockPutItem.mockImplementation(async (table, item) => ({ ...item, profileId: `PROFILE#us-east-2#${item.profileId}` }));
+
+      const response = await handler(createMockEvent('POST /dashboard/profiles', { body: newChild }));
+
+      expect(response.statusCode).toBe(201);
+      const { profile } = JSON.parse(response.body).data;
+      expect(profile).toMatchObject({ familyId: 'fam-1', role: 'child', displayName: 'Sam', ageBand: '9_12', pauseStatusProfile: false });
+      expect(mockCreateUser).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'sam@example.com',
+        familyId: 'fam-1',
+        profileId: profile.profileId,
+        role: 'child',
+        region: 'us-east-2'
+      }));
+      const [table, item, keyAttribute, region] = mockPutItem.mock.calls[0];
+      expect([table, keyAttribute, region]).toEqual(['test-profiles-table', 'profileId', 'us-east-2']);
+      expect(item).toMatchObject({ profileId: profile.profileId, familyId: 'FAMILY#us-east-2#fam-1', cognitoUsername: 'cognito-user-1' });
+    });
+
+    test('should reject a profile without a valid email', async () => {
+      const response = await handler(createMockEvent('POST /dashboard/profiles', { body: { displayName: 'Sam', email: 'sam' } }));
+
+      expect(response.statusCode).toBe(400);
+      expect(mockCreateUser).not.toHaveBeenCalled();
+    });
+
+    test('should reject an unknown age band', async () => {
+      const response = await handler(createMockEvent('POST /dashboard/profiles', { body: { ...newChild, ageBand: 'toddler' } }));
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    test('should return 409 when the email is taken', async () => {
+      mockCreateUser.mockRejectedValue(Object.assign(new Error('exists'), { name: 'UsernameExistsException' }));
+
+      const response = await handler(createMockEvent('POST /dashboard/profiles', { body: newChild }));
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error.code).toBe('EMAIL_IN_USE');
+      expect(mockPutItem).not.toHaveBeenCalled();
+    });
+
+    test('should remove the Cognito user when the profile cannot be stored', async () => {
+      mockCreateUser.mockResolvedValue('cognito-user-1');
+      mockPutItem.mockResolvedValue(null);
+
+      const response = await handler(createMockEvent('POST /dashboard/profiles', { body: newChild }));
+
+      expect(response.statusCode).toBe(500);
+      expect(mockDeleteUser).toHaveBeenCalledWith('cognito-user-1');
+    });
+
+    test('should update a profile\'s details', async () => {
+      mockGetItem.mockResolvedValue(childProfile);
+      mockUpdateItem.mockResolvedValue({ displayName: 'Samantha', birthYear: 2015 });
+
+      const response = await handler(createMockEvent('PATCH /dashboard/profiles/{profileId}', {
+        pathParameters: { profileId: 'child-1' },
+        body: { displayName: 'Samantha', birthYear: 2015 }
+      }));
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.profile).toMatchObject({ profileId: 'child-1', displayName: 'Samantha', birthYear: 2015 });
+      expect(mockUpdateItem.mock.calls[0][3]).toEqual({ displayName: 'Samantha', birthYear: 2015, updatedAt: expect.any(String) });
+    });
+
+    test('should reject an update without changes', async () => {
+      const response = await handler(createMockEvent('PATCH /dashboard/profiles/{profileId}', { pathParameters: { profileId: 'child-1' }, body: {} }));
+
+      expect(response.statusCode).toBe(400);
+      expect(mockUpdateItem).not.toHaveBeenCalled();
+    });
+
+    test('should delete a child profile and its Cognito user', async () => {
+      mockGetItem.mockResolvedValue({ ...childProfile, cognitoUsername: 'cognito-user-1' });
+      mockDeleteUser.mockResolvedValue(true);
+      mockDeleteItem.mockResolvedValue(true);
+
+      const response = await handler(createMockEvent('DELETE /dashboard/profiles/{profileId}', { pathParameters: { profileId: 'child-1' } }));
+
+      expect(response.statusCode).toBe(200);
+      expect(mockDeleteUser).toHaveBeenCalledWith('cognito-user-1');
+      expect(mockDeleteItem).toHaveBeenCalledWith('test-profiles-table', 'profileId', 'child-1', 'us-east-2');
+    });
+
+    test('should not delete a guardian or another family\'s profile', async () => {
+      mockGetItem.mockResolvedValueOnce({ ...childProfile, role: 'guardian' });
+      mockGetItem.mockResolvedValueOnce({ ...childProfile, familyId: 'FAMILY#us-east-2#fam-2' });
+
+      const guardianResponse = await handler(createMockEvent('DELETE /dashboard/profiles/{profileId}', { pathParameters: { profileId: 'guardian-2' } }));
+      const otherFamilyResponse = await handler(createMockEvent('DELETE /dashboard/profiles/{profileId}', { pathParameters: { profileId: 'child-9' } }));
+
+      expect(guardianResponse.statusCode).toBe(400);
+      expect(otherFamilyResponse.statusCode).toBe(404);
+      expect(mockDeleteUser).not.toHaveBeenCalled();
+      expect(mockDeleteItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Schedules', () => {
+    const schedule = { timezone: 'America/Chicago', allowedWindows: [{ days: ['sat', 'sun'], start: '09:00', end: '20:00' }] };
+
+    test('should set a profile\'s schedule', async () => {
+      mockGetItem.mockResolvedValue(childProfile);
+      mockUpdateItem.mockResolvedValue({ usageSchedule: schedule });
+
+      const response = await handler(createMockEvent('PUT /dashboard/profiles/{profileId}/schedule', { pathParameters: { profileId: 'child-1' }, body: schedule }));
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.profile.usageSchedule).toEqual(schedule);
+      expect(mockUpdateItem.mock.calls[0][3]).toEqual({ usageSchedule: schedule, updatedAt: expect.any(String) });
+    });
+
+    test('should reject an invalid schedule', async () => {
+      const response = await handler(createMockEvent('PUT /dashboard/profiles/{profileId}/schedule', {
+        pathParameters: { profileId: 'child-1' },
+        body: { ...schedule, timezone: 'Nowhere/Special' }
+      }));
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.code).toBe('INVALID_SCHEDULE');
+      expect(mockUpdateItem).not.toHaveBeenCalled();
+    });
+
+    test('should clear a profile\'s schedule', async () => {
+      mockGetItem.mockResolvedValue({ ...childProfile, usageSchedule: schedule });
+      mockUpdateItem.mockResolvedValue({ usageSchedule: null });
+
+      const response = await handler(createMockEvent('DELETE /dashboard/profiles/{profileId}/schedule', { pathParameters: { profileId: 'child-1' } }));
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.profile.usageSchedule).toBeNull();
+    });
+  });
+
+  describe('Quotas', () => {
+    const tokenQuota = { daily: 1000, monthly: 20000 };
+
+    test('should set a profile\'s quota and report what is left', async () => {
+      mockGetItem.mockResolvedValue(childProfile);
+      mockUpdateItem.mockResolvedValue({ tokenQuota });
+      mockGetProfileUsage.mockResolvedValue({ daily: 250, monthly: 4000 });
+
+      const response = await handler(createMockEvent('PUT /dashboard/profiles/{profileId}/quota', { pathParameters: { profileId: 'child-1' }, body: tokenQuota }));
+
+      expect(response.statusCode).toBe(200);
+      const { profile } = JSON.parse(response.body).data;
+      expect(profile.tokenQuota).toEqual(tokenQuota);
+      expect(profile.quotaStatus).toEqual({
+        daily: { limit: 1000, used: 250, remaining: 750, resetsAt: expect.any(String) },
+        monthly: { limit: 20000, used: 4000, remaining: 16000, resetsAt: expect.any(String) }
+      });
+      expect(mockUpdateItem.mock.calls[0][3]).toEqual({ tokenQuota, updatedAt: expect.any(String) });
+      expect(mockGetProfileUsage).toHaveBeenCalledWith('fam-1', 'child-1', 'us-east-2', tokenQuota);
+    });
+
+    test('should reject an invalid quota', async () => {
+      const response = await handler(createMockEvent('PUT /dashboard/profiles/{profileId}/quota', {
+        pathParameters: { profileId: 'child-1' },
+        body: { daily: -5 }
+      }));
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.code).toBe('INVALID_QUOTA');
+      expect(mockUpdateItem).not.toHaveBeenCalled();
+    });
+
+    test('should clear a profile\'s quota', async () => {
+      mockGetItem.mockResolvedValue({ ...childProfile, tokenQuota });
+      mockUpdateItem.mockResolvedValue({ tokenQuota: null });
+
+      const response = await handler(createMockEvent('DELETE /dashboard/profiles/{profileId}/quota', { pathParameters: { profileId: 'child-1' } }));
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.profile.tokenQuota).toBeNull();
+      expect(JSON.parse(response.body).data.profile.quotaStatus).toBeUndefined();
+      expect(mockGetProfileUsage).not.toHaveBeenCalled();
+    });
+
+    test('should report the remaining quota when listing profiles', async () => {
+      mockQuery.mockResolvedValue([{ ...childProfile, tokenQuota: { daily: 1000 } }, { ...childProfile, profileId: 'PROFILE#us-east-2#child-2' }]);
+      mockGetProfileUsage.mockResolvedValue({ daily: 1000 });
+
+      const response = await handler(createMockEvent('GET /dashboard/profiles'));
+
+      const [limited, unlimited] = JSON.parse(response.body).data.profiles;
+      expect(limited.quotaStatus.daily).toMatchObject({ limit: 1000, used: 1000, remaining: 0 });
+      expect(unlimited.quotaStatus).toBeUndefined();
+      expect(mockGetProfileUsage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  test('should pause and resume the family', async () => {
+    mockUpdateItem.mockResolvedValue({ pauseStatusFamily: true });
+
+    const paused = await handler(createMockEvent('POST /dashboard/family/pause'));
+    await handler(createMockEvent('POST /dashboard/family/resume'));
+
+    expect(JSON.parse(paused.body).data).toEqual({ familyId: 'fam-1', pauseStatusFamily: true });
+    expect(mockUpdateItem.mock.calls[0].slice(0, 3)).toEqual(['test-families-table', 'familyId', 'fam-1']);
+    expect(mockUpdateItem.mock.calls[0][3]).toMatchObject({ pauseStatusFamily: true });
+    expect(mockUpdateItem.mock.calls[1][3]).toMatchObject({ pauseStatusFamily: false });
+  });
+
+  test('should return 500 when the update fails', async () => {
+    mockUpdateItem.mockResolvedValue(null);
+
+    const response = await handler(createMockEvent('POST /dashboard/family/pause'));
+
+    expect(response.statusCode).toBe(500);
+  });
+
+  test.each([
+    'GET /dashboard/profiles',
+    'POST /dashboard/profiles',
+    'DELETE /dashboard/profiles/{profileId}',
+    'GET /dashboard/profile',
+    'POST /dashboard/profiles/{profileId}/pause',
+    'POST /dashboard/family/pause'
+  ])('should forbid a child from %s', async (routeKey) => {
+    const response = await handler(createMockEvent(routeKey, { authorizer: childAuthorizer, pathParameters: { profileId: 'child-2' } }));
+
+    expect(response.statusCode).toBe(403);
+    expect(JSON.parse(response.body).error.code).toBe('FORBIDDEN');
+    expect(mockGetItem).not.toHaveBeenCalled();
+    expect(mockUpdateItem).not.toHaveBeenCalled();
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(mockCreateUser).not.toHaveBeenCalled();
+  });
+
+  test('should return 401 when the caller has no profile', async () => {
+    const response = await handler(createMockEvent('GET /dashboard/profiles', { authorizer: null }));
+
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,486 @@
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEventV2, APIGatewayProxyResult } from 'aws-lambda';
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { AgeBand, FamilyData, ProfileData, TokenQuota, TokenQuotaStatus, UsageSchedule } from '@kinable/common-types';
+import { createSuccessResponse, createErrorResponse } from './apiResponses';
+import { buildRequestContext } from './chatRequest';
+import { CognitoUserAdmin } from '../auth/CognitoUserAdmin';
+import { parseUsageSchedule } from '../auth/usageSchedule';
+import { TokenLedger } from '../billing/TokenLedger';
+import { cappedWindows, getQuotaStatus, parseTokenQuota } from '../billing/profileQuota';
+import { DynamoDBProvider } from '../data/DynamoDBProvider';
+import { ENTITY_PREFIX, buildRegionalKey, getLogicalId } from '../data/regionalKeys';
+
+const PROFILES_TABLE_ENV = process.env.PROFILES_TABLE_NAME;
+const FAMILIES_TABLE_ENV = process.env.FAMILIES_TABLE_NAME;
+const USER_POOL_ID_ENV = process.env.COGNITO_USER_POOL_ID;
+const TOKEN_LEDGER_TABLE_ENV = process.env.TOKEN_LEDGER_TABLE_NAME;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2';
+
+const FAMILY_ID_INDEX = 'FamilyIdIndex';
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const AGE_BANDS: AgeBand[] = ['under_9', '9_12', '13_15', '16_17', 'adult'];
+
+let dbProvider: DynamoDBProvider;
+let userAdmin: CognitoUserAdmin | undefined;
+let tokenLedger: TokenLedger | undefined;
+
+interface Guardian {
+  familyId: string;      // Logical family ID
+  profileId: string;     // Logical profile ID
+  userRegion: string;    // Home region of the family, used for the regionalized keys
+}
+
+type ProfileFields = Pick<ProfileData, 'displayName' | 'ageBand' | 'birthYear'>;
+
+// A profile as returned to the dashboard, with its remaining quota when it has one
+type ProfileView = ProfileData & { quotaStatus?: TokenQuotaStatus };
+
+/**
+ * Parent dashboard routes, for guardians only:
+ * - GET /dashboard/profiles                         list the profiles in the caller's family
+ * - POST /dashboard/profiles                        add a child profile and invite its Cognito user
+ * - PATCH /dashboard/profiles/{profileId}           change a profile's display name, age band or birth year
+ * - DELETE /dashboard/profiles/{profileId}          delete a child profile and its Cognito user
+ * - GET /dashboard/profile                          get the caller's own profile and the family's status
+ * - POST /dashboard/profiles/{profileId}/pause      pause a child profile
+ * - POST /dashboard/profiles/{profileId}/resume     resume a profile
+ * - PUT /dashboard/profiles/{profileId}/schedule    set the weekly windows a profile may chat in
+ * - DELETE /dashboard/profiles/{profileId}/schedule remove the schedule, allowing chat at any time
+ * - PUT /dashboard/profiles/{profileId}/quota       set a profile's daily and/or monthly token caps
+ * - DELETE /dashboard/profiles/{profileId}/quota    remove the caps, leaving only the family balance
+ * - POST /dashboard/family/pause                    pause the whole family
+ * - POST /dashboard/family/resume                   resume the family
+ *
+ * The role comes from the caller's profile record (see the authorizer); children get 403.
+ * Profile IDs in paths and responses are logical IDs. Profiles with a quota are returned with
+ * quotaStatus, the tokens left in each capped window.
+ */
+export const handler = async (
+  event: APIGatewayProxyEventV2
+): Promise<APIGatewayProxyResult> => {
+  if (!PROFILES_TABLE_ENV || !FAMILIES_TABLE_ENV) {
+    console.error('Missing required environment variables: PROFILES_TABLE_NAME or FAMILIES_TABLE_NAME');
+    return createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR');
+  }
+
+  const requestContext = buildRequestContext(event);
+  const guardian: Guardian = {
+    familyId: getLogicalId(requestContext.familyId || ''),
+    profileId: getLogicalId(requestContext.profileId || ''),
+    userRegion: requestContext.userRegion || requestContext.region,
+  };
+  if (!guardian.familyId || !guardian.profileId) {
+    return createErrorResponse(401, 'Missing family or profile identity', 'UNAUTHORIZED');
+  }
+  if (requestContext.role !== 'guardian') {
+    return createErrorResponse(403, 'Only guardians can use the dashboard', 'FORBIDDEN');
+  }
+
+  if (!dbProvider) {
+    dbProvider = new DynamoDBProvider(SERVICE_REGION_ENV);
+  }
+  if (!userAdmin && USER_POOL_ID_ENV) {
+    userAdmin = new CognitoUserAdmin(new CognitoIdentityProviderClient({ region: SERVICE_REGION_ENV }), USER_POOL_ID_ENV);
+  }
+  if (!tokenLedger && TOKEN_LEDGER_TABLE_ENV) {
+    const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: SERVICE_REGION_ENV }));
+    tokenLedger = new TokenLedger(ddbDocClient, FAMILIES_TABLE_ENV, TOKEN_LEDGER_TABLE_ENV);
+  }
+
+  // The matched route, e.g. "POST /dashboard/family/pause"
+  const routeKey = event.routeKey;
+  const profileId = event.pathParameters?.profileId;
+
+  try {
+    switch (routeKey) {
+      case 'GET /dashboard/profiles':
+        return await listProfiles(guardian);
+      case 'POST /dashboard/profiles':
+        return await createProfile(event, guardian);
+      case 'PATCH /dashboard/profiles/{profileId}':
+        return await updateProfile(event, guardian, profileId);
+      case 'DELETE /dashboard/profiles/{profileId}':
+        return await deleteProfile(guardian, profileId);
+      case 'GET /dashboard/profile':
+        return await getOwnProfile(guardian);
+      case 'POST /dashboard/profiles/{profileId}/pause':
+        return await setProfilePaused(guardian, profileId, true);
+      case 'POST /dashboard/profiles/{profileId}/resume':
+        return await setProfilePaused(guardian, profileId, false);
+      case 'PUT /dashboard/profiles/{profileId}/schedule':
+        return await setProfileSchedule(event, guardian, profileId);
+      case 'DELETE /dashboard/profiles/{profileId}/schedule':
+        return await clearProfileSchedule(guardian, profileId);
+      case 'PUT /dashboard/profiles/{profileId}/quota':
+        return await setProfileQuota(event, guardian, profileId);
+      case 'DELETE /dashboard/profiles/{profileId}/quota':
+        return await clearProfileQuota(guardian, profileId);
+      case 'POST /dashboard/family/pause':
+        return await setFamilyPaused(guardian, true);
+      case 'POST /dashboard/family/resume':
+        return await setFamilyPaused(guardian, false);
+      default:
+        return createErrorResponse(404, 'Route not found', 'NOT_FOUND');
+    }
+  } catch (error: any) {
+    console.error('Dashboard request failed:', error);
+    return createErrorResponse(
+      500,
+      'An unexpected error occurred',
+      'INTERNAL_ERROR',
+      { message: error.message }
+    );
+  }
+};
+
+async function listProfiles(guardian: Guardian): Promise<APIGatewayProxyResult> {
+  const profiles = await dbProvider.query<ProfileData>(PROFILES_TABLE_ENV!, {
+    IndexName: FAMILY_ID_INDEX,
+    KeyConditionExpression: 'familyId = :familyId',
+    ExpressionAttributeValues: { ':familyId': buildRegionalKey(ENTITY_PREFIX.FAMILY, guardian.userRegion, guardian.familyId) },
+  });
+  if (!profiles) {
+    throw new Error('Could not list the family\'s profiles');
+  }
+  const views = await Promise.all(profiles.map(profile => toProfileViewWithQuota(guardian, profile)));
+  return createSuccessResponse(200, { profiles: views });
+}
+
+async function createProfile(event: APIGatewayProxyEventV2, guardian: Guardian): Promise<APIGatewayProxyResult> {
+  const body = parseBody(event);
+  if (!body) {
+    return createErrorResponse(400, 'Invalid JSON in request body');
+  }
+  const parsed = parseProfileFields(body);
+  if (!parsed.ok) {
+    return createErrorResponse(400, parsed.message);
+  }
+  if (!parsed.fields.displayName) {
+    return createErrorResponse(400, 'displayName is required');
+  }
+  if (typeof body.email !== 'string' || !EMAIL_PATTERN.test(body.email.trim())) {
+    return createErrorResponse(400, 'email must be a valid email address');
+  }
+  if (body.temporaryPassword !== undefined && typeof body.temporaryPassword !== 'string') {
+    return createErrorResponse(400, 'temporaryPassword must be a string');
+  }
+  if (!userAdmin) {
+    console.error('Missing required environment variable: COGNITO_USER_POOL_ID');
+    return createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR');
+  }
+
+  const profileId = randomUUID();
+  const email = body.email.trim().toLowerCase();
+  let cognitoUsername: string;
+  try {
+    cognitoUsername = await userAdmin.createUser({
+      email,
+      displayName: parsed.fields.displayName,
+      familyId: guardian.familyId,
+      profileId,
+      role: 'child',
+      region: guardian.userRegion,
+      temporaryPassword: body.temporaryPassword,
+    });
+  } catch (error: any) {
+    if (error?.name === 'UsernameExistsException') {
+      return createErrorResponse(409, 'A user with this email already exists', 'EMAIL_IN_USE');
+    }
+    if (error?.name === 'InvalidPasswordException') {
+      return createErrorResponse(400, error.message, 'INVALID_PASSWORD');
+    }
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const profile: ProfileData = {
+    profileId,
+    familyId: buildRegionalKey(ENTITY_PREFIX.FAMILY, guardian.userRegion, guardian.familyId),
+    role: 'child',
+    pauseStatusProfile: false,
+    ...parsed.fields,
+    email,
+    cognitoUsername,
+    userRegion: guardian.userRegion,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const stored = await dbProvider.putItem(PROFILES_TABLE_ENV!, profile, 'profileId', guardian.userRegion);
+  if (!stored) {
+    // A user without a profile could sign in but never pass the authorizer
+    await userAdmin.deleteUser(cognitoUsername);
+    throw new Error(`Could not store profile ${profileId}`);
+  }
+
+  console.log(`[Dashboard] Guardian ${guardian.profileId} created profile ${profileId}.`);
+  return createSuccessResponse(201, { profile: toProfileView(stored) });
+}
+
+async function updateProfile(event: APIGatewayProxyEventV2, guardian: Guardian, profileId: string | undefined): Promise<APIGatewayProxyResult> {
+  if (!profileId) {
+    return createErrorResponse(400, 'profileId is required');
+  }
+  const body = parseBody(event);
+  if (!body) {
+    return createErrorResponse(400, 'Invalid JSON in request body');
+  }
+  const parsed = parseProfileFields(body);
+  if (!parsed.ok) {
+    return createErrorResponse(400, parsed.message);
+  }
+  if (Object.keys(parsed.fields).length === 0) {
+    return createErrorResponse(400, 'Nothing to update: pass displayName, ageBand or birthYear');
+  }
+
+  const profile = await getFamilyProfile(guardian, profileId);
+  if (!profile) {
+    return createErrorResponse(404, 'Profile not found', 'PROFILE_NOT_FOUND');
+  }
+
+  const updated = await dbProvider.updateItem<ProfileData>(
+    PROFILES_TABLE_ENV!,
+    'profileId',
+    profileId,
+    { ...parsed.fields, updatedAt: new Date().toISOString() },
+    guardian.userRegion
+  );
+  if (!updated) {
+    throw new Error(`Could not update profile ${profileId}`);
+  }
+  return createSuccessResponse(200, { profile: toProfileView({ ...profile, ...updated }) });
+}
+
+async function deleteProfile(guardian: Guardian, profileId: string | undefined): Promise<APIGatewayProxyResult> {
+  if (!profileId) {
+    return createErrorResponse(400, 'profileId is required');
+  }
+
+  const profile = await getFamilyProfile(guardian, profileId);
+  if (!profile) {
+    return createErrorResponse(404, 'Profile not found', 'PROFILE_NOT_FOUND');
+  }
+  if (profile.role === 'guardian') {
+    return createErrorResponse(400, 'Only child profiles can be deleted', 'INVALID_PROFILE');
+  }
+
+  // The user goes first, so a failure cannot leave a user behind whose profile is gone
+  if (profile.cognitoUsername) {
+    if (!userAdmin) {
+      console.error('Missing required environment variable: COGNITO_USER_POOL_ID');
+      return createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR');
+    }
+    await userAdmin.deleteUser(profile.cognitoUsername);
+  }
+  const deleted = await dbProvider.deleteItem(PROFILES_TABLE_ENV!, 'profileId', profileId, guardian.userRegion);
+  if (!deleted) {
+    throw new Error(`Could not delete profile ${profileId}`);
+  }
+
+  console.log(`[Dashboard] Guardian ${guardian.profileId} deleted profile ${profileId}.`);
+  return createSuccessResponse(200, { profileId, deleted: true });
+}
+
+async function getOwnProfile(guardian: Guardian): Promise<APIGatewayProxyResult> {
+  const [profile, family] = await Promise.all([
+    dbProvider.getItem<ProfileData>(PROFILES_TABLE_ENV!, 'profileId', guardian.profileId, guardian.userRegion),
+    dbProvider.getItem<FamilyData>(FAMILIES_TABLE_ENV!, 'familyId', guardian.familyId, guardian.userRegion),
+  ]);
+  if (!profile || !family) {
+    return createErrorResponse(404, 'Profile not found', 'PROFILE_NOT_FOUND');
+  }
+  return createSuccessResponse(200, { profile: await toProfileViewWithQuota(guardian, profile), family: toFamilyView(family) });
+}
+
+async function setProfilePaused(guardian: Guardian, profileId: string | undefined, paused: boolean): Promise<APIGatewayProxyResult> {
+  if (!profileId) {
+    return createErrorResponse(400, 'profileId is required');
+  }
+
+  const profile = await getFamilyProfile(guardian, profileId);
+  if (!profile) {
+    return createErrorResponse(404, 'Profile not found', 'PROFILE_NOT_FOUND');
+  }
+  if (paused && profile.role === 'guardian') {
+    return createErrorResponse(400, 'Only child profiles can be paused', 'INVALID_PROFILE');
+  }
+
+  const updated = await dbProvider.updateItem<ProfileData>(
+    PROFILES_TABLE_ENV!,
+    'profileId',
+    profileId,
+    { pauseStatusProfile: paused, updatedAt: new Date().toISOString() },
+    guardian.userRegion
+  );
+  if (!updated) {
+    throw new Error(`Could not update profile ${profileId}`);
+  }
+
+  console.log(`[Dashboard] Guardian ${guardian.profileId} ${paused ? 'paused' : 'resumed'} profile ${profileId}.`);
+  return createSuccessResponse(200, { profile: toProfileView({ ...profile, ...updated }) });
+}
+
+async function setProfileSchedule(event: APIGatewayProxyEventV2, guardian: Guardian, profileId: string | undefined): Promise<APIGatewayProxyResult> {
+  if (!profileId) {
+    return createErrorResponse(400, 'profileId is required');
+  }
+  const body = parseBody(event);
+  if (!body) {
+    return createErrorResponse(400, 'Invalid JSON in request body');
+  }
+  const parsed = parseUsageSchedule(body);
+  if (!parsed.ok) {
+    return createErrorResponse(400, parsed.message, 'INVALID_SCHEDULE');
+  }
+
+  return updateProfileSchedule(guardian, profileId, parsed.schedule);
+}
+
+async function clearProfileSchedule(guardian: Guardian, profileId: string | undefined): Promise<APIGatewayProxyResult> {
+  if (!profileId) {
+    return createErrorResponse(400, 'profileId is required');
+  }
+  return updateProfileSchedule(guardian, profileId, null);
+}
+
+async function updateProfileSchedule(guardian: Guardian, profileId: string, usageSchedule: UsageSchedule | null): Promise<APIGatewayProxyResult> {
+  const profile = await getFamilyProfile(guardian, profileId);
+  if (!profile) {
+    return createErrorResponse(404, 'Profile not found', 'PROFILE_NOT_FOUND');
+  }
+
+  const updated = await dbProvider.updateItem<ProfileData>(
+    PROFILES_TABLE_ENV!,
+    'profileId',
+    profileId,
+    { usageSchedule, updatedAt: new Date().toISOString() },
+    guardian.userRegion
+  );
+  if (!updated) {
+    throw new Error(`Could not update the schedule of profile ${profileId}`);
+  }
+
+  console.log(`[Dashboard] Guardian ${guardian.profileId} ${usageSchedule ? 'set' : 'cleared'} the schedule of profile ${profileId}.`);
+  return createSuccessResponse(200, { profile: toProfileView({ ...profile, ...updated }) });
+}
+
+async function setProfileQuota(event: APIGatewayProxyEventV2, guardian: Guardian, profileId: string | undefined): Promise<APIGatewayProxyResult> {
+  if (!profileId) {
+    return createErrorResponse(400, 'profileId is required');
+  }
+  const body = parseBody(event);
+  if (!body) {
+    return createErrorResponse(400, 'Invalid JSON in request body');
+  }
+  const parsed = parseTokenQuota(body);
+  if (!parsed.ok) {
+    return createErrorResponse(400, parsed.message, 'INVALID_QUOTA');
+  }
+
+  // A quota without caps is stored as no quota
+  return updateProfileQuota(guardian, profileId, cappedWindows(parsed.quota).length > 0 ? parsed.quota : null);
+}
+
+async function clearProfileQuota(guardian: Guardian, profileId: string | undefined): Promise<APIGatewayProxyResult> {
+  if (!profileId) {
+    return createErrorResponse(400, 'profileId is required');
+  }
+  return updateProfileQuota(guardian, profileId, null);
+}
+
+async function updateProfileQuota(guardian: Guardian, profileId: string, tokenQuota: TokenQuota | null): Promise<APIGatewayProxyResult> {
+  const profile = await getFamilyProfile(guardian, profileId);
+  if (!profile) {
+    return createErrorResponse(404, 'Profile not found', 'PROFILE_NOT_FOUND');
+  }
+
+  const updated = await dbProvider.updateItem<ProfileData>(
+    PROFILES_TABLE_ENV!,
+    'profileId',
+    profileId,
+    { tokenQuota, updatedAt: new Date().toISOString() },
+    guardian.userRegion
+  );
+  if (!updated) {
+    throw new Error(`Could not update the quota of profile ${profileId}`);
+  }
+
+  console.log(`[Dashboard] Guardian ${guardian.profileId} ${tokenQuota ? 'set' : 'cleared'} the token quota of profile ${profileId}.`);
+  return createSuccessResponse(200, { profile: await toProfileViewWithQuota(guardian, { ...profile, ...updated }) });
+}
+
+async function setFamilyPaused(guardian: Guardian, paused: boolean): Promise<APIGatewayProxyResult> {
+  const updated = await dbProvider.updateItem<FamilyData>(
+    FAMILIES_TABLE_ENV!,
+    'familyId',
+    guardian.familyId,
+    { pauseStatusFamily: paused, updatedAt: new Date().toISOString() },
+    guardian.userRegion
+  );
+  if (!updated) {
+    throw new Error(`Could not update family ${guardian.familyId}`);
+  }
+
+  console.log(`[Dashboard] Guardian ${guardian.profileId} ${paused ? 'paused' : 'resumed'} family ${guardian.familyId}.`);
+  return createSuccessResponse(200, { familyId: guardian.familyId, pauseStatusFamily: paused });
+}
+
+// Profiles of other families are reported as not found
+async function getFamilyProfile(guardian: Guardian, profileId: string): Promise<ProfileData | null> {
+  const profile = await dbProvider.getItem<ProfileData>(PROFILES_TABLE_ENV!, 'profileId', profileId, guardian.userRegion);
+  return profile && getLogicalId(profile.familyId) === guardian.familyId ? profile : null;
+}
+
+function parseBody(event: APIGatewayProxyEventV2): Record<string, any> | null {
+  try {
+    const body = JSON.parse(event.body || '{}');
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function parseProfileFields(body: Record<string, any>): { ok: true; fields: ProfileFields } | { ok: false; message: string } {
+  const fields: ProfileFields = {};
+  if (body.displayName !== undefined) {
+    const displayName = typeof body.displayName === 'string' ? body.displayName.trim() : '';
+    if (!displayName || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+      return { ok: false, message: `displayName must be a string of 1 to ${MAX_DISPLAY_NAME_LENGTH} characters` };
+    }
+    fields.displayName = displayName;
+  }
+  if (body.ageBand !== undefined) {
+    if (!AGE_BANDS.includes(body.ageBand)) {
+      return { ok: false, message: `ageBand must be one of ${AGE_BANDS.join(', ')}` };
+    }
+    fields.ageBand = body.ageBand;
+  }
+  if (body.birthYear !== undefined) {
+    const currentYear = new Date().getUTCFullYear();
+    if (!Number.isInteger(body.birthYear) || body.birthYear > currentYear || body.birthYear < currentYear - 120) {
+      return { ok: false, message: 'birthYear must be a four-digit year no later than this year' };
+    }
+    fields.birthYear = body.birthYear;
+  }
+  return { ok: true, fields };
+}
+
+function toProfileView(profile: ProfileData): ProfileData {
+  return { ...profile, profileId: getLogicalId(profile.profileId), familyId: getLogicalId(profile.familyId) };
+}
+
+async function toProfileViewWithQuota(guardian: Guardian, profile: ProfileData): Promise<ProfileView> {
+  const view = toProfileView(profile);
+  if (!tokenLedger || cappedWindows(profile.tokenQuota).length === 0) {
+    return view;
+  }
+  const usage = await tokenLedger.getProfileUsage(guardian.familyId, view.profileId, guardian.userRegion, profile.tokenQuota);
+  return { ...view, quotaStatus: getQuotaStatus(profile.tokenQuota, usage) };
+}
+
+function toFamilyView(family: FamilyData): Pick<FamilyData, 'familyId' | 'tokenBalance' | 'pauseStatusFamily'> {
+  return { familyId: getLogicalId(family.familyId), tokenBalance: family.tokenBalance, pauseStatusFamily: family.pauseStatusFamily };
+}
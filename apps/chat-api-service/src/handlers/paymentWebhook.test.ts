@@ -0,0 +1,131 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { LocalPaymentGateway } from '../payments/LocalPaymentGateway';
+import { findBoosterPack } from '../payments/boosterPacks';
+import { signWebhookPayload } from '../payments/webhookSignature';
+
+const WEBHOOK_SECRET = 'whsec_local_test';
+
+const mockSecretsSend = jest.fn();
+jest.mock('@aws-sdk/client-secrets-manager', () => ({
+  ...jest.requireActual('@aws-sdk/client-secrets-manager'),
+  SecretsManagerClient: jest.fn().mockImplementation(() => ({ send: mockSecretsSend }))
+}));
+
+const mockApplyCredit = jest.fn();
+jest.mock('../payments/BillingEventStore', () => ({
+  BillingEventStore: jest.fn().mockImplementation(() => ({ applyCredit: mockApplyCredit }))
+}));
+
+const createWebhookEvent = (payload: string, signature?: string, isBase64Encoded = false): APIGatewayProxyEvent => ({
+  body: isBase64Encoded ? Buffer.from(payload).toString('base64') : payload,
+  isBase64Encoded,
+  requestContext: { requestId: 'test-request-id' },
+  headers: signature ? { 'Stripe-Signature': signature } : {},
+  httpMethod: 'POST',
+  path: '/v1/billing/webhook'
+} as unknown as APIGatewayProxyEvent);
+
+describe('PaymentWebhook Handler', () => {
+  let handler: (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+  const localGateway = new LocalPaymentGateway(WEBHOOK_SECRET);
+  const pack = findBoosterPack('boost-medium')!;
+
+  const completedCheckout = async () => {
+    const { sessionId } = await localGateway.createCheckoutSession({
+      familyId: 'fam-1',
+      profileId: 'prof-1',
+      userRegion: 'us-west-2',
+      pack,
+      successUrl: 'http://localhost:3000/billing?paid=1',
+      cancelUrl: 'http://localhost:3000/billing',
+    });
+    return localGateway.completeCheckout(sessionId);
+  };
+
+  beforeEach(async () => {
+    process.env.AWS_REGION = 'us-east-2';
+    process.env.PAYMENT_SECRET_ID = 'test-payment-secret';
+    process.env.PAYMENT_GATEWAY = 'local';
+    process.env.BILLING_EVENTS_TABLE_NAME = 'test-billing-events-table';
+    process.env.FAMILIES_TABLE_NAME = 'test-families-table';
+    jest.resetModules();
+    handler = (await import('./paymentWebhook')).handler;
+    mockSecretsSend.mockReset().mockResolvedValue({ SecretString: JSON.stringify({ webhookSecret: WEBHOOK_SECRET }) });
+    mockApplyCredit.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.PAYMENT_SECRET_ID;
+    delete process.env.PAYMENT_GATEWAY;
+    delete process.env.BILLING_EVENTS_TABLE_NAME;
+    delete process.env.FAMILIES_TABLE_NAME;
+    jest.restoreAllMocks();
+  });
+
+  test('should credit the family for a checkout completed through the local gateway', async () => {
+    const webhook = await completedCheckout();
+    mockApplyCredit.mockImplementation(async (eventId, eventType, credit) => ({ ok: true, record: { eventId, eventType, ...credit } }));
+
+    const response = await handler(createWebhookEvent(webhook.payload, webhook.signature, true));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({ received: true, credited: pack.tokens });
+    expect(mockApplyCredit).toHaveBeenCalledWith(
+      JSON.parse(webhook.payload).id,
+      'checkout.session.completed',
+      expect.objectContaining({ familyId: 'fam-1', userRegion: 'us-west-2', packId: 'boost-medium', tokens: pack.tokens })
+    );
+  });
+
+  test('should acknowledge a redelivered event without crediting it again', async () => {
+    const webhook = await completedCheckout();
+    mockApplyCredit.mockResolvedValue({ ok: false, code: 'DUPLICATE_EVENT' });
+
+    const response = await handler(createWebhookEvent(webhook.payload, webhook.signature));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({ received: true, duplicate: true });
+  });
+
+  test('should reject a tampered payload', async () => {
+    const webhook = await completedCheckout();
+    const tampered = webhook.payload.replace(`"tokens":"${pack.tokens}"`, '"tokens":"99999999"');
+
+    const response = await handler(createWebhookEvent(tampered, webhook.signature));
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error.code).toBe('INVALID_WEBHOOK');
+    expect(mockApplyCredit).not.toHaveBeenCalled();
+  });
+
+  test('should reject a webhook without a signature', async () => {
+    const webhook = await completedCheckout();
+
+    const response = await handler(createWebhookEvent(webhook.payload));
+
+    expect(response.statusCode).toBe(400);
+    expect(mockApplyCredit).not.toHaveBeenCalled();
+  });
+
+  test('should acknowledge events that pay for nothing', async () => {
+    const payload = JSON.stringify({ id: 'evt_other', type: 'customer.created', data: { object: {} } });
+
+    const response = await handler(createWebhookEvent(payload, signWebhookPayload(payload, WEBHOOK_SECRET)));
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({ received: true, ignored: true });
+    expect(mockApplyCredit).not.toHaveBeenCalled();
+  });
+
+  test('should return 404 when the family to credit does not exist', async () => {
+    const webhook = await completedCheckout();
+    mockApplyCredit.mockResolvedValue({ ok: false, code: 'FAMILY_NOT_FOUND' });
+
+    const response = await handler(createWebhookEvent(webhook.payload, webhook.signature));
+
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body).error.code).toBe('FAMILY_NOT_FOUND');
+  });
+});
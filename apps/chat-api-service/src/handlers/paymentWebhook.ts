@@ -0,0 +1,83 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { IPaymentGateway } from '@kinable/common-types';
+import { createSuccessResponse, createErrorResponse } from './apiResponses';
+import { BillingEventStore, loadPaymentGateway } from '../payments';
+
+const PAYMENT_GATEWAY_ENV = process.env.PAYMENT_GATEWAY;
+const PAYMENT_SECRET_ID_ENV = process.env.PAYMENT_SECRET_ID;
+const BILLING_EVENTS_TABLE_ENV = process.env.BILLING_EVENTS_TABLE_NAME;
+const FAMILIES_TABLE_ENV = process.env.FAMILIES_TABLE_NAME;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2';
+
+const SIGNATURE_HEADER = 'stripe-signature';
+
+let paymentGateway: IPaymentGateway;
+let billingEventStore: BillingEventStore;
+
+/**
+ * Receives payment provider webhooks: POST /v1/billing/webhook (no authorizer; requests are
+ * authenticated by their HMAC signature instead).
+ *
+ * Paid checkouts credit the family once per event ID; redeliveries are acknowledged without
+ * crediting again. Events that pay for nothing are acknowledged and ignored, so the provider
+ * stops retrying them.
+ */
+export const handler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  if (!PAYMENT_SECRET_ID_ENV || !BILLING_EVENTS_TABLE_ENV || !FAMILIES_TABLE_ENV) {
+    console.error('Missing required environment variables: PAYMENT_SECRET_ID, BILLING_EVENTS_TABLE_NAME or FAMILIES_TABLE_NAME');
+    return createErrorResponse(500, 'Internal server configuration error.', 'INTERNAL_ERROR');
+  }
+
+  // The signature covers the exact bytes sent, so the body must not be re-serialized
+  const payload = event.isBase64Encoded
+    ? Buffer.from(event.body || '', 'base64').toString('utf8')
+    : event.body || '';
+  const signatureHeader = Object.entries(event.headers || {})
+    .find(([name]) => name.toLowerCase() === SIGNATURE_HEADER)?.[1];
+
+  try {
+    if (!paymentGateway) {
+      paymentGateway = await loadPaymentGateway(
+        new SecretsManagerClient({ region: SERVICE_REGION_ENV }),
+        PAYMENT_SECRET_ID_ENV,
+        PAYMENT_GATEWAY_ENV
+      );
+    }
+    if (!billingEventStore) {
+      const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: SERVICE_REGION_ENV }));
+      billingEventStore = new BillingEventStore(ddbDocClient, BILLING_EVENTS_TABLE_ENV, FAMILIES_TABLE_ENV);
+    }
+
+    const parsed = paymentGateway.parseWebhook(payload, signatureHeader);
+    if (!parsed.ok) {
+      console.warn(`[PaymentWebhook] Rejected webhook: ${parsed.message}`);
+      return createErrorResponse(400, parsed.message, 'INVALID_WEBHOOK');
+    }
+    if (!parsed.credit) {
+      console.log(`[PaymentWebhook] Ignoring ${parsed.eventType} event ${parsed.eventId}.`);
+      return createSuccessResponse(200, { received: true, ignored: true });
+    }
+
+    const result = await billingEventStore.applyCredit(parsed.eventId, parsed.eventType, parsed.credit);
+    if (!result.ok) {
+      if (result.code === 'DUPLICATE_EVENT') {
+        return createSuccessResponse(200, { received: true, duplicate: true });
+      }
+      return createErrorResponse(404, 'Family not found', 'FAMILY_NOT_FOUND', { eventId: parsed.eventId });
+    }
+    return createSuccessResponse(200, { received: true, credited: result.record.tokens });
+  } catch (error: any) {
+    console.error('Failed to process payment webhook:', error);
+    return createErrorResponse(
+      500,
+      'An unexpected error occurred',
+      'INTERNAL_ERROR',
+      { message: error.message }
+    );
+  }
+};
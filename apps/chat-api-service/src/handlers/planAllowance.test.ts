@@ -0,0 +1,58 @@
+import { ScheduledEvent } from 'aws-lambda';
+
+const mockGetConfiguration = jest.fn();
+jest.mock('../ai/ConfigurationService', () => ({
+  ConfigurationService: jest.fn().mockImplementation(() => ({ getConfiguration: mockGetConfiguration }))
+}));
+
+const mockGrantDueAllowances = jest.fn();
+jest.mock('../billing/PlanAllowanceGranter', () => ({
+  PlanAllowanceGranter: jest.fn().mockImplementation(() => ({ grantDueAllowances: mockGrantDueAllowances }))
+}));
+
+const scheduledEvent = { 'detail-type': 'Scheduled Event', source: 'aws.events' } as unknown as ScheduledEvent;
+
+describe('PlanAllowance Handler', () => {
+  let handler: (event: ScheduledEvent) => Promise<unknown>;
+
+  beforeEach(async () => {
+    process.env.AWS_REGION = 'us-west-2';
+    process.env.FAMILIES_TABLE_NAME = 'test-families-table';
+    process.env.PROVIDER_CONFIG_TABLE_NAME = 'test-provider-config-table';
+    process.env.ACTIVE_CONFIG_ID = 'TEST_CONFIG';
+    jest.resetModules();
+    handler = (await import('./planAllowance')).handler;
+    mockGetConfiguration.mockReset();
+    mockGrantDueAllowances.mockReset().mockResolvedValue({ granted: 2, skipped: 0 });
+  });
+
+  afterEach(() => {
+    delete process.env.FAMILIES_TABLE_NAME;
+    delete process.env.PROVIDER_CONFIG_TABLE_NAME;
+    delete process.env.ACTIVE_CONFIG_ID;
+  });
+
+  test('should grant the configured plans to the families of its region', async () => {
+    const plans = { family: { tier: 'family', name: 'Family', monthlyAllowance: 100000, rolloverCap: 20000 } };
+    mockGetConfiguration.mockResolvedValue({ plans });
+
+    await expect(handler(scheduledEvent)).resolves.toEqual({ granted: 2, skipped: 0 });
+    expect(mockGrantDueAllowances).toHaveBeenCalledWith(plans, 'us-west-2');
+  });
+
+  test('should grant nothing when no plans are configured', async () => {
+    mockGetConfiguration.mockResolvedValue({});
+
+    await handler(scheduledEvent);
+
+    expect(mockGrantDueAllowances).toHaveBeenCalledWith({}, 'us-west-2');
+  });
+
+  test('should fail when the tables are not configured', async () => {
+    delete process.env.FAMILIES_TABLE_NAME;
+    jest.resetModules();
+    handler = (await import('./planAllowance')).handler;
+
+    await expect(handler(scheduledEvent)).rejects.toThrow('Missing required environment variables');
+  });
+});
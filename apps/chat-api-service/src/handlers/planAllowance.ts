@@ -0,0 +1,39 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { ConfigurationService } from '../ai/ConfigurationService';
+import { AllowanceRunSummary, PlanAllowanceGranter } from '../billing/PlanAllowanceGranter';
+import { DynamoDBProvider } from '../data/DynamoDBProvider';
+
+const FAMILIES_TABLE_ENV = process.env.FAMILIES_TABLE_NAME;
+const PROVIDER_CONFIG_TABLE_ENV = process.env.PROVIDER_CONFIG_TABLE_NAME;
+const ACTIVE_CONFIG_ID_ENV = process.env.ACTIVE_CONFIG_ID;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2';
+
+let configService: ConfigurationService;
+let granter: PlanAllowanceGranter;
+
+/**
+ * Grants subscription plan allowances to the families homed in this region whose plan period
+ * has ended. Runs on a schedule; a family missed by one run is granted by the next.
+ */
+export const handler = async (_event: ScheduledEvent): Promise<AllowanceRunSummary> => {
+  if (!FAMILIES_TABLE_ENV || !PROVIDER_CONFIG_TABLE_ENV || !ACTIVE_CONFIG_ID_ENV) {
+    throw new Error('Missing required environment variables: FAMILIES_TABLE_NAME, PROVIDER_CONFIG_TABLE_NAME or ACTIVE_CONFIG_ID');
+  }
+  if (!configService) {
+    configService = new ConfigurationService(
+      new DynamoDBProvider(SERVICE_REGION_ENV),
+      PROVIDER_CONFIG_TABLE_ENV,
+      SERVICE_REGION_ENV,
+      ACTIVE_CONFIG_ID_ENV
+    );
+  }
+  if (!granter) {
+    const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: SERVICE_REGION_ENV }));
+    granter = new PlanAllowanceGranter(ddbDocClient, FAMILIES_TABLE_ENV);
+  }
+
+  const config = await configService.getConfiguration();
+  return granter.grantDueAllowances(config.plans || {}, SERVICE_REGION_ENV);
+};
@@ -0,0 +1,83 @@
+import { DynamoDBBatchResponse, DynamoDBStreamEvent } from 'aws-lambda';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+const mockCreditExpiredReservation = jest.fn();
+jest.mock('../billing/TokenLedger', () => ({
+  ...jest.requireActual('../billing/TokenLedger'),
+  TokenLedger: jest.fn().mockImplementation(() => ({ creditExpiredReservation: mockCreditExpiredReservation }))
+}));
+
+const reservation = {
+  familyId: 'FAMILY#us-east-2#fam-1',
+  entryId: 'RESERVATION#req-1',
+  profileId: 'prof-1',
+  requestId: 'req-1',
+  reservedTokens: 300,
+  region: 'us-east-2',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ttl: 1704067500
+};
+
+const createRecord = (oldImage: Record<string, unknown>, userIdentity?: { type: string; principalId: string }, sequenceNumber = '100') => ({
+  eventName: 'REMOVE',
+  userIdentity,
+  dynamodb: { OldImage: marshall(oldImage), SequenceNumber: sequenceNumber }
+});
+
+describe('ReservationExpiry Handler', () => {
+  let handler: (event: DynamoDBStreamEvent) => Promise<DynamoDBBatchResponse>;
+  const ttlIdentity = { type: 'Service', principalId: 'dynamodb.amazonaws.com' };
+
+  beforeEach(async () => {
+    process.env.FAMILIES_TABLE_NAME = 'test-families-table';
+    process.env.TOKEN_LEDGER_TABLE_NAME = 'test-token-ledger-table';
+    jest.resetModules();
+    handler = (await import('./reservationExpiry')).handler;
+    mockCreditExpiredReservation.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.FAMILIES_TABLE_NAME;
+    delete process.env.TOKEN_LEDGER_TABLE_NAME;
+    jest.restoreAllMocks();
+  });
+
+  test('should credit reservations removed by TTL', async () => {
+    const response = await handler({ Records: [createRecord(reservation, ttlIdentity)] } as unknown as DynamoDBStreamEvent);
+
+    expect(mockCreditExpiredReservation).toHaveBeenCalledWith(reservation);
+    expect(response).toEqual({ batchItemFailures: [] });
+  });
+
+  test('should report the first record that fails and stop there', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const second = { ...reservation, entryId: 'RESERVATION#req-2', requestId: 'req-2' };
+    const third = { ...reservation, entryId: 'RESERVATION#req-3', requestId: 'req-3' };
+    mockCreditExpiredReservation.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Throttled'));
+
+    const response = await handler({
+      Records: [
+        createRecord(reservation, ttlIdentity, '100'),
+        createRecord(second, ttlIdentity, '200'),
+        createRecord(third, ttlIdentity, '300')
+      ]
+    } as unknown as DynamoDBStreamEvent);
+
+    expect(response).toEqual({ batchItemFailures: [{ itemIdentifier: '200' }] });
+    expect(mockCreditExpiredReservation).toHaveBeenCalledTimes(2);
+  });
+
+  test('should ignore reservations deleted by settle or release', async () => {
+    await handler({ Records: [createRecord(reservation)] } as unknown as DynamoDBStreamEvent);
+
+    expect(mockCreditExpiredReservation).not.toHaveBeenCalled();
+  });
+
+  test('should ignore expired ledger entries', async () => {
+    const ledgerEntry = { familyId: reservation.familyId, entryId: '2024-01-01T00:00:00.000Z#req-1', billedTokens: 10 };
+
+    await handler({ Records: [createRecord(ledgerEntry, ttlIdentity)] } as unknown as DynamoDBStreamEvent);
+
+    expect(mockCreditExpiredReservation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { DynamoDBBatchResponse, DynamoDBStreamEvent } from 'aws-lambda';
+import { AttributeValue, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { TokenReservation } from '@kinable/common-types';
+import { TokenLedger, RESERVATION_ENTRY_PREFIX } from '../billing/TokenLedger';
+
+const FAMILIES_TABLE_ENV = process.env.FAMILIES_TABLE_NAME;
+const TOKEN_LEDGER_TABLE_ENV = process.env.TOKEN_LEDGER_TABLE_NAME;
+const SERVICE_REGION_ENV = process.env.AWS_REGION || 'us-east-2';
+
+// DynamoDB identifies deletions made by the TTL process with this principal
+const TTL_PRINCIPAL_ID = 'dynamodb.amazonaws.com';
+
+let tokenLedger: TokenLedger;
+
+/**
+ * Credits families for token reservations that expired without being settled or released,
+ * e.g. because the chat Lambda timed out. Triggered by the TokenLedger table stream.
+ *
+ * Crediting is idempotent, so records are safe to retry. Stream records are retried from the
+ * first one reported as failed, so processing stops there and the rest of the batch is retried with it.
+ */
+export const handler = async (event: DynamoDBStreamEvent): Promise<DynamoDBBatchResponse> => {
+  if (!FAMILIES_TABLE_ENV || !TOKEN_LEDGER_TABLE_ENV) {
+    throw new Error('Missing required environment variables: FAMILIES_TABLE_NAME or TOKEN_LEDGER_TABLE_NAME');
+  }
+  if (!tokenLedger) {
+    const ddbDocClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region: SERVICE_REGION_ENV }));
+    tokenLedger = new TokenLedger(ddbDocClient, FAMILIES_TABLE_ENV, TOKEN_LEDGER_TABLE_ENV);
+  }
+
+  for (const record of event.Records) {
+    // Only TTL deletions: settled and released reservations are deleted by the service itself
+    const isTtlDeletion = record.eventName === 'REMOVE' &&
+      record.userIdentity?.type === 'Service' &&
+      record.userIdentity?.principalId === TTL_PRINCIPAL_ID;
+    if (!isTtlDeletion || !record.dynamodb?.OldImage) {
+      continue;
+    }
+
+    const item = unmarshall(record.dynamodb.OldImage as Record<string, AttributeValue>);
+    if (typeof item.entryId !== 'string' || !item.entryId.startsWith(RESERVATION_ENTRY_PREFIX)) {
+      continue;
+    }
+
+    try {
+      await tokenLedger.creditExpiredReservation(item as TokenReservation);
+    } catch (error) {
+      console.error(`[ReservationExpiry] Failed to credit expired reservation ${item.entryId}:`, error);
+      return { batchItemFailures: [{ itemIdentifier: record.dynamodb.SequenceNumber! }] };
+    }
+  }
+  return { batchItemFailures: [] };
+};
@@ -0,0 +1,47 @@
+import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { ModerationLogEntry } from '@kinable/common-types';
+
+const DEFAULT_LOG_TTL_SECONDS = 60 * 60 * 24 * 90; // Keep moderation events for 90 days
+
+/**
+ * Where blocked prompts and responses are recorded.
+ */
+export interface ModerationLogStore {
+  record(entry: ModerationLogEntry): Promise<void>;
+}
+
+/**
+ * Writes moderation events to the ModerationLog DynamoDB table.
+ */
+export class DynamoDBModerationLog implements ModerationLogStore {
+  private ddbDocClient: DynamoDBDocumentClient;
+  private tableName: string;
+  private ttlSeconds: number;
+
+  constructor(ddbDocClient: DynamoDBDocumentClient, tableName: string, ttlSeconds: number = DEFAULT_LOG_TTL_SECONDS) {
+    this.ddbDocClient = ddbDocClient;
+    this.tableName = tableName;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  public async record(entry: ModerationLogEntry): Promise<void> {
+    await this.ddbDocClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        ...entry,
+        ttl: entry.ttl ?? Math.floor(Date.now() / 1000) + this.ttlSeconds,
+      },
+    }));
+  }
+}
+
+/**
+ * Keeps moderation events in memory. Used for local runs and tests where no table is configured.
+ */
+export class InMemoryModerationLog implements ModerationLogStore {
+  public readonly entries: ModerationLogEntry[] = [];
+
+  public async record(entry: ModerationLogEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+}
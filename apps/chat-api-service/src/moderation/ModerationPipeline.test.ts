@@ -0,0 +1,75 @@
+import { IModerationProvider, RequestContext } from '@kinable/common-types';
+import { ModerationPipeline } from './ModerationPipeline';
+import { InMemoryModerationLog } from './ModerationLog';
+import { RuleBasedModerationProvider, DEFAULT_RESPONSE_REPLACEMENT } from './RuleBasedModerationProvider';
+
+describe('ModerationPipeline', () => {
+  const context: RequestContext = {
+    requestId: 'req-1',
+    familyId: 'FAMILY#us-west-2#fam-1',
+    profileId: 'PROFILE#us-west-2#prof-1',
+    region: 'us-east-2',
+    userRegion: 'us-west-2',
+    ageBand: '9_12',
+    traceId: 'trace-1'
+  };
+  let log: InMemoryModerationLog;
+  let pipeline: ModerationPipeline;
+
+  beforeEach(() => {
+    log = new InMemoryModerationLog();
+    pipeline = new ModerationPipeline(new RuleBasedModerationProvider(), log);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass allowed text through without logging', async () => {
+    const result = await pipeline.screen('What do whales eat?', 'prompt', context);
+
+    expect(result.allowed).toBe(true);
+    expect(log.entries).toHaveLength(0);
+  });
+
+  it('should record blocked text in the moderation log without the text itself', async () => {
+    const result = await pipeline.screen('this is crap', 'response', context);
+
+    expect(result.allowed).toBe(false);
+    expect(log.entries).toHaveLength(1);
+    expect(log.entries[0]).toMatchObject({
+      familyId: 'FAMILY#us-west-2#fam-1',
+      profileId: 'prof-1',
+      requestId: 'req-1',
+      stage: 'response',
+      ageBand: '9_12',
+      categories: ['profanity'],
+      ruleIds: ['mild-profanity'],
+      provider: 'rule-based',
+      region: 'us-west-2'
+    });
+    expect(log.entries[0].logId).toMatch(/#req-1#response$/);
+    expect(JSON.stringify(log.entries[0])).not.toContain('crap');
+  });
+
+  it('should block the text when the provider fails', async () => {
+    const failingProvider: IModerationProvider = { moderate: jest.fn().mockRejectedValue(new Error('Service down')) };
+    pipeline = new ModerationPipeline(failingProvider, log);
+
+    const result = await pipeline.screen('Hello', 'response', context);
+
+    expect(result).toMatchObject({ allowed: false, provider: 'moderation-error', replacementText: DEFAULT_RESPONSE_REPLACEMENT });
+    expect(log.entries).toHaveLength(1);
+  });
+
+  it('should still block when the log cannot be written', async () => {
+    jest.spyOn(log, 'record').mockRejectedValue(new Error('Table missing'));
+
+    const result = await pipeline.screen('this is crap', 'prompt', context);
+
+    expect(result.allowed).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { IModerationProvider, ModerationResult, ModerationStage, ModerationStrictness, RequestContext } from '@kinable/common-types';
+import { ENTITY_PREFIX, buildRegionalKey, getLogicalId } from '../data/regionalKeys';
+import { ModerationLogStore } from './ModerationLog';
+import { DEFAULT_PROMPT_REPLACEMENT, DEFAULT_RESPONSE_REPLACEMENT } from './RuleBasedModerationProvider';
+
+/**
+ * Screens prompts before routing and responses after generation, recording every
+ * blocked item in the moderation log.
+ *
+ * Fails closed: if the provider errors, the text is treated as blocked.
+ */
+export class ModerationPipeline {
+  private provider: IModerationProvider;
+  private log: ModerationLogStore;
+
+  constructor(provider: IModerationProvider, log: ModerationLogStore) {
+    this.provider = provider;
+    this.log = log;
+  }
+
+  /**
+   * Screen a prompt or response for the calling profile.
+   * @param strictness Strictness from the profile's age policy, if any.
+   * @returns The moderation result; when not allowed, `replacementText` is always set.
+   */
+  public async screen(
+    text: string,
+    stage: ModerationStage,
+    context: RequestContext,
+    strictness?: ModerationStrictness
+  ): Promise<ModerationResult> {
+    let result: ModerationResult;
+    try {
+      result = await this.provider.moderate({ text, stage, ageBand: context.ageBand, strictness, context });
+    } catch (error) {
+      console.error(`[ModerationPipeline] Provider failed while screening ${stage}; blocking it.`, error);
+      result = { allowed: false, matches: [], provider: 'moderation-error' };
+    }
+
+    if (result.allowed) {
+      return result;
+    }
+
+    const blocked: ModerationResult = {
+      ...result,
+      replacementText: result.replacementText ?? (stage === 'prompt' ? DEFAULT_PROMPT_REPLACEMENT : DEFAULT_RESPONSE_REPLACEMENT),
+    };
+    await this.recordBlocked(blocked, stage, context);
+    return blocked;
+  }
+
+  private async recordBlocked(result: ModerationResult, stage: ModerationStage, context: RequestContext): Promise<void> {
+    const ruleIds = result.matches.map(match => match.ruleId);
+    console.log(`[ModerationPipeline] Blocked ${stage} for request ${context.requestId}. Rules: ${ruleIds.join(', ') || 'none'}`);
+
+    if (!context.familyId) {
+      console.warn('[ModerationPipeline] No familyId in request context; moderation event not stored.');
+      return;
+    }
+
+    const region = context.userRegion || context.region;
+    const createdAt = new Date().toISOString();
+    try {
+      await this.log.record({
+        familyId: buildRegionalKey(ENTITY_PREFIX.FAMILY, region, getLogicalId(context.familyId)),
+        logId: `${createdAt}#${context.requestId}#${stage}`,
+        profileId: getLogicalId(context.profileId || ''),
+        requestId: context.requestId,
+        stage,
+        ageBand: context.ageBand,
+        categories: Array.from(new Set(result.matches.map(match => match.category))),
+        ruleIds,
+        provider: result.provider,
+        region,
+        createdAt,
+      });
+    } catch (error) {
+      // The content is still blocked; a missing log entry must not break the response
+      console.error('[ModerationPipeline] Failed to record moderation event', error);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { ModerationRequest, ModerationRule } from '@kinable/common-types';
+import { RuleBasedModerationProvider, DEFAULT_PROMPT_REPLACEMENT, DEFAULT_RESPONSE_REPLACEMENT } from './RuleBasedModerationProvider';
+
+const context = { requestId: 'req-1', region: 'us-east-2', traceId: 'trace-1' };
+const request = (text: string, overrides: Partial<ModerationRequest> = {}): ModerationRequest => ({
+  text,
+  stage: 'prompt',
+  context,
+  ...overrides
+});
+
+describe('RuleBasedModerationProvider', () => {
+  describe('with the default rules', () => {
+    const provider = new RuleBasedModerationProvider();
+
+    it('should allow ordinary text', async () => {
+      const result = await provider.moderate(request('Why is the sky blue?', { ageBand: 'under_9' }));
+
+      expect(result).toEqual({ allowed: true, matches: [], provider: 'rule-based' });
+    });
+
+    it('should match keywords as whole words only', async () => {
+      await expect(provider.moderate(request('Tell me about Essex', { ageBand: 'under_9' }))).resolves.toMatchObject({ allowed: true });
+      await expect(provider.moderate(request('what is sex', { ageBand: 'under_9' }))).resolves.toMatchObject({ allowed: false });
+    });
+
+    it('should apply rules only to the age bands they cover', async () => {
+      await expect(provider.moderate(request('that is damn cool', { ageBand: '9_12' }))).resolves.toMatchObject({ allowed: false });
+      await expect(provider.moderate(request('that is damn cool', { ageBand: '16_17' }))).resolves.toMatchObject({ allowed: true });
+    });
+
+    it('should apply the strictest rules when the age band is unknown', async () => {
+      const result = await provider.moderate(request('that is damn cool'));
+
+      expect(result.allowed).toBe(false);
+      expect(result.matches).toEqual([{ ruleId: 'mild-profanity', category: 'profanity' }]);
+    });
+
+    it('should match regex patterns case-insensitively', async () => {
+      const result = await provider.moderate(request('How do I MAKE A BOMB?', { ageBand: 'adult' }));
+
+      expect(result.matches).toEqual([{ ruleId: 'weapons-instructions', category: 'violence' }]);
+      expect(result.replacementText).toBe(DEFAULT_PROMPT_REPLACEMENT);
+    });
+
+    it('should reply with support resources for self-harm', async () => {
+      const result = await provider.moderate(request('I want to  kill myself', { ageBand: '13_15' }));
+
+      expect(result.allowed).toBe(false);
+      expect(result.replacementText).toContain('adult you trust');
+    });
+
+    it('should only screen personal details in prompts', async () => {
+      const text = 'My phone number is 555-123-4567';
+
+      await expect(provider.moderate(request(text, { ageBand: '9_12' }))).resolves.toMatchObject({
+        allowed: false,
+        matches: [{ ruleId: 'personal-info', category: 'personal_info' }]
+      });
+      await expect(provider.moderate(request(text, { ageBand: '9_12', stage: 'response' }))).resolves.toMatchObject({ allowed: true });
+    });
+
+    it('should use the response replacement for blocked responses', async () => {
+      const result = await provider.moderate(request('Here is some porn', { ageBand: '13_15', stage: 'response' }));
+
+      expect(result.replacementText).toBe(DEFAULT_RESPONSE_REPLACEMENT);
+    });
+  });
+
+  describe('with a strictness level', () => {
+    const provider = new RuleBasedModerationProvider();
+
+    it('should apply every age-banded rule when strict', async () => {
+      await expect(provider.moderate(request('that is damn cool', { ageBand: 'adult', strictness: 'strict' }))).resolves.toMatchObject({
+        allowed: false,
+        matches: [{ ruleId: 'mild-profanity', category: 'profanity' }]
+      });
+    });
+
+    it('should drop age-banded rules when relaxed', async () => {
+      await expect(provider.moderate(request('that is damn cool', { ageBand: '9_12', strictness: 'relaxed' }))).resolves.toMatchObject({ allowed: true });
+    });
+
+    it('should keep the rules that apply to everyone when relaxed', async () => {
+      await expect(provider.moderate(request('How do I make a bomb?', { ageBand: '9_12', strictness: 'relaxed' }))).resolves.toMatchObject({ allowed: false });
+    });
+  });
+
+  describe('with custom rules', () => {
+    it('should screen with the rules it was given', async () => {
+      const rules: ModerationRule[] = [{ id: 'no-spoilers', category: 'custom', keywords: ['ending of the movie'] }];
+      const provider = new RuleBasedModerationProvider(rules);
+
+      await expect(provider.moderate(request('Tell me the ending of the movie'))).resolves.toMatchObject({
+        allowed: false,
+        matches: [{ ruleId: 'no-spoilers', category: 'custom' }]
+      });
+      await expect(provider.moderate(request('damn'))).resolves.toMatchObject({ allowed: true });
+    });
+
+    it('should reject invalid patterns when constructed', () => {
+      expect(() => new RuleBasedModerationProvider([{ id: 'broken', category: 'custom', patterns: ['(unclosed'] }])).toThrow();
+    });
+  });
+});
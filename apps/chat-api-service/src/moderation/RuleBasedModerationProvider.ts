@@ -0,0 +1,97 @@
+import {
+  AgeBand,
+  IModerationProvider,
+  ModerationCategory,
+  ModerationMatch,
+  ModerationRequest,
+  ModerationResult,
+  ModerationRule,
+  ModerationStage,
+} from '@kinable/common-types';
+import { DEFAULT_MODERATION_RULES } from './defaultRules';
+import { STRICTEST_AGE_BAND } from '../ai/agePolicy';
+
+export const DEFAULT_PROMPT_REPLACEMENT = "Let's talk about something else! I can't help with that, but I'd love to help with a different question.";
+export const DEFAULT_RESPONSE_REPLACEMENT = "Sorry, I can't share that answer. Let's try a different question!";
+
+// Replacements for categories that need a specific message, in priority order
+const CATEGORY_REPLACEMENTS: Array<{ category: ModerationCategory; text: string }> = [
+  {
+    category: 'self_harm',
+    text: "It sounds like you might be going through something really hard. Please talk to a parent, teacher or another adult you trust right away. You don't have to handle this alone.",
+  },
+  {
+    category: 'personal_info',
+    text: "For your safety, please don't share personal details like phone numbers, email or home addresses here.",
+  },
+];
+
+interface CompiledRule {
+  rule: ModerationRule;
+  expressions: RegExp[];
+}
+
+/**
+ * Moderation provider that screens text against keyword lists and regex patterns,
+ * applying only the rules that cover the profile's age band. Runs entirely offline.
+ *
+ * Rules for the youngest band apply when the age band is unknown or strictness is 'strict';
+ * 'relaxed' keeps only the rules that apply to every band.
+ */
+export class RuleBasedModerationProvider implements IModerationProvider {
+  private compiledRules: CompiledRule[];
+
+  /**
+   * @param rules Rules to screen with. Invalid regex patterns throw here rather than at request time.
+   */
+  constructor(rules: ModerationRule[] = DEFAULT_MODERATION_RULES) {
+    this.compiledRules = rules.map(rule => ({ rule, expressions: compileRule(rule) }));
+  }
+
+  public async moderate(request: ModerationRequest): Promise<ModerationResult> {
+    const strictness = request.strictness ?? 'standard';
+    const ageBand = strictness === 'strict' ? STRICTEST_AGE_BAND : request.ageBand ?? STRICTEST_AGE_BAND;
+    const matches: ModerationMatch[] = this.compiledRules
+      .filter(({ rule }) => strictness !== 'relaxed' || !rule.ageBands)
+      .filter(({ rule }) => appliesTo(rule, ageBand, request.stage))
+      .filter(({ expressions }) => expressions.some(expression => expression.test(request.text)))
+      .map(({ rule }) => ({ ruleId: rule.id, category: rule.category }));
+
+    if (matches.length === 0) {
+      return { allowed: true, matches, provider: 'rule-based' };
+    }
+    return {
+      allowed: false,
+      matches,
+      replacementText: selectReplacement(matches, request.stage),
+      provider: 'rule-based',
+    };
+  }
+}
+
+function compileRule(rule: ModerationRule): RegExp[] {
+  const expressions = (rule.patterns ?? []).map(pattern => new RegExp(pattern, 'i'));
+  if (rule.keywords && rule.keywords.length > 0) {
+    // Whole words only, so 'sex' does not match 'Essex'; spaces inside a keyword match any whitespace
+    const alternatives = rule.keywords.map(keyword => escapeRegExp(keyword.trim()).replace(/\s+/g, '\\s+'));
+    expressions.push(new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'i'));
+  }
+  return expressions;
+}
+
+function appliesTo(rule: ModerationRule, ageBand: AgeBand, stage: ModerationStage): boolean {
+  return (!rule.ageBands || rule.ageBands.includes(ageBand)) &&
+    (!rule.stages || rule.stages.includes(stage));
+}
+
+function selectReplacement(matches: ModerationMatch[], stage: ModerationStage): string {
+  const specific = CATEGORY_REPLACEMENTS.find(({ category }) => matches.some(match => match.category === category));
+  if (specific) {
+    return specific.text;
+  }
+  return stage === 'prompt' ? DEFAULT_PROMPT_REPLACEMENT : DEFAULT_RESPONSE_REPLACEMENT;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
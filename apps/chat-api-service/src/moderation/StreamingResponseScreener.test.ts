@@ -0,0 +1,67 @@
+import { RequestContext } from '@kinable/common-types';
+import { ModerationPipeline } from './ModerationPipeline';
+import { InMemoryModerationLog } from './ModerationLog';
+import { RuleBasedModerationProvider, DEFAULT_RESPONSE_REPLACEMENT } from './RuleBasedModerationProvider';
+import { StreamingResponseScreener } from './StreamingResponseScreener';
+
+describe('StreamingResponseScreener', () => {
+  const context: RequestContext = {
+    requestId: 'req-1',
+    familyId: 'FAMILY#us-west-2#fam-1',
+    profileId: 'PROFILE#us-west-2#prof-1',
+    region: 'us-east-2',
+    userRegion: 'us-west-2',
+    ageBand: '9_12',
+    traceId: 'trace-1'
+  };
+  let log: InMemoryModerationLog;
+  let screener: StreamingResponseScreener;
+
+  beforeEach(() => {
+    log = new InMemoryModerationLog();
+    screener = new StreamingResponseScreener(new ModerationPipeline(new RuleBasedModerationProvider(), log), context);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should hold text back until its sentence is complete', async () => {
+    expect(await screener.push('Whales eat')).toEqual({ allowed: true, text: '' });
+    expect(await screener.push(' krill. They')).toEqual({ allowed: true, text: 'Whales eat krill. ' });
+    expect(await screener.flush()).toEqual({ allowed: true, text: 'They' });
+    expect(screener.text).toBe('Whales eat krill. They');
+  });
+
+  it('should release long text without punctuation at a word boundary', async () => {
+    const words = 'word '.repeat(50);
+
+    const screened = await screener.push(`${words}unfinis`);
+
+    expect(screened).toEqual({ allowed: true, text: words });
+  });
+
+  it('should block a sentence before it is sent and stay blocked', async () => {
+    await screener.push('Here you go. ');
+
+    expect(await screener.push('Oh crap! ')).toEqual({ allowed: false, replacementText: DEFAULT_RESPONSE_REPLACEMENT });
+    expect(await screener.push('More text. ')).toEqual({ allowed: false, replacementText: DEFAULT_RESPONSE_REPLACEMENT });
+    expect(await screener.flush()).toEqual({ allowed: false, replacementText: DEFAULT_RESPONSE_REPLACEMENT });
+    expect(screener.text).toBe(DEFAULT_RESPONSE_REPLACEMENT);
+    expect(log.entries).toHaveLength(1);
+  });
+
+  it('should catch a word split across chunks', async () => {
+    await screener.push('Oh cr');
+    await screener.push('ap');
+
+    expect(await screener.flush()).toMatchObject({ allowed: false });
+  });
+
+  it('should block text that only matches together with what was already sent', async () => {
+    expect(await screener.push('I want to make a\n')).toMatchObject({ allowed: true });
+
+    expect(await screener.push('bomb.\n')).toMatchObject({ allowed: false });
+  });
+});
@@ -0,0 +1,85 @@
+import { ModerationStrictness, RequestContext } from '@kinable/common-types';
+import { ModerationPipeline } from './ModerationPipeline';
+
+// Text held back longer than this is screened at its last space, so a reply without punctuation still streams
+const MAX_PENDING_CHARS = 200;
+const SENTENCE_END = /[.!?\n]\s+|\n/g;
+
+export type ScreenedText =
+  | { allowed: true; text: string }              // Text cleared for sending; may be empty
+  | { allowed: false; replacementText: string }; // The response is blocked; send this instead of anything sent so far
+
+/**
+ * Screens a streamed response as it arrives, so text reaches the client only after it has passed
+ * moderation. Text is released a sentence at a time, and each check covers everything released so far
+ * plus the new sentence, so the final check is the same as screening the whole response.
+ * Once the response is blocked, it stays blocked.
+ */
+export class StreamingResponseScreener {
+  private pipeline: ModerationPipeline;
+  private context: RequestContext;
+  private strictness?: ModerationStrictness;
+  private released = '';
+  private pending = '';
+  private blocked?: string;
+
+  constructor(pipeline: ModerationPipeline, context: RequestContext, strictness?: ModerationStrictness) {
+    this.pipeline = pipeline;
+    this.context = context;
+    this.strictness = strictness;
+  }
+
+  /**
+   * The text that passed screening, i.e. what the client has been sent.
+   */
+  public get text(): string {
+    return this.blocked ?? this.released;
+  }
+
+  /**
+   * Add a chunk of the response.
+   * @returns The complete sentences it finished, once they pass screening.
+   */
+  public async push(chunk: string): Promise<ScreenedText> {
+    if (this.blocked !== undefined) {
+      return { allowed: false, replacementText: this.blocked };
+    }
+    this.pending += chunk;
+    const cut = releasePoint(this.pending);
+    return cut > 0 ? this.release(cut) : { allowed: true, text: '' };
+  }
+
+  /**
+   * Screen whatever is still held back, once the response is complete.
+   */
+  public async flush(): Promise<ScreenedText> {
+    if (this.blocked !== undefined) {
+      return { allowed: false, replacementText: this.blocked };
+    }
+    return this.pending ? this.release(this.pending.length) : { allowed: true, text: '' };
+  }
+
+  private async release(cut: number): Promise<ScreenedText> {
+    const text = this.pending.slice(0, cut);
+    const check = await this.pipeline.screen(this.released + text, 'response', this.context, this.strictness);
+    if (!check.allowed) {
+      this.blocked = check.replacementText || '';
+      return { allowed: false, replacementText: this.blocked };
+    }
+    this.released += text;
+    this.pending = this.pending.slice(cut);
+    return { allowed: true, text };
+  }
+}
+
+// End of the last complete sentence in the text, or of its last word once too much is held back; 0 for none
+function releasePoint(text: string): number {
+  let end = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    end = match.index! + match[0].length;
+  }
+  if (end === 0 && text.length > MAX_PENDING_CHARS) {
+    end = text.lastIndexOf(' ') + 1;
+  }
+  return end;
+}
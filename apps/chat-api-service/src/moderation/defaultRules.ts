@@ -0,0 +1,66 @@
+import { AgeBand, ModerationRule } from '@kinable/common-types';
+
+const CHILD_BANDS: AgeBand[] = ['under_9', '9_12', '13_15', '16_17'];
+const YOUNG_CHILD_BANDS: AgeBand[] = ['under_9', '9_12'];
+
+/**
+ * Built-in rules for the rule-based moderation provider.
+ * Kept deliberately small, as every rule applies to every family.
+ */
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+  {
+    id: 'self-harm',
+    category: 'self_harm',
+    keywords: ['kill myself', 'killing myself', 'suicide', 'self harm', 'self-harm', 'cut myself', 'want to die', 'end my life'],
+  },
+  {
+    id: 'weapons-instructions',
+    category: 'violence',
+    patterns: [
+      '\\b(make|build|create)\\s+(a\\s+|an\\s+)?(bomb|explosive|pipe\\s*bomb)s?\\b',
+      '\\b(buy|get)\\s+(a\\s+)?gun\\s+without\\b',
+    ],
+  },
+  {
+    id: 'graphic-violence',
+    category: 'violence',
+    keywords: ['gore', 'beheading', 'dismember'],
+    ageBands: ['under_9', '9_12', '13_15'],
+  },
+  {
+    id: 'explicit-sexual',
+    category: 'sexual',
+    keywords: ['porn', 'pornography', 'nudes', 'xxx', 'hentai', 'onlyfans'],
+    ageBands: CHILD_BANDS,
+  },
+  {
+    id: 'sexual-general',
+    category: 'sexual',
+    keywords: ['sex', 'sexy', 'naked'],
+    ageBands: YOUNG_CHILD_BANDS,
+  },
+  {
+    id: 'strong-profanity',
+    category: 'profanity',
+    keywords: ['cunt', 'motherfucker', 'asshole', 'bitch', 'bastard'],
+    patterns: ['\\bf+u+c+k+\\w*', '\\bsh[i1]+t+\\w*'],
+    ageBands: CHILD_BANDS,
+  },
+  {
+    id: 'mild-profanity',
+    category: 'profanity',
+    keywords: ['damn', 'crap', 'piss'],
+    ageBands: YOUNG_CHILD_BANDS,
+  },
+  {
+    id: 'personal-info',
+    category: 'personal_info',
+    patterns: [
+      '\\b\\d{3}[-.\\s]?\\d{3}[-.\\s]?\\d{4}\\b',         // Phone numbers
+      '\\b[\\w.+-]+@[\\w-]+\\.[\\w.-]+\\b',               // Email addresses
+      '\\bmy\\s+(home\\s+)?address\\s+is\\b',
+    ],
+    ageBands: CHILD_BANDS,
+    stages: ['prompt'],
+  },
+];
@@ -0,0 +1,26 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { ModerationPipeline } from './ModerationPipeline';
+import { DynamoDBModerationLog, InMemoryModerationLog, ModerationLogStore } from './ModerationLog';
+import { RuleBasedModerationProvider } from './RuleBasedModerationProvider';
+
+export { ModerationPipeline } from './ModerationPipeline';
+export { RuleBasedModerationProvider } from './RuleBasedModerationProvider';
+export { StreamingResponseScreener } from './StreamingResponseScreener';
+export type { ScreenedText } from './StreamingResponseScreener';
+export { DynamoDBModerationLog, InMemoryModerationLog } from './ModerationLog';
+export type { ModerationLogStore } from './ModerationLog';
+
+/**
+ * Create the moderation pipeline with the built-in rules.
+ * Without a log table the events are kept in memory, so the pipeline also runs offline.
+ */
+export function createModerationPipeline(ddbDocClient?: DynamoDBDocumentClient, logTableName?: string): ModerationPipeline {
+  let log: ModerationLogStore;
+  if (ddbDocClient && logTableName) {
+    log = new DynamoDBModerationLog(ddbDocClient, logTableName);
+  } else {
+    console.warn('[ModerationPipeline] No moderation log table configured; keeping moderation events in memory.');
+    log = new InMemoryModerationLog();
+  }
+  return new ModerationPipeline(new RuleBasedModerationProvider(), log);
+}
@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageAlert } from '@kinable/common-types';
+import { FileNotifier } from './Notifier';
+
+const alert: UsageAlert = {
+  kind: 'PROFILE_QUOTA',
+  familyId: 'fam-1',
+  profileId: 'prof-1',
+  window: 'daily',
+  period: 'DAY#2026-10-19',
+  threshold: 90,
+  usedTokens: 900,
+  limitTokens: 1000,
+  remainingTokens: 100,
+  createdAt: '2026-10-19T18:00:00.000Z'
+};
+
+describe('FileNotifier', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kinable-notifier-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append each alert as a JSON line', async () => {
+    const filePath = path.join(dir, 'alerts.jsonl');
+    const notifier = new FileNotifier(filePath);
+
+    await notifier.notify(alert);
+    await notifier.notify({ ...alert, threshold: 100 });
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([alert, { ...alert, threshold: 100 }]);
+  });
+});
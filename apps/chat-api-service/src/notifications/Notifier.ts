@@ -0,0 +1,28 @@
+import { promises as fs } from 'fs';
+import { INotifier, UsageAlert } from '@kinable/common-types';
+
+/**
+ * Keeps alerts in memory. Used for tests and local runs where no delivery channel is configured.
+ */
+export class InMemoryNotifier implements INotifier {
+  public readonly alerts: UsageAlert[] = [];
+
+  public async notify(alert: UsageAlert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+/**
+ * Appends alerts to a file as JSON lines, so local runs can see what guardians would be sent.
+ */
+export class FileNotifier implements INotifier {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async notify(alert: UsageAlert): Promise<void> {
+    await fs.appendFile(this.filePath, `${JSON.stringify(alert)}\n`, 'utf8');
+  }
+}
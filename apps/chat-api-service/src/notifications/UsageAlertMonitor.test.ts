@@ -0,0 +1,133 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { InMemoryNotifier } from "./Notifier";
+import { UsageAlertMonitor, reachedThreshold } from "./UsageAlertMonitor";
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const baseDdbClient = new DynamoDBClient({ region: "us-east-1" });
+
+const conditionalCheckFailure = () => Object.assign(new Error("The conditional request failed"), { name: "ConditionalCheckFailedException" });
+
+describe("UsageAlertMonitor", () => {
+    const ledgerTable = "TestTokenLedgerTable";
+    const familyKey = "FAMILY#us-east-2#fam-1";
+    const at = new Date("2026-10-19T18:00:00.000Z");
+    let notifier: InMemoryNotifier;
+    let monitor: UsageAlertMonitor;
+
+    beforeEach(() => {
+        ddbMock.reset();
+        notifier = new InMemoryNotifier();
+        monitor = new UsageAlertMonitor(DynamoDBDocumentClient.from(baseDdbClient), ledgerTable, notifier);
+        jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("reachedThreshold", () => {
+        it("should return the highest threshold the usage reached", () => {
+            expect(reachedThreshold([50, 75, 90, 100], 760, 1000)).toBe(75);
+            expect(reachedThreshold([50, 75, 90, 100], 1000, 1000)).toBe(100);
+            expect(reachedThreshold([50, 75, 90, 100], 499, 1000)).toBeNull();
+            expect(reachedThreshold([50, 75, 90, 100], 0, 0)).toBeNull();
+        });
+    });
+
+    describe("family balance", () => {
+        it("should alert once the balance falls past a threshold of the month's starting balance", async () => {
+            ddbMock.on(UpdateCommand)
+                .resolvesOnce({ Attributes: { baselineTokens: 10000, notifiedThreshold: 50 } })
+                .resolves({});
+
+            const alert = await monitor.checkFamilyBalance("fam-1", "us-east-2", 900, 200, at);
+
+            expect(alert).toEqual({
+                kind: "FAMILY_BALANCE",
+                familyId: "fam-1",
+                period: "MONTH#2026-10",
+                threshold: 90,
+                usedTokens: 9100,
+                limitTokens: 10000,
+                remainingTokens: 900,
+                createdAt: at.toISOString(),
+            });
+            expect(notifier.alerts).toEqual([alert]);
+            const [baseline, claim] = ddbMock.commandCalls(UpdateCommand).map(call => call.args[0].input);
+            expect(baseline).toMatchObject({
+                Key: { familyId: familyKey, entryId: "ALERT#FAMILY#MONTH#2026-10" },
+                UpdateExpression: expect.stringContaining("if_not_exists(baselineTokens, :baseline)"),
+                ExpressionAttributeValues: expect.objectContaining({ ":baseline": 1100 }),
+            });
+            expect(claim).toMatchObject({
+                ConditionExpression: "attribute_not_exists(notifiedThreshold) OR notifiedThreshold < :threshold",
+                ExpressionAttributeValues: expect.objectContaining({ ":threshold": 90 }),
+            });
+        });
+
+        it("should not alert again for a threshold already sent this month", async () => {
+            ddbMock.on(UpdateCommand).resolves({ Attributes: { baselineTokens: 10000, notifiedThreshold: 90 } });
+
+            const alert = await monitor.checkFamilyBalance("fam-1", "us-east-2", 800, 100, at);
+
+            expect(alert).toBeNull();
+            expect(notifier.alerts).toHaveLength(0);
+            expect(ddbMock).toHaveReceivedCommandTimes(UpdateCommand, 1);
+        });
+
+        it("should leave the alert to the request that claimed the threshold first", async () => {
+            ddbMock.on(UpdateCommand)
+                .resolvesOnce({ Attributes: { baselineTokens: 10000 } })
+                .rejects(conditionalCheckFailure());
+
+            const alert = await monitor.checkFamilyBalance("fam-1", "us-east-2", 4000, 100, at);
+
+            expect(alert).toBeNull();
+            expect(notifier.alerts).toHaveLength(0);
+        });
+
+        it("should start over from a top-up that lifts the balance above the baseline", async () => {
+            ddbMock.on(UpdateCommand)
+                .resolvesOnce({ Attributes: { baselineTokens: 1000, notifiedThreshold: 100 } })
+                .resolvesOnce({ Attributes: { baselineTokens: 20000 } })
+                .resolves({});
+
+            const alert = await monitor.checkFamilyBalance("fam-1", "us-east-2", 19900, 100, at);
+
+            expect(alert).toBeNull();
+            const raise = ddbMock.commandCalls(UpdateCommand)[1].args[0].input;
+            expect(raise).toMatchObject({
+                UpdateExpression: expect.stringContaining("REMOVE notifiedThreshold"),
+                ConditionExpression: "baselineTokens < :baseline",
+                ExpressionAttributeValues: expect.objectContaining({ ":baseline": 20000 }),
+            });
+        });
+    });
+
+    describe("profile quota", () => {
+        it("should alert per window and key the state by the window's period", async () => {
+            ddbMock.on(UpdateCommand).resolves({});
+
+            const alerts = await monitor.checkProfileQuota("fam-1", "prof-1", "us-east-2", { daily: 1000, monthly: 20000 }, { daily: 1000, monthly: 9000 }, at);
+
+            expect(alerts.map(alert => [alert.window, alert.threshold, alert.remainingTokens])).toEqual([["daily", 100, 0]]);
+            expect(alerts[0]).toMatchObject({ kind: "PROFILE_QUOTA", profileId: "prof-1", period: "DAY#2026-10-19" });
+            expect(ddbMock).toHaveReceivedCommandWith(UpdateCommand, {
+                Key: { familyId: familyKey, entryId: "ALERT#prof-1#DAY#2026-10-19" },
+            });
+            expect(ddbMock).toHaveReceivedCommandTimes(UpdateCommand, 1);
+        });
+
+        it("should skip a threshold that was already sent", async () => {
+            ddbMock.on(UpdateCommand).rejects(conditionalCheckFailure());
+
+            const alerts = await monitor.checkProfileQuota("fam-1", "prof-1", "us-east-2", { daily: 1000 }, { daily: 800 }, at);
+
+            expect(alerts).toEqual([]);
+            expect(notifier.alerts).toHaveLength(0);
+        });
+    });
+});
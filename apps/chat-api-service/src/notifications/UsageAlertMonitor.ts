@@ -0,0 +1,218 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { INotifier, QuotaWindow, TokenQuota, UsageAlert, UsageAlertKind, UsageAlertState } from '@kinable/common-types';
+import { ENTITY_PREFIX, buildRegionalKey } from '../data/regionalKeys';
+import { QuotaUsage, cappedWindows, quotaPeriod } from '../billing/profileQuota';
+
+export const DEFAULT_ALERT_THRESHOLDS = [50, 75, 90, 100]; // Percent of the tokens used
+export const ALERT_STATE_PREFIX = 'ALERT#';
+
+const DEFAULT_STATE_TTL_SECONDS = 60 * 60 * 24 * 62; // Outlives the longest (monthly) period
+const FAMILY_SCOPE = 'FAMILY';
+
+interface AlertScope {
+  familyKey: string;
+  stateId: string;          // Sort key of the period's alert state
+  kind: UsageAlertKind;
+  familyId: string;
+  profileId?: string;
+  window?: QuotaWindow;
+  period: string;
+}
+
+/**
+ * Alerts guardians when the family balance or a profile's quota crosses a usage threshold.
+ *
+ * Each threshold is sent once per period: the highest threshold alerted on is kept in an alert state
+ * item in the TokenLedger table, and only the request whose conditional update raises it sends the
+ * alert. Quota thresholds follow the quota's own day or month. The family balance has no fixed
+ * allowance, so its thresholds are measured against the balance the family started the UTC month
+ * with; a top-up that lifts the balance above that starts the thresholds over.
+ */
+export class UsageAlertMonitor {
+  private ddbDocClient: DynamoDBDocumentClient;
+  private ledgerTableName: string;
+  private notifier: INotifier;
+  private thresholds: number[];
+  private stateTtlSeconds: number;
+
+  constructor(
+    ddbDocClient: DynamoDBDocumentClient,
+    ledgerTableName: string,
+    notifier: INotifier,
+    thresholds: number[] = DEFAULT_ALERT_THRESHOLDS,
+    stateTtlSeconds: number = DEFAULT_STATE_TTL_SECONDS
+  ) {
+    this.ddbDocClient = ddbDocClient;
+    this.ledgerTableName = ledgerTableName;
+    this.notifier = notifier;
+    this.thresholds = [...thresholds].sort((a, b) => a - b);
+    this.stateTtlSeconds = stateTtlSeconds;
+  }
+
+  /**
+   * Check the family balance after a debit.
+   * @param balance The balance after the debit.
+   * @param debitedTokens Tokens the debit took, so the balance before it is known.
+   * @returns The alert sent, or null if no new threshold was crossed.
+   */
+  public async checkFamilyBalance(
+    familyId: string,
+    userRegion: string,
+    balance: number,
+    debitedTokens: number,
+    at: Date = new Date()
+  ): Promise<UsageAlert | null> {
+    const period = quotaPeriod('monthly', at);
+    const scope: AlertScope = {
+      familyKey: buildRegionalKey(ENTITY_PREFIX.FAMILY, userRegion, familyId),
+      stateId: `${ALERT_STATE_PREFIX}${FAMILY_SCOPE}#${period}`,
+      kind: 'FAMILY_BALANCE',
+      familyId,
+      period,
+    };
+
+    const balanceBefore = balance + Math.max(0, debitedTokens);
+    let state = await this.recordBaseline(scope, balanceBefore, at);
+    if (state.baselineTokens !== undefined && balanceBefore > state.baselineTokens) {
+      state = await this.raiseBaseline(scope, balanceBefore, at) || state;
+    }
+
+    const baseline = state.baselineTokens ?? balanceBefore;
+    const usedTokens = Math.max(0, baseline - balance);
+    return this.alertIfCrossed(scope, state, usedTokens, baseline, at);
+  }
+
+  /**
+   * Check each capped window of a profile's quota after its usage was recorded.
+   * @returns The alerts sent.
+   */
+  public async checkProfileQuota(
+    familyId: string,
+    profileId: string,
+    userRegion: string,
+    quota: TokenQuota,
+    usage: QuotaUsage,
+    at: Date = new Date()
+  ): Promise<UsageAlert[]> {
+    const alerts: UsageAlert[] = [];
+    for (const window of cappedWindows(quota)) {
+      const period = quotaPeriod(window, at);
+      const scope: AlertScope = {
+        familyKey: buildRegionalKey(ENTITY_PREFIX.FAMILY, userRegion, familyId),
+        stateId: `${ALERT_STATE_PREFIX}${profileId}#${period}`,
+        kind: 'PROFILE_QUOTA',
+        familyId,
+        profileId,
+        window,
+        period,
+      };
+      const alert = await this.alertIfCrossed(scope, undefined, usage[window] ?? 0, quota[window]!, at);
+      if (alert) {
+        alerts.push(alert);
+      }
+    }
+    return alerts;
+  }
+
+  private async alertIfCrossed(
+    scope: AlertScope,
+    state: UsageAlertState | undefined,
+    usedTokens: number,
+    limitTokens: number,
+    at: Date
+  ): Promise<UsageAlert | null> {
+    const threshold = reachedThreshold(this.thresholds, usedTokens, limitTokens);
+    if (threshold === null || (state?.notifiedThreshold ?? 0) >= threshold) {
+      return null;
+    }
+    if (!await this.claimThreshold(scope, threshold, at)) {
+      return null;
+    }
+
+    const alert: UsageAlert = {
+      kind: scope.kind,
+      familyId: scope.familyId,
+      ...(scope.profileId ? { profileId: scope.profileId } : {}),
+      ...(scope.window ? { window: scope.window } : {}),
+      period: scope.period,
+      threshold,
+      usedTokens,
+      limitTokens,
+      remainingTokens: Math.max(0, limitTokens - usedTokens),
+      createdAt: at.toISOString(),
+    };
+    await this.notifier.notify(alert);
+    console.log(`[UsageAlertMonitor] Sent ${scope.kind} alert at ${threshold}% for family ${scope.familyId}${scope.profileId ? ` profile ${scope.profileId}` : ''}.`);
+    return alert;
+  }
+
+  // Record the threshold as alerted on; false if this or a higher one already was
+  private async claimThreshold(scope: AlertScope, threshold: number, at: Date): Promise<boolean> {
+    try {
+      await this.ddbDocClient.send(new UpdateCommand({
+        TableName: this.ledgerTableName,
+        Key: { familyId: scope.familyKey, entryId: scope.stateId },
+        UpdateExpression: 'SET notifiedThreshold = :threshold, updatedAt = :now, #ttl = if_not_exists(#ttl, :ttl)',
+        ConditionExpression: 'attribute_not_exists(notifiedThreshold) OR notifiedThreshold < :threshold',
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: { ':threshold': threshold, ':now': at.toISOString(), ':ttl': this.expiresAt(at) },
+      }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Keep the first balance seen in the period as its baseline
+  private async recordBaseline(scope: AlertScope, balanceBefore: number, at: Date): Promise<UsageAlertState> {
+    const { Attributes } = await this.ddbDocClient.send(new UpdateCommand({
+      TableName: this.ledgerTableName,
+      Key: { familyId: scope.familyKey, entryId: scope.stateId },
+      UpdateExpression: 'SET baselineTokens = if_not_exists(baselineTokens, :baseline), updatedAt = :now, #ttl = if_not_exists(#ttl, :ttl)',
+      ExpressionAttributeNames: { '#ttl': 'ttl' },
+      ExpressionAttributeValues: { ':baseline': balanceBefore, ':now': at.toISOString(), ':ttl': this.expiresAt(at) },
+      ReturnValues: 'ALL_NEW',
+    }));
+    return Attributes as UsageAlertState;
+  }
+
+  // A top-up took the balance above the baseline: measure from the new balance and alert afresh
+  private async raiseBaseline(scope: AlertScope, balanceBefore: number, at: Date): Promise<UsageAlertState | null> {
+    try {
+      const { Attributes } = await this.ddbDocClient.send(new UpdateCommand({
+        TableName: this.ledgerTableName,
+        Key: { familyId: scope.familyKey, entryId: scope.stateId },
+        UpdateExpression: 'SET baselineTokens = :baseline, updatedAt = :now REMOVE notifiedThreshold',
+        ConditionExpression: 'baselineTokens < :baseline',
+        ExpressionAttributeValues: { ':baseline': balanceBefore, ':now': at.toISOString() },
+        ReturnValues: 'ALL_NEW',
+      }));
+      return Attributes as UsageAlertState;
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private expiresAt(at: Date): number {
+    return Math.floor(at.getTime() / 1000) + this.stateTtlSeconds;
+  }
+}
+
+/**
+ * The highest threshold (percent of the limit) that the usage has reached.
+ * @returns The threshold, or null if usage is below the lowest one.
+ */
+export function reachedThreshold(thresholds: number[], usedTokens: number, limitTokens: number): number | null {
+  if (usedTokens <= 0) {
+    return null;
+  }
+  const percentUsed = limitTokens > 0 ? (usedTokens / limitTokens) * 100 : 100;
+  const reached = thresholds.filter(threshold => percentUsed >= threshold);
+  return reached.length > 0 ? Math.max(...reached) : null;
+}
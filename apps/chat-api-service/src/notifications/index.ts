@@ -0,0 +1,17 @@
+import { INotifier } from '@kinable/common-types';
+import { FileNotifier, InMemoryNotifier } from './Notifier';
+
+export { FileNotifier, InMemoryNotifier } from './Notifier';
+export { UsageAlertMonitor, DEFAULT_ALERT_THRESHOLDS, ALERT_STATE_PREFIX, reachedThreshold } from './UsageAlertMonitor';
+
+/**
+ * Create the notifier for usage alerts.
+ * Without a file to write to the alerts are kept in memory, so billing also runs offline.
+ */
+export function createNotifier(filePath?: string): INotifier {
+  if (filePath) {
+    return new FileNotifier(filePath);
+  }
+  console.warn('[UsageAlertMonitor] No notification channel configured; keeping usage alerts in memory.');
+  return new InMemoryNotifier();
+}
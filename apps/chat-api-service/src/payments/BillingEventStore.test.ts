@@ -0,0 +1,72 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, TransactWriteCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import "aws-sdk-client-mock-jest";
+import { TokenCredit } from "@kinable/common-types";
+import { BillingEventStore } from "./BillingEventStore";
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const baseDdbClient = new DynamoDBClient({ region: "us-east-1" });
+
+const conditionalCheckFailure = (failedItem: number) => Object.assign(new Error("Transaction cancelled"), {
+    name: "TransactionCanceledException",
+    CancellationReasons: [0, 1].map(i => ({ Code: i === failedItem ? "ConditionalCheckFailed" : "None" })),
+});
+
+describe("BillingEventStore", () => {
+    let store: BillingEventStore;
+    const credit: TokenCredit = {
+        familyId: "fam-1",
+        userRegion: "us-east-2",
+        packId: "boost-small",
+        tokens: 50000,
+        amountCents: 299,
+        currency: "usd",
+        sessionId: "cs_1",
+    };
+
+    beforeEach(() => {
+        ddbMock.reset();
+        store = new BillingEventStore(DynamoDBDocumentClient.from(baseDdbClient), "TestBillingEventsTable", "TestFamiliesTable");
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should record the event and credit the family in one transaction", async () => {
+        ddbMock.on(TransactWriteCommand).resolves({});
+
+        const result = await store.applyCredit("evt_1", "checkout.session.completed", credit);
+
+        expect(result).toEqual({ ok: true, record: expect.objectContaining({ eventId: "evt_1", familyId: "FAMILY#us-east-2#fam-1", tokens: 50000 }) });
+        const [put, update] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+        expect(put.Put!.TableName).toBe("TestBillingEventsTable");
+        expect(put.Put!.ConditionExpression).toBe("attribute_not_exists(eventId)");
+        expect(update.Update!.TableName).toBe("TestFamiliesTable");
+        expect(update.Update!.Key).toEqual({ familyId: "FAMILY#us-east-2#fam-1" });
+        expect(update.Update!.ExpressionAttributeValues![":tokens"]).toBe(50000);
+        // Bought tokens are kept apart from plan tokens
+        expect(update.Update!.UpdateExpression).toContain("extraBalance = if_not_exists(extraBalance, :zero) + :tokens");
+    });
+
+    it("should report an event that was already processed", async () => {
+        ddbMock.on(TransactWriteCommand).rejects(conditionalCheckFailure(0));
+
+        expect(await store.applyCredit("evt_1", "checkout.session.completed", credit)).toEqual({ ok: false, code: "DUPLICATE_EVENT" });
+    });
+
+    it("should report a family that does not exist", async () => {
+        ddbMock.on(TransactWriteCommand).rejects(conditionalCheckFailure(1));
+
+        expect(await store.applyCredit("evt_1", "checkout.session.completed", credit)).toEqual({ ok: false, code: "FAMILY_NOT_FOUND" });
+    });
+
+    it("should rethrow other failures", async () => {
+        ddbMock.on(TransactWriteCommand).rejects(new Error("Throughput exceeded"));
+
+        await expect(store.applyCredit("evt_1", "checkout.session.completed", credit)).rejects.toThrow("Throughput exceeded");
+    });
+});
@@ -0,0 +1,87 @@
+import { DynamoDBDocumentClient, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { BillingEventRecord, TokenCredit } from '@kinable/common-types';
+import { ENTITY_PREFIX, buildRegionalKey } from '../data/regionalKeys';
+
+export type CreditResult =
+  | { ok: true; record: BillingEventRecord }
+  | { ok: false; code: 'DUPLICATE_EVENT' | 'FAMILY_NOT_FOUND' };
+
+/**
+ * Credits families for payments, exactly once per webhook event.
+ *
+ * The event record and the balance update are written in one transaction, conditional on the
+ * event not having been recorded yet, so a redelivered or concurrently delivered event cannot
+ * credit the family twice.
+ */
+export class BillingEventStore {
+  private ddbDocClient: DynamoDBDocumentClient;
+  private billingEventsTableName: string;
+  private familiesTableName: string;
+
+  constructor(ddbDocClient: DynamoDBDocumentClient, billingEventsTableName: string, familiesTableName: string) {
+    this.ddbDocClient = ddbDocClient;
+    this.billingEventsTableName = billingEventsTableName;
+    this.familiesTableName = familiesTableName;
+  }
+
+  /**
+   * Add a payment's tokens to the family balance and record the event.
+   * @returns The stored record, DUPLICATE_EVENT if the event was already processed,
+   *          or FAMILY_NOT_FOUND if the family does not exist.
+   * @throws Error if DynamoDB fails.
+   */
+  public async applyCredit(eventId: string, eventType: string, credit: TokenCredit): Promise<CreditResult> {
+    const familyKey = buildRegionalKey(ENTITY_PREFIX.FAMILY, credit.userRegion, credit.familyId);
+    const processedAt = new Date().toISOString();
+    const record: BillingEventRecord = {
+      eventId,
+      eventType,
+      familyId: familyKey,
+      packId: credit.packId,
+      tokens: credit.tokens,
+      amountCents: credit.amountCents,
+      currency: credit.currency,
+      sessionId: credit.sessionId,
+      processedAt,
+    };
+
+    try {
+      await this.ddbDocClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Put: {
+              TableName: this.billingEventsTableName,
+              Item: record,
+              ConditionExpression: 'attribute_not_exists(eventId)',
+            },
+          },
+          {
+            Update: {
+              TableName: this.familiesTableName,
+              Key: { familyId: familyKey },
+              // Purchased tokens are extra tokens: they are spent after the plan's and never expire
+              UpdateExpression: 'SET tokenBalance = if_not_exists(tokenBalance, :zero) + :tokens, ' +
+                'extraBalance = if_not_exists(extraBalance, :zero) + :tokens, updatedAt = :now',
+              ConditionExpression: 'attribute_exists(familyId)',
+              ExpressionAttributeValues: { ':tokens': credit.tokens, ':zero': 0, ':now': processedAt },
+            },
+          },
+        ],
+      }));
+    } catch (error: any) {
+      const reasons: Array<{ Code?: string }> = error?.name === 'TransactionCanceledException' ? error.CancellationReasons || [] : [];
+      if (reasons[0]?.Code === 'ConditionalCheckFailed') {
+        console.log(`[BillingEventStore] Event ${eventId} was already processed.`);
+        return { ok: false, code: 'DUPLICATE_EVENT' };
+      }
+      if (reasons[1]?.Code === 'ConditionalCheckFailed') {
+        console.error(`[BillingEventStore] Family ${credit.familyId} for event ${eventId} does not exist.`);
+        return { ok: false, code: 'FAMILY_NOT_FOUND' };
+      }
+      throw error;
+    }
+
+    console.log(`[BillingEventStore] Credited family ${credit.familyId} with ${credit.tokens} tokens for event ${eventId}.`);
+    return { ok: true, record };
+  }
+}
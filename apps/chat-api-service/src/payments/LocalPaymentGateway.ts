@@ -0,0 +1,66 @@
+import { randomUUID } from 'crypto';
+import { CheckoutSession, CheckoutSessionRequest, IPaymentGateway, WebhookParseResult } from '@kinable/common-types';
+import { checkoutMetadata, parseCheckoutEvent } from './StripePaymentGateway';
+import { signWebhookPayload, verifyWebhookSignature } from './webhookSignature';
+
+const DEFAULT_CHECKOUT_URL = 'http://localhost:3000/checkout';
+
+export interface SignedWebhook {
+  payload: string;
+  signature: string;        // Value of the Stripe-Signature header
+}
+
+/**
+ * A fake payment provider for local runs and tests. Checkouts are completed by calling
+ * completeCheckout, which returns the webhook Stripe would send, signed the same way.
+ */
+export class LocalPaymentGateway implements IPaymentGateway {
+  private webhookSecret: string;
+  private checkoutUrl: string;
+  private sessions = new Map<string, CheckoutSessionRequest>();
+
+  constructor(webhookSecret: string, checkoutUrl: string = DEFAULT_CHECKOUT_URL) {
+    this.webhookSecret = webhookSecret;
+    this.checkoutUrl = checkoutUrl;
+  }
+
+  public async createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession> {
+    const sessionId = `cs_local_${randomUUID()}`;
+    this.sessions.set(sessionId, request);
+    return { sessionId, url: `${this.checkoutUrl}?session_id=${sessionId}` };
+  }
+
+  public parseWebhook(payload: string, signatureHeader: string | undefined): WebhookParseResult {
+    if (!verifyWebhookSignature(payload, signatureHeader, this.webhookSecret)) {
+      return { ok: false, message: 'Invalid webhook signature' };
+    }
+    return parseCheckoutEvent(payload);
+  }
+
+  /**
+   * Pay for a session and build the checkout.session.completed webhook for it.
+   * @throws Error if the session was not created by this gateway.
+   */
+  public completeCheckout(sessionId: string, at: Date = new Date()): SignedWebhook {
+    const request = this.sessions.get(sessionId);
+    if (!request) {
+      throw new Error(`Unknown checkout session ${sessionId}`);
+    }
+    const created = Math.floor(at.getTime() / 1000);
+    const payload = JSON.stringify({
+      id: `evt_local_${randomUUID()}`,
+      type: 'checkout.session.completed',
+      created,
+      data: {
+        object: {
+          id: sessionId,
+          payment_status: 'paid',
+          amount_total: request.pack.priceCents,
+          currency: request.pack.currency,
+          metadata: checkoutMetadata(request),
+        },
+      },
+    });
+    return { payload, signature: signWebhookPayload(payload, this.webhookSecret, created) };
+  }
+}
@@ -0,0 +1,93 @@
+import { StripePaymentGateway } from './StripePaymentGateway';
+import { LocalPaymentGateway } from './LocalPaymentGateway';
+import { findBoosterPack } from './boosterPacks';
+import { signWebhookPayload } from './webhookSignature';
+
+describe('StripePaymentGateway', () => {
+  const pack = findBoosterPack('boost-small')!;
+  const checkoutRequest = {
+    familyId: 'fam-1',
+    profileId: 'prof-1',
+    userRegion: 'us-east-2',
+    pack,
+    successUrl: 'https://app.example.com/billing?paid=1',
+    cancelUrl: 'https://app.example.com/billing',
+  };
+
+  it('should create a checkout session carrying the family and pack in its metadata', async () => {
+    const fetchFn = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ id: 'cs_test_1', url: 'https://checkout.stripe.com/c/pay/cs_test_1' }),
+    });
+    const gateway = new StripePaymentGateway('sk_test', 'whsec_test', fetchFn as unknown as typeof fetch);
+
+    const session = await gateway.createCheckoutSession(checkoutRequest);
+
+    expect(session).toEqual({ sessionId: 'cs_test_1', url: 'https://checkout.stripe.com/c/pay/cs_test_1' });
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('https://api.stripe.com/v1/checkout/sessions');
+    expect(init.headers.Authorization).toBe('Bearer sk_test');
+    const form = new URLSearchParams(init.body);
+    expect(form.get('line_items[0][price_data][unit_amount]')).toBe(String(pack.priceCents));
+    expect(form.get('metadata[familyId]')).toBe('fam-1');
+    expect(form.get('metadata[tokens]')).toBe(String(pack.tokens));
+  });
+
+  it('should throw when Stripe rejects the session', async () => {
+    const fetchFn = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({ error: { message: 'Invalid currency' } }),
+    });
+    const gateway = new StripePaymentGateway('sk_test', 'whsec_test', fetchFn as unknown as typeof fetch);
+
+    await expect(gateway.createCheckoutSession(checkoutRequest)).rejects.toThrow('Invalid currency');
+  });
+
+  it('should read the credit from a webhook the local gateway signed', async () => {
+    const local = new LocalPaymentGateway('whsec_test');
+    const { sessionId } = await local.createCheckoutSession(checkoutRequest);
+    const webhook = local.completeCheckout(sessionId);
+    const gateway = new StripePaymentGateway('sk_test', 'whsec_test', jest.fn() as unknown as typeof fetch);
+
+    const result = gateway.parseWebhook(webhook.payload, webhook.signature);
+
+    expect(result).toEqual({
+      ok: true,
+      eventId: expect.stringMatching(/^evt_local_/),
+      eventType: 'checkout.session.completed',
+      credit: {
+        familyId: 'fam-1',
+        userRegion: 'us-east-2',
+        packId: 'boost-small',
+        tokens: pack.tokens,
+        amountCents: pack.priceCents,
+        currency: 'usd',
+        sessionId,
+      },
+    });
+  });
+
+  it('should reject a webhook signed with another secret', async () => {
+    const local = new LocalPaymentGateway('whsec_other');
+    const { sessionId } = await local.createCheckoutSession(checkoutRequest);
+    const webhook = local.completeCheckout(sessionId);
+    const gateway = new StripePaymentGateway('sk_test', 'whsec_test', jest.fn() as unknown as typeof fetch);
+
+    expect(gateway.parseWebhook(webhook.payload, webhook.signature)).toEqual({ ok: false, message: 'Invalid webhook signature' });
+  });
+
+  it('should not credit events for unpaid or other kinds of sessions', () => {
+    const gateway = new StripePaymentGateway('sk_test', 'whsec_test', jest.fn() as unknown as typeof fetch);
+    const payload = JSON.stringify({
+      id: 'evt_2',
+      type: 'checkout.session.completed',
+      data: { object: { id: 'cs_2', payment_status: 'unpaid', metadata: { familyId: 'fam-1' } } },
+    });
+
+    const result = gateway.parseWebhook(payload, signWebhookPayload(payload, 'whsec_test'));
+
+    expect(result).toEqual({ ok: true, eventId: 'evt_2', eventType: 'checkout.session.completed' });
+  });
+});
@@ -0,0 +1,112 @@
+import { CheckoutSession, CheckoutSessionRequest, IPaymentGateway, TokenCredit, WebhookParseResult } from '@kinable/common-types';
+import { verifyWebhookSignature } from './webhookSignature';
+
+const STRIPE_API_BASE_URL = 'https://api.stripe.com/v1';
+
+// Stripe events that mean a checkout has been paid for
+const PAID_CHECKOUT_EVENTS = ['checkout.session.completed', 'checkout.session.async_payment_succeeded'];
+
+/**
+ * Takes booster pack payments through Stripe Checkout.
+ * The family and pack are stored in the session metadata, so the webhook can credit the family
+ * without any state of our own between checkout and payment.
+ */
+export class StripePaymentGateway implements IPaymentGateway {
+  private apiKey: string;
+  private webhookSecret: string;
+  private fetchFn: typeof fetch;
+
+  constructor(apiKey: string, webhookSecret: string, fetchFn: typeof fetch = fetch) {
+    this.apiKey = apiKey;
+    this.webhookSecret = webhookSecret;
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * @throws Error if Stripe rejects the request.
+   */
+  public async createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession> {
+    const form = new URLSearchParams({
+      'mode': 'payment',
+      'success_url': request.successUrl,
+      'cancel_url': request.cancelUrl,
+      'client_reference_id': request.familyId,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': request.pack.currency,
+      'line_items[0][price_data][unit_amount]': String(request.pack.priceCents),
+      'line_items[0][price_data][product_data][name]': request.pack.name,
+      ...Object.fromEntries(Object.entries(checkoutMetadata(request)).map(([key, value]) => [`metadata[${key}]`, value])),
+    });
+
+    const response = await this.fetchFn(`${STRIPE_API_BASE_URL}/checkout/sessions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
+    });
+    const body: any = await response.json();
+    if (!response.ok) {
+      throw new Error(`Stripe could not create a checkout session (${response.status}): ${body?.error?.message || 'unknown error'}`);
+    }
+    return { sessionId: body.id, url: body.url };
+  }
+
+  public parseWebhook(payload: string, signatureHeader: string | undefined): WebhookParseResult {
+    if (!verifyWebhookSignature(payload, signatureHeader, this.webhookSecret)) {
+      return { ok: false, message: 'Invalid webhook signature' };
+    }
+    return parseCheckoutEvent(payload);
+  }
+}
+
+/**
+ * Session metadata identifying what a checkout pays for. Stripe metadata values are strings.
+ */
+export function checkoutMetadata(request: CheckoutSessionRequest): Record<string, string> {
+  return {
+    familyId: request.familyId,
+    profileId: request.profileId,
+    userRegion: request.userRegion,
+    packId: request.pack.packId,
+    tokens: String(request.pack.tokens),
+  };
+}
+
+/**
+ * Read a Stripe-shaped event whose signature has been verified.
+ * @returns The event ID and type, with the credit to apply if it is a paid checkout.
+ */
+export function parseCheckoutEvent(payload: string): WebhookParseResult {
+  let event: any;
+  try {
+    event = JSON.parse(payload);
+  } catch (error) {
+    return { ok: false, message: 'Webhook payload is not valid JSON' };
+  }
+  if (typeof event?.id !== 'string' || typeof event?.type !== 'string') {
+    return { ok: false, message: 'Webhook payload is missing the event id or type' };
+  }
+
+  const session = event.data?.object;
+  if (!PAID_CHECKOUT_EVENTS.includes(event.type) || session?.payment_status !== 'paid') {
+    return { ok: true, eventId: event.id, eventType: event.type };
+  }
+
+  const metadata = session.metadata || {};
+  const tokens = Number(metadata.tokens);
+  if (!metadata.familyId || !metadata.userRegion || !metadata.packId || !Number.isInteger(tokens) || tokens <= 0) {
+    return { ok: false, message: `Checkout ${session.id} has no booster pack metadata` };
+  }
+  const credit: TokenCredit = {
+    familyId: metadata.familyId,
+    userRegion: metadata.userRegion,
+    packId: metadata.packId,
+    tokens,
+    amountCents: session.amount_total ?? 0,
+    currency: session.currency || '',
+    sessionId: session.id,
+  };
+  return { ok: true, eventId: event.id, eventType: event.type, credit };
+}
@@ -0,0 +1,16 @@
+import { BoosterPack } from '@kinable/common-types';
+
+// Token packs a guardian can buy on top of the family balance
+export const BOOSTER_PACKS: BoosterPack[] = [
+  { packId: 'boost-small', name: '50,000 extra tokens', tokens: 50_000, priceCents: 299, currency: 'usd' },
+  { packId: 'boost-medium', name: '200,000 extra tokens', tokens: 200_000, priceCents: 999, currency: 'usd' },
+  { packId: 'boost-large', name: '500,000 extra tokens', tokens: 500_000, priceCents: 1999, currency: 'usd' },
+];
+
+/**
+ * Look up a booster pack by ID.
+ * @returns The pack, or null if there is no such pack.
+ */
+export function findBoosterPack(packId: unknown): BoosterPack | null {
+  return BOOSTER_PACKS.find(pack => pack.packId === packId) || null;
+}
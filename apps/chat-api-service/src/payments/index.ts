@@ -0,0 +1,49 @@
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { IPaymentGateway } from '@kinable/common-types';
+import { LocalPaymentGateway } from './LocalPaymentGateway';
+import { StripePaymentGateway } from './StripePaymentGateway';
+
+export { BillingEventStore } from './BillingEventStore';
+export type { CreditResult } from './BillingEventStore';
+export { LocalPaymentGateway } from './LocalPaymentGateway';
+export type { SignedWebhook } from './LocalPaymentGateway';
+export { StripePaymentGateway } from './StripePaymentGateway';
+export { BOOSTER_PACKS, findBoosterPack } from './boosterPacks';
+export { signWebhookPayload, verifyWebhookSignature } from './webhookSignature';
+
+// Shape of the payment secret in Secrets Manager
+interface PaymentSecret {
+  apiKey?: string;          // Provider API key; not needed by the local gateway
+  webhookSecret: string;    // Key the provider signs webhooks with
+}
+
+/**
+ * Create the payment gateway, reading its keys from Secrets Manager.
+ * @param provider 'stripe' for Stripe Checkout, or 'local' for the fake gateway that never charges.
+ *        There is no default, so a missing or misspelt setting cannot turn payments off.
+ * @throws Error if the provider is not one of these, or the secret cannot be read or lacks the keys it needs.
+ */
+export async function loadPaymentGateway(
+  secretsClient: SecretsManagerClient,
+  secretId: string,
+  provider?: string
+): Promise<IPaymentGateway> {
+  if (provider !== 'stripe' && provider !== 'local') {
+    throw new Error(`Unknown payment gateway '${provider ?? ''}'; expected 'stripe' or 'local'.`);
+  }
+
+  const output = await secretsClient.send(new GetSecretValueCommand({ SecretId: secretId }));
+  const secret = JSON.parse(output.SecretString || '{}') as PaymentSecret;
+  if (!secret.webhookSecret) {
+    throw new Error(`Payment secret ${secretId} does not contain a webhookSecret.`);
+  }
+
+  if (provider === 'stripe') {
+    if (!secret.apiKey) {
+      throw new Error(`Payment secret ${secretId} does not contain an apiKey.`);
+    }
+    return new StripePaymentGateway(secret.apiKey, secret.webhookSecret);
+  }
+  console.warn('[Payments] Using the local payment gateway; checkouts are never charged.');
+  return new LocalPaymentGateway(secret.webhookSecret);
+}
@@ -0,0 +1,37 @@
+import { signWebhookPayload, verifyWebhookSignature } from './webhookSignature';
+
+describe('webhookSignature', () => {
+  const secret = 'whsec_test';
+  const payload = JSON.stringify({ id: 'evt_1', type: 'checkout.session.completed' });
+  const timestamp = 1_790_000_000;
+
+  it('should accept a payload signed with the same secret', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+
+    expect(header).toMatch(/^t=1790000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(payload, header, secret, timestamp + 10)).toBe(true);
+  });
+
+  it('should reject a changed payload, another secret or a missing header', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+
+    expect(verifyWebhookSignature(payload.replace('evt_1', 'evt_2'), header, secret, timestamp)).toBe(false);
+    expect(verifyWebhookSignature(payload, header, 'whsec_other', timestamp)).toBe(false);
+    expect(verifyWebhookSignature(payload, undefined, secret, timestamp)).toBe(false);
+    expect(verifyWebhookSignature(payload, 'garbage', secret, timestamp)).toBe(false);
+  });
+
+  it('should reject signatures older than the tolerance', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+
+    expect(verifyWebhookSignature(payload, header, secret, timestamp + 301)).toBe(false);
+    expect(verifyWebhookSignature(payload, header, secret, timestamp + 301, 600)).toBe(true);
+  });
+
+  it('should accept any matching signature when the secret is being rolled', () => {
+    const valid = signWebhookPayload(payload, secret, timestamp).split(',')[1];
+    const header = `t=${timestamp},v1=${'0'.repeat(64)},${valid}`;
+
+    expect(verifyWebhookSignature(payload, header, secret, timestamp)).toBe(true);
+  });
+});
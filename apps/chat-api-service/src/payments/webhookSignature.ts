@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60; // Older signatures are treated as replays
+
+/**
+ * Sign a webhook payload the way Stripe does: an HMAC-SHA256 of `${timestamp}.${payload}` keyed with
+ * the endpoint secret, sent as `t=<timestamp>,v1=<hex signature>`.
+ */
+export function signWebhookPayload(payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Check a webhook signature header against the payload.
+ * @returns true if one of the header's v1 signatures matches and its timestamp is within the tolerance.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | undefined,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000),
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  if (!header || !secret) {
+    return false;
+  }
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value || '');
+  if (!Number.isInteger(timestamp) || signatures.length === 0 || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+  return signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+}
+
+function computeSignature(payload: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+}
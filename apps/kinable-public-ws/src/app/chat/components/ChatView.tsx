@@ -4,7 +4,8 @@ import React, { useState, useEffect, useRef, FormEvent } from 'react'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import chatHistoryDBService, { Message as DBMessage } from '@/lib/ChatHistoryDBService'
-import { sendChatMessage, ChatRequest as ApiChatRequest } from '@/lib/api-service'
+import { sendChatMessage, streamChatMessage, ChatRequest as ApiChatRequest } from '@/lib/api-service'
+import { API_ENDPOINTS } from '@/lib/api-config'
 import { CognitoUser } from '@/lib/auth-service' // Assuming CognitoUser type is needed
 
 interface UIMessage extends Omit<DBMessage, 'messageId'> {
@@ -117,12 +118,27 @@ const ChatView: React.FC<ChatViewProps> = ({ currentConversationId, user, onTitl
       }
       console.log('[DEBUG] ChatView - Sending to API:', JSON.stringify(request, null, 2));
       
-      const response = await sendChatMessage(request)
+      let replyText: string
+      if (API_ENDPOINTS.CHAT_STREAM) {
+        // Show the reply as it streams in, then swap in the stored message once it is complete
+        const streamingId = generateId()
+        setMessages(prev => [...prev, { id: streamingId, conversationId: currentConversationId, role: 'assistant', content: '', timestamp: Date.now() }])
+        try {
+          const streamed = await streamChatMessage(request, text => {
+            setMessages(prev => prev.map(m => m.id === streamingId ? { ...m, content: text } : m))
+          })
+          replyText = streamed.text
+        } finally {
+          setMessages(prev => prev.filter(m => m.id !== streamingId))
+        }
+      } else {
+        replyText = (await sendChatMessage(request)).text
+      }
       
       const aiDbMessage = await chatHistoryDBService.addMessage({
         conversationId: currentConversationId,
         role: 'assistant',
-        content: response.text, 
+        content: replyText, 
       })
       const aiUIMessage: UIMessage = { ...aiDbMessage, id: aiDbMessage.messageId }
       setMessages(prev => [...prev, aiUIMessage])
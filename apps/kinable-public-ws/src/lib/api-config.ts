@@ -30,14 +30,19 @@ export const API_ENDPOINTS = {
   
   // Chat
   CHAT: `${getApiBaseUrl()}/v1/chat`,
+  // Streaming is served from its own function URL, outside the API Gateway; empty when not configured
+  CHAT_STREAM: process.env.NEXT_PUBLIC_CHAT_STREAM_URL || '',
   CHAT_HISTORY: `${getApiBaseUrl()}/v1/chat/history`,
+  CONVERSATIONS: `${getApiBaseUrl()}/v1/chat/conversations`,
   
   // User Management
   USER_PROFILE: `${getApiBaseUrl()}/dashboard/profile`,
   FAMILY_PROFILES: `${getApiBaseUrl()}/dashboard/profiles`,
+  FAMILY: `${getApiBaseUrl()}/dashboard/family`,
   
   // Token Management
   TOKEN_BALANCE: `${getApiBaseUrl()}/v1/billing/balance`,
+  CHECKOUT: `${getApiBaseUrl()}/v1/billing/checkout`,
 };
 
 // Cognito Configuration
@@ -2,7 +2,7 @@ import { API_ENDPOINTS } from './api-config';
 import { getToken } from './auth-service';
 
 interface ApiOptions {
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   body?: any;
   headers?: Record<string, string>;
   requiresAuth?: boolean;
@@ -120,6 +120,7 @@ export interface ChatResponse {
     timestamp: number;
     conversationId?: string;
   };
+  quota?: TokenQuotaStatus; // Tokens the profile has left, when it has a quota
 }
 
 // Send a chat message and get a response
@@ -169,73 +170,287 @@ export async function sendChatMessage(request: ChatRequest): Promise<ChatRespons
   }
 }
 
-// Get chat history for a conversation
-export async function getChatHistory(conversationId: string): Promise<any> {
-  try {
-    // Try to get actual chat history from API
-    return await apiFetch<any>(`${API_ENDPOINTS.CHAT_HISTORY}?conversationId=${conversationId}`);
-  } catch (error) {
-    console.warn('Chat history endpoint not available, using mock data:', error);
-    // Return mock history for development
-    return {
-      messages: [
-        {
-          id: '1',
-          role: 'user',
-          content: 'Hello!',
-          timestamp: new Date(Date.now() - 60000).toISOString()
-        },
-        {
-          id: '2',
-          role: 'assistant',
-          content: 'Hi there! How can I help you today?',
-          timestamp: new Date(Date.now() - 55000).toISOString()
-        }
-      ]
+// The end of a streamed reply, from the stream's final `done` frame
+export interface StreamedChatResult {
+  text: string;
+  tokenUsage: { prompt: number; completion: number; total: number };
+  model?: string;
+  provider?: string;
+  quota?: TokenQuotaStatus;
+  moderated?: boolean; // The reply was blocked and `text` is the replacement
+}
+
+// Send a chat message and stream the reply; onText gets the reply so far each time it grows or is replaced
+export async function streamChatMessage(request: ChatRequest, onText: (text: string) => void): Promise<StreamedChatResult> {
+  const token = await getToken();
+  if (!token) {
+    throw new Error('Authentication required but no token available');
+  }
+
+  const response = await fetch(API_ENDPOINTS.CHAT_STREAM, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(request),
+  });
+  // Errors before the reply starts are regular JSON error responses
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw {
+      name: 'ApiError',
+      status: response.status,
+      message: errorData.message || `API error: ${response.status}`,
+      code: errorData.error?.code,
+      details: errorData.error?.details
     };
   }
-}
 
-// Get token balance - with mock for development
-export async function getTokenBalance(): Promise<{ balance: number }> {
-  try {
-    // Try to get actual balance from API
-    return await apiFetch<{ balance: number }>(API_ENDPOINTS.TOKEN_BALANCE);
-  } catch (error) {
-    console.warn('Token balance endpoint not available, using default value:', error);
-    // Return a default value as fallback
-    return { balance: 1000 };
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffered += decoder.decode(value, { stream: true });
+
+    // Frames are `event: <name>\ndata: <json>` separated by a blank line
+    let end;
+    while ((end = buffered.indexOf('\n\n')) >= 0) {
+      const frame = buffered.slice(0, end);
+      buffered = buffered.slice(end + 2);
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(frame.match(/^data: (.*)$/m)?.[1] || '{}');
+
+      if (event === 'token') {
+        text += data.text;
+        onText(text);
+      } else if (event === 'replace') {
+        // The reply was blocked; show the replacement instead of what was sent so far
+        text = data.text;
+        onText(text);
+      } else if (event === 'error') {
+        throw { name: 'ApiError', status: 200, message: data.message, code: data.code };
+      } else if (event === 'done') {
+        return { text, ...data };
+      }
+    }
   }
+  throw new Error('The response ended before it was complete');
 }
 
-// Get family profiles
-export async function getFamilyProfiles(): Promise<any[]> {
-  try {
-    // Try to get actual profiles from API
-    return await apiFetch<any[]>(API_ENDPOINTS.FAMILY_PROFILES);
-  } catch (error) {
-    console.warn('Family profiles endpoint not available, using mock data:', error);
-    // Return mock profiles for development
-    return [
-      { id: '1', name: 'Parent Account', role: 'guardian' },
-      { id: '2', name: 'Child Account', role: 'child' }
-    ];
+// A conversation stored by the chat service
+export interface StoredConversation {
+  conversationId: string;
+  profileId: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A message stored by the chat service
+export interface StoredMessage {
+  messageId: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  model?: string;
+  moderated?: boolean;
+}
+
+export interface ChatHistoryPage {
+  conversation: StoredConversation;
+  messages: StoredMessage[];
+  nextCursor?: string;
+}
+
+// Get a page of the chat history of a conversation; pass nextCursor to get the next page
+export async function getChatHistory(conversationId: string, cursor?: string): Promise<ChatHistoryPage> {
+  const params = new URLSearchParams({ conversationId });
+  if (cursor) {
+    params.set('cursor', cursor);
   }
+  return apiFetch<ChatHistoryPage>(`${API_ENDPOINTS.CHAT_HISTORY}?${params.toString()}`);
 }
 
-// Get user profile
-export async function getUserProfile(): Promise<any> {
-  try {
-    // Try to get actual profile from API
-    return await apiFetch<any>(API_ENDPOINTS.USER_PROFILE);
-  } catch (error) {
-    console.warn('User profile endpoint not available, using mock data:', error);
-    // Return a mock profile for development
-    return {
-      id: 'user-123',
-      name: 'Test User',
-      email: 'test@example.com',
-      role: 'guardian'
-    };
+// List conversations, most recently active first; guardians may pass a profileId to see a child's
+export async function listConversations(options: { profileId?: string; cursor?: string } = {}): Promise<{ conversations: StoredConversation[]; nextCursor?: string }> {
+  const params = new URLSearchParams();
+  if (options.profileId) {
+    params.set('profileId', options.profileId);
+  }
+  if (options.cursor) {
+    params.set('cursor', options.cursor);
   }
-} 
\ No newline at end of file
+  const query = params.toString();
+  return apiFetch(`${API_ENDPOINTS.CONVERSATIONS}${query ? `?${query}` : ''}`);
+}
+
+// Start a new conversation on the server
+export async function createConversation(title?: string): Promise<StoredConversation> {
+  const { conversation } = await apiFetch<{ conversation: StoredConversation }>(API_ENDPOINTS.CONVERSATIONS, {
+    method: 'POST',
+    body: title ? { title } : {},
+  });
+  return conversation;
+}
+
+// Delete a conversation and its messages
+export async function deleteConversation(conversationId: string): Promise<void> {
+  await apiFetch(`${API_ENDPOINTS.CONVERSATIONS}/${encodeURIComponent(conversationId)}`, { method: 'DELETE' });
+}
+
+// The family token balance; plan tokens are spent before purchased (extra) tokens
+export interface TokenBalance {
+  balance: number;
+  planTokens: number;
+  extraTokens: number;
+  planId?: string;
+  planRenewsAt?: string;
+}
+
+// Get the family token balance
+export async function getTokenBalance(): Promise<TokenBalance> {
+  return apiFetch<TokenBalance>(API_ENDPOINTS.TOKEN_BALANCE);
+}
+
+// Start buying a booster pack (guardians only); send the guardian to the returned url to pay
+export async function createCheckoutSession(packId: string): Promise<{ sessionId: string; url: string }> {
+  const { sessionId, url } = await apiFetch<{ sessionId: string; url: string }>(API_ENDPOINTS.CHECKOUT, {
+    method: 'POST',
+    body: { packId },
+  });
+  return { sessionId, url };
+}
+
+// Weekly windows, in the schedule's timezone, when a child may chat; an end before the start runs past midnight
+export interface UsageSchedule {
+  timezone: string;
+  allowedWindows: Array<{
+    days: Array<'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'>;
+    start: string; // HH:MM
+    end: string;   // HH:MM, or 24:00 for the end of the day
+  }>;
+}
+
+// Caps on the tokens a profile may use per UTC day and month; a missing cap leaves only the family balance
+export interface TokenQuota {
+  daily?: number;
+  monthly?: number;
+}
+
+export type TokenQuotaStatus = Partial<Record<'daily' | 'monthly', {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}>>;
+
+// A profile as the dashboard returns it (guardians only)
+export interface FamilyProfile {
+  profileId: string;
+  familyId: string;
+  role: 'guardian' | 'child';
+  pauseStatusProfile: boolean;
+  displayName?: string;
+  ageBand?: string;
+  birthYear?: number;
+  usageSchedule?: UsageSchedule | null;
+  tokenQuota?: TokenQuota | null;
+  quotaStatus?: TokenQuotaStatus;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface FamilyStatus {
+  familyId: string;
+  tokenBalance: number;
+  pauseStatusFamily: boolean;
+}
+
+// Get the profiles of the caller's family
+export async function getFamilyProfiles(): Promise<FamilyProfile[]> {
+  const { profiles } = await apiFetch<{ profiles: FamilyProfile[] }>(API_ENDPOINTS.FAMILY_PROFILES);
+  return profiles;
+}
+
+// Get the caller's own profile and the family's status
+export async function getUserProfile(): Promise<{ profile: FamilyProfile; family: FamilyStatus }> {
+  return apiFetch(API_ENDPOINTS.USER_PROFILE);
+}
+
+// Add a child profile; Cognito emails the child an invitation to sign in
+export async function createChildProfile(child: { displayName: string; email: string; ageBand?: string; birthYear?: number }): Promise<FamilyProfile> {
+  const { profile } = await apiFetch<{ profile: FamilyProfile }>(API_ENDPOINTS.FAMILY_PROFILES, { method: 'POST', body: child });
+  return profile;
+}
+
+// Change a profile's display name, age band or birth year
+export async function updateProfile(
+  profileId: string,
+  changes: { displayName?: string; ageBand?: string; birthYear?: number }
+): Promise<FamilyProfile> {
+  const { profile } = await apiFetch<{ profile: FamilyProfile }>(
+    `${API_ENDPOINTS.FAMILY_PROFILES}/${encodeURIComponent(profileId)}`,
+    { method: 'PATCH', body: changes }
+  );
+  return profile;
+}
+
+// Delete a child profile and its sign-in
+export async function deleteChildProfile(profileId: string): Promise<void> {
+  await apiFetch(`${API_ENDPOINTS.FAMILY_PROFILES}/${encodeURIComponent(profileId)}`, { method: 'DELETE' });
+}
+
+// Pause or resume a child's profile
+export async function setProfilePaused(profileId: string, paused: boolean): Promise<FamilyProfile> {
+  const { profile } = await apiFetch<{ profile: FamilyProfile }>(
+    `${API_ENDPOINTS.FAMILY_PROFILES}/${encodeURIComponent(profileId)}/${paused ? 'pause' : 'resume'}`,
+    { method: 'POST' }
+  );
+  return profile;
+}
+
+// Limit when a profile may chat
+export async function setProfileSchedule(profileId: string, schedule: UsageSchedule): Promise<FamilyProfile> {
+  const { profile } = await apiFetch<{ profile: FamilyProfile }>(
+    `${API_ENDPOINTS.FAMILY_PROFILES}/${encodeURIComponent(profileId)}/schedule`,
+    { method: 'PUT', body: schedule }
+  );
+  return profile;
+}
+
+// Remove a profile's schedule so it may chat at any time
+export async function clearProfileSchedule(profileId: string): Promise<FamilyProfile> {
+  const { profile } = await apiFetch<{ profile: FamilyProfile }>(
+    `${API_ENDPOINTS.FAMILY_PROFILES}/${encodeURIComponent(profileId)}/schedule`,
+    { method: 'DELETE' }
+  );
+  return profile;
+}
+
+// Cap a profile's daily and/or monthly token usage
+export async function setProfileQuota(profileId: string, quota: TokenQuota): Promise<FamilyProfile> {
+  const { profile } = await apiFetch<{ profile: FamilyProfile }>(
+    `${API_ENDPOINTS.FAMILY_PROFILES}/${encodeURIComponent(profileId)}/quota`,
+    { method: 'PUT', body: quota }
+  );
+  return profile;
+}
+
+// Remove a profile's token caps, leaving only the family balance
+export async function clearProfileQuota(profileId: string): Promise<FamilyProfile> {
+  const { profile } = await apiFetch<{ profile: FamilyProfile }>(
+    `${API_ENDPOINTS.FAMILY_PROFILES}/${encodeURIComponent(profileId)}/quota`,
+    { method: 'DELETE' }
+  );
+  return profile;
+}
+
+// Pause or resume the whole family
+export async function setFamilyPaused(paused: boolean): Promise<void> {
+  await apiFetch(`${API_ENDPOINTS.FAMILY}/${paused ? 'pause' : 'resume'}`, { method: 'POST' });
+}
@@ -9,6 +9,7 @@ export interface ProviderMeta {
   region: string;
   latency: number;
   timestamp: number;
+  retries?: number;       // Retries the provider made before this response, if any
 }
 
 // Token usage information
@@ -35,6 +36,20 @@ export interface ToolCall {
 export interface ToolResult {
   name: string;
   result: unknown;
+  callId?: string;        // id of the ToolInvocation this result answers
+}
+
+// A tool call requested by the model in its response
+export interface ToolInvocation {
+  id: string;             // provider-assigned id, echoed back with the result
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// One round of the tool loop: the calls the model made and their results, in the same order
+export interface ToolTurn {
+  calls: ToolInvocation[];
+  results: ToolResult[];
 }
 
 // Success and error result types
@@ -43,8 +58,11 @@ export interface AIModelSuccess {
   text: string;
   tokens: TokenUsage;
   meta: ProviderMeta;
-  stream?: AsyncIterable<string>;         // present if streaming enabled
+  // Present if streaming enabled. When streaming, `text` and `tokens` start empty and
+  // are filled in by the provider as the stream is consumed; read them after iteration ends.
+  stream?: AsyncIterable<string>;
   toolResult?: ToolResult;               // present if function calling used
+  toolCalls?: ToolInvocation[];          // present if the model is asking for tools to be executed
 }
 
 export type AIModelErrorCode = 'RATE_LIMIT' | 'AUTH' | 'CONTENT' | 'CAPABILITY' | 'TIMEOUT' | 'UNKNOWN';
@@ -56,6 +74,9 @@ export interface AIModelError {
   status?: number;        // HTTP / SDK status if available
   retryable: boolean;
   detail?: string;        // provider-specific message
+  retryAfterMs?: number;  // How long the provider asked us to wait before retrying (Retry-After)
+  // Usage of the calls that completed before the failure (e.g. earlier tool rounds); still billed
+  spent?: { tokens: TokenUsage; meta: ProviderMeta };
 }
 
 export type AIModelResult = AIModelSuccess | AIModelError;
@@ -71,12 +92,15 @@ export interface AIModelRequest {
   temperature?: number;
   streaming?: boolean;
   tools?: ToolCall[];
-  allowFallbackTools?: boolean;
+  toolTurns?: ToolTurn[]; // Tool rounds already executed for this prompt, replayed to the model in order
+  allowFallbackTools?: boolean; // Switch to a function-calling model when the chosen one lacks support
   requiredCapabilities?: string[]; 
   maxCostPerToken?: number; // This might be deprecated or re-evaluated with new cost logic
   priority?: number;
   estimatedInputTokens?: number;    // Optional: Estimated tokens for the input prompt + context
   estimatedOutputTokens?: number;   // Optional: Estimated tokens for the desired output/completion
+  deadlineMs?: number;              // Time budget for the request in ms; the router shares what is left among its attempts
+  abortSignal?: AbortSignal;        // Cancels the request, e.g. when the caller goes away or a hedged request loses
   context: RequestContext & { // Extend RequestContext specifically for this request type
     history?: ChatMessage[]; // Renamed from conversationHistory and using existing ChatMessage type
     // other existing fields from RequestContext like familyId, profileId, userRegion, etc.
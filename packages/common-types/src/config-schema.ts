@@ -2,6 +2,8 @@
  * Provider configuration schema
  * This defines the structure for configuration stored in the ProviderConfiguration DynamoDB table
  */
+import { AgeBand } from './core-interfaces';
+import { ModerationStrictness } from './moderation-interfaces';
 
 // Model-specific configuration
 export interface ModelConfig {
@@ -28,6 +30,8 @@ export interface ModelConfig {
 
   defaultTemperature?: number;
   systemPrompt?: string; // Added optional system prompt for the model
+  billingMultiplier?: number; // Billable tokens per token used (default 1), so pricier models cost families more
+  qualityRating?: number;   // Relative answer quality for routing, from 0 (worst) to 1 (best)
   notes?: string; // Any other notes or metadata
 }
 
@@ -45,6 +49,7 @@ export interface ProviderConfig {
   secretId: string;        // AWS Secrets Manager secret ID for API keys (template: kinable-{env}/{region}/{provider}/api-key)
   defaultModel?: string;    // Optional: Default model for this specific provider
   models: Record<string, ModelConfig>; // Available models from this provider, keyed by modelId
+  fallbackChain?: string[]; // Models to step through in order when one fails with a capability or context-length error, e.g. ["gpt-4o", "gpt-4o-mini"]
 
   // Optional provider-level settings, can be overridden by global routing if needed
   keyVersion?: number;      // Current key version (if provider supports key rotation via API)
@@ -53,10 +58,10 @@ export interface ProviderConfig {
     rpm?: number;           // Requests per minute
     tpm?: number;           // Tokens per minute
   };
-  retryConfig?: {
+  retryConfig?: {           // Retries of retryable errors, with jittered exponential backoff; none if omitted
     maxRetries: number;
     initialDelayMs: number;
-    maxDelayMs: number;
+    maxDelayMs: number;       // Longest wait between tries; a longer Retry-After fails over instead
   };
   apiVersion?: string;      // Provider API version to use (if applicable)
   rolloutPercentage?: number; // Percentage of users who should use this provider (0-100 for canary)
@@ -69,8 +74,8 @@ export interface RoutingRule {
   required?: string[];     // Required capabilities
   preferredProvider?: string; // Provider to prefer if requirements met
   // Cost rule
-  maxTokenCost?: number;   // Maximum token cost allowed
-  action?: 'useModel' | 'fallback' | 'reject'; // Action to take if cost exceeds limit
+  maxTokenCost?: number;   // Maximum estimated cost of a request (USD) allowed
+  action?: 'useModel' | 'fallback' | 'reject'; // Action to take on a candidate the rule matches
   model?: string;          // Model to use for 'useModel' action
   // Priority rule
   minPriority?: number;    // Minimum priority required
@@ -78,6 +83,59 @@ export interface RoutingRule {
   regions?: string[];      // Regions this rule applies to
 }
 
+/**
+ * Guardrails applied to every request from a profile in an age band.
+ * Policies only ever tighten a request: the caller cannot loosen them.
+ */
+export interface AgePolicy {
+  systemPrompt?: string;          // Prepended to any request or model system prompt
+  allowedModels?: string[];       // Model ids the band may use (any provider); all active models if omitted
+  maxTokens?: number;             // Upper bound on completion tokens
+  temperatureCap?: number;        // Upper bound on sampling temperature
+  moderationStrictness?: ModerationStrictness; // Defaults to 'standard'
+}
+
+/**
+ * Rolling summarization of long stored conversations.
+ * Once history outgrows its share of the target model's context window, the older turns are
+ * folded into a summary written by a cheap model, and only the latest turns are sent verbatim.
+ */
+export interface SummarizationConfig {
+  enabled: boolean;
+  triggerRatio: number;           // Share of the context window (0-1) history may use before it is summarized
+  keepRecentMessages: number;     // Latest messages always sent verbatim
+  maxSummaryTokens: number;       // Length limit for the summary
+  provider?: string;              // Provider and model that write summaries; the router chooses if omitted
+  model?: string;
+}
+
+/**
+ * Hedged requests for latency-sensitive chats. When the top-ranked candidate has not answered
+ * within `latencyPercent` of its provider's average latency, the same request is also sent to the
+ * next candidate from another provider; the first answer wins and the other call is aborted.
+ */
+export interface HedgingConfig {
+  enabled: boolean;
+  latencyPercent: number;         // Share of the provider's avgLatencyMs, in percent, to wait before hedging
+  minDelayMs?: number;            // Never hedge sooner than this
+  ageBands?: AgeBand[];           // Age bands whose chats are hedged; all if omitted
+}
+
+export type PlanTier = 'free' | 'family' | 'premium';
+
+/**
+ * A subscription plan. Families on a plan are granted its allowance at the start of each UTC month;
+ * unused plan tokens carry over up to the rollover cap, while purchased tokens never expire.
+ */
+export interface SubscriptionPlan {
+  tier: PlanTier;
+  name: string;                   // User-friendly name, e.g. "Family"
+  monthlyAllowance: number;       // Tokens granted each month
+  rolloverCap: number;            // Most unused plan tokens carried into the next month
+  allowedModels?: string[];       // Model ids the plan may use (any provider); all active models if omitted
+  disallowedModelAction?: 'downgrade' | 'reject'; // What happens when a request asks for a model outside the plan (default 'downgrade')
+}
+
 // Complete configuration structure for a single configId (e.g., "GLOBAL_AISERVICE_CONFIG_V1")
 // This represents the attributes of the DynamoDB item.
 export interface AiServiceConfiguration {
@@ -97,8 +155,12 @@ export interface AiServiceConfiguration {
     };
     providerPreferenceOrder: string[]; // Ordered list of provider names to try for fallback
     defaultModel?: string;   // Global default model if not specified by provider or request
+    hedging?: HedgingConfig; // Hedged requests; off if omitted
   };
   featureFlags?: Record<string, boolean>; // Feature flags
+  agePolicies?: Partial<Record<AgeBand, AgePolicy>>; // Guardrails per age band; bands without one are unrestricted
+  summarization?: Partial<SummarizationConfig>; // Overrides for DEFAULT_SUMMARIZATION_CONFIG
+  plans?: Record<string, SubscriptionPlan>; // Subscription plans, keyed by planId
 }
 
 // Default configuration values
@@ -109,6 +171,13 @@ export const DEFAULT_ROUTING_WEIGHTS = {
   availability: 0.1
 };
 
+export const DEFAULT_SUMMARIZATION_CONFIG: SummarizationConfig = {
+  enabled: true,
+  triggerRatio: 0.5,
+  keepRecentMessages: 6,
+  maxSummaryTokens: 400
+};
+
 // Validation functions (can be expanded as needed)
 export function validateAiServiceConfiguration(config: AiServiceConfiguration): string[] {
   const errors: string[] = [];
@@ -127,6 +196,23 @@ export function validateAiServiceConfiguration(config: AiServiceConfiguration):
     }
   }
   
+  (config.routing.rules || []).forEach((rule, index) => {
+    if (rule.type === 'capability' && (!rule.required || rule.required.length === 0)) errors.push(`Routing rule ${index} (capability) must list the required capabilities.`);
+    if (rule.type === 'costLimit' && (typeof rule.maxTokenCost !== 'number' || rule.maxTokenCost < 0)) errors.push(`Routing rule ${index} (costLimit) has invalid or missing maxTokenCost.`);
+    if (rule.type === 'priority' && typeof rule.minPriority !== 'number') errors.push(`Routing rule ${index} (priority) has invalid or missing minPriority.`);
+    if (rule.type === 'region' && (!rule.regions || rule.regions.length === 0)) errors.push(`Routing rule ${index} (region) must list the regions it applies to.`);
+    if (!['capability', 'costLimit', 'priority', 'region'].includes(rule.type)) errors.push(`Routing rule ${index} has unknown type: ${rule.type}`);
+    if (rule.action && !['useModel', 'fallback', 'reject'].includes(rule.action)) errors.push(`Routing rule ${index} has unknown action: ${rule.action}`);
+    if (rule.action === 'useModel' && !rule.model) errors.push(`Routing rule ${index} uses useModel but names no model.`);
+    if (rule.preferredProvider && !config.providers[rule.preferredProvider]) errors.push(`Routing rule ${index} prefers unknown provider "${rule.preferredProvider}".`);
+  });
+
+  const hedging = config.routing.hedging;
+  if (hedging) {
+    if (typeof hedging.latencyPercent !== 'number' || hedging.latencyPercent <= 0) errors.push('routing.hedging.latencyPercent must be a positive number.');
+    if (hedging.minDelayMs !== undefined && (typeof hedging.minDelayMs !== 'number' || hedging.minDelayMs < 0)) errors.push('routing.hedging.minDelayMs must be a non-negative number.');
+  }
+
   // Check that providerPreferenceOrder is not empty and all its providers exist
   if (!config.routing.providerPreferenceOrder || config.routing.providerPreferenceOrder.length === 0) {
     errors.push('routing.providerPreferenceOrder cannot be empty.');
@@ -153,6 +239,11 @@ export function validateAiServiceConfiguration(config: AiServiceConfiguration):
         errors.push(`Provider "${providerName}" secretId is missing or not correctly templated with {env} and {region}. Found: ${provider.secretId}`);
     }
 
+    const retry = provider.retryConfig;
+    if (retry && (!(retry.maxRetries >= 0) || !(retry.initialDelayMs >= 0) || !(retry.maxDelayMs >= retry.initialDelayMs))) {
+      errors.push(`Provider "${providerName}" has invalid retryConfig: maxRetries and initialDelayMs must not be negative, and maxDelayMs must be at least initialDelayMs.`);
+    }
+
     if (!provider.models || Object.keys(provider.models).length === 0) {
       errors.push(`Provider "${providerName}" has no models defined.`);
       return;
@@ -171,12 +262,19 @@ export function validateAiServiceConfiguration(config: AiServiceConfiguration):
       if (model.active === false && model.rolloutPercentage && model.rolloutPercentage > 0) {
          errors.push(`Model "${modelId}" for provider "${providerName}" has rolloutPercentage > 0 but is not active`);
       }
+      if (model.qualityRating !== undefined && (typeof model.qualityRating !== 'number' || model.qualityRating < 0 || model.qualityRating > 1)) {
+        errors.push(`Model "${modelId}" for provider "${providerName}" has invalid qualityRating: ${model.qualityRating}`);
+      }
       if (model.visionSupport === undefined) errors.push(`Model "${modelId}" for provider "${providerName}" must explicitly set visionSupport (true/false).`);
       if (model.streamingSupport === undefined) errors.push(`Model "${modelId}" for provider "${providerName}" must explicitly set streamingSupport (true/false).`);
       if (model.functionCallingSupport === undefined) errors.push(`Model "${modelId}" for provider "${providerName}" must explicitly set functionCallingSupport (true/false).`);
 
     });
 
+    (provider.fallbackChain || []).forEach(modelId => {
+      if (!provider.models[modelId]) errors.push(`Provider "${providerName}" fallbackChain model "${modelId}" not found in its models list.`);
+    });
+
     if (provider.defaultModel && !provider.models[provider.defaultModel]) {
       errors.push(`Provider "${providerName}" defaultModel "${provider.defaultModel}" not found in its models list.`);
     }
@@ -185,6 +283,12 @@ export function validateAiServiceConfiguration(config: AiServiceConfiguration):
     }
   });
 
+  Object.entries(config.plans || {}).forEach(([planId, plan]) => {
+    if (!Number.isInteger(plan.monthlyAllowance) || plan.monthlyAllowance < 0) errors.push(`Plan "${planId}" has invalid monthlyAllowance: ${plan.monthlyAllowance}`);
+    if (!Number.isInteger(plan.rolloverCap) || plan.rolloverCap < 0) errors.push(`Plan "${planId}" has invalid rolloverCap: ${plan.rolloverCap}`);
+    if (plan.allowedModels && plan.allowedModels.length === 0) errors.push(`Plan "${planId}" allows no models; omit allowedModels to allow all of them.`);
+  });
+
   if (config.routing.defaultModel) {
     let foundAndActive = false;
     for (const providerName of config.routing.providerPreferenceOrder) {
@@ -10,6 +10,11 @@ export interface IUserIdentity {
   region?: string | null; // User's primary region
 }
 
+/**
+ * Age band of a profile, used to pick age-appropriate moderation rules.
+ */
+export type AgeBand = 'under_9' | '9_12' | '13_15' | '16_17' | 'adult';
+
 /**
  * Context information for all request handling with tracing
  */
@@ -20,6 +25,11 @@ export interface RequestContext {
   profileId?: string;       // Profile ID from authenticated user
   region: string;           // Region handling the request
   traceId: string;          // For distributed tracing
+  userRegion?: string;      // User's home region, used to build regionalized keys
+  ageBand?: AgeBand;        // Age band of the calling profile, if known
+  role?: string;            // Role of the calling profile, e.g. 'guardian' or 'child'
+  tokenQuota?: TokenQuota;  // Token caps of the calling profile, if any
+  planId?: string;          // Subscription plan of the caller's family, if any
 }
 
 export interface IApiResponse<T = unknown> {
@@ -45,20 +55,129 @@ export interface IAuthProvider {
 
 export interface FamilyData {
   familyId: string;         // Partition Key
-  tokenBalance: number;
+  tokenBalance: number;     // All tokens the family can spend: plan tokens plus extraBalance
+  extraBalance?: number;    // Purchased tokens, spent after the plan tokens; debits leave it alone, so the extra left is min(extraBalance, tokenBalance)
   pauseStatusFamily: boolean;
+  planId?: string;          // Subscription plan (see AiServiceConfiguration.plans); none for pay-as-you-go families
+  planPeriodStart?: string; // Start of the month the last allowance was granted for
+  planRenewsAt?: string;    // When the next allowance is due
   // other family-wide settings can be added here
   createdAt?: string;
   updatedAt?: string;
   primaryRegion?: string;   // Primary region for the family
 }
 
+/**
+ * A single debit recorded in the TokenLedger table.
+ */
+export interface TokenLedgerEntry {
+  familyId: string;         // Partition Key (regionalized, e.g. FAMILY#us-east-2#id)
+  entryId: string;          // Sort Key: `${createdAt}#${requestId}` so entries list chronologically
+  profileId: string;
+  requestId: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  multiplier: number;
+  billedTokens: number;     // Tokens owed for the request: ceil(total tokens x multiplier)
+  debitedTokens: number;    // Tokens actually taken from the balance (less than billed if it ran out)
+  region: string;           // Home region the debit was written in
+  createdAt: string;
+  ttl?: number;             // Unix epoch seconds after which DynamoDB expires the entry
+}
+
+/**
+ * Tokens held against a family's balance while a request is in flight.
+ * Stored in the TokenLedger table; settled to actual usage or released when the request ends.
+ */
+export interface TokenReservation {
+  familyId: string;         // Partition Key (regionalized, e.g. FAMILY#us-east-2#id)
+  entryId: string;          // Sort Key: `RESERVATION#${requestId}`
+  profileId: string;
+  requestId: string;
+  reservedTokens: number;   // Tokens already taken from the balance
+  region: string;
+  createdAt: string;
+  ttl: number;              // Unix epoch seconds; an expired reservation is credited back to the family
+  quotaCounterIds?: string[]; // entryIds of the profile usage counters the reserved tokens were added to
+}
+
+/**
+ * Tokens a profile used in one quota window, stored in the TokenLedger table next to the family's
+ * entries. Each day and month has its own item, so usage starts from zero in the next window.
+ */
+export interface ProfileUsageCounter {
+  familyId: string;         // Partition Key (regionalized, e.g. FAMILY#us-east-2#id)
+  entryId: string;          // Sort Key: `USAGE#${profileId}#DAY#YYYY-MM-DD` or `USAGE#${profileId}#MONTH#YYYY-MM` (UTC)
+  profileId: string;
+  usedTokens: number;       // Billed tokens plus tokens held by open reservations
+  updatedAt: string;
+  ttl: number;              // Unix epoch seconds, set when the window's first tokens are counted
+}
+
+/**
+ * A chat conversation stored in the Conversations table.
+ */
+export interface ConversationRecord {
+  familyId: string;         // Partition Key (regionalized, e.g. FAMILY#us-east-2#id)
+  conversationId: string;   // Sort Key
+  profileId: string;        // Logical ID of the profile that owns the conversation
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;        // Time of the latest message; sort key of the by-profile index
+  summary?: string;         // Rolling summary of the earlier turns, sent in their place
+  summarizedThrough?: string; // messageId of the last message folded into the summary
+}
+
+/**
+ * A single turn of a conversation stored in the ConversationMessages table.
+ */
+export interface ConversationMessage {
+  conversationId: string;   // Partition Key
+  messageId: string;        // Sort Key: `${createdAt}#${index}#${suffix}` so messages list chronologically
+  familyId: string;         // Regionalized, as on the conversation
+  profileId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  model?: string;           // Model that produced an assistant turn
+  moderated?: boolean;      // True when moderation blocked the turn; a blocked reply holds the replacement text
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * A weekly time range in the schedule's timezone.
+ * A window whose end is earlier than its start runs past midnight into the next day.
+ */
+export interface UsageWindow {
+  days: Weekday[];          // Days the window starts on
+  start: string;            // Local start time, HH:MM (inclusive)
+  end: string;              // Local end time, HH:MM (exclusive); 24:00 for the end of the day
+}
+
+/**
+ * When a profile may use chat. Outside every window the authorizer denies requests.
+ */
+export interface UsageSchedule {
+  timezone: string;         // IANA timezone, e.g. America/Chicago
+  allowedWindows: UsageWindow[];
+}
+
 export interface ProfileData {
   profileId: string;        // Partition Key
   familyId: string;         // Will be used for a GSI to list profiles per family
   role: 'guardian' | 'child'; // Role within the family
   pauseStatusProfile: boolean;
   displayName?: string;
+  ageBand?: AgeBand;        // Drives age policies and moderation; takes precedence over birthYear
+  birthYear?: number;       // Used to derive the age band when ageBand is not set
+  cognitoUsername?: string; // Cognito user the profile signs in as
+  email?: string;           // Sign-in email of that user
+  usageSchedule?: UsageSchedule | null; // No schedule means chat is allowed at any time
+  tokenQuota?: TokenQuota | null; // Caps on the profile's own usage, beneath the family balance
   // other profile-specific settings
   createdAt?: string;
   updatedAt?: string;
@@ -175,4 +294,27 @@ export interface ILogger {
   log(message: string, ...args: unknown[]): void;
 }
 
-export type Constructor<T = object> = new (...args: unknown[]) => T; 
\ No newline at end of file
+export type Constructor<T = object> = new (...args: unknown[]) => T; 
+
+export type QuotaWindow = 'daily' | 'monthly';
+
+/**
+ * Caps on the billable tokens a profile may use per UTC day and month.
+ * A missing cap leaves that window limited only by the family balance.
+ */
+export interface TokenQuota {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface QuotaWindowStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;         // Start of the next window (ISO 8601, UTC)
+}
+
+/**
+ * Remaining quota of a profile, for the windows that have a cap.
+ */
+export type TokenQuotaStatus = Partial<Record<QuotaWindow, QuotaWindowStatus>>;
@@ -10,4 +10,7 @@ export enum SampleEnum {
 
 export * from './core-interfaces';
 export * from './config-schema';
-export * from './ai-interfaces'; 
\ No newline at end of file
+export * from './ai-interfaces';
+export * from './moderation-interfaces';
+export * from './notification-interfaces';
+export * from './payment-interfaces';
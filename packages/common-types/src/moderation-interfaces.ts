@@ -0,0 +1,81 @@
+import { AgeBand, RequestContext } from './core-interfaces';
+
+// Where in the request lifecycle the text is being screened
+export type ModerationStage = 'prompt' | 'response';
+
+/**
+ * How strictly to screen: 'strict' applies the rules for the youngest age band,
+ * 'standard' the rules for the profile's own band, and 'relaxed' only the rules
+ * that apply to every age band.
+ */
+export type ModerationStrictness = 'strict' | 'standard' | 'relaxed';
+
+export type ModerationCategory =
+  | 'profanity'
+  | 'violence'
+  | 'sexual'
+  | 'self_harm'
+  | 'hate'
+  | 'personal_info'
+  | 'custom';
+
+/**
+ * A rule for the rule-based moderation provider. A rule matches when any of its keywords
+ * (whole words, case-insensitive) or regex patterns is found in the text.
+ */
+export interface ModerationRule {
+  id: string;
+  category: ModerationCategory;
+  keywords?: string[];
+  patterns?: string[];        // Regular expression sources, compiled case-insensitive
+  ageBands?: AgeBand[];       // Age bands the rule applies to; all bands if omitted
+  stages?: ModerationStage[]; // Stages the rule applies to; both if omitted
+}
+
+export interface ModerationRequest {
+  text: string;
+  stage: ModerationStage;
+  ageBand?: AgeBand;          // Strictest rules apply when unknown
+  strictness?: ModerationStrictness; // Defaults to 'standard'
+  context: RequestContext;
+}
+
+export interface ModerationMatch {
+  ruleId: string;
+  category: ModerationCategory;
+}
+
+export interface ModerationResult {
+  allowed: boolean;
+  matches: ModerationMatch[];
+  replacementText?: string;   // Child-safe message to show instead of blocked text
+  provider: string;           // Name of the provider that made the decision
+}
+
+export interface IModerationProvider {
+  /**
+   * Screen a piece of text.
+   * @param request The text, the stage it comes from and who it is for.
+   * @returns Whether the text may be shown and, if not, a replacement message.
+   */
+  moderate(request: ModerationRequest): Promise<ModerationResult>;
+}
+
+/**
+ * A blocked prompt or response recorded in the ModerationLog table.
+ * The blocked text itself is not stored; only the rules it matched.
+ */
+export interface ModerationLogEntry {
+  familyId: string;           // Partition Key (regionalized, e.g. FAMILY#us-east-2#id)
+  logId: string;              // Sort Key: `${createdAt}#${requestId}#${stage}`
+  profileId: string;
+  requestId: string;
+  stage: ModerationStage;
+  ageBand?: AgeBand;
+  categories: ModerationCategory[];
+  ruleIds: string[];
+  provider: string;
+  region: string;
+  createdAt: string;
+  ttl?: number;               // Unix epoch seconds after which DynamoDB expires the entry
+}
@@ -0,0 +1,39 @@
+import { QuotaWindow } from './core-interfaces';
+
+export type UsageAlertKind = 'FAMILY_BALANCE' | 'PROFILE_QUOTA';
+
+/**
+ * Sent to a family's guardians when usage crosses an alert threshold, once per threshold and period.
+ */
+export interface UsageAlert {
+  kind: UsageAlertKind;
+  familyId: string;         // Logical family ID
+  profileId?: string;       // Logical ID of the profile whose quota the alert is about (PROFILE_QUOTA only)
+  window?: QuotaWindow;     // Quota window (PROFILE_QUOTA only)
+  period: string;           // Period the threshold was crossed in, e.g. MONTH#2026-10 or DAY#2026-10-19 (UTC)
+  threshold: number;        // Percent of the tokens used, e.g. 90
+  usedTokens: number;
+  limitTokens: number;      // Quota cap, or the balance the family started the period with
+  remainingTokens: number;
+  createdAt: string;
+}
+
+/**
+ * Delivers usage alerts to guardians.
+ */
+export interface INotifier {
+  notify(alert: UsageAlert): Promise<void>;
+}
+
+/**
+ * Which thresholds have been alerted on in a period, stored in the TokenLedger table next to the
+ * family's entries so each threshold is only sent once however many requests cross it.
+ */
+export interface UsageAlertState {
+  familyId: string;         // Partition Key (regionalized, e.g. FAMILY#us-east-2#id)
+  entryId: string;          // Sort Key: `ALERT#FAMILY#MONTH#YYYY-MM` or `ALERT#${profileId}#DAY#YYYY-MM-DD` (and #MONTH#)
+  notifiedThreshold?: number; // Highest threshold alerted on so far
+  baselineTokens?: number;  // Family alerts: the balance the period started with, raised by top-ups
+  updatedAt: string;
+  ttl: number;
+}
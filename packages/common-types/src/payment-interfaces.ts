@@ -0,0 +1,69 @@
+/**
+ * A one-off purchase of extra tokens.
+ */
+export interface BoosterPack {
+  packId: string;
+  name: string;
+  tokens: number;           // Tokens added to the family balance
+  priceCents: number;       // Price in the smallest unit of the currency
+  currency: string;         // ISO 4217 code, lowercase (e.g. usd)
+}
+
+export interface CheckoutSessionRequest {
+  familyId: string;         // Logical family ID
+  profileId: string;        // Logical ID of the guardian buying
+  userRegion: string;       // Home region of the family, needed to credit it
+  pack: BoosterPack;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  url: string;              // Hosted payment page to send the guardian to
+}
+
+/**
+ * Tokens a completed checkout pays for, taken from the session metadata.
+ */
+export interface TokenCredit {
+  familyId: string;         // Logical family ID
+  userRegion: string;
+  packId: string;
+  tokens: number;
+  amountCents: number;
+  currency: string;
+  sessionId: string;
+}
+
+export type WebhookParseResult =
+  | { ok: true; eventId: string; eventType: string; credit?: TokenCredit } // credit is set for paid checkouts only
+  | { ok: false; message: string };
+
+/**
+ * A payment provider: creates hosted checkout sessions and authenticates the webhooks it sends back.
+ */
+export interface IPaymentGateway {
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession>;
+  /**
+   * Verify a webhook's signature and read the event.
+   * @param payload The raw request body, exactly as received.
+   * @param signatureHeader The provider's signature header.
+   */
+  parseWebhook(payload: string, signatureHeader: string | undefined): WebhookParseResult;
+}
+
+/**
+ * A processed webhook event, stored in the BillingEvents table so a redelivered event is not credited twice.
+ */
+export interface BillingEventRecord {
+  eventId: string;          // Partition Key: the provider's event ID
+  eventType: string;
+  familyId: string;         // Regionalized, e.g. FAMILY#us-east-2#id
+  packId: string;
+  tokens: number;
+  amountCents: number;
+  currency: string;
+  sessionId: string;
+  processedAt: string;
+}